@@ -0,0 +1,196 @@
+import { PGlite } from '@electric-sql/pglite';
+import {
+  DATABASE_SETUP_TIMEOUT,
+  createClient,
+  createMaster,
+  createTestDatabase,
+  insertId
+} from './helpers/database';
+
+// Объединение дублей клиентов и обезличивание клиента
+
+let db: PGlite;
+let adminId: string;
+
+function buyParts(clientId: string, price: number) {
+  return insertId(db, 'SELECT create_parts_sale($1, $2, $3, $4) AS id', [
+    { client_id: clientId, client_name: 'Покупатель', client_phone: '+79990000000' },
+    JSON.stringify([{ part_name: 'Комплект колес', quantity: 1, price }]),
+    JSON.stringify([{ type: 'карта', amount: price }]),
+    adminId
+  ]);
+}
+
+function createVehicle(clientId: string, vin: string) {
+  return insertId(
+    db,
+    "INSERT INTO vehicles (client_id, make, model, plate, vin) VALUES ($1, 'Lada', 'Vesta', 'А123ВС77', $2) RETURNING id",
+    [clientId, vin]
+  );
+}
+
+function grantConsent(clientId: string) {
+  return db.query(
+    "INSERT INTO client_consents (client_id, type, granted, recorded_by) VALUES ($1, 'marketing_sms', true, $2)",
+    [clientId, adminId]
+  );
+}
+
+async function clientRow(clientId: string) {
+  const result = await db.query<{
+    name: string;
+    phone: string | null;
+    notes: string | null;
+    bonus_points: number;
+    tier: string;
+    anonymized_at: string | null;
+  }>(
+    `SELECT c.name, c.phone, c.notes, c.bonus_points, t.name AS tier, c.anonymized_at
+     FROM clients c
+     LEFT JOIN loyalty_tiers t ON t.id = c.loyalty_tier_id
+     WHERE c.id = $1`,
+    [clientId]
+  );
+  return result.rows[0];
+}
+
+beforeAll(async () => {
+  db = await createTestDatabase();
+  adminId = await createMaster(db, 'privacy@test.local', 'Администратор');
+}, DATABASE_SETUP_TIMEOUT);
+
+afterAll(async () => {
+  await db.close();
+});
+
+describe('merge_clients', () => {
+  it('переносит историю, баланс и уровень к основному клиенту', async () => {
+    const targetId = await createClient(db, '+79990000501', 'Иван Петров');
+    const sourceId = await createClient(db, '+79990000502', 'Петров Иван');
+    await db.query("UPDATE clients SET notes = 'Звонить после 18:00' WHERE id = $1", [sourceId]);
+    await buyParts(targetId, 25000);
+    const saleId = await buyParts(sourceId, 30000);
+    const vehicleId = await createVehicle(sourceId, 'XTA21180012345678');
+    await db.query(
+      "INSERT INTO client_notes (client_id, text, created_by) VALUES ($1, 'Просил перезвонить', $2)",
+      [sourceId, adminId]
+    );
+    await grantConsent(sourceId);
+
+    const before = await Promise.all([clientRow(targetId), clientRow(sourceId)]);
+    expect(before.map(row => row?.tier)).toEqual(['Базовый', 'Базовый']);
+
+    const mergeId = await insertId(db, 'SELECT merge_clients($1, $2, $3) AS id', [targetId, sourceId, adminId]);
+
+    expect(await clientRow(sourceId)).toBeUndefined();
+    expect(await clientRow(targetId)).toMatchObject({
+      notes: 'Звонить после 18:00',
+      bonus_points: (before[0]?.bonus_points ?? 0) + (before[1]?.bonus_points ?? 0),
+      tier: 'Серебряный'
+    });
+
+    const moved = await db.query<{ sale_client: string; vehicle_client: string; owners: string[] }>(
+      `SELECT
+         (SELECT client_id FROM parts_sales WHERE id = $1) AS sale_client,
+         (SELECT client_id FROM vehicles WHERE id = $2) AS vehicle_client,
+         (SELECT array_agg(client_id) FROM vehicle_owners WHERE vehicle_id = $2) AS owners`,
+      [saleId, vehicleId]
+    );
+    expect(moved.rows[0]).toEqual({ sale_client: targetId, vehicle_client: targetId, owners: [targetId] });
+
+    const merge = await db.query<{ moved: Record<string, number>; source_data: { phone: string } }>(
+      'SELECT moved, source_data FROM client_merges WHERE id = $1',
+      [mergeId]
+    );
+    expect(merge.rows[0]?.moved).toMatchObject({
+      parts_sales: 1,
+      vehicles: 1,
+      notes: 1,
+      consents: 1,
+      payments: 1,
+      loyalty_transactions: 1
+    });
+    expect(merge.rows[0]?.source_data.phone).toBe('+79990000502');
+  });
+
+  it('отклоняет объединение клиента с самим собой и с несуществующим', async () => {
+    const clientId = await createClient(db, '+79990000503');
+
+    await expect(db.query('SELECT merge_clients($1, $1, $2)', [clientId, adminId]))
+      .rejects.toMatchObject({ code: '22023' });
+    await expect(db.query('SELECT merge_clients($1, gen_random_uuid(), $2)', [clientId, adminId]))
+      .rejects.toMatchObject({ code: 'P0002' });
+  });
+});
+
+describe('anonymize_client', () => {
+  it('стирает персональные данные и отзывает согласия', async () => {
+    const clientId = await createClient(db, '+79990000601', 'Сергей Смирнов');
+    const duplicateId = await createClient(db, '+79990000602', 'Смирнов С.');
+    await db.query("UPDATE clients SET notes = 'Постоянный клиент', vin = 'XTA21180087654321' WHERE id = $1", [clientId]);
+    const vehicleId = await createVehicle(clientId, 'XTA21180087654321');
+    const saleId = await buyParts(clientId, 1000);
+    await db.query("INSERT INTO client_notes (client_id, text) VALUES ($1, 'Заметка')", [clientId]);
+    await grantConsent(clientId);
+    await db.query('SELECT merge_clients($1, $2, $3)', [clientId, duplicateId, adminId]);
+
+    await db.query('SELECT anonymize_client($1, $2)', [clientId, adminId]);
+
+    expect(await clientRow(clientId)).toMatchObject({
+      name: 'Клиент удален',
+      phone: null,
+      notes: null,
+      anonymized_at: expect.anything()
+    });
+
+    const traces = await db.query<{
+      plate: string | null;
+      vin: string | null;
+      client_phone: string | null;
+      notes: string;
+      merge_data: unknown;
+    }>(
+      `SELECT
+         (SELECT plate FROM vehicles WHERE id = $2) AS plate,
+         (SELECT vin FROM vehicles WHERE id = $2) AS vin,
+         (SELECT client_phone FROM parts_sales WHERE id = $3) AS client_phone,
+         (SELECT count(*) FROM client_notes WHERE client_id = $1)::TEXT AS notes,
+         (SELECT source_data FROM client_merges WHERE target_client_id = $1) AS merge_data`,
+      [clientId, vehicleId, saleId]
+    );
+    expect(traces.rows[0]).toEqual({
+      plate: null,
+      vin: null,
+      client_phone: null,
+      notes: '0',
+      merge_data: { anonymized: true }
+    });
+
+    const consents = await db.query<{ type: string; granted: boolean }>(
+      'SELECT type, granted FROM get_client_consents($1)',
+      [clientId]
+    );
+    expect(consents.rows).toEqual([{ type: 'marketing_sms', granted: false }]);
+
+    const requests = await db.query<{ type: string }>(
+      'SELECT type FROM client_data_requests WHERE client_id = $1',
+      [clientId]
+    );
+    expect(requests.rows).toEqual([{ type: 'anonymize' }]);
+
+    await expect(db.query('SELECT anonymize_client($1, $2)', [clientId, adminId]))
+      .rejects.toMatchObject({ code: '22023' });
+  });
+
+  it('не обезличивает клиента с незавершенным заказом', async () => {
+    const clientId = await createClient(db, '+79990000603');
+    await insertId(db, 'SELECT create_order_with_masters($1, $2) AS id', [
+      { client_id: clientId, services: [{ name: 'Шиномонтаж', price: 2000 }] },
+      JSON.stringify([{ master_id: adminId, percent: 100 }])
+    ]);
+
+    await expect(db.query('SELECT anonymize_client($1, $2)', [clientId, adminId]))
+      .rejects.toMatchObject({ code: '22023' });
+    expect(await clientRow(clientId)).toMatchObject({ phone: '+79990000603', anonymized_at: null });
+  });
+});
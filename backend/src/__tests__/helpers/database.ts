@@ -0,0 +1,49 @@
+import { readdirSync, readFileSync } from 'fs';
+import path from 'path';
+import { PGlite } from '@electric-sql/pglite';
+import { btree_gist } from '@electric-sql/pglite/contrib/btree_gist';
+import { pg_trgm } from '@electric-sql/pglite/contrib/pg_trgm';
+
+// База в памяти со всеми миграциями для тестов Postgres-функций
+
+const MIGRATIONS_DIR = path.resolve(__dirname, '../../../../database');
+
+// Функции auth.* есть в Supabase, для миграций достаточно заглушек
+const AUTH_SCHEMA = `
+  CREATE SCHEMA auth;
+  CREATE FUNCTION auth.uid() RETURNS UUID AS $$ SELECT NULL::UUID $$ LANGUAGE sql;
+  CREATE FUNCTION auth.jwt() RETURNS JSONB AS $$ SELECT '{}'::JSONB $$ LANGUAGE sql;
+`;
+
+// Применение миграций занимает несколько секунд
+export const DATABASE_SETUP_TIMEOUT = 120000;
+
+export async function createTestDatabase(): Promise<PGlite> {
+  const db = new PGlite({ extensions: { btree_gist, pg_trgm } });
+  await db.exec(AUTH_SCHEMA);
+
+  const migrations = readdirSync(MIGRATIONS_DIR).filter(file => file.endsWith('.sql')).sort();
+  for (const file of migrations) {
+    await db.exec(readFileSync(path.join(MIGRATIONS_DIR, file), 'utf8'));
+  }
+
+  return db;
+}
+
+// ID строки из INSERT ... RETURNING id или SELECT ... AS id
+export async function insertId(db: PGlite, sql: string, params: unknown[] = []): Promise<string> {
+  const result = await db.query<{ id: string }>(sql, params);
+  const [row] = result.rows;
+  if (!row) {
+    throw new Error('Строка не создана');
+  }
+  return row.id;
+}
+
+export function createClient(db: PGlite, phone: string, name = 'Тестовый клиент'): Promise<string> {
+  return insertId(db, 'INSERT INTO clients (name, phone) VALUES ($1, $2) RETURNING id', [name, phone]);
+}
+
+export function createMaster(db: PGlite, email: string, fullName = 'Мастер'): Promise<string> {
+  return insertId(db, 'INSERT INTO masters (email, full_name) VALUES ($1, $2) RETURNING id', [email, fullName]);
+}
@@ -0,0 +1,332 @@
+import { PGlite } from '@electric-sql/pglite';
+import {
+  DATABASE_SETUP_TIMEOUT,
+  createClient,
+  createMaster,
+  createTestDatabase,
+  insertId
+} from './helpers/database';
+
+// Складской учет: инвентаризация, приемка заказов поставщикам и автозаказ
+
+let db: PGlite;
+let directorId: string;
+let warehouseId: string;
+let partCounter = 0;
+
+function createPart(purchasePrice = 100) {
+  partCounter += 1;
+  return insertId(
+    db,
+    'INSERT INTO parts (part_number, name, purchase_price, retail_price) VALUES ($1, $2, $3, $4) RETURNING id',
+    [`TEST-${partCounter}`, `Запчасть ${partCounter}`, purchasePrice, purchasePrice * 2]
+  );
+}
+
+function addMovement(partId: string, type: string, quantity: number) {
+  return db.query(
+    'INSERT INTO stock_movements (part_id, warehouse_id, type, quantity) VALUES ($1, $2, $3, $4)',
+    [partId, warehouseId, type, quantity]
+  );
+}
+
+async function stockOf(partId: string): Promise<number> {
+  const result = await db.query<{ quantity: string }>(
+    'SELECT quantity FROM part_stock WHERE part_id = $1 AND warehouse_id = $2',
+    [partId, warehouseId]
+  );
+  return Number(result.rows[0]?.quantity ?? 0);
+}
+
+beforeAll(async () => {
+  db = await createTestDatabase();
+  directorId = await createMaster(db, 'director@test.local', 'Директор');
+  warehouseId = await insertId(db, 'SELECT default_warehouse_id() AS id');
+}, DATABASE_SETUP_TIMEOUT);
+
+afterAll(async () => {
+  await db.close();
+});
+
+describe('approve_stocktake', () => {
+  function startStocktake(isFull: boolean) {
+    return insertId(
+      db,
+      'INSERT INTO stocktakes (warehouse_id, is_full, created_by) VALUES ($1, $2, $3) RETURNING id',
+      [warehouseId, isFull, directorId]
+    );
+  }
+
+  function saveCounts(stocktakeId: string, items: unknown[]) {
+    return db.query('SELECT save_stocktake_counts($1, $2, $3)', [
+      stocktakeId,
+      JSON.stringify(items),
+      directorId
+    ]);
+  }
+
+  async function variance(stocktakeId: string) {
+    const result = await db.query<{ part_id: string; book_quantity: string; difference: string }>(
+      'SELECT part_id, book_quantity, difference FROM get_stocktake_variance($1)',
+      [stocktakeId]
+    );
+    return Object.fromEntries(result.rows.map(row => [
+      row.part_id,
+      { book: Number(row.book_quantity), difference: Number(row.difference) }
+    ]));
+  }
+
+  it('считает расхождение от остатка на момент пересчета', async () => {
+    const partId = await createPart();
+    await addMovement(partId, 'receipt', 10);
+    const stocktakeId = await startStocktake(false);
+
+    await saveCounts(stocktakeId, [{ part_id: partId, counted_quantity: 8 }]);
+    // Списание после пересчета не входит в расхождение
+    await addMovement(partId, 'write_off', -3);
+
+    expect(await variance(stocktakeId)).toEqual({ [partId]: { book: 10, difference: -2 } });
+
+    await db.query('SELECT approve_stocktake($1, $2)', [stocktakeId, directorId]);
+
+    expect(await stockOf(partId)).toBe(5);
+    expect(await variance(stocktakeId)).toEqual({ [partId]: { book: 10, difference: -2 } });
+  });
+
+  it('суммирует места хранения и берет остаток последнего ввода', async () => {
+    const partId = await createPart();
+    await addMovement(partId, 'receipt', 10);
+    const stocktakeId = await startStocktake(false);
+
+    await saveCounts(stocktakeId, [{ part_id: partId, location: 'A-1', counted_quantity: 4 }]);
+    await addMovement(partId, 'write_off', -1);
+    await saveCounts(stocktakeId, [{ part_id: partId, location: 'A-2', counted_quantity: 4 }]);
+
+    expect(await variance(stocktakeId)).toEqual({ [partId]: { book: 9, difference: -1 } });
+
+    await db.query('SELECT approve_stocktake($1, $2)', [stocktakeId, directorId]);
+
+    expect(await stockOf(partId)).toBe(8);
+  });
+
+  it('при полной инвентаризации списывает непересчитанные запчасти', async () => {
+    const countedId = await createPart();
+    const missingId = await createPart();
+    await addMovement(countedId, 'receipt', 3);
+    await addMovement(missingId, 'receipt', 2);
+    const stocktakeId = await startStocktake(true);
+
+    await saveCounts(stocktakeId, [{ part_id: countedId, counted_quantity: 4 }]);
+    await db.query('SELECT approve_stocktake($1, $2)', [stocktakeId, directorId]);
+
+    expect(await stockOf(countedId)).toBe(4);
+    expect(await stockOf(missingId)).toBe(0);
+  });
+
+  it('не утверждает инвентаризацию без пересчета и повторно', async () => {
+    const stocktakeId = await startStocktake(false);
+
+    await expect(db.query('SELECT approve_stocktake($1, $2)', [stocktakeId, directorId]))
+      .rejects.toMatchObject({ code: '22023' });
+
+    const partId = await createPart();
+    await saveCounts(stocktakeId, [{ part_id: partId, counted_quantity: 1 }]);
+    await db.query('SELECT approve_stocktake($1, $2)', [stocktakeId, directorId]);
+
+    await expect(db.query('SELECT approve_stocktake($1, $2)', [stocktakeId, directorId]))
+      .rejects.toMatchObject({ code: '22023' });
+    await expect(saveCounts(stocktakeId, [{ part_id: partId, counted_quantity: 2 }]))
+      .rejects.toMatchObject({ code: '22023' });
+  });
+});
+
+describe('receive_purchase_order', () => {
+  let supplierId: string;
+
+  beforeAll(async () => {
+    supplierId = await insertId(db, "INSERT INTO suppliers (name) VALUES ('Запчасти опт') RETURNING id");
+  });
+
+  async function orderParts(items: Array<{ part_id: string; quantity: number; order_id?: string }>) {
+    const purchaseOrderId = await insertId(db, 'SELECT create_purchase_order($1, $2, $3) AS id', [
+      { supplier_id: supplierId },
+      JSON.stringify(items),
+      directorId
+    ]);
+    await db.query("UPDATE purchase_orders SET status = 'ordered' WHERE id = $1", [purchaseOrderId]);
+    return purchaseOrderId;
+  }
+
+  function receive(purchaseOrderId: string, items: unknown[] | null) {
+    return db.query<{ customer_order_id: string; resumed: boolean }>(
+      'SELECT * FROM receive_purchase_order($1, $2, $3)',
+      [purchaseOrderId, items && JSON.stringify(items), directorId]
+    );
+  }
+
+  async function statusOf(purchaseOrderId: string): Promise<string | undefined> {
+    const result = await db.query<{ status: string }>(
+      'SELECT status FROM purchase_orders WHERE id = $1',
+      [purchaseOrderId]
+    );
+    return result.rows[0]?.status;
+  }
+
+  let clientCounter = 0;
+
+  async function createWaitingOrder() {
+    clientCounter += 1;
+    const clientId = await createClient(db, `+7999000040${clientCounter}`);
+    const orderId = await insertId(db, 'SELECT create_order_with_masters($1, $2) AS id', [
+      { client_id: clientId, services: [{ name: 'Замена стоек', price: 3000 }] },
+      JSON.stringify([{ master_id: directorId, percent: 100 }])
+    ]);
+    await db.query("UPDATE orders SET status = 'ожидание_деталей' WHERE id = $1", [orderId]);
+    return orderId;
+  }
+
+  it('приходует принятые позиции и закрывает заказ после полной приемки', async () => {
+    const partId = await createPart(80);
+    const purchaseOrderId = await orderParts([{ part_id: partId, quantity: 5 }]);
+    const itemId = await insertId(
+      db,
+      'SELECT id FROM purchase_order_items WHERE purchase_order_id = $1',
+      [purchaseOrderId]
+    );
+
+    await receive(purchaseOrderId, [{ item_id: itemId, quantity: 2 }]);
+
+    expect(await statusOf(purchaseOrderId)).toBe('partially_received');
+    expect(await stockOf(partId)).toBe(2);
+
+    await expect(receive(purchaseOrderId, [{ item_id: itemId, quantity: 4 }]))
+      .rejects.toMatchObject({ code: '22023' });
+
+    await receive(purchaseOrderId, null);
+
+    expect(await statusOf(purchaseOrderId)).toBe('received');
+    expect(await stockOf(partId)).toBe(5);
+
+    await expect(receive(purchaseOrderId, null)).rejects.toMatchObject({ code: '22023' });
+  });
+
+  it('не принимает черновик и позиции другого заказа', async () => {
+    const partId = await createPart();
+    const draftId = await insertId(db, 'SELECT create_purchase_order($1, $2, $3) AS id', [
+      { supplier_id: supplierId },
+      JSON.stringify([{ part_id: partId, quantity: 1 }]),
+      directorId
+    ]);
+
+    await expect(receive(draftId, null)).rejects.toMatchObject({ code: '22023' });
+
+    const purchaseOrderId = await orderParts([{ part_id: partId, quantity: 1 }]);
+    const foreignItemId = await insertId(
+      db,
+      'SELECT id FROM purchase_order_items WHERE purchase_order_id = $1',
+      [draftId]
+    );
+
+    await expect(receive(purchaseOrderId, [{ item_id: foreignItemId, quantity: 1 }]))
+      .rejects.toMatchObject({ code: '22023' });
+  });
+
+  it('переводит заказ клиента в работу, когда получены все его детали', async () => {
+    const orderId = await createWaitingOrder();
+    const first = await createPart();
+    const second = await createPart();
+    const purchaseOrderId = await orderParts([
+      { part_id: first, quantity: 1, order_id: orderId },
+      { part_id: second, quantity: 2, order_id: orderId }
+    ]);
+    const items = await db.query<{ id: string; part_id: string }>(
+      'SELECT id, part_id FROM purchase_order_items WHERE purchase_order_id = $1',
+      [purchaseOrderId]
+    );
+    const firstItem = items.rows.find(item => item.part_id === first);
+
+    const partial = await receive(purchaseOrderId, [{ item_id: firstItem?.id, quantity: 1 }]);
+
+    expect(partial.rows).toEqual([{ customer_order_id: orderId, resumed: false }]);
+
+    const full = await receive(purchaseOrderId, null);
+
+    expect(full.rows).toEqual([{ customer_order_id: orderId, resumed: true }]);
+    const order = await db.query<{ status: string }>('SELECT status FROM orders WHERE id = $1', [orderId]);
+    expect(order.rows[0]?.status).toBe('в_работе');
+
+    const notified = await db.query<{ user_id: string }>(
+      "SELECT user_id FROM notifications WHERE type = 'order_parts_received' AND entity_id = $1",
+      [orderId]
+    );
+    expect(notified.rows).toContainEqual({ user_id: directorId });
+  });
+
+  it('без мастеров только уведомляет о поступлении деталей', async () => {
+    const orderId = await createWaitingOrder();
+    await db.query('DELETE FROM order_masters WHERE order_id = $1', [orderId]);
+    const purchaseOrderId = await orderParts([{ part_id: await createPart(), quantity: 1, order_id: orderId }]);
+
+    const result = await receive(purchaseOrderId, null);
+
+    expect(result.rows).toEqual([{ customer_order_id: orderId, resumed: false }]);
+    const order = await db.query<{ status: string }>('SELECT status FROM orders WHERE id = $1', [orderId]);
+    expect(order.rows[0]?.status).toBe('ожидание_деталей');
+    const notified = await db.query(
+      "SELECT 1 FROM notifications WHERE type = 'order_parts_received' AND entity_id = $1",
+      [orderId]
+    );
+    expect(notified.rows.length).toBeGreaterThan(0);
+  });
+});
+
+describe('create_reorder_purchase_orders', () => {
+  interface ReorderRun {
+    suggestions: Array<{ part_id: string; supplier_id: string | null; order_quantity: number }>;
+    purchase_orders: Array<{ purchase_order_id: string; supplier_id: string; items_count: number }>;
+  }
+
+  async function runReorder(): Promise<ReorderRun> {
+    const result = await db.query<{ run: ReorderRun }>(
+      'SELECT create_reorder_purchase_orders($1) AS run',
+      [directorId]
+    );
+    return result.rows[0]!.run;
+  }
+
+  it('создает черновики по тому же расчету, что и возвращаемые предложения', async () => {
+    const supplierId = await insertId(
+      db,
+      "INSERT INTO suppliers (name, delivery_days) VALUES ('Автодеталь', 3) RETURNING id"
+    );
+    const supplied = await createPart(50);
+    const orphan = await createPart(70);
+    await db.query('UPDATE parts SET min_quantity = 5, max_quantity = 10, supplier_id = $2 WHERE id = $1', [supplied, supplierId]);
+    await db.query('UPDATE parts SET min_quantity = 3 WHERE id = $1', [orphan]);
+    await addMovement(supplied, 'receipt', 2);
+
+    const first = await runReorder();
+
+    expect(first.suggestions).toEqual(expect.arrayContaining([
+      expect.objectContaining({ part_id: supplied, supplier_id: supplierId, order_quantity: 8 }),
+      expect.objectContaining({ part_id: orphan, supplier_id: null, order_quantity: 3 })
+    ]));
+    expect(first.suggestions[0]).not.toHaveProperty('reserved');
+    expect(first.purchase_orders).toEqual([
+      { purchase_order_id: expect.any(String), supplier_id: supplierId, items_count: 1 }
+    ]);
+
+    const items = await db.query<{ part_id: string; quantity: string; unit_cost: string }>(
+      'SELECT part_id, quantity, unit_cost FROM purchase_order_items WHERE purchase_order_id = $1',
+      [first.purchase_orders[0]!.purchase_order_id]
+    );
+    expect(items.rows.map(row => [row.part_id, Number(row.quantity), Number(row.unit_cost)]))
+      .toEqual([[supplied, 8, 50]]);
+
+    // Черновик входит в ожидаемый остаток, повторный запуск заказ не дублирует
+    const second = await runReorder();
+
+    expect(second.suggestions.map(part => part.part_id)).toEqual([orphan]);
+    expect(second.purchase_orders).toEqual([]);
+  });
+});
@@ -0,0 +1,226 @@
+import { PGlite } from '@electric-sql/pglite';
+import {
+  DATABASE_SETUP_TIMEOUT,
+  createClient,
+  createMaster,
+  createTestDatabase,
+  insertId
+} from './helpers/database';
+
+// Начисление, списание бонусов и уровни программы лояльности
+
+let db: PGlite;
+let sellerId: string;
+
+async function bonusPoints(clientId: string): Promise<number> {
+  const result = await db.query<{ bonus_points: number }>(
+    'SELECT bonus_points FROM clients WHERE id = $1',
+    [clientId]
+  );
+  return result.rows[0]?.bonus_points ?? 0;
+}
+
+function addPoints(clientId: string, points: number) {
+  return db.query(
+    'INSERT INTO loyalty_transactions (client_id, type, points) VALUES ($1, $2, $3)',
+    [clientId, 'adjustment', points]
+  );
+}
+
+function createSale(clientId: string | null, payments: Array<{ type: string; amount: number }>) {
+  return insertId(db, 'SELECT create_parts_sale($1, $2, $3, $4) AS id', [
+    { client_id: clientId },
+    JSON.stringify([{ part_name: 'Масляный фильтр', quantity: 2, price: 500 }]),
+    JSON.stringify(payments),
+    sellerId
+  ]);
+}
+
+async function saleAccrual(saleId: string): Promise<number[]> {
+  const result = await db.query<{ points: number }>(
+    'SELECT points FROM loyalty_transactions WHERE parts_sale_id = $1 AND type = $2',
+    [saleId, 'accrual']
+  );
+  return result.rows.map(row => row.points);
+}
+
+beforeAll(async () => {
+  db = await createTestDatabase();
+  sellerId = await createMaster(db, 'seller@test.local', 'Продавец');
+}, DATABASE_SETUP_TIMEOUT);
+
+afterAll(async () => {
+  await db.close();
+});
+
+describe('начисление за продажу запчастей', () => {
+  it('не начисляет бонусы за часть чека, оплаченную бонусами', async () => {
+    const clientId = await createClient(db, '+79990000101');
+    await addPoints(clientId, 1000);
+
+    const saleId = await createSale(clientId, [{ type: 'бонусы', amount: 1000 }]);
+
+    expect(await saleAccrual(saleId)).toEqual([]);
+    expect(await bonusPoints(clientId)).toBe(0);
+  });
+
+  it('начисляет процент уровня от суммы без оплаты бонусами', async () => {
+    const clientId = await createClient(db, '+79990000102');
+    await addPoints(clientId, 400);
+
+    const saleId = await createSale(clientId, [
+      { type: 'бонусы', amount: 400 },
+      { type: 'карта', amount: 600 }
+    ]);
+
+    // Базовый уровень: 3% от 600
+    expect(await saleAccrual(saleId)).toEqual([18]);
+    expect(await bonusPoints(clientId)).toBe(18);
+  });
+
+  it('начисляет после оплаты неоплаченного чека', async () => {
+    const clientId = await createClient(db, '+79990000103');
+    await addPoints(clientId, 500);
+    const saleId = await createSale(clientId, []);
+
+    expect(await saleAccrual(saleId)).toEqual([]);
+
+    await db.query(
+      'INSERT INTO payments (parts_sale_id, amount, type) VALUES ($1, $2, $3)',
+      [saleId, 500, 'наличные']
+    );
+    expect(await saleAccrual(saleId)).toEqual([]);
+
+    await db.query(
+      'INSERT INTO payments (parts_sale_id, amount, type) VALUES ($1, $2, $3)',
+      [saleId, 500, 'бонусы']
+    );
+    expect(await saleAccrual(saleId)).toEqual([15]);
+    expect(await bonusPoints(clientId)).toBe(15);
+  });
+
+  it('не начисляет бонусы продаже без клиента', async () => {
+    const saleId = await createSale(null, [{ type: 'наличные', amount: 1000 }]);
+
+    expect(await saleAccrual(saleId)).toEqual([]);
+  });
+});
+
+describe('оплата бонусами', () => {
+  function payOrder(orderId: string, amount: number, type = 'бонусы') {
+    return insertId(
+      db,
+      'INSERT INTO payments (order_id, amount, type) VALUES ($1, $2, $3) RETURNING id',
+      [orderId, amount, type]
+    );
+  }
+
+  function createOrder(clientId: string) {
+    return insertId(db, 'SELECT create_order_with_masters($1, $2) AS id', [
+      { client_id: clientId, services: [{ name: 'Диагностика подвески', price: 1500 }] },
+      JSON.stringify([{ master_id: sellerId, percent: 100 }])
+    ]);
+  }
+
+  it('списывает бонусы с баланса и отменяет списание при удалении оплаты', async () => {
+    const clientId = await createClient(db, '+79990000104');
+    await addPoints(clientId, 700);
+    const orderId = await createOrder(clientId);
+
+    const paymentId = await payOrder(orderId, 500);
+
+    expect(await bonusPoints(clientId)).toBe(200);
+
+    await db.query('DELETE FROM payments WHERE id = $1', [paymentId]);
+
+    expect(await bonusPoints(clientId)).toBe(700);
+    const journal = await db.query<{ type: string; points: number }>(
+      'SELECT type, points FROM loyalty_transactions WHERE order_id = $1 ORDER BY created_at, type',
+      [orderId]
+    );
+    expect(journal.rows).toEqual([
+      { type: 'redemption', points: -500 },
+      { type: 'refund', points: 500 }
+    ]);
+  });
+
+  it('отклоняет оплату больше баланса и дробную сумму', async () => {
+    const clientId = await createClient(db, '+79990000105');
+    await addPoints(clientId, 100);
+    const orderId = await createOrder(clientId);
+
+    await expect(payOrder(orderId, 101)).rejects.toMatchObject({ code: '22023' });
+    await expect(payOrder(orderId, 50.5)).rejects.toMatchObject({ code: '22023' });
+    expect(await bonusPoints(clientId)).toBe(100);
+  });
+
+  it('не начисляет бонусы за часть заказа, оплаченную бонусами', async () => {
+    const clientId = await createClient(db, '+79990000106');
+    await addPoints(clientId, 500);
+    const orderId = await createOrder(clientId);
+    await payOrder(orderId, 500);
+    await payOrder(orderId, 1000, 'наличные');
+
+    await db.query('SELECT update_order_with_masters($1, $2)', [orderId, { status: 'выдан' }]);
+    await db.query('SELECT update_order_with_masters($1, $2)', [orderId, { status: 'закрыт' }]);
+
+    // Базовый уровень: 3% от 1000
+    expect(await bonusPoints(clientId)).toBe(30);
+  });
+});
+
+describe('уровни клиентов', () => {
+  async function tierOf(clientId: string): Promise<string | undefined> {
+    const result = await db.query<{ name: string }>(
+      'SELECT t.name FROM clients c JOIN loyalty_tiers t ON t.id = c.loyalty_tier_id WHERE c.id = $1',
+      [clientId]
+    );
+    return result.rows[0]?.name;
+  }
+
+  it('новый клиент получает начальный уровень, покупки повышают уровень', async () => {
+    const clientId = await createClient(db, '+79990000107');
+
+    expect(await tierOf(clientId)).toBe('Базовый');
+
+    await insertId(db, 'SELECT create_parts_sale($1, $2, $3, $4) AS id', [
+      { client_id: clientId },
+      JSON.stringify([{ part_name: 'Аккумулятор', quantity: 1, price: 40000 }]),
+      '[]',
+      sellerId
+    ]);
+    expect(await tierOf(clientId)).toBe('Базовый');
+
+    const orderId = await insertId(db, 'SELECT create_order_with_masters($1, $2) AS id', [
+      { client_id: clientId, services: [{ name: 'Ремонт двигателя', price: 120000 }] },
+      JSON.stringify([{ master_id: sellerId, percent: 100 }])
+    ]);
+    expect(await tierOf(clientId)).toBe('Базовый');
+
+    await db.query('INSERT INTO payments (order_id, amount, type) VALUES ($1, $2, $3)', [orderId, 120000, 'карта']);
+    await db.query('SELECT update_order_with_masters($1, $2)', [orderId, { status: 'выдан' }]);
+
+    expect(await tierOf(clientId)).toBe('Золотой');
+  });
+
+  it('пересчитывает уровни всех клиентов после изменения порогов', async () => {
+    const clientId = await createClient(db, '+79990000108');
+    await insertId(db, 'SELECT create_parts_sale($1, $2, $3, $4) AS id', [
+      { client_id: clientId },
+      JSON.stringify([{ part_name: 'Комплект дисков', quantity: 1, price: 30000 }]),
+      '[]',
+      sellerId
+    ]);
+
+    await db.query("UPDATE loyalty_tiers SET min_spend = 25000 WHERE name = 'Серебряный'");
+    try {
+      const changed = await db.query<{ changed: number }>('SELECT recalculate_loyalty_tiers() AS changed');
+
+      expect(changed.rows[0]?.changed).toBeGreaterThanOrEqual(1);
+      expect(await tierOf(clientId)).toBe('Серебряный');
+    } finally {
+      await db.query("UPDATE loyalty_tiers SET min_spend = 50000 WHERE name = 'Серебряный'");
+      await db.query('SELECT recalculate_loyalty_tiers()');
+    }
+  });
+});
@@ -0,0 +1,137 @@
+import { StatusTransitionError } from '@/middleware/errorHandler';
+import {
+  assertOrderStatusTransition,
+  getAllowedTransitions
+} from '@/services/orderStatusService';
+
+interface QueryResult {
+  data?: Array<{ amount: number }>;
+  count?: number;
+  error?: { message: string } | null;
+}
+
+// Ответы Supabase по таблицам для текущего теста
+let mockTables: Record<string, QueryResult> = {};
+
+// Цепочка запроса Supabase: фильтры игнорируются, await отдает ответ таблицы
+jest.mock('@/config/database', () => ({
+  supabase: {
+    from: (table: string) => {
+      const query = {
+        select: () => query,
+        eq: () => query,
+        then: (resolve: (value: QueryResult) => unknown) =>
+          resolve({ data: [], count: 0, error: null, ...mockTables[table] })
+      };
+      return query;
+    }
+  }
+}));
+
+const ORDER = { id: 'order-1', total: 5000 };
+
+async function transitionError(
+  status: Parameters<typeof assertOrderStatusTransition>[0]['status'],
+  to: string,
+  role: string
+): Promise<StatusTransitionError | undefined> {
+  try {
+    await assertOrderStatusTransition({ ...ORDER, status }, to as typeof status, role);
+    return undefined;
+  } catch (error) {
+    if (error instanceof StatusTransitionError) {
+      return error;
+    }
+    throw error;
+  }
+}
+
+beforeEach(() => {
+  mockTables = {
+    order_masters: { count: 1 },
+    estimates: { count: 1 },
+    payments: { data: [{ amount: 5000 }] }
+  };
+});
+
+describe('граф переходов', () => {
+  it('разрешает переходы по графу', async () => {
+    await expect(transitionError('новый', 'принял', 'master')).resolves.toBeUndefined();
+    await expect(transitionError('в_работе', 'готово', 'master')).resolves.toBeUndefined();
+    await expect(transitionError('готово', 'в_работе', 'master')).resolves.toBeUndefined();
+    await expect(transitionError('выдан', 'закрыт', 'director')).resolves.toBeUndefined();
+  });
+
+  it('отклоняет переходы вне графа со списком допустимых', async () => {
+    const error = await transitionError('новый', 'готово', 'admin');
+
+    expect(error?.details).toEqual({
+      from: 'новый',
+      to: 'готово',
+      allowed: ['принял', 'диагностика']
+    });
+    await expect(transitionError('закрыт', 'в_работе', 'director')).resolves.toBeInstanceOf(StatusTransitionError);
+  });
+
+  it('отклоняет неизвестный статус', async () => {
+    const error = await transitionError('новый', 'архив', 'admin');
+
+    expect(error?.message).toBe('Неверный статус');
+  });
+});
+
+describe('роли', () => {
+  it('выдачу и закрытие выполняют только администратор и директор', async () => {
+    const error = await transitionError('готово', 'выдан', 'master');
+
+    expect(error?.details).toEqual({ from: 'готово', to: 'выдан', roles: ['admin', 'director'] });
+    await expect(transitionError('выдан', 'закрыт', 'master')).resolves.toBeInstanceOf(StatusTransitionError);
+    await expect(transitionError('готово', 'выдан', 'admin')).resolves.toBeUndefined();
+  });
+
+  it('список допустимых переходов зависит от роли', () => {
+    expect(getAllowedTransitions('готово', 'master')).toEqual(['в_работе']);
+    expect(getAllowedTransitions('готово', 'director')).toEqual(['в_работе', 'ожидание_оплаты', 'выдан']);
+  });
+});
+
+describe('условия переходов', () => {
+  it('masters_assigned: в работу только с назначенными мастерами', async () => {
+    mockTables['order_masters'] = { count: 0 };
+
+    const error = await transitionError('принял', 'в_работе', 'master');
+
+    expect(error?.details).toMatchObject({ precondition: 'masters_assigned' });
+    await expect(transitionError('в_работе', 'готово', 'master')).resolves.toBeUndefined();
+  });
+
+  it('payment_covered: выдача только при оплате с учетом долга', async () => {
+    mockTables['payments'] = { data: [{ amount: 3000 }] };
+
+    const error = await transitionError('готово', 'выдан', 'admin');
+    expect(error?.details).toMatchObject({ precondition: 'payment_covered' });
+
+    mockTables['debts'] = { data: [{ amount: 1999 }] };
+    await expect(transitionError('готово', 'выдан', 'admin')).resolves.toBeInstanceOf(StatusTransitionError);
+
+    mockTables['debts'] = { data: [{ amount: 2000 }] };
+    await expect(transitionError('готово', 'выдан', 'admin')).resolves.toBeUndefined();
+  });
+
+  it('estimate_approved: из диагностики в работу только с согласованной сметой', async () => {
+    mockTables['estimates'] = { count: 0 };
+
+    const error = await transitionError('диагностика', 'в_работе', 'master');
+
+    expect(error?.details).toMatchObject({ precondition: 'estimate_approved' });
+    await expect(transitionError('принял', 'в_работе', 'master')).resolves.toBeUndefined();
+  });
+
+  it('ошибка запроса прерывает проверку перехода', async () => {
+    mockTables['order_masters'] = { error: { message: 'timeout' } };
+
+    await expect(
+      assertOrderStatusTransition({ ...ORDER, status: 'принял' }, 'в_работе', 'master')
+    ).rejects.toThrow('Ошибка проверки мастеров заказа: timeout');
+  });
+});
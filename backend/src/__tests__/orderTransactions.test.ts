@@ -0,0 +1,259 @@
+import { PGlite } from '@electric-sql/pglite';
+import {
+  DATABASE_SETUP_TIMEOUT,
+  createClient,
+  createMaster,
+  createTestDatabase,
+  insertId
+} from './helpers/database';
+
+// Создание и изменение заказа с мастерами выполняются одной транзакцией:
+// ошибка в строке мастера не должна оставлять заказ, мастеров или историю статусов
+
+const UNKNOWN_MASTER_ID = '00000000-0000-0000-0000-000000000000';
+
+let db: PGlite;
+let clientId: string;
+let firstMasterId: string;
+let secondMasterId: string;
+
+async function countRows(): Promise<Record<string, number>> {
+  const result = await db.query<{ orders: number; order_masters: number; order_status_history: number }>(`
+    SELECT
+      (SELECT count(*) FROM orders)::INTEGER AS orders,
+      (SELECT count(*) FROM order_masters)::INTEGER AS order_masters,
+      (SELECT count(*) FROM order_status_history)::INTEGER AS order_status_history
+  `);
+  return { ...result.rows[0] };
+}
+
+function createOrder(masters: unknown[]) {
+  return db.query<{ id: string }>(
+    'SELECT create_order_with_masters($1, $2) AS id',
+    [
+      { client_id: clientId, services: [{ name: 'Диагностика', price: 1500 }] },
+      JSON.stringify(masters)
+    ]
+  );
+}
+
+function updateOrder(orderId: string, masters: unknown[]) {
+  return db.query(
+    'SELECT update_order_with_masters($1, $2, $3)',
+    [orderId, { status: 'принял' }, JSON.stringify(masters)]
+  );
+}
+
+beforeAll(async () => {
+  db = await createTestDatabase();
+
+  clientId = await createClient(db, '+79990000001');
+  firstMasterId = await createMaster(db, 'first@test.local', 'Первый мастер');
+  secondMasterId = await createMaster(db, 'second@test.local', 'Второй мастер');
+}, DATABASE_SETUP_TIMEOUT);
+
+afterAll(async () => {
+  await db.close();
+});
+
+describe('create_order_with_masters', () => {
+  it('не оставляет строк при несуществующем мастере', async () => {
+    const before = await countRows();
+
+    await expect(createOrder([{ master_id: UNKNOWN_MASTER_ID, percent: 100 }]))
+      .rejects.toMatchObject({ code: '23503' });
+
+    expect(await countRows()).toEqual(before);
+  });
+
+  it('не оставляет строк при проценте мастера вне диапазона', async () => {
+    const before = await countRows();
+
+    await expect(createOrder([
+      { master_id: firstMasterId, percent: 150 },
+      { master_id: secondMasterId, percent: -50 }
+    ])).rejects.toMatchObject({ code: '23514' });
+
+    expect(await countRows()).toEqual(before);
+  });
+});
+
+describe('update_order_with_masters', () => {
+  let orderId: string;
+
+  beforeAll(async () => {
+    const result = await createOrder([{ master_id: firstMasterId, percent: 100 }]);
+    const [row] = result.rows;
+    if (!row) {
+      throw new Error('Заказ не создан');
+    }
+    orderId = row.id;
+  });
+
+  async function orderState() {
+    const order = await db.query('SELECT status, version FROM orders WHERE id = $1', [orderId]);
+    const masters = await db.query(
+      'SELECT master_id, percent FROM order_masters WHERE order_id = $1 ORDER BY master_id',
+      [orderId]
+    );
+    const history = await db.query(
+      'SELECT from_status, to_status FROM order_status_history WHERE order_id = $1 ORDER BY created_at',
+      [orderId]
+    );
+    return { order: order.rows, masters: masters.rows, history: history.rows };
+  }
+
+  it('не меняет заказ при несуществующем мастере', async () => {
+    const before = await orderState();
+    const counts = await countRows();
+
+    await expect(updateOrder(orderId, [{ master_id: UNKNOWN_MASTER_ID, percent: 100 }]))
+      .rejects.toMatchObject({ code: '23503' });
+
+    expect(await orderState()).toEqual(before);
+    expect(await countRows()).toEqual(counts);
+  });
+
+  it('не меняет заказ при проценте мастера вне диапазона', async () => {
+    const before = await orderState();
+    const counts = await countRows();
+
+    await expect(updateOrder(orderId, [
+      { master_id: firstMasterId, percent: 150 },
+      { master_id: secondMasterId, percent: -50 }
+    ])).rejects.toMatchObject({ code: '23514' });
+
+    expect(await orderState()).toEqual(before);
+    expect(await countRows()).toEqual(counts);
+  });
+
+  it('отклоняет смену статуса, если исходный статус уже изменен', async () => {
+    const before = await orderState();
+
+    await expect(db.query(
+      'SELECT update_order_with_masters($1, $2, p_expected_status => $3)',
+      [orderId, { status: 'принял' }, 'диагностика']
+    )).rejects.toMatchObject({ code: '40001' });
+
+    expect(await orderState()).toEqual(before);
+  });
+});
+
+describe('replace_order_items', () => {
+  it('не заменяет позиции, по которым оформлен возврат', async () => {
+    const created = await createOrder([{ master_id: firstMasterId, percent: 100 }]);
+    const [order] = created.rows;
+    if (!order) {
+      throw new Error('Заказ не создан');
+    }
+
+    const items = await db.query<{ id: string }>(
+      'SELECT id FROM order_items WHERE order_id = $1',
+      [order.id]
+    );
+    const [item] = items.rows;
+    if (!item) {
+      throw new Error('Позиция не создана');
+    }
+
+    await db.query('SELECT create_return($1, $2, $3, NULL)', [
+      { order_id: order.id },
+      JSON.stringify([{ item_id: item.id, quantity: 1, restock: false }]),
+      JSON.stringify([])
+    ]);
+
+    await expect(db.query(
+      'SELECT update_order_with_masters($1, $2, p_items => $3)',
+      [order.id, {}, JSON.stringify([{ type: 'service', name: 'Диагностика', price: 1500 }])]
+    )).rejects.toMatchObject({ code: '22023' });
+
+    const after = await db.query('SELECT id FROM order_items WHERE order_id = $1', [order.id]);
+    expect(after.rows).toEqual(items.rows);
+  });
+});
+
+describe('calculate_order_salary', () => {
+  it('начисляет зарплату мастерам один раз при выдаче заказа', async () => {
+    const created = await createOrder([
+      { master_id: firstMasterId, percent: 60 },
+      { master_id: secondMasterId, percent: 40 }
+    ]);
+    const [order] = created.rows;
+    if (!order) {
+      throw new Error('Заказ не создан');
+    }
+
+    await db.query('SELECT update_order_with_masters($1, $2)', [order.id, { status: 'выдан' }]);
+    await db.query('UPDATE orders SET status = $1 WHERE id = $2', ['готово', order.id]);
+    await db.query('SELECT update_order_with_masters($1, $2)', [order.id, { status: 'закрыт' }]);
+
+    const salaries = await db.query<{ master_id: string; amount: string }>(
+      'SELECT master_id, amount FROM salaries WHERE order_id = $1 ORDER BY amount DESC',
+      [order.id]
+    );
+    expect(salaries.rows).toEqual([
+      { master_id: firstMasterId, amount: '900.00' },
+      { master_id: secondMasterId, amount: '600.00' }
+    ]);
+  });
+});
+
+describe('approve_estimate', () => {
+  let orderId: string;
+
+  beforeEach(async () => {
+    const created = await createOrder([{ master_id: firstMasterId, percent: 100 }]);
+    const [order] = created.rows;
+    if (!order) {
+      throw new Error('Заказ не создан');
+    }
+    orderId = order.id;
+  });
+
+  function createEstimate(status: string) {
+    return insertId(
+      db,
+      'INSERT INTO estimates (order_id, status, items) VALUES ($1, $2, $3) RETURNING id',
+      [orderId, status, JSON.stringify([{ type: 'service', name: 'Замена масла', price: 2000 }])]
+    );
+  }
+
+  async function estimateStatuses(): Promise<Record<string, string>> {
+    const result = await db.query<{ id: string; status: string }>(
+      'SELECT id, status FROM estimates WHERE order_id = $1',
+      [orderId]
+    );
+    return Object.fromEntries(result.rows.map(row => [row.id, row.status]));
+  }
+
+  it('отклоняет остальные открытые сметы заказа', async () => {
+    const approvedId = await createEstimate('sent');
+    const draftId = await createEstimate('draft');
+    const sentId = await createEstimate('sent');
+    const rejectedId = await createEstimate('rejected');
+
+    await db.query('SELECT approve_estimate($1)', [approvedId]);
+
+    expect(await estimateStatuses()).toEqual({
+      [approvedId]: 'approved',
+      [draftId]: 'rejected',
+      [sentId]: 'rejected',
+      [rejectedId]: 'rejected'
+    });
+    await expect(db.query('SELECT approve_estimate($1)', [sentId]))
+      .rejects.toMatchObject({ code: '22023' });
+  });
+
+  it.each(['выдан', 'закрыт'])('не согласует смету по заказу в статусе %s', async status => {
+    const estimateId = await createEstimate('sent');
+    await db.query('UPDATE orders SET status = $1 WHERE id = $2', [status, orderId]);
+    const items = await db.query('SELECT name, price FROM order_items WHERE order_id = $1', [orderId]);
+
+    await expect(db.query('SELECT approve_estimate($1)', [estimateId]))
+      .rejects.toMatchObject({ code: '22023' });
+
+    expect(await estimateStatuses()).toEqual({ [estimateId]: 'sent' });
+    const after = await db.query('SELECT name, price FROM order_items WHERE order_id = $1', [orderId]);
+    expect(after.rows).toEqual(items.rows);
+  });
+});
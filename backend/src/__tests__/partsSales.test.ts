@@ -0,0 +1,132 @@
+import { PGlite } from '@electric-sql/pglite';
+import {
+  DATABASE_SETUP_TIMEOUT,
+  createClient,
+  createMaster,
+  createTestDatabase,
+  insertId
+} from './helpers/database';
+
+// Чеки продажи запчастей: строки, скидки на строку и чек, оплата чека
+
+let db: PGlite;
+let sellerId: string;
+
+interface SaleLine {
+  part_id?: string;
+  part_name?: string;
+  quantity: number;
+  price?: number;
+  discount?: number;
+}
+
+function createSale(items: SaleLine[], payments: Array<{ type: string; amount: number }>, sale = {}) {
+  return insertId(db, 'SELECT create_parts_sale($1, $2, $3, $4) AS id', [
+    sale,
+    JSON.stringify(items),
+    JSON.stringify(payments),
+    sellerId
+  ]);
+}
+
+async function saleOf(saleId: string) {
+  const result = await db.query<{ subtotal: string; discount: string; total: string }>(
+    'SELECT subtotal, discount, total FROM parts_sales WHERE id = $1',
+    [saleId]
+  );
+  return result.rows[0];
+}
+
+beforeAll(async () => {
+  db = await createTestDatabase();
+  sellerId = await createMaster(db, 'sales@test.local', 'Продавец');
+}, DATABASE_SETUP_TIMEOUT);
+
+afterAll(async () => {
+  await db.close();
+});
+
+describe('create_parts_sale', () => {
+  it('считает итог со скидками на строки и на чек', async () => {
+    const saleId = await createSale([
+      { part_name: 'Моторное масло 5W-30', quantity: 2, price: 1500, discount: 200 },
+      { part_name: 'Щетки стеклоочистителя', quantity: 1, price: 900 }
+    ], [], { discount: 100 });
+
+    expect(await saleOf(saleId)).toEqual({ subtotal: '3700.00', discount: '100.00', total: '3600.00' });
+
+    const items = await db.query<{ position: number; total: string }>(
+      'SELECT position, total FROM parts_sale_items WHERE parts_sale_id = $1 ORDER BY position',
+      [saleId]
+    );
+    expect(items.rows).toEqual([{ position: 1, total: '2800.00' }, { position: 2, total: '900.00' }]);
+  });
+
+  it('берет название и цену из каталога и списывает запчасть со склада', async () => {
+    const partId = await insertId(
+      db,
+      `INSERT INTO parts (part_number, name, purchase_price, retail_price)
+       VALUES ('OC-90', 'Масляный фильтр', 300, 650) RETURNING id`
+    );
+
+    const saleId = await createSale([{ part_id: partId, quantity: 3 }], [{ type: 'наличные', amount: 1950 }]);
+
+    const item = await db.query<{ part_name: string; part_number: string; price: string }>(
+      'SELECT part_name, part_number, price FROM parts_sale_items WHERE parts_sale_id = $1',
+      [saleId]
+    );
+    expect(item.rows).toEqual([{ part_name: 'Масляный фильтр', part_number: 'OC-90', price: '650.00' }]);
+
+    const movements = await db.query<{ type: string; quantity: string; unit_cost: string }>(
+      'SELECT type, quantity, unit_cost FROM stock_movements WHERE parts_sale_id = $1',
+      [saleId]
+    );
+    expect(movements.rows).toEqual([{ type: 'sale', quantity: '-3.00', unit_cost: '300.00' }]);
+  });
+
+  it('записывает оплату чека по способам', async () => {
+    const saleId = await createSale([{ part_name: 'Антифриз', quantity: 1, price: 1000 }], [
+      { type: 'наличные', amount: 400 },
+      { type: 'карта', amount: 600 }
+    ]);
+
+    const payments = await db.query<{ type: string; amount: string }>(
+      'SELECT type, amount FROM payments WHERE parts_sale_id = $1 ORDER BY type',
+      [saleId]
+    );
+    expect(payments.rows).toEqual([
+      { type: 'карта', amount: '600.00' },
+      { type: 'наличные', amount: '400.00' }
+    ]);
+  });
+
+  it('отклоняет оплату, не совпадающую с итогом, без записи чека', async () => {
+    const clientId = await createClient(db, '+79990000301');
+
+    await expect(createSale(
+      [{ part_name: 'Лампа H7', quantity: 2, price: 300 }],
+      [{ type: 'карта', amount: 500 }],
+      { client_id: clientId, discount: 50 }
+    )).rejects.toMatchObject({ code: '22023' });
+
+    const sales = await db.query('SELECT 1 FROM parts_sales WHERE client_id = $1', [clientId]);
+    expect(sales.rows).toEqual([]);
+  });
+
+  it('проверяет строки и скидки', async () => {
+    await expect(createSale([], [])).rejects.toMatchObject({ code: '22023' });
+    await expect(createSale([{ part_name: 'Без цены', quantity: 1 }], []))
+      .rejects.toMatchObject({ code: '22023' });
+    await expect(createSale([{ part_name: 'Ремень', quantity: 1, price: 500, discount: 501 }], []))
+      .rejects.toMatchObject({ code: '22023' });
+    await expect(createSale([{ part_name: 'Ремень', quantity: 1, price: 500 }], [], { discount: 600 }))
+      .rejects.toMatchObject({ code: '22023' });
+  });
+
+  it('оплата бонусами доступна только клиенту из базы', async () => {
+    await expect(createSale(
+      [{ part_name: 'Омыватель', quantity: 1, price: 300 }],
+      [{ type: 'бонусы', amount: 300 }]
+    )).rejects.toMatchObject({ code: '22023' });
+  });
+});
@@ -0,0 +1,96 @@
+import { createReorderDrafts } from '@/services/reorderService';
+
+interface QueryResult {
+  data?: unknown;
+  error?: { message: string } | null;
+}
+
+// Ответ функции автозаказа, ответы Supabase по таблицам и вставленные уведомления
+let mockRun: QueryResult = {};
+let mockTables: Record<string, QueryResult> = {};
+let mockInserted: Array<Record<string, unknown>> = [];
+
+// Цепочка запроса Supabase: фильтры игнорируются, await отдает ответ таблицы
+jest.mock('@/config/database', () => ({
+  supabase: {
+    rpc: async () => ({ data: null, error: null, ...mockRun }),
+    from: (table: string) => {
+      const query = {
+        select: () => query,
+        eq: () => query,
+        in: () => query,
+        insert: async (rows: Array<Record<string, unknown>>) => {
+          mockInserted.push(...rows);
+          return { error: null };
+        },
+        then: (resolve: (value: QueryResult) => unknown) =>
+          resolve({ data: [], error: null, ...mockTables[table] })
+      };
+      return query;
+    }
+  }
+}));
+
+jest.mock('@/utils/logger', () => ({ logger: { error: jest.fn() } }));
+
+const SUPPLIED = {
+  part_id: 'part-1',
+  part_number: 'HU716/2X',
+  brand: 'MANN',
+  name: 'Масляный фильтр',
+  supplier_id: 'supplier-1',
+  supplier_name: 'Автодеталь'
+};
+const ORPHAN = { part_id: 'part-2', part_number: 'W712', name: 'Фильтр', supplier_id: null };
+
+beforeEach(() => {
+  mockRun = {
+    data: {
+      suggestions: [SUPPLIED, ORPHAN],
+      purchase_orders: [{ purchase_order_id: 'po-1', supplier_id: 'supplier-1', items_count: 1 }]
+    }
+  };
+  mockTables = { masters: { data: [{ id: 'admin-1' }, { id: 'director-1' }] } };
+  mockInserted = [];
+});
+
+describe('createReorderDrafts', () => {
+  it('строит результат и уведомления по ответу функции автозаказа', async () => {
+    const result = await createReorderDrafts('admin-1');
+
+    expect(result.suggestions).toEqual([SUPPLIED, ORPHAN]);
+    expect(result.without_supplier).toEqual([ORPHAN]);
+    expect(mockInserted.map(row => [row['user_id'], row['entity_type'], row['entity_id']])).toEqual([
+      ['admin-1', 'purchase_order', 'po-1'],
+      ['director-1', 'purchase_order', 'po-1'],
+      ['admin-1', 'part', 'part-2'],
+      ['director-1', 'part', 'part-2']
+    ]);
+    expect(mockInserted[0]?.['message']).toContain('Автодеталь');
+  });
+
+  it('не повторяет непрочитанное уведомление о запчасти без поставщика', async () => {
+    mockTables['notifications'] = { data: [{ user_id: 'admin-1', entity_id: 'part-2' }] };
+
+    await createReorderDrafts();
+
+    expect(mockInserted.filter(row => row['entity_type'] === 'part').map(row => row['user_id']))
+      .toEqual(['director-1']);
+  });
+
+  it('без заказов и запчастей без поставщика ничего не отправляет', async () => {
+    mockRun = { data: { suggestions: [], purchase_orders: [] } };
+
+    const result = await createReorderDrafts();
+
+    expect(result).toEqual({ suggestions: [], purchase_orders: [], without_supplier: [] });
+    expect(mockInserted).toEqual([]);
+  });
+
+  it('ошибка функции автозаказа прерывает запуск', async () => {
+    mockRun = { error: { message: 'deadlock' } };
+
+    await expect(createReorderDrafts()).rejects.toThrow('Ошибка создания заказов поставщикам: deadlock');
+    expect(mockInserted).toEqual([]);
+  });
+});
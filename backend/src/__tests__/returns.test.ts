@@ -0,0 +1,302 @@
+import { PGlite } from '@electric-sql/pglite';
+import {
+  DATABASE_SETUP_TIMEOUT,
+  createClient,
+  createMaster,
+  createTestDatabase,
+  insertId
+} from './helpers/database';
+
+// Возвраты по чекам и заказам: суммы, способы возврата денег, бонусы и зарплата
+
+let db: PGlite;
+let sellerId: string;
+
+interface Refund {
+  type: string;
+  amount: number;
+}
+
+// Чек на 1000: две позиции по 500
+async function createSale(clientId: string | null, payments: Refund[]) {
+  const saleId = await insertId(db, 'SELECT create_parts_sale($1, $2, $3, $4) AS id', [
+    { client_id: clientId },
+    JSON.stringify([{ part_name: 'Свеча зажигания', quantity: 2, price: 500 }]),
+    JSON.stringify(payments),
+    sellerId
+  ]);
+  const itemId = await insertId(db, 'SELECT id FROM parts_sale_items WHERE parts_sale_id = $1', [saleId]);
+  return { saleId, itemId };
+}
+
+function returnSale(saleId: string, itemId: string, quantity: number, refunds: Refund[]) {
+  return insertId(db, 'SELECT create_return($1, $2, $3, $4) AS id', [
+    { parts_sale_id: saleId },
+    JSON.stringify([{ item_id: itemId, quantity, restock: false }]),
+    JSON.stringify(refunds),
+    sellerId
+  ]);
+}
+
+async function refundsOf(returnId: string) {
+  const result = await db.query<{ type: string; amount: string }>(
+    'SELECT type, amount FROM payments WHERE return_id = $1 ORDER BY type',
+    [returnId]
+  );
+  return result.rows;
+}
+
+async function loyaltyOf(clientId: string) {
+  const result = await db.query<{ type: string; points: number }>(
+    'SELECT type, points FROM loyalty_transactions WHERE client_id = $1 ORDER BY created_at, type',
+    [clientId]
+  );
+  return result.rows;
+}
+
+beforeAll(async () => {
+  db = await createTestDatabase();
+  sellerId = await createMaster(db, 'returns@test.local', 'Продавец');
+}, DATABASE_SETUP_TIMEOUT);
+
+afterAll(async () => {
+  await db.close();
+});
+
+describe('ограничения возврата', () => {
+  it('не возвращает больше проданного с учетом прошлых возвратов', async () => {
+    const { saleId, itemId } = await createSale(null, [{ type: 'карта', amount: 1000 }]);
+
+    await expect(returnSale(saleId, itemId, 3, [])).rejects.toMatchObject({ code: '22023' });
+
+    await returnSale(saleId, itemId, 1, []);
+    await returnSale(saleId, itemId, 1, []);
+
+    await expect(returnSale(saleId, itemId, 1, [])).rejects.toMatchObject({ code: '22023' });
+  });
+
+  it('отклоняет чужую позицию, повтор позиции и сумму больше доли строки', async () => {
+    const { saleId, itemId } = await createSale(null, [{ type: 'карта', amount: 1000 }]);
+    const other = await createSale(null, [{ type: 'карта', amount: 1000 }]);
+
+    await expect(returnSale(saleId, other.itemId, 1, [])).rejects.toMatchObject({ code: '22023' });
+
+    await expect(insertId(db, 'SELECT create_return($1, $2, $3, $4) AS id', [
+      { parts_sale_id: saleId },
+      JSON.stringify([{ item_id: itemId, quantity: 1 }, { item_id: itemId, quantity: 1 }]),
+      '[]',
+      sellerId
+    ])).rejects.toMatchObject({ code: '22023' });
+
+    await expect(insertId(db, 'SELECT create_return($1, $2, $3, $4) AS id', [
+      { parts_sale_id: saleId },
+      JSON.stringify([{ item_id: itemId, quantity: 1, amount: 501 }]),
+      '[]',
+      sellerId
+    ])).rejects.toMatchObject({ code: '22023' });
+  });
+});
+
+describe('сумма возврата', () => {
+  it('распределяет скидку на чек по строкам и требует возврат денег на всю сумму', async () => {
+    const partId = await insertId(
+      db,
+      "INSERT INTO parts (part_number, name, purchase_price) VALUES ('BKR6E', 'Свеча NGK', 200) RETURNING id"
+    );
+    const saleId = await insertId(db, 'SELECT create_parts_sale($1, $2, $3, $4) AS id', [
+      { discount: 100 },
+      JSON.stringify([{ part_id: partId, quantity: 2, price: 500 }]),
+      JSON.stringify([{ type: 'наличные', amount: 900 }]),
+      sellerId
+    ]);
+    const itemId = await insertId(db, 'SELECT id FROM parts_sale_items WHERE parts_sale_id = $1', [saleId]);
+    const returnOne = (refunds: Refund[]) => insertId(db, 'SELECT create_return($1, $2, $3, $4) AS id', [
+      { parts_sale_id: saleId },
+      JSON.stringify([{ item_id: itemId, quantity: 1 }]),
+      JSON.stringify(refunds),
+      sellerId
+    ]);
+
+    await expect(returnOne([{ type: 'наличные', amount: 500 }])).rejects.toMatchObject({ code: '22023' });
+
+    const returnId = await returnOne([{ type: 'наличные', amount: 450 }]);
+
+    const result = await db.query<{ total: string }>('SELECT total FROM returns WHERE id = $1', [returnId]);
+    expect(result.rows[0]?.total).toBe('450.00');
+    expect(await refundsOf(returnId)).toEqual([{ type: 'наличные', amount: '-450.00' }]);
+
+    const movements = await db.query<{ type: string; quantity: string }>(
+      'SELECT type, quantity FROM stock_movements WHERE part_id = $1 ORDER BY created_at, type',
+      [partId]
+    );
+    expect(movements.rows).toEqual([
+      { type: 'sale', quantity: '-2.00' },
+      { type: 'return', quantity: '1.00' }
+    ]);
+  });
+});
+
+describe('сторно зарплаты', () => {
+  it('начисляет мастерам отрицательную сумму по их проценту от возврата', async () => {
+    const clientId = await createClient(db, '+79990000205');
+    const secondId = await createMaster(db, 'second@test.local', 'Второй мастер');
+    const orderId = await insertId(db, 'SELECT create_order_with_masters($1, $2) AS id', [
+      { client_id: clientId, services: [{ name: 'Замена сцепления', price: 2000 }] },
+      JSON.stringify([{ master_id: sellerId, percent: 60 }, { master_id: secondId, percent: 40 }])
+    ]);
+    await db.query('INSERT INTO payments (order_id, amount, type) VALUES ($1, $2, $3)', [orderId, 2000, 'карта']);
+    await db.query('SELECT update_order_with_masters($1, $2)', [orderId, { status: 'выдан' }]);
+    const itemId = await insertId(db, 'SELECT id FROM order_items WHERE order_id = $1', [orderId]);
+
+    const returnId = await insertId(db, 'SELECT create_return($1, $2, $3, $4) AS id', [
+      { order_id: orderId },
+      JSON.stringify([{ item_id: itemId, quantity: 1, amount: 500 }]),
+      JSON.stringify([{ type: 'карта', amount: 500 }]),
+      sellerId
+    ]);
+
+    const salaries = await db.query<{ master_id: string; amount: string; return_id: string | null }>(
+      'SELECT master_id, amount, return_id FROM salaries WHERE order_id = $1 ORDER BY amount',
+      [orderId]
+    );
+    expect(salaries.rows).toEqual([
+      { master_id: sellerId, amount: '-300.00', return_id: returnId },
+      { master_id: secondId, amount: '-200.00', return_id: returnId },
+      { master_id: secondId, amount: '800.00', return_id: null },
+      { master_id: sellerId, amount: '1200.00', return_id: null }
+    ]);
+  });
+});
+
+describe('способы возврата денег', () => {
+  it('не возвращает другим способом, чем оплачен чек', async () => {
+    const { saleId, itemId } = await createSale(null, [{ type: 'карта', amount: 1000 }]);
+
+    await expect(returnSale(saleId, itemId, 1, [{ type: 'наличные', amount: 500 }]))
+      .rejects.toMatchObject({ code: '22023' });
+
+    const returnId = await returnSale(saleId, itemId, 1, [{ type: 'карта', amount: 500 }]);
+    expect(await refundsOf(returnId)).toEqual([{ type: 'карта', amount: '-500.00' }]);
+  });
+
+  it('ограничивает способ оплаченным им за вычетом прошлых возвратов', async () => {
+    const { saleId, itemId } = await createSale(null, [
+      { type: 'карта', amount: 300 },
+      { type: 'наличные', amount: 700 }
+    ]);
+
+    await expect(returnSale(saleId, itemId, 1, [{ type: 'карта', amount: 500 }]))
+      .rejects.toMatchObject({ code: '22023' });
+
+    await returnSale(saleId, itemId, 1, [
+      { type: 'карта', amount: 300 },
+      { type: 'наличные', amount: 200 }
+    ]);
+
+    await expect(returnSale(saleId, itemId, 1, [
+      { type: 'карта', amount: 100 },
+      { type: 'наличные', amount: 400 }
+    ])).rejects.toMatchObject({ code: '22023' });
+  });
+
+  it('не принимает неположительную сумму способа', async () => {
+    const { saleId, itemId } = await createSale(null, [{ type: 'карта', amount: 1000 }]);
+
+    await expect(returnSale(saleId, itemId, 1, [
+      { type: 'карта', amount: 600 },
+      { type: 'наличные', amount: -100 }
+    ])).rejects.toMatchObject({ code: '22023' });
+  });
+});
+
+describe('сторно бонусов при возврате', () => {
+  it('списывает бонусы за чек в доле возврата', async () => {
+    const clientId = await createClient(db, '+79990000201');
+    const { saleId, itemId } = await createSale(clientId, [{ type: 'карта', amount: 1000 }]);
+
+    await returnSale(saleId, itemId, 1, [{ type: 'карта', amount: 500 }]);
+
+    // Базовый уровень: 3% от 1000, половина чека возвращена
+    expect(await loyaltyOf(clientId)).toEqual([
+      { type: 'accrual', points: 30 },
+      { type: 'reversal', points: -15 }
+    ]);
+
+    await returnSale(saleId, itemId, 1, [{ type: 'карта', amount: 500 }]);
+
+    const result = await db.query<{ bonus_points: number }>(
+      'SELECT bonus_points FROM clients WHERE id = $1',
+      [clientId]
+    );
+    expect(result.rows[0]?.bonus_points).toBe(0);
+  });
+
+  it('списывает бонусы за закрытый заказ', async () => {
+    const clientId = await createClient(db, '+79990000203');
+    const orderId = await insertId(db, 'SELECT create_order_with_masters($1, $2) AS id', [
+      { client_id: clientId, services: [{ name: 'Замена ремня ГРМ', price: 2000 }] },
+      JSON.stringify([{ master_id: sellerId, percent: 100 }])
+    ]);
+    await db.query('INSERT INTO payments (order_id, amount, type) VALUES ($1, $2, $3)', [orderId, 2000, 'карта']);
+    await db.query('SELECT update_order_with_masters($1, $2)', [orderId, { status: 'выдан' }]);
+    await db.query('SELECT update_order_with_masters($1, $2)', [orderId, { status: 'закрыт' }]);
+    const itemId = await insertId(db, 'SELECT id FROM order_items WHERE order_id = $1', [orderId]);
+
+    await insertId(db, 'SELECT create_return($1, $2, $3, $4) AS id', [
+      { order_id: orderId },
+      JSON.stringify([{ item_id: itemId, quantity: 1, amount: 500 }]),
+      JSON.stringify([{ type: 'карта', amount: 500 }]),
+      sellerId
+    ]);
+
+    // 3% от 2000, возвращена четверть заказа
+    expect(await loyaltyOf(clientId)).toEqual([
+      { type: 'accrual', points: 60 },
+      { type: 'reversal', points: -15 }
+    ]);
+  });
+
+  it('списывает не больше текущего баланса', async () => {
+    const clientId = await createClient(db, '+79990000202');
+    const { saleId, itemId } = await createSale(clientId, [{ type: 'карта', amount: 1000 }]);
+    await db.query(
+      'INSERT INTO loyalty_transactions (client_id, type, points) VALUES ($1, $2, $3)',
+      [clientId, 'adjustment', -25]
+    );
+
+    await returnSale(saleId, itemId, 2, [{ type: 'карта', amount: 1000 }]);
+
+    expect(await loyaltyOf(clientId)).toContainEqual({ type: 'reversal', points: -5 });
+  });
+});
+
+describe('уровень клиента после возврата', () => {
+  it('сумма покупок уменьшается на возврат, уровень пересчитывается', async () => {
+    const clientId = await createClient(db, '+79990000204');
+    const saleId = await insertId(db, 'SELECT create_parts_sale($1, $2, $3, $4) AS id', [
+      { client_id: clientId },
+      JSON.stringify([{ part_name: 'Комплект резины', quantity: 4, price: 15000 }]),
+      JSON.stringify([{ type: 'карта', amount: 60000 }]),
+      sellerId
+    ]);
+    const itemId = await insertId(db, 'SELECT id FROM parts_sale_items WHERE parts_sale_id = $1', [saleId]);
+
+    const tierOf = async () => {
+      const result = await db.query<{ name: string; lifetime_value: string }>(
+        `SELECT t.name, totals.lifetime_value
+         FROM clients c
+         JOIN loyalty_tiers t ON t.id = c.loyalty_tier_id
+         CROSS JOIN get_client_totals(c.id) AS totals
+         WHERE c.id = $1`,
+        [clientId]
+      );
+      return result.rows[0];
+    };
+
+    expect(await tierOf()).toEqual({ name: 'Серебряный', lifetime_value: '60000.00' });
+
+    await returnSale(saleId, itemId, 1, [{ type: 'карта', amount: 15000 }]);
+
+    expect(await tierOf()).toEqual({ name: 'Базовый', lifetime_value: '45000.00' });
+  });
+});
@@ -150,6 +150,7 @@ export interface Database {
           created_by: string | null;
           created_at: string;
           updated_at: string;
+          version: number;
         };
         Insert: {
           id?: string;
@@ -0,0 +1,70 @@
+import fs from 'fs';
+import { DocumentsConfig, DocumentTemplate, OrderDocumentType } from '@/types';
+import { logger } from '@/utils/logger';
+
+// Шаблоны документов по умолчанию
+const DEFAULT_TEMPLATES: Record<OrderDocumentType, DocumentTemplate> = {
+  work_order: {
+    title: 'Заказ-наряд № {order_id} от {date}',
+    header: 'Исполнитель: {company}. Заказчик: {client}.',
+    footer: 'С перечнем и стоимостью работ согласен. Автомобиль передан на ремонт.',
+    signatures: ['Исполнитель', 'Заказчик']
+  },
+  act: {
+    title: 'Акт выполненных работ № {order_id} от {date}',
+    header: 'Исполнитель: {company}. Заказчик: {client}.',
+    footer: 'Работы выполнены полностью и в срок. Заказчик претензий по объему, качеству и срокам не имеет. Всего на сумму {total}.',
+    signatures: ['Исполнитель', 'Заказчик']
+  },
+  receipt: {
+    title: 'Квитанция об оплате по заказу № {order_id} от {date}',
+    footer: 'Спасибо, что выбрали {company}!',
+    signatures: ['Кассир']
+  }
+};
+
+let cachedConfig: DocumentsConfig | null = null;
+
+// Настройки документов из переменных окружения и JSON файла DOCUMENTS_CONFIG_PATH.
+// Файл может переопределять реквизиты и любые поля шаблонов
+export function getDocumentsConfig(): DocumentsConfig {
+  if (cachedConfig) {
+    return cachedConfig;
+  }
+
+  let fileConfig: Partial<DocumentsConfig> = {};
+  const configPath = process.env['DOCUMENTS_CONFIG_PATH'];
+
+  if (configPath) {
+    try {
+      fileConfig = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+    } catch (error) {
+      logger.error(`Ошибка чтения настроек документов ${configPath}:`, error);
+    }
+  }
+
+  const templates = { ...DEFAULT_TEMPLATES };
+  for (const type of Object.keys(DEFAULT_TEMPLATES) as OrderDocumentType[]) {
+    templates[type] = { ...DEFAULT_TEMPLATES[type], ...fileConfig.templates?.[type] };
+  }
+
+  cachedConfig = {
+    company: {
+      name: process.env['COMPANY_NAME'] || 'VIPauto',
+      ...(process.env['COMPANY_LEGAL_NAME'] && { legal_name: process.env['COMPANY_LEGAL_NAME'] }),
+      ...(process.env['COMPANY_INN'] && { inn: process.env['COMPANY_INN'] }),
+      ...(process.env['COMPANY_OGRN'] && { ogrn: process.env['COMPANY_OGRN'] }),
+      ...(process.env['COMPANY_ADDRESS'] && { address: process.env['COMPANY_ADDRESS'] }),
+      ...(process.env['COMPANY_PHONE'] && { phone: process.env['COMPANY_PHONE'] }),
+      ...fileConfig.company
+    },
+    templates,
+    fonts: {
+      regular: process.env['PDF_FONT_PATH'] || '/usr/share/fonts/dejavu/DejaVuSans.ttf',
+      bold: process.env['PDF_FONT_BOLD_PATH'] || '/usr/share/fonts/dejavu/DejaVuSans-Bold.ttf',
+      ...fileConfig.fonts
+    }
+  };
+
+  return cachedConfig;
+}
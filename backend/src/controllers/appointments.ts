@@ -0,0 +1,371 @@
+import { Request, Response } from 'express';
+import { supabase } from '@/config/database';
+import {
+  asyncHandler,
+  AppError,
+  ValidationError,
+  NotFoundError,
+  ConflictError
+} from '@/middleware/errorHandler';
+import {
+  Appointment,
+  AppointmentFilters,
+  AvailableSlot,
+  CreateAppointmentData,
+  UpdateAppointmentData,
+  Order,
+  ApiResponse
+} from '@/types';
+import { logger, logBusiness } from '@/utils/logger';
+import {
+  ACTIVE_APPOINTMENT_STATUSES,
+  assertAppointmentAvailable,
+  convertAppointmentToOrder as convertAppointment,
+  getAvailableSlots,
+  getServicesDuration
+} from '@/services/appointmentService';
+import { getCreatedOrder } from '@/services/orderService';
+
+const APPOINTMENT_FIELDS = `
+  *,
+  client:clients(name, phone, car1),
+  bay:bays(name),
+  master:masters(full_name),
+  vehicle:vehicles(id, make, model, year, plate, vin)
+`;
+
+// Пересечение, пойманное ограничением БД при одновременной записи
+function isOverlapError(error: { code?: string }): boolean {
+  return error.code === '23P01';
+}
+
+// Получение записей за период
+export const getAppointments = asyncHandler(async (req: Request, res: Response) => {
+  const { date_from, date_to, bay_id, master_id, client_id, status, source } = req.query as AppointmentFilters;
+
+  try {
+    let query = supabase
+      .from('appointments')
+      .select(APPOINTMENT_FIELDS);
+
+    if (date_from) {
+      query = query.gte('starts_at', date_from);
+    }
+
+    if (date_to) {
+      query = query.lte('starts_at', date_to);
+    }
+
+    if (bay_id) {
+      query = query.eq('bay_id', bay_id);
+    }
+
+    if (master_id) {
+      query = query.eq('master_id', master_id);
+    }
+
+    if (client_id) {
+      query = query.eq('client_id', client_id);
+    }
+
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    if (source) {
+      query = query.eq('source', source);
+    }
+
+    const { data: appointments, error } = await query
+      .order('starts_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Ошибка получения записей: ${error.message}`);
+    }
+
+    res.json({
+      success: true,
+      data: appointments || []
+    } as ApiResponse<Appointment[]>);
+  } catch (error) {
+    logger.error('Ошибка получения списка записей:', error);
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Свободные слоты на дату по длительности выбранных услуг
+export const getAvailability = asyncHandler(async (req: Request, res: Response) => {
+  const { date, bay_id, master_id, service_ids } = req.query as Record<string, string | undefined>;
+  const serviceIds = (service_ids || '').split(',').filter(Boolean);
+
+  if (!date) {
+    throw new ValidationError('Дата обязательна');
+  }
+
+  try {
+    const slots = await getAvailableSlots({
+      date,
+      service_ids: serviceIds,
+      ...(bay_id && { bay_id }),
+      ...(master_id && { master_id })
+    });
+
+    res.json({
+      success: true,
+      data: slots
+    } as ApiResponse<AvailableSlot[]>);
+  } catch (error) {
+    logger.error('Ошибка расчета свободного времени:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Получение записи по ID
+export const getAppointmentById = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  if (!id) {
+    throw new ValidationError('ID записи обязателен');
+  }
+
+  try {
+    const { data: appointment, error } = await supabase
+      .from('appointments')
+      .select(APPOINTMENT_FIELDS)
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        throw new NotFoundError('Запись не найдена');
+      }
+      throw new Error(`Ошибка получения записи: ${error.message}`);
+    }
+
+    res.json({
+      success: true,
+      data: appointment
+    } as ApiResponse<Appointment>);
+  } catch (error) {
+    logger.error('Ошибка получения записи:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Создание записи. Без ends_at окончание считается по длительности услуг
+export const createAppointment = asyncHandler(async (req: Request, res: Response) => {
+  const appointmentData: CreateAppointmentData = req.body;
+
+  try {
+    const startsAt = new Date(appointmentData.starts_at);
+    const endsAt = appointmentData.ends_at
+      ? new Date(appointmentData.ends_at)
+      : new Date(startsAt.getTime() + await getServicesDuration(appointmentData.service_ids) * 60000);
+
+    const range = { starts_at: startsAt.toISOString(), ends_at: endsAt.toISOString() };
+
+    await assertAppointmentAvailable(range, appointmentData.bay_id, appointmentData.master_id);
+
+    const { data: appointment, error } = await supabase
+      .from('appointments')
+      .insert({
+        client_id: appointmentData.client_id,
+        bay_id: appointmentData.bay_id,
+        master_id: appointmentData.master_id,
+        vehicle_id: appointmentData.vehicle_id,
+        service_ids: appointmentData.service_ids,
+        ...range,
+        notes: appointmentData.notes,
+        created_by: req.user?.id
+      })
+      .select(APPOINTMENT_FIELDS)
+      .single();
+
+    if (error) {
+      if (isOverlapError(error)) {
+        throw new ConflictError('Пост или мастер уже заняты в это время');
+      }
+      throw new Error(`Ошибка создания записи: ${error.message}`);
+    }
+
+    logBusiness('Создана запись', req.user?.id, {
+      appointmentId: appointment.id,
+      clientId: appointment.client_id,
+      startsAt: appointment.starts_at
+    });
+
+    res.status(201).json({
+      success: true,
+      data: appointment
+    } as ApiResponse<Appointment>);
+  } catch (error) {
+    logger.error('Ошибка создания записи:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Перенос записи, смена поста, мастера или услуг
+export const updateAppointment = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const updateData: UpdateAppointmentData = req.body;
+
+  if (!id) {
+    throw new ValidationError('ID записи обязателен');
+  }
+
+  try {
+    const { data: existing, error: fetchError } = await supabase
+      .from('appointments')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (fetchError || !existing) {
+      throw new NotFoundError('Запись не найдена');
+    }
+
+    if (!ACTIVE_APPOINTMENT_STATUSES.includes(existing.status)) {
+      throw new ValidationError('Изменять можно только активную запись');
+    }
+
+    const serviceIds = updateData.service_ids || existing.service_ids;
+    const startsAt = new Date(updateData.starts_at || existing.starts_at);
+    let endsAt: Date;
+
+    if (updateData.ends_at) {
+      endsAt = new Date(updateData.ends_at);
+    } else if (updateData.service_ids) {
+      endsAt = new Date(startsAt.getTime() + await getServicesDuration(serviceIds) * 60000);
+    } else {
+      // При переносе длительность записи сохраняется
+      const duration = new Date(existing.ends_at).getTime() - new Date(existing.starts_at).getTime();
+      endsAt = new Date(startsAt.getTime() + duration);
+    }
+
+    const range = { starts_at: startsAt.toISOString(), ends_at: endsAt.toISOString() };
+    const bayId = updateData.bay_id || existing.bay_id;
+    const masterId = updateData.master_id || existing.master_id;
+
+    await assertAppointmentAvailable(range, bayId, masterId, id);
+
+    const { data: appointment, error } = await supabase
+      .from('appointments')
+      .update({
+        bay_id: bayId,
+        master_id: masterId,
+        vehicle_id: updateData.vehicle_id ?? existing.vehicle_id,
+        service_ids: serviceIds,
+        ...range,
+        notes: updateData.notes ?? existing.notes
+      })
+      .eq('id', id)
+      .select(APPOINTMENT_FIELDS)
+      .single();
+
+    if (error) {
+      if (isOverlapError(error)) {
+        throw new ConflictError('Пост или мастер уже заняты в это время');
+      }
+      throw new Error(`Ошибка обновления записи: ${error.message}`);
+    }
+
+    logBusiness('Запись изменена', req.user?.id, {
+      appointmentId: id,
+      changes: Object.keys(updateData)
+    });
+
+    res.json({
+      success: true,
+      data: appointment
+    } as ApiResponse<Appointment>);
+  } catch (error) {
+    logger.error('Ошибка обновления записи:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Смена статуса записи: подтверждение, приезд клиента, отмена, неявка
+export const updateAppointmentStatus = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { status }: { status: Appointment['status'] } = req.body;
+
+  if (!id) {
+    throw new ValidationError('ID записи обязателен');
+  }
+
+  if (status === 'converted') {
+    throw new ValidationError('Для перевода записи в заказ используйте /convert');
+  }
+
+  try {
+    const { data: appointment, error } = await supabase
+      .from('appointments')
+      .update({ status })
+      .eq('id', id)
+      .in('status', ACTIVE_APPOINTMENT_STATUSES)
+      .select(APPOINTMENT_FIELDS)
+      .single();
+
+    if (error || !appointment) {
+      if (error && isOverlapError(error)) {
+        throw new ConflictError('Пост или мастер уже заняты в это время');
+      }
+      throw new ValidationError('Менять статус можно только у активной записи');
+    }
+
+    logBusiness('Изменен статус записи', req.user?.id, { appointmentId: id, status });
+
+    res.json({
+      success: true,
+      data: appointment
+    } as ApiResponse<Appointment>);
+  } catch (error) {
+    logger.error('Ошибка изменения статуса записи:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Перевод записи в заказ
+export const convertAppointmentToOrder = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  if (!id) {
+    throw new ValidationError('ID записи обязателен');
+  }
+
+  try {
+    const orderId = await convertAppointment(id, req.user?.id);
+    const order = await getCreatedOrder(orderId);
+
+    logBusiness('Запись переведена в заказ', req.user?.id, { appointmentId: id, orderId });
+
+    // Как при создании заказа: версия для последующих изменений
+    res.set('ETag', `"${order.version}"`);
+
+    res.status(201).json({
+      success: true,
+      data: order
+    } as ApiResponse<Order>);
+  } catch (error) {
+    logger.error('Ошибка перевода записи в заказ:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
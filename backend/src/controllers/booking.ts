@@ -0,0 +1,121 @@
+import { Request, Response } from 'express';
+import { supabase } from '@/config/database';
+import { asyncHandler, AppError } from '@/middleware/errorHandler';
+import {
+  Service,
+  BookingOtpRequest,
+  CreateOnlineBookingData,
+  ApiResponse
+} from '@/types';
+import { logger, logBusiness, logSecurity } from '@/utils/logger';
+import { normalizePhone } from '@/utils/phone';
+import { getAvailableSlots } from '@/services/appointmentService';
+import {
+  requestBookingOtp,
+  createOnlineBooking
+} from '@/services/bookingService';
+
+// Активные услуги для виджета записи
+export const getBookingServices = asyncHandler(async (_req: Request, res: Response) => {
+  try {
+    const { data: services, error } = await supabase
+      .from('services')
+      .select('id, name, price, category, duration_minutes')
+      .eq('is_active', true)
+      .order('category')
+      .order('name');
+
+    if (error) {
+      throw new Error(`Ошибка получения услуг: ${error.message}`);
+    }
+
+    res.json({
+      success: true,
+      data: services || []
+    } as ApiResponse<Partial<Service>[]>);
+  } catch (error) {
+    logger.error('Ошибка получения услуг для онлайн-записи:', error);
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Свободное время на дату. Посты и мастера наружу не отдаются
+export const getBookingSlots = asyncHandler(async (req: Request, res: Response) => {
+  const { date, service_ids } = req.query as Record<string, string>;
+
+  try {
+    const slots = await getAvailableSlots({
+      date: date!,
+      service_ids: (service_ids || '').split(',').filter(Boolean)
+    });
+
+    res.json({
+      success: true,
+      data: slots.map(slot => ({ starts_at: slot.starts_at, ends_at: slot.ends_at }))
+    } as ApiResponse);
+  } catch (error) {
+    logger.error('Ошибка получения свободного времени для онлайн-записи:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Запрос SMS кода для подтверждения телефона
+export const requestBookingCode = asyncHandler(async (req: Request, res: Response) => {
+  const { phone }: BookingOtpRequest = req.body;
+  const normalizedPhone = normalizePhone(phone);
+
+  try {
+    await requestBookingOtp(normalizedPhone, req.ip);
+
+    logSecurity('Запрос SMS кода онлайн-записи', { phone: normalizedPhone, ip: req.ip });
+
+    res.json({
+      success: true,
+      data: { message: 'SMS код отправлен' }
+    } as ApiResponse);
+  } catch (error) {
+    logger.error('Ошибка отправки SMS кода онлайн-записи:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Создание заявки на запись с сайта
+export const createBooking = asyncHandler(async (req: Request, res: Response) => {
+  const bookingData: CreateOnlineBookingData = req.body;
+
+  try {
+    const appointment = await createOnlineBooking({
+      ...bookingData,
+      phone: normalizePhone(bookingData.phone)
+    });
+
+    logBusiness('Онлайн-запись с сайта', undefined, {
+      appointmentId: appointment.id,
+      startsAt: appointment.starts_at,
+      ip: req.ip
+    });
+
+    res.status(201).json({
+      success: true,
+      data: {
+        id: appointment.id,
+        status: appointment.status,
+        starts_at: appointment.starts_at,
+        ends_at: appointment.ends_at,
+        message: 'Заявка принята. Администратор свяжется с вами для подтверждения'
+      }
+    } as ApiResponse);
+  } catch (error) {
+    logger.error('Ошибка онлайн-записи:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
@@ -0,0 +1,810 @@
+import { Request, Response } from 'express';
+import { supabase } from '@/config/database';
+import {
+  asyncHandler,
+  AppError,
+  ValidationError,
+  NotFoundError,
+  AuthorizationError
+} from '@/middleware/errorHandler';
+import {
+  Client,
+  CreateClientData,
+  UpdateClientData,
+  ClientFilters,
+  ClientDuplicate,
+  ClientDuplicateQuery,
+  ClientMerge,
+  ClientImport,
+  ClientImportMapping,
+  ClientNote,
+  ClientConsent,
+  ClientConsents,
+  ClientExportFormat,
+  CreateClientConsentData,
+  ClientTimeline,
+  ClientTimelineEventType,
+  CreateClientNoteData,
+  Order,
+  Debt,
+  ApiResponse,
+  PaginatedResponse,
+  PaginationParams
+} from '@/types';
+import { logger, logBusiness } from '@/utils/logger';
+import {
+  toClientError,
+  searchClients,
+  getClientDebtTotal,
+  createClientWithVehicles,
+  findClientDuplicates,
+  mergeClients,
+  getClientTimeline as buildClientTimeline
+} from '@/services/clientService';
+import {
+  createClientImport,
+  revalidateClientImport,
+  commitClientImport,
+  getClientImport as getClientImportRecord,
+  buildImportReport
+} from '@/services/clientImportService';
+import {
+  getClientConsents as listClientConsents,
+  recordClientConsent,
+  buildClientExport,
+  packClientExport,
+  logClientExport,
+  anonymizeClient as anonymizeClientRecord
+} from '@/services/clientPrivacyService';
+import { normalizePhone } from '@/utils/phone';
+
+// Получение списка клиентов с поиском
+export const getClients = asyncHandler(async (req: Request, res: Response) => {
+  const { search, has_debts } = req.query as { search?: string; has_debts?: string };
+  const { page = 1, limit = 20 } = req.query as PaginationParams;
+
+  const filters: ClientFilters = {
+    ...(search && { search }),
+    has_debts: has_debts === 'true'
+  };
+
+  try {
+    // Мастер видит только клиентов из своих заказов
+    const masterId = req.user?.role === 'master' ? req.user.id : undefined;
+    const { items, total } = await searchClients(filters, Number(page), Number(limit), masterId);
+
+    res.json({
+      success: true,
+      data: {
+        items,
+        pagination: {
+          page: Number(page),
+          limit: Number(limit),
+          total,
+          pages: Math.ceil(total / Number(limit))
+        }
+      }
+    } as PaginatedResponse<Client>);
+  } catch (error) {
+    logger.error('Ошибка получения списка клиентов:', error);
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Получение клиента с автомобилями и суммой долга
+export const getClientById = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  if (!id) {
+    throw new ValidationError('ID клиента обязателен');
+  }
+
+  try {
+    const { data: client, error } = await supabase
+      .from('clients')
+      .select('*, vehicles(*), loyalty_tier:loyalty_tiers(*)')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      throw toClientError(error, 'получения клиента');
+    }
+
+    const debtTotal = await getClientDebtTotal(id);
+
+    res.json({
+      success: true,
+      data: { ...client, debt_total: debtTotal }
+    } as ApiResponse<Client>);
+  } catch (error) {
+    logger.error('Ошибка получения клиента:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// История заказов клиента
+export const getClientOrders = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  if (!id) {
+    throw new ValidationError('ID клиента обязателен');
+  }
+
+  try {
+    const { data: orders, error } = await supabase
+      .from('orders')
+      .select(`
+        *,
+        vehicle:vehicles(id, make, model, year, plate, vin),
+        order_masters(
+          master_id,
+          percent,
+          master:masters(id, full_name)
+        )
+      `)
+      .eq('client_id', id)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Ошибка получения заказов клиента: ${error.message}`);
+    }
+
+    res.json({
+      success: true,
+      data: orders || []
+    } as ApiResponse<Order[]>);
+  } catch (error) {
+    logger.error('Ошибка получения заказов клиента:', error);
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Долги клиента. active=true - только непогашенные
+export const getClientDebts = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { active } = req.query as { active?: string };
+
+  if (!id) {
+    throw new ValidationError('ID клиента обязателен');
+  }
+
+  try {
+    let query = supabase
+      .from('debts')
+      .select('*, order:orders(id, status, total, created_at)')
+      .eq('client_id', id);
+
+    if (active === 'true') {
+      query = query.gt('remaining', 0);
+    }
+
+    const { data: debts, error } = await query.order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Ошибка получения долгов клиента: ${error.message}`);
+    }
+
+    res.json({
+      success: true,
+      data: debts || []
+    } as ApiResponse<Debt[]>);
+  } catch (error) {
+    logger.error('Ошибка получения долгов клиента:', error);
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Создание клиента вместе с автомобилями
+export const createClient = asyncHandler(async (req: Request, res: Response) => {
+  const clientData: CreateClientData = req.body;
+
+  try {
+    const clientId = await createClientWithVehicles(clientData);
+
+    const { data: client, error } = await supabase
+      .from('clients')
+      .select('*, vehicles(*)')
+      .eq('id', clientId)
+      .single();
+
+    if (error) {
+      throw toClientError(error, 'получения клиента');
+    }
+
+    logBusiness('Добавлен клиент', req.user?.id, {
+      clientId,
+      vehicles: client.vehicles?.length || 0
+    });
+
+    res.status(201).json({
+      success: true,
+      data: client
+    } as ApiResponse<Client>);
+  } catch (error) {
+    logger.error('Ошибка создания клиента:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Обновление клиента. Автомобили меняются через /api/vehicles
+export const updateClient = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const {
+    car1: _car1,
+    car2: _car2,
+    vin: _vin,
+    vehicles: _vehicles,
+    ...updateData
+  }: UpdateClientData & { vehicles?: unknown } = req.body;
+
+  if (!id) {
+    throw new ValidationError('ID клиента обязателен');
+  }
+
+  if (updateData.phone) {
+    updateData.phone = normalizePhone(updateData.phone);
+  }
+
+  try {
+    const { data: client, error } = await supabase
+      .from('clients')
+      .update(updateData)
+      .eq('id', id)
+      .select('*, vehicles(*)')
+      .single();
+
+    if (error) {
+      throw toClientError(error, 'обновления клиента');
+    }
+
+    logBusiness('Клиент обновлен', req.user?.id, {
+      clientId: id,
+      changes: Object.keys(updateData)
+    });
+
+    res.json({
+      success: true,
+      data: client
+    } as ApiResponse<Client>);
+  } catch (error) {
+    logger.error('Ошибка обновления клиента:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Удаление клиента. Клиента с непогашенным долгом удалить нельзя
+export const deleteClient = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  if (!id) {
+    throw new ValidationError('ID клиента обязателен');
+  }
+
+  try {
+    if (await getClientDebtTotal(id) > 0) {
+      throw new ValidationError('У клиента есть непогашенный долг, удаление невозможно');
+    }
+
+    const { data: deleted, error } = await supabase
+      .from('clients')
+      .delete()
+      .eq('id', id)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Ошибка удаления клиента: ${error.message}`);
+    }
+
+    if (!deleted || deleted.length === 0) {
+      throw new NotFoundError('Клиент не найден');
+    }
+
+    logBusiness('Клиент удален', req.user?.id, { clientId: id });
+
+    res.json({
+      success: true,
+      data: { message: 'Клиент удален' }
+    } as ApiResponse);
+  } catch (error) {
+    logger.error('Ошибка удаления клиента:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Поиск вероятных дублей клиентов
+export const getClientDuplicates = asyncHandler(async (req: Request, res: Response) => {
+  const { client_id, min_score, limit } = req.query as Record<string, string | undefined>;
+
+  const query: ClientDuplicateQuery = {
+    ...(client_id && { client_id }),
+    ...(min_score && { min_score: Number(min_score) }),
+    ...(limit && { limit: Number(limit) })
+  };
+
+  try {
+    const duplicates = await findClientDuplicates(query);
+
+    res.json({
+      success: true,
+      data: duplicates
+    } as ApiResponse<ClientDuplicate[]>);
+  } catch (error) {
+    logger.error('Ошибка поиска дублей клиентов:', error);
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Объединение дубля (source_id) с клиентом :id
+export const mergeClient = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { source_id } = req.body as { source_id: string };
+
+  if (!id) {
+    throw new ValidationError('ID клиента обязателен');
+  }
+
+  try {
+    const mergeId = await mergeClients(id, source_id, req.user?.id);
+
+    const { data: merge, error } = await supabase
+      .from('client_merges')
+      .select('*')
+      .eq('id', mergeId)
+      .single();
+
+    if (error) {
+      throw new Error(`Ошибка получения записи объединения: ${error.message}`);
+    }
+
+    logBusiness('Клиенты объединены', req.user?.id, {
+      clientId: id,
+      sourceClientId: source_id,
+      moved: merge.moved
+    });
+
+    res.json({
+      success: true,
+      data: merge
+    } as ApiResponse<ClientMerge>);
+  } catch (error) {
+    logger.error('Ошибка объединения клиентов:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Журнал объединений клиента
+export const getClientMerges = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  if (!id) {
+    throw new ValidationError('ID клиента обязателен');
+  }
+
+  try {
+    const { data: merges, error } = await supabase
+      .from('client_merges')
+      .select('*')
+      .eq('target_client_id', id)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Ошибка получения журнала объединений: ${error.message}`);
+    }
+
+    res.json({
+      success: true,
+      data: merges || []
+    } as ApiResponse<ClientMerge[]>);
+  } catch (error) {
+    logger.error('Ошибка получения журнала объединений:', error);
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Загрузка файла импорта (CSV/XLSX) и пробная проверка строк
+export const uploadClientImport = asyncHandler(async (req: Request, res: Response) => {
+  if (!req.file) {
+    throw new ValidationError('Файл обязателен');
+  }
+
+  let mapping: ClientImportMapping | undefined;
+  if (req.body.mapping) {
+    try {
+      mapping = JSON.parse(req.body.mapping);
+    } catch {
+      throw new ValidationError('Сопоставление колонок должно быть JSON-объектом');
+    }
+  }
+
+  try {
+    const clientImport = await createClientImport(req.file, mapping, req.user?.id);
+
+    logBusiness('Загружен файл импорта клиентов', req.user?.id, {
+      importId: clientImport.id,
+      fileName: clientImport.file_name,
+      totalRows: clientImport.total_rows,
+      validRows: clientImport.valid_rows
+    });
+
+    res.status(201).json({
+      success: true,
+      data: clientImport
+    } as ApiResponse<ClientImport>);
+  } catch (error) {
+    logger.error('Ошибка загрузки файла импорта:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Повторная проверка импорта с новым сопоставлением колонок
+export const validateClientImport = asyncHandler(async (req: Request, res: Response) => {
+  const { importId } = req.params;
+  const { mapping } = req.body as { mapping: ClientImportMapping };
+
+  if (!importId) {
+    throw new ValidationError('ID импорта обязателен');
+  }
+
+  try {
+    const clientImport = await revalidateClientImport(importId, mapping);
+
+    res.json({
+      success: true,
+      data: clientImport
+    } as ApiResponse<ClientImport>);
+  } catch (error) {
+    logger.error('Ошибка проверки импорта:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Запись проверенных строк импорта
+export const commitClientImportRows = asyncHandler(async (req: Request, res: Response) => {
+  const { importId } = req.params;
+
+  if (!importId) {
+    throw new ValidationError('ID импорта обязателен');
+  }
+
+  try {
+    const clientImport = await commitClientImport(importId);
+
+    logBusiness('Импорт клиентов выполнен', req.user?.id, {
+      importId,
+      importedRows: clientImport.imported_rows,
+      errors: clientImport.errors.length,
+      duplicates: clientImport.duplicate_rows
+    });
+
+    res.json({
+      success: true,
+      data: clientImport
+    } as ApiResponse<ClientImport>);
+  } catch (error) {
+    logger.error('Ошибка импорта клиентов:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Состояние импорта
+export const getClientImport = asyncHandler(async (req: Request, res: Response) => {
+  const { importId } = req.params;
+
+  if (!importId) {
+    throw new ValidationError('ID импорта обязателен');
+  }
+
+  try {
+    const clientImport = await getClientImportRecord(importId);
+
+    res.json({
+      success: true,
+      data: clientImport
+    } as ApiResponse<ClientImport>);
+  } catch (error) {
+    logger.error('Ошибка получения импорта:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Отчет об ошибках импорта в CSV
+export const getClientImportReport = asyncHandler(async (req: Request, res: Response) => {
+  const { importId } = req.params;
+
+  if (!importId) {
+    throw new ValidationError('ID импорта обязателен');
+  }
+
+  try {
+    const report = await buildImportReport(importId);
+
+    res.set({
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': `attachment; filename="import-${importId}-errors.csv"`,
+      'Content-Length': String(report.length)
+    });
+    res.send(report);
+  } catch (error) {
+    logger.error('Ошибка формирования отчета импорта:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Хронология клиента: заказы, оплаты, долги, покупки запчастей и заметки
+export const getClientTimeline = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { types, date_from, date_to } = req.query as Record<string, string | undefined>;
+
+  if (!id) {
+    throw new ValidationError('ID клиента обязателен');
+  }
+
+  try {
+    const timeline = await buildClientTimeline(id, {
+      ...(types && { types: types.split(',') as ClientTimelineEventType[] }),
+      ...(date_from && { date_from }),
+      ...(date_to && { date_to })
+    });
+
+    res.json({
+      success: true,
+      data: timeline
+    } as ApiResponse<ClientTimeline>);
+  } catch (error) {
+    logger.error('Ошибка получения истории клиента:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Заметка о звонке или произвольная заметка по клиенту
+export const createClientNote = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { type = 'note', text }: CreateClientNoteData = req.body;
+
+  if (!id) {
+    throw new ValidationError('ID клиента обязателен');
+  }
+
+  try {
+    const { data: note, error } = await supabase
+      .from('client_notes')
+      .insert({
+        client_id: id,
+        type,
+        text: text.trim(),
+        created_by: req.user?.id
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23503') {
+        throw new NotFoundError('Клиент не найден');
+      }
+      throw new Error(`Ошибка добавления заметки: ${error.message}`);
+    }
+
+    logBusiness('Добавлена заметка по клиенту', req.user?.id, {
+      clientId: id,
+      noteId: note.id,
+      type
+    });
+
+    res.status(201).json({
+      success: true,
+      data: note
+    } as ApiResponse<ClientNote>);
+  } catch (error) {
+    logger.error('Ошибка добавления заметки:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Удаление заметки: автор, админ или директор
+export const deleteClientNote = asyncHandler(async (req: Request, res: Response) => {
+  const { id, noteId } = req.params;
+
+  if (!id || !noteId) {
+    throw new ValidationError('ID клиента и заметки обязательны');
+  }
+
+  try {
+    const { data: note, error: fetchError } = await supabase
+      .from('client_notes')
+      .select('id, created_by')
+      .eq('id', noteId)
+      .eq('client_id', id)
+      .single();
+
+    if (fetchError) {
+      if (fetchError.code === 'PGRST116') {
+        throw new NotFoundError('Заметка не найдена');
+      }
+      throw new Error(`Ошибка получения заметки: ${fetchError.message}`);
+    }
+
+    if (req.user?.role === 'master' && note.created_by !== req.user.id) {
+      throw new AuthorizationError('Мастер может удалять только свои заметки');
+    }
+
+    const { error } = await supabase
+      .from('client_notes')
+      .delete()
+      .eq('id', noteId);
+
+    if (error) {
+      throw new Error(`Ошибка удаления заметки: ${error.message}`);
+    }
+
+    logBusiness('Заметка по клиенту удалена', req.user?.id, { clientId: id, noteId });
+
+    res.json({
+      success: true,
+      data: { message: 'Заметка удалена' }
+    } as ApiResponse);
+  } catch (error) {
+    logger.error('Ошибка удаления заметки:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Действующие согласия клиента и история их изменений
+export const getClientConsents = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  if (!id) {
+    throw new ValidationError('ID клиента обязателен');
+  }
+
+  try {
+    const consents = await listClientConsents(id);
+
+    res.json({
+      success: true,
+      data: consents
+    } as ApiResponse<ClientConsents>);
+  } catch (error) {
+    logger.error('Ошибка получения согласий клиента:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Запись согласия клиента или его отзыва
+export const createClientConsent = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const consentData: CreateClientConsentData = req.body;
+
+  if (!id) {
+    throw new ValidationError('ID клиента обязателен');
+  }
+
+  try {
+    const consent = await recordClientConsent(id, consentData, req.user?.id);
+
+    logBusiness(consent.granted ? 'Получено согласие клиента' : 'Согласие клиента отозвано', req.user?.id, {
+      clientId: id,
+      type: consent.type,
+      source: consent.source
+    });
+
+    res.status(201).json({
+      success: true,
+      data: consent
+    } as ApiResponse<ClientConsent>);
+  } catch (error) {
+    logger.error('Ошибка записи согласия клиента:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Выгрузка всех данных о клиенте в JSON или ZIP
+export const exportClientData = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { format = 'json' } = req.query as { format?: ClientExportFormat };
+
+  if (!id) {
+    throw new ValidationError('ID клиента обязателен');
+  }
+
+  try {
+    const data = await buildClientExport(id);
+    await logClientExport(id, format, req.user?.id);
+
+    logBusiness('Выгружены данные клиента', req.user?.id, { clientId: id, format });
+
+    if (format === 'zip') {
+      const archive = await packClientExport(data);
+
+      res.set({
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="client-${id}.zip"`,
+        'Content-Length': String(archive.length)
+      });
+      res.send(archive);
+      return;
+    }
+
+    res.set('Content-Disposition', `attachment; filename="client-${id}.json"`);
+    res.json({
+      success: true,
+      data
+    } as ApiResponse);
+  } catch (error) {
+    logger.error('Ошибка выгрузки данных клиента:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Обезличивание клиента по запросу на удаление персональных данных
+export const anonymizeClient = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  if (!id) {
+    throw new ValidationError('ID клиента обязателен');
+  }
+
+  try {
+    await anonymizeClientRecord(id, req.user?.id);
+
+    logBusiness('Клиент обезличен', req.user?.id, { clientId: id });
+
+    res.json({
+      success: true,
+      data: { message: 'Персональные данные клиента удалены, финансовые записи сохранены' }
+    } as ApiResponse);
+  } catch (error) {
+    logger.error('Ошибка обезличивания клиента:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
@@ -0,0 +1,373 @@
+import { Request, Response } from 'express';
+import { supabase } from '@/config/database';
+import {
+  asyncHandler,
+  AppError,
+  ValidationError,
+  NotFoundError
+} from '@/middleware/errorHandler';
+import {
+  Estimate,
+  CreateEstimateData,
+  UpdateEstimateData,
+  EstimateDecisionData,
+  EstimateFilters,
+  ApiResponse
+} from '@/types';
+import { logger, logBusiness } from '@/utils/logger';
+import {
+  generateEstimateToken,
+  getEstimatePublicUrl,
+  getEstimateByToken,
+  isEstimateExpired,
+  approveEstimate as approveEstimateRecord,
+  rejectEstimate as rejectEstimateRecord
+} from '@/services/estimateService';
+
+// Получение смет (обычно по заказу)
+export const getEstimates = asyncHandler(async (req: Request, res: Response) => {
+  const { order_id, status } = req.query as EstimateFilters;
+
+  try {
+    let query = supabase
+      .from('estimates')
+      .select('*');
+
+    if (order_id) {
+      query = query.eq('order_id', order_id);
+    }
+
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    const { data: estimates, error } = await query
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Ошибка получения смет: ${error.message}`);
+    }
+
+    res.json({
+      success: true,
+      data: estimates || []
+    } as ApiResponse<Estimate[]>);
+  } catch (error) {
+    logger.error('Ошибка получения списка смет:', error);
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Получение сметы по ID
+export const getEstimateById = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  if (!id) {
+    throw new ValidationError('ID сметы обязателен');
+  }
+
+  try {
+    const { data: estimate, error } = await supabase
+      .from('estimates')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        throw new NotFoundError('Смета не найдена');
+      }
+      throw new Error(`Ошибка получения сметы: ${error.message}`);
+    }
+
+    res.json({
+      success: true,
+      data: {
+        ...estimate,
+        public_url: estimate.public_token ? getEstimatePublicUrl(estimate.public_token) : undefined
+      }
+    } as ApiResponse<Estimate>);
+  } catch (error) {
+    logger.error('Ошибка получения сметы:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Создание сметы по заказу
+export const createEstimate = asyncHandler(async (req: Request, res: Response) => {
+  const estimateData: CreateEstimateData = req.body;
+
+  if (!estimateData.items || estimateData.items.length === 0) {
+    throw new ValidationError('Позиции сметы обязательны');
+  }
+
+  try {
+    const { data: order, error: orderError } = await supabase
+      .from('orders')
+      .select('id, status')
+      .eq('id', estimateData.order_id)
+      .single();
+
+    if (orderError || !order) {
+      throw new NotFoundError('Заказ не найден');
+    }
+
+    if (['выдан', 'закрыт'].includes(order.status)) {
+      throw new ValidationError('Нельзя создать смету по выданному или закрытому заказу');
+    }
+
+    const { data: estimate, error } = await supabase
+      .from('estimates')
+      .insert({
+        order_id: estimateData.order_id,
+        items: estimateData.items,
+        valid_until: estimateData.valid_until,
+        notes: estimateData.notes,
+        created_by: req.user?.id
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Ошибка создания сметы: ${error.message}`);
+    }
+
+    logBusiness('Создана смета', req.user?.id, {
+      estimateId: estimate.id,
+      orderId: estimate.order_id,
+      total: estimate.total
+    });
+
+    res.status(201).json({
+      success: true,
+      data: estimate
+    } as ApiResponse<Estimate>);
+  } catch (error) {
+    logger.error('Ошибка создания сметы:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Обновление черновика сметы
+export const updateEstimate = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const updateData: UpdateEstimateData = req.body;
+
+  if (!id) {
+    throw new ValidationError('ID сметы обязателен');
+  }
+
+  try {
+    const { data: estimate, error } = await supabase
+      .from('estimates')
+      .update({
+        items: updateData.items,
+        valid_until: updateData.valid_until,
+        notes: updateData.notes
+      })
+      .eq('id', id)
+      .eq('status', 'draft')
+      .select()
+      .single();
+
+    if (error || !estimate) {
+      throw new ValidationError('Изменять можно только черновик сметы');
+    }
+
+    logBusiness('Смета обновлена', req.user?.id, { estimateId: id });
+
+    res.json({
+      success: true,
+      data: estimate
+    } as ApiResponse<Estimate>);
+  } catch (error) {
+    logger.error('Ошибка обновления сметы:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Отправка сметы клиенту: создается публичная ссылка
+export const sendEstimate = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  if (!id) {
+    throw new ValidationError('ID сметы обязателен');
+  }
+
+  try {
+    const { data: estimate, error } = await supabase
+      .from('estimates')
+      .update({
+        status: 'sent',
+        public_token: generateEstimateToken(),
+        sent_at: new Date().toISOString()
+      })
+      .eq('id', id)
+      .eq('status', 'draft')
+      .select()
+      .single();
+
+    if (error || !estimate) {
+      throw new ValidationError('Отправить можно только черновик сметы');
+    }
+
+    logBusiness('Смета отправлена клиенту', req.user?.id, {
+      estimateId: id,
+      orderId: estimate.order_id
+    });
+
+    res.json({
+      success: true,
+      data: {
+        ...estimate,
+        public_url: getEstimatePublicUrl(estimate.public_token)
+      }
+    } as ApiResponse<Estimate>);
+  } catch (error) {
+    logger.error('Ошибка отправки сметы:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Согласование сметы сотрудником (например, клиент согласовал по телефону)
+export const approveEstimate = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { comment }: EstimateDecisionData = req.body;
+
+  if (!id) {
+    throw new ValidationError('ID сметы обязателен');
+  }
+
+  try {
+    const orderId = await approveEstimateRecord(id, req.user?.id, comment);
+
+    logBusiness('Смета согласована', req.user?.id, { estimateId: id, orderId });
+
+    res.json({
+      success: true,
+      data: { message: 'Смета согласована', order_id: orderId }
+    } as ApiResponse);
+  } catch (error) {
+    logger.error('Ошибка согласования сметы:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Отклонение сметы сотрудником
+export const rejectEstimate = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { comment }: EstimateDecisionData = req.body;
+
+  if (!id) {
+    throw new ValidationError('ID сметы обязателен');
+  }
+
+  try {
+    const estimate = await rejectEstimateRecord(id, req.user?.id, comment);
+
+    logBusiness('Смета отклонена', req.user?.id, { estimateId: id, orderId: estimate.order_id });
+
+    res.json({
+      success: true,
+      data: estimate
+    } as ApiResponse<Estimate>);
+  } catch (error) {
+    logger.error('Ошибка отклонения сметы:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Просмотр сметы клиентом по публичной ссылке
+export const getPublicEstimate = asyncHandler(async (req: Request, res: Response) => {
+  const { token } = req.params;
+
+  if (!token) {
+    throw new ValidationError('Токен сметы обязателен');
+  }
+
+  const estimate = await getEstimateByToken(token);
+
+  res.json({
+    success: true,
+    data: {
+      ...estimate,
+      expired: estimate.status === 'sent' && isEstimateExpired(estimate)
+    }
+  } as ApiResponse);
+});
+
+// Согласование сметы клиентом по публичной ссылке
+export const approvePublicEstimate = asyncHandler(async (req: Request, res: Response) => {
+  const { token } = req.params;
+  const { comment }: EstimateDecisionData = req.body;
+
+  if (!token) {
+    throw new ValidationError('Токен сметы обязателен');
+  }
+
+  const estimate = await getEstimateByToken(token);
+
+  if (estimate.status !== 'sent') {
+    throw new ValidationError('Смета уже рассмотрена');
+  }
+
+  const orderId = await approveEstimateRecord(estimate.id, undefined, comment);
+
+  logBusiness('Смета согласована клиентом', undefined, {
+    estimateId: estimate.id,
+    orderId,
+    ip: req.ip
+  });
+
+  res.json({
+    success: true,
+    data: { message: 'Спасибо! Смета согласована, мастер приступит к работе' }
+  } as ApiResponse);
+});
+
+// Отклонение сметы клиентом по публичной ссылке
+export const rejectPublicEstimate = asyncHandler(async (req: Request, res: Response) => {
+  const { token } = req.params;
+  const { comment }: EstimateDecisionData = req.body;
+
+  if (!token) {
+    throw new ValidationError('Токен сметы обязателен');
+  }
+
+  const estimate = await getEstimateByToken(token);
+
+  if (estimate.status !== 'sent') {
+    throw new ValidationError('Смета уже рассмотрена');
+  }
+
+  await rejectEstimateRecord(estimate.id, undefined, comment);
+
+  logBusiness('Смета отклонена клиентом', undefined, {
+    estimateId: estimate.id,
+    orderId: estimate.order_id,
+    ip: req.ip
+  });
+
+  res.json({
+    success: true,
+    data: { message: 'Смета отклонена, мы свяжемся с вами' }
+  } as ApiResponse);
+});
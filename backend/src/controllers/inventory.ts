@@ -0,0 +1,559 @@
+import { Request, Response } from 'express';
+import {
+  asyncHandler,
+  AppError,
+  ValidationError
+} from '@/middleware/errorHandler';
+import {
+  CreatePartData,
+  CreateStockMovementData,
+  CreateWarehouseData,
+  Part,
+  PartFilters,
+  StockFilters,
+  StockLevel,
+  StockMovement,
+  StockMovementFilters,
+  StockMovementType,
+  CreateStocktakeData,
+  Stocktake,
+  StocktakeCountData,
+  StocktakeFilters,
+  StocktakeStatus,
+  StocktakeVariance,
+  UpdatePartData,
+  UpdateWarehouseData,
+  Warehouse,
+  ApiResponse,
+  PaginatedResponse,
+  PaginationParams
+} from '@/types';
+import { logger, logBusiness } from '@/utils/logger';
+import {
+  getParts as listParts,
+  getPartById as findPart,
+  createPart as insertPart,
+  updatePart as savePart,
+  deletePart as removePart,
+  getWarehouses as listWarehouses,
+  createWarehouse as insertWarehouse,
+  updateWarehouse as saveWarehouse,
+  getStockLevels,
+  getStockMovements as listStockMovements,
+  createStockMovement as insertStockMovement
+} from '@/services/inventoryService';
+import {
+  getStocktakes as listStocktakes,
+  getStocktakeById as findStocktake,
+  createStocktake as insertStocktake,
+  saveStocktakeCounts as saveCounts,
+  deleteStocktakeItem as removeStocktakeItem,
+  getStocktakeVariance as loadStocktakeVariance,
+  approveStocktake as confirmStocktake,
+  cancelStocktake as abortStocktake
+} from '@/services/stocktakeService';
+
+// Пагинированный ответ
+function paginated<T>(items: T[], total: number, page: number, limit: number): PaginatedResponse<T> {
+  return {
+    success: true,
+    data: {
+      items,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    }
+  } as PaginatedResponse<T>;
+}
+
+// Каталог запчастей
+export const getParts = asyncHandler(async (req: Request, res: Response) => {
+  const { search, include_inactive } = req.query as { search?: string; include_inactive?: string };
+  const { page = 1, limit = 20 } = req.query as PaginationParams;
+
+  const filters: PartFilters = {
+    ...(search && { search }),
+    include_inactive: include_inactive === 'true'
+  };
+
+  try {
+    const { items, total } = await listParts(filters, Number(page), Number(limit));
+
+    res.json(paginated<Part>(items, total, Number(page), Number(limit)));
+  } catch (error) {
+    logger.error('Ошибка получения каталога запчастей:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+export const getPartById = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  if (!id) {
+    throw new ValidationError('ID запчасти обязателен');
+  }
+
+  try {
+    const part = await findPart(id);
+
+    res.json({
+      success: true,
+      data: part
+    } as ApiResponse<Part>);
+  } catch (error) {
+    logger.error('Ошибка получения запчасти:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+export const createPart = asyncHandler(async (req: Request, res: Response) => {
+  const partData: CreatePartData = req.body;
+
+  try {
+    const part = await insertPart(partData);
+
+    logBusiness('Запчасть добавлена в каталог', req.user?.id, {
+      partId: part.id,
+      partNumber: part.part_number,
+      brand: part.brand
+    });
+
+    res.status(201).json({
+      success: true,
+      data: part
+    } as ApiResponse<Part>);
+  } catch (error) {
+    logger.error('Ошибка создания запчасти:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+export const updatePart = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const updateData: UpdatePartData = req.body;
+
+  if (!id) {
+    throw new ValidationError('ID запчасти обязателен');
+  }
+
+  try {
+    const part = await savePart(id, updateData);
+
+    logBusiness('Запчасть обновлена', req.user?.id, {
+      partId: id,
+      changes: updateData
+    });
+
+    res.json({
+      success: true,
+      data: part
+    } as ApiResponse<Part>);
+  } catch (error) {
+    logger.error('Ошибка обновления запчасти:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+export const deletePart = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  if (!id) {
+    throw new ValidationError('ID запчасти обязателен');
+  }
+
+  try {
+    await removePart(id);
+
+    logBusiness('Запчасть удалена из каталога', req.user?.id, { partId: id });
+
+    res.json({
+      success: true,
+      data: { message: 'Запчасть удалена' }
+    } as ApiResponse);
+  } catch (error) {
+    logger.error('Ошибка удаления запчасти:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Склады
+export const getWarehouses = asyncHandler(async (req: Request, res: Response) => {
+  const { include_inactive } = req.query as { include_inactive?: string };
+
+  try {
+    const warehouses = await listWarehouses(include_inactive === 'true');
+
+    res.json({
+      success: true,
+      data: warehouses
+    } as ApiResponse<Warehouse[]>);
+  } catch (error) {
+    logger.error('Ошибка получения складов:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+export const createWarehouse = asyncHandler(async (req: Request, res: Response) => {
+  const warehouseData: CreateWarehouseData = req.body;
+
+  try {
+    const warehouse = await insertWarehouse(warehouseData);
+
+    logBusiness('Создан склад', req.user?.id, {
+      warehouseId: warehouse.id,
+      name: warehouse.name
+    });
+
+    res.status(201).json({
+      success: true,
+      data: warehouse
+    } as ApiResponse<Warehouse>);
+  } catch (error) {
+    logger.error('Ошибка создания склада:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+export const updateWarehouse = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const updateData: UpdateWarehouseData = req.body;
+
+  if (!id) {
+    throw new ValidationError('ID склада обязателен');
+  }
+
+  try {
+    const warehouse = await saveWarehouse(id, updateData);
+
+    logBusiness('Склад обновлен', req.user?.id, {
+      warehouseId: id,
+      changes: updateData
+    });
+
+    res.json({
+      success: true,
+      data: warehouse
+    } as ApiResponse<Warehouse>);
+  } catch (error) {
+    logger.error('Ошибка обновления склада:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Текущие остатки по журналу движений
+export const getStock = asyncHandler(async (req: Request, res: Response) => {
+  const { warehouse_id, search, in_stock } = req.query as {
+    warehouse_id?: string;
+    search?: string;
+    in_stock?: string;
+  };
+  const { page = 1, limit = 20 } = req.query as PaginationParams;
+
+  const filters: StockFilters = {
+    ...(warehouse_id && { warehouse_id }),
+    ...(search && { search }),
+    ...(in_stock !== undefined && { in_stock: in_stock === 'true' })
+  };
+
+  try {
+    const { items, total } = await getStockLevels(filters, Number(page), Number(limit));
+
+    res.json(paginated<StockLevel>(items, total, Number(page), Number(limit)));
+  } catch (error) {
+    logger.error('Ошибка получения остатков:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Журнал движений склада
+export const getStockMovements = asyncHandler(async (req: Request, res: Response) => {
+  const { part_id, warehouse_id, type, order_id, date_from, date_to } = req.query as {
+    part_id?: string;
+    warehouse_id?: string;
+    type?: StockMovementType;
+    order_id?: string;
+    date_from?: string;
+    date_to?: string;
+  };
+  const { page = 1, limit = 50 } = req.query as PaginationParams;
+
+  const filters: StockMovementFilters = {
+    ...(part_id && { part_id }),
+    ...(warehouse_id && { warehouse_id }),
+    ...(type && { type }),
+    ...(order_id && { order_id }),
+    ...(date_from && { date_from }),
+    ...(date_to && { date_to })
+  };
+
+  try {
+    const { items, total } = await listStockMovements(filters, Number(page), Number(limit));
+
+    res.json(paginated<StockMovement>(items, total, Number(page), Number(limit)));
+  } catch (error) {
+    logger.error('Ошибка получения движений склада:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Ручной приход, списание или возврат на склад
+export const createStockMovement = asyncHandler(async (req: Request, res: Response) => {
+  const movementData: CreateStockMovementData = req.body;
+
+  try {
+    const movement = await insertStockMovement(movementData, req.user?.id);
+
+    logBusiness('Движение склада', req.user?.id, {
+      movementId: movement.id,
+      partId: movement.part_id,
+      warehouseId: movement.warehouse_id,
+      type: movement.type,
+      quantity: movement.quantity
+    });
+
+    res.status(201).json({
+      success: true,
+      data: movement
+    } as ApiResponse<StockMovement>);
+  } catch (error) {
+    logger.error('Ошибка проведения движения склада:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Инвентаризации склада
+export const getStocktakes = asyncHandler(async (req: Request, res: Response) => {
+  const { warehouse_id, status } = req.query as StocktakeFilters;
+  const { page = 1, limit = 20 } = req.query as PaginationParams;
+
+  const filters: StocktakeFilters = {
+    ...(warehouse_id && { warehouse_id }),
+    ...(status && { status: status as StocktakeStatus })
+  };
+
+  try {
+    const { items, total } = await listStocktakes(filters, Number(page), Number(limit));
+
+    res.json(paginated<Stocktake>(items, total, Number(page), Number(limit)));
+  } catch (error) {
+    logger.error('Ошибка получения инвентаризаций:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+export const getStocktakeById = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  if (!id) {
+    throw new ValidationError('ID инвентаризации обязателен');
+  }
+
+  try {
+    const stocktake = await findStocktake(id);
+
+    res.json({
+      success: true,
+      data: stocktake
+    } as ApiResponse<Stocktake>);
+  } catch (error) {
+    logger.error('Ошибка получения инвентаризации:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+export const createStocktake = asyncHandler(async (req: Request, res: Response) => {
+  const stocktakeData: CreateStocktakeData = req.body;
+
+  try {
+    const stocktake = await insertStocktake(stocktakeData, req.user?.id);
+
+    logBusiness('Начата инвентаризация', req.user?.id, {
+      stocktakeId: stocktake.id,
+      warehouseId: stocktake.warehouse_id,
+      isFull: stocktake.is_full
+    });
+
+    res.status(201).json({
+      success: true,
+      data: stocktake
+    } as ApiResponse<Stocktake>);
+  } catch (error) {
+    logger.error('Ошибка создания инвентаризации:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Ввод пересчитанного количества
+export const saveStocktakeCounts = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { items } = req.body as { items: StocktakeCountData[] };
+
+  if (!id) {
+    throw new ValidationError('ID инвентаризации обязателен');
+  }
+
+  try {
+    const stocktake = await saveCounts(id, items, req.user?.id);
+
+    res.json({
+      success: true,
+      data: stocktake
+    } as ApiResponse<Stocktake>);
+  } catch (error) {
+    logger.error('Ошибка сохранения пересчета:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+export const deleteStocktakeItem = asyncHandler(async (req: Request, res: Response) => {
+  const { id, itemId } = req.params;
+
+  if (!id || !itemId) {
+    throw new ValidationError('ID инвентаризации и строки обязательны');
+  }
+
+  try {
+    await removeStocktakeItem(id, itemId);
+
+    res.json({
+      success: true,
+      data: { message: 'Строка пересчета удалена' }
+    } as ApiResponse<{ message: string }>);
+  } catch (error) {
+    logger.error('Ошибка удаления строки пересчета:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Ведомость расхождений
+export const getStocktakeVariance = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  if (!id) {
+    throw new ValidationError('ID инвентаризации обязателен');
+  }
+
+  try {
+    const variance = await loadStocktakeVariance(id);
+
+    res.json({
+      success: true,
+      data: variance
+    } as ApiResponse<StocktakeVariance>);
+  } catch (error) {
+    logger.error('Ошибка получения ведомости расхождений:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+export const approveStocktake = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  if (!id) {
+    throw new ValidationError('ID инвентаризации обязателен');
+  }
+
+  try {
+    const variance = await confirmStocktake(id, req.user?.id);
+
+    logBusiness('Инвентаризация утверждена', req.user?.id, {
+      stocktakeId: id,
+      warehouseId: variance.stocktake.warehouse_id,
+      adjustedParts: variance.lines.filter(line => line.difference !== 0).length,
+      netValue: variance.totals.net_value
+    });
+
+    res.json({
+      success: true,
+      data: variance
+    } as ApiResponse<StocktakeVariance>);
+  } catch (error) {
+    logger.error('Ошибка утверждения инвентаризации:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+export const cancelStocktake = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  if (!id) {
+    throw new ValidationError('ID инвентаризации обязателен');
+  }
+
+  try {
+    const stocktake = await abortStocktake(id);
+
+    logBusiness('Инвентаризация отменена', req.user?.id, {
+      stocktakeId: id,
+      warehouseId: stocktake.warehouse_id
+    });
+
+    res.json({
+      success: true,
+      data: stocktake
+    } as ApiResponse<Stocktake>);
+  } catch (error) {
+    logger.error('Ошибка отмены инвентаризации:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
@@ -0,0 +1,215 @@
+import { Request, Response } from 'express';
+import {
+  asyncHandler,
+  AppError,
+  ValidationError
+} from '@/middleware/errorHandler';
+import {
+  BonusRedemptionData,
+  ClientLoyalty,
+  CreateLoyaltyTierData,
+  LoyaltyAdjustmentData,
+  LoyaltyTier,
+  LoyaltyTransaction,
+  Payment,
+  UpdateLoyaltyTierData,
+  ApiResponse
+} from '@/types';
+import { logger, logBusiness } from '@/utils/logger';
+import {
+  getLoyaltyTiers as listLoyaltyTiers,
+  createLoyaltyTier as insertLoyaltyTier,
+  updateLoyaltyTier as saveLoyaltyTier,
+  deleteLoyaltyTier as removeLoyaltyTier,
+  getClientLoyalty as buildClientLoyalty,
+  adjustClientPoints,
+  redeemBonusPoints
+} from '@/services/loyaltyService';
+
+// Список уровней программы лояльности
+export const getLoyaltyTiers = asyncHandler(async (_req: Request, res: Response) => {
+  try {
+    const tiers = await listLoyaltyTiers();
+
+    res.json({
+      success: true,
+      data: tiers
+    } as ApiResponse<LoyaltyTier[]>);
+  } catch (error) {
+    logger.error('Ошибка получения уровней лояльности:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Создание уровня с пересчетом уровней клиентов
+export const createLoyaltyTier = asyncHandler(async (req: Request, res: Response) => {
+  const tierData: CreateLoyaltyTierData = req.body;
+
+  try {
+    const { tier, recalculated } = await insertLoyaltyTier(tierData);
+
+    logBusiness('Создан уровень лояльности', req.user?.id, {
+      tierId: tier.id,
+      name: tier.name,
+      recalculated
+    });
+
+    res.status(201).json({
+      success: true,
+      data: { tier, recalculated }
+    } as ApiResponse<{ tier: LoyaltyTier; recalculated: number }>);
+  } catch (error) {
+    logger.error('Ошибка создания уровня лояльности:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Обновление уровня с пересчетом уровней клиентов
+export const updateLoyaltyTier = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const updateData: UpdateLoyaltyTierData = req.body;
+
+  if (!id) {
+    throw new ValidationError('ID уровня обязателен');
+  }
+
+  try {
+    const { tier, recalculated } = await saveLoyaltyTier(id, updateData);
+
+    logBusiness('Уровень лояльности обновлен', req.user?.id, {
+      tierId: id,
+      changes: updateData,
+      recalculated
+    });
+
+    res.json({
+      success: true,
+      data: { tier, recalculated }
+    } as ApiResponse<{ tier: LoyaltyTier; recalculated: number }>);
+  } catch (error) {
+    logger.error('Ошибка обновления уровня лояльности:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Удаление уровня. Клиенты уровня переходят на подходящий оставшийся
+export const deleteLoyaltyTier = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  if (!id) {
+    throw new ValidationError('ID уровня обязателен');
+  }
+
+  try {
+    const { recalculated } = await removeLoyaltyTier(id);
+
+    logBusiness('Уровень лояльности удален', req.user?.id, { tierId: id, recalculated });
+
+    res.json({
+      success: true,
+      data: { message: 'Уровень лояльности удален', recalculated }
+    } as ApiResponse);
+  } catch (error) {
+    logger.error('Ошибка удаления уровня лояльности:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Уровень, бонусный баланс и журнал бонусов клиента
+export const getClientLoyalty = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { limit = 50 } = req.query as { limit?: number };
+
+  if (!id) {
+    throw new ValidationError('ID клиента обязателен');
+  }
+
+  try {
+    const loyalty = await buildClientLoyalty(id, Number(limit));
+
+    res.json({
+      success: true,
+      data: loyalty
+    } as ApiResponse<ClientLoyalty>);
+  } catch (error) {
+    logger.error('Ошибка получения бонусов клиента:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Ручная корректировка бонусного баланса клиента
+export const adjustClientLoyalty = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const adjustment: LoyaltyAdjustmentData = req.body;
+
+  if (!id) {
+    throw new ValidationError('ID клиента обязателен');
+  }
+
+  try {
+    const transaction = await adjustClientPoints(id, adjustment, req.user?.id);
+
+    logBusiness('Корректировка бонусов клиента', req.user?.id, {
+      clientId: id,
+      points: adjustment.points
+    });
+
+    res.status(201).json({
+      success: true,
+      data: transaction
+    } as ApiResponse<LoyaltyTransaction>);
+  } catch (error) {
+    logger.error('Ошибка корректировки бонусов клиента:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Оплата заказа, продажи или долга бонусами клиента
+export const redeemLoyaltyPoints = asyncHandler(async (req: Request, res: Response) => {
+  const redemption: BonusRedemptionData = req.body;
+
+  if (!redemption.order_id && !redemption.parts_sale_id && !redemption.debt_id) {
+    throw new ValidationError('Укажите заказ, продажу или долг для оплаты бонусами');
+  }
+
+  try {
+    const payment = await redeemBonusPoints(redemption, req.user?.id);
+
+    logBusiness('Оплата бонусами', req.user?.id, {
+      paymentId: payment.id,
+      orderId: redemption.order_id,
+      partsSaleId: redemption.parts_sale_id,
+      debtId: redemption.debt_id,
+      amount: redemption.amount
+    });
+
+    res.status(201).json({
+      success: true,
+      data: payment
+    } as ApiResponse<Payment>);
+  } catch (error) {
+    logger.error('Ошибка оплаты бонусами:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
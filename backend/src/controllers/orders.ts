@@ -2,20 +2,55 @@ import { Request, Response } from 'express';
 import { supabase } from '@/config/database';
 import { 
   asyncHandler, 
+  AppError,
   ValidationError, 
-  NotFoundError, 
-  ConflictError 
+  NotFoundError,
+  PreconditionRequiredError
 } from '@/middleware/errorHandler';
 import { 
   Order, 
   CreateOrderData, 
   UpdateOrderData, 
   OrderFilters,
+  OrderStatusTimeline,
   ApiResponse,
   PaginatedResponse,
   PaginationParams
 } from '@/types';
 import { logger, logBusiness } from '@/utils/logger';
+import {
+  assertOrderStatusTransition,
+  isOrderStatus,
+  getOrderStatusTimeline
+} from '@/services/orderStatusService';
+import {
+  createOrderWithMasters,
+  getCreatedOrder,
+  updateOrderWithMasters
+} from '@/services/orderService';
+import {
+  isDocumentType,
+  getDocumentFileName,
+  getOrderDocumentData,
+  renderOrderDocument
+} from '@/services/documentService';
+
+// Ожидаемая версия заказа из тела запроса или заголовка If-Match.
+// Без версии изменение отклоняется: иначе оно может затереть чужое
+function getExpectedVersion(req: Request): number {
+  const raw = req.body?.version ?? req.get('If-Match')?.replace(/^W\//, '').replace(/"/g, '');
+
+  if (raw === undefined || raw === null || raw === '' || raw === '*') {
+    throw new PreconditionRequiredError('Укажите версию заказа в поле version или заголовке If-Match');
+  }
+
+  const version = Number(raw);
+  if (!Number.isInteger(version) || version < 1) {
+    throw new ValidationError('Неверная версия заказа');
+  }
+
+  return version;
+}
 
 // Получение списка заказов
 export const getOrders = asyncHandler(async (req: Request, res: Response) => {
@@ -25,6 +60,7 @@ export const getOrders = asyncHandler(async (req: Request, res: Response) => {
     my = false,
     status,
     client_id,
+    vehicle_id,
     date_from,
     date_to,
     search
@@ -38,6 +74,7 @@ export const getOrders = asyncHandler(async (req: Request, res: Response) => {
       .select(`
         *,
         client:clients(name, phone, car1, car2),
+        vehicle:vehicles(id, make, model, year, plate, vin),
         order_masters!inner(
           master_id,
           percent,
@@ -66,6 +103,10 @@ export const getOrders = asyncHandler(async (req: Request, res: Response) => {
       query = query.eq('client_id', client_id);
     }
 
+    if (vehicle_id) {
+      query = query.eq('vehicle_id', vehicle_id);
+    }
+
     if (date_from) {
       query = query.gte('created_at', date_from);
     }
@@ -134,6 +175,8 @@ export const getOrderById = asyncHandler(async (req: Request, res: Response) =>
       .select(`
         *,
         client:clients(name, phone, car1, car2, vin, notes),
+        vehicle:vehicles(*),
+        items:order_items(*),
         order_masters!inner(
           master_id,
           percent,
@@ -150,6 +193,9 @@ export const getOrderById = asyncHandler(async (req: Request, res: Response) =>
       throw new Error(`Ошибка получения заказа: ${error.message}`);
     }
 
+    // Версия заказа для оптимистичной блокировки при последующих изменениях
+    res.set('ETag', `"${order.version}"`);
+
     res.json({
       success: true,
       data: order
@@ -160,101 +206,105 @@ export const getOrderById = asyncHandler(async (req: Request, res: Response) =>
   }
 });
 
-// Создание нового заказа
-export const createOrder = asyncHandler(async (req: Request, res: Response) => {
-  const orderData: CreateOrderData = req.body;
-
-  // Валидация обязательных полей
-  if (!orderData.services || orderData.services.length === 0) {
-    throw new ValidationError('Услуги обязательны');
-  }
-
-  if (!orderData.masters || orderData.masters.length === 0) {
-    throw new ValidationError('Мастера обязательны');
-  }
+// История статусов заказа
+export const getOrderHistory = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
 
-  // Проверяем проценты мастеров
-  const totalPercentage = orderData.masters.reduce((sum, master) => sum + master.percent, 0);
-  if (Math.abs(totalPercentage - 100) > 0.01) {
-    throw new ValidationError('Сумма процентов мастеров должна быть равна 100%');
+  if (!id) {
+    throw new ValidationError('ID заказа обязателен');
   }
 
   try {
-    // Рассчитываем стоимость услуг
-    const servicesCost = orderData.services.reduce((sum, service) => 
-      sum + (service.price * service.qty), 0
-    );
-
-    // Создаем заказ
     const { data: order, error } = await supabase
       .from('orders')
-      .insert({
-        client_id: orderData.client_id,
-        services: orderData.services,
-        parts_cost: orderData.parts_cost || 0,
-        services_cost,
-        status: orderData.status || 'новый',
-        notes: orderData.notes,
-        created_by: req.user?.id
-      })
-      .select()
+      .select('id, status')
+      .eq('id', id)
       .single();
 
     if (error) {
-      if (error.code === '23505') {
-        throw new ConflictError('Заказ с таким ID уже существует');
+      if (error.code === 'PGRST116') {
+        throw new NotFoundError('Заказ не найден');
       }
-      throw new Error(`Ошибка создания заказа: ${error.message}`);
+      throw new Error(`Ошибка получения заказа: ${error.message}`);
     }
 
-    // Добавляем мастеров к заказу
-    if (orderData.masters && orderData.masters.length > 0) {
-      const masterInserts = orderData.masters.map(master => ({
-        order_id: order.id,
-        master_id: master.master_id,
-        percent: master.percent
-      }));
+    const timeline = await getOrderStatusTimeline(order);
 
-      const { error: mastersError } = await supabase
-        .from('order_masters')
-        .insert(masterInserts);
+    res.json({
+      success: true,
+      data: timeline
+    } as ApiResponse<OrderStatusTimeline>);
+  } catch (error) {
+    logger.error('Ошибка получения истории статусов заказа:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
 
-      if (mastersError) {
-        throw new Error(`Ошибка добавления мастеров: ${mastersError.message}`);
-      }
+// Печатный документ заказа в PDF: заказ-наряд, акт или квитанция
+export const getOrderDocument = asyncHandler(async (req: Request, res: Response) => {
+  const { id, type } = req.params;
+
+  if (!id) {
+    throw new ValidationError('ID заказа обязателен');
+  }
+
+  if (!isDocumentType(type)) {
+    throw new ValidationError('Неверный тип документа');
+  }
+
+  try {
+    const data = await getOrderDocumentData(id, type);
+    const pdf = await renderOrderDocument(type, data);
+    const { download } = req.query;
+    const disposition = download ? 'attachment' : 'inline';
+
+    logBusiness('Сформирован документ заказа', req.user?.id, { orderId: id, type });
+
+    res.set({
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `${disposition}; filename="${getDocumentFileName(type, id)}"`,
+      'Content-Length': String(pdf.length)
+    });
+    res.send(pdf);
+  } catch (error) {
+    logger.error('Ошибка формирования документа заказа:', error);
+    if (error instanceof AppError) {
+      throw error;
     }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Создание нового заказа
+export const createOrder = asyncHandler(async (req: Request, res: Response) => {
+  const orderData: CreateOrderData = req.body;
+
+  try {
+    // Заказ, мастера, стоимость и история статусов пишутся одной транзакцией
+    const orderId = await createOrderWithMasters(orderData, req.user?.id);
+    const fullOrder = await getCreatedOrder(orderId);
+
+    // Версия заказа для оптимистичной блокировки при последующих изменениях
+    res.set('ETag', `"${fullOrder.version}"`);
 
     logBusiness('Создан новый заказ', req.user?.id, { 
-      orderId: order.id,
+      orderId,
       clientId: orderData.client_id,
-      total: order.total
+      total: fullOrder.total
     });
 
-    // Получаем созданный заказ с мастерами
-    const { data: fullOrder, error: fetchError } = await supabase
-      .from('orders')
-      .select(`
-        *,
-        client:clients(name, phone, car1, car2),
-        order_masters!inner(
-          master_id,
-          percent,
-          users!inner(full_name, phone)
-        )
-      `)
-      .eq('id', order.id)
-      .single();
-
-    if (fetchError) {
-      throw new Error(`Ошибка получения созданного заказа: ${fetchError.message}`);
-    }
-
     res.status(201).json({
       success: true,
       data: fullOrder
     } as ApiResponse<Order>);
   } catch (error) {
     logger.error('Ошибка создания заказа:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
     throw new Error('Внутренняя ошибка сервера');
   }
 });
@@ -268,11 +318,13 @@ export const updateOrder = asyncHandler(async (req: Request, res: Response) => {
     throw new ValidationError('ID заказа обязателен');
   }
 
+  const expectedVersion = getExpectedVersion(req);
+
   try {
     // Проверяем существование заказа
     const { data: existingOrder, error: checkError } = await supabase
       .from('orders')
-      .select('id, status')
+      .select('id, status, total')
       .eq('id', id)
       .single();
 
@@ -280,51 +332,22 @@ export const updateOrder = asyncHandler(async (req: Request, res: Response) => {
       throw new NotFoundError('Заказ не найден');
     }
 
-    // Обновляем основные поля
-    const { data: order, error } = await supabase
-      .from('orders')
-      .update({
-        client_id: updateData.client_id,
-        services: updateData.services,
-        parts_cost: updateData.parts_cost,
-        services_cost: updateData.services ? 
-          updateData.services.reduce((sum, service) => sum + (service.price * service.qty), 0) :
-          existingOrder.services_cost,
-        status: updateData.status,
-        notes: updateData.notes,
-        updated_at: new Date().toISOString()
-      })
-      .eq('id', id)
-      .select()
-      .single();
-
-    if (error) {
-      throw new Error(`Ошибка обновления заказа: ${error.message}`);
+    // Смена статуса подчиняется тем же правилам, что и PATCH /:id/status
+    if (updateData.status && updateData.status !== existingOrder.status) {
+      await assertOrderStatusTransition(existingOrder, updateData.status, req.user!.role);
     }
 
-    // Обновляем мастеров если нужно
-    if (updateData.masters && updateData.masters.length > 0) {
-      // Удаляем старых мастеров
-      await supabase
-        .from('order_masters')
-        .delete()
-        .eq('order_id', id);
-
-      // Добавляем новых мастеров
-      const masterInserts = updateData.masters.map(master => ({
-        order_id: id,
-        master_id: master.master_id,
-        percent: master.percent
-      }));
-
-      const { error: mastersError } = await supabase
-        .from('order_masters')
-        .insert(masterInserts);
-
-      if (mastersError) {
-        throw new Error(`Ошибка обновления мастеров: ${mastersError.message}`);
-      }
-    }
+    // Поля заказа, стоимость, мастера и история статусов обновляются одной транзакцией.
+    // Исходный статус повторно проверяется под блокировкой заказа
+    const { masters, version: _version, ...changes } = updateData;
+    await updateOrderWithMasters(
+      id,
+      changes,
+      masters && masters.length > 0 ? masters : undefined,
+      req.user?.id,
+      expectedVersion,
+      existingOrder.status
+    );
 
     logBusiness('Заказ обновлен', req.user?.id, { 
       orderId: id,
@@ -338,6 +361,8 @@ export const updateOrder = asyncHandler(async (req: Request, res: Response) => {
       .select(`
         *,
         client:clients(name, phone, car1, car2),
+        vehicle:vehicles(id, make, model, year, plate, vin),
+        items:order_items(*),
         order_masters!inner(
           master_id,
           percent,
@@ -357,6 +382,9 @@ export const updateOrder = asyncHandler(async (req: Request, res: Response) => {
     } as ApiResponse<Order>);
   } catch (error) {
     logger.error('Ошибка обновления заказа:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
     throw new Error('Внутренняя ошибка сервера');
   }
 });
@@ -374,32 +402,49 @@ export const updateOrderStatus = asyncHandler(async (req: Request, res: Response
     throw new ValidationError('Статус обязателен');
   }
 
-  const validStatuses = [
-    'новый', 'принял', 'диагностика', 'в_работе', 
-    'ожидание_деталей', 'готово', 'ожидание_оплаты', 'выдан', 'закрыт'
-  ];
-
-  if (!validStatuses.includes(status)) {
+  if (!isOrderStatus(status)) {
     throw new ValidationError('Неверный статус');
   }
 
+  const expectedVersion = getExpectedVersion(req);
+
   try {
-    const { data: order, error } = await supabase
+    const { data: existingOrder, error: checkError } = await supabase
       .from('orders')
-      .update({ 
-        status,
-        updated_at: new Date().toISOString()
-      })
+      .select('id, status, total')
       .eq('id', id)
+      .single();
+
+    if (checkError) {
+      throw new NotFoundError('Заказ не найден');
+    }
+
+    if (status !== existingOrder.status) {
+      await assertOrderStatusTransition(existingOrder, status, req.user!.role);
+    }
+
+    await updateOrderWithMasters(
+      id,
+      { status },
+      undefined,
+      req.user?.id,
+      expectedVersion,
+      existingOrder.status
+    );
+
+    const { data: order, error } = await supabase
+      .from('orders')
       .select()
+      .eq('id', id)
       .single();
 
     if (error) {
-      throw new Error(`Ошибка обновления статуса: ${error.message}`);
+      throw new Error(`Ошибка получения заказа: ${error.message}`);
     }
 
     logBusiness('Статус заказа изменен', req.user?.id, { 
       orderId: id,
+      oldStatus: existingOrder.status,
       newStatus: status
     });
 
@@ -409,6 +454,9 @@ export const updateOrderStatus = asyncHandler(async (req: Request, res: Response
     } as ApiResponse<Order>);
   } catch (error) {
     logger.error('Ошибка обновления статуса заказа:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
     throw new Error('Внутренняя ошибка сервера');
   }
 });
@@ -416,7 +464,7 @@ export const updateOrderStatus = asyncHandler(async (req: Request, res: Response
 // Обновление распределения мастеров
 export const updateOrderMasters = asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
-  const { masters } = req.body;
+  const { masters }: { masters: CreateOrderData['masters'] } = req.body;
 
   if (!id) {
     throw new ValidationError('ID заказа обязателен');
@@ -432,27 +480,11 @@ export const updateOrderMasters = asyncHandler(async (req: Request, res: Respons
     throw new ValidationError('Сумма процентов мастеров должна быть равна 100%');
   }
 
-  try {
-    // Удаляем старых мастеров
-    await supabase
-      .from('order_masters')
-      .delete()
-      .eq('order_id', id);
-
-    // Добавляем новых мастеров
-    const masterInserts = masters.map(master => ({
-      order_id: id,
-      master_id: master.master_id,
-      percent: master.percent
-    }));
-
-    const { error } = await supabase
-      .from('order_masters')
-      .insert(masterInserts);
+  const expectedVersion = getExpectedVersion(req);
 
-    if (error) {
-      throw new Error(`Ошибка обновления мастеров: ${error.message}`);
-    }
+  try {
+    // Старые мастера удаляются и новые добавляются в одной транзакции
+    await updateOrderWithMasters(id, {}, masters, req.user?.id, expectedVersion);
 
     logBusiness('Распределение мастеров обновлено', req.user?.id, { 
       orderId: id,
@@ -465,6 +497,9 @@ export const updateOrderMasters = asyncHandler(async (req: Request, res: Respons
     } as ApiResponse);
   } catch (error) {
     logger.error('Ошибка обновления мастеров:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
     throw new Error('Внутренняя ошибка сервера');
   }
 });
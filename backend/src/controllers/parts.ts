@@ -0,0 +1,139 @@
+import { Request, Response } from 'express';
+import {
+  asyncHandler,
+  AppError,
+  ValidationError
+} from '@/middleware/errorHandler';
+import {
+  CreatePartsSaleData,
+  PartsSale,
+  PartsSaleFilters,
+  UpdatePartsSaleData,
+  ApiResponse,
+  PaginatedResponse,
+  PaginationParams
+} from '@/types';
+import { logger, logBusiness } from '@/utils/logger';
+import {
+  getPartsSales as listPartsSales,
+  getPartsSaleById as findPartsSale,
+  createPartsSale as insertPartsSale,
+  updatePartsSale as savePartsSale
+} from '@/services/partsSaleService';
+
+// Продажи запчастей. Мастер видит только свои продажи
+export const getPartsSales = asyncHandler(async (req: Request, res: Response) => {
+  const { date_from, date_to, seller_id, client_phone, search } = req.query as PartsSaleFilters;
+  const { page = 1, limit = 20 } = req.query as PaginationParams;
+  const sellerId = req.user?.role === 'master' ? req.user.id : seller_id;
+
+  const filters: PartsSaleFilters = {
+    ...(date_from && { date_from }),
+    ...(date_to && { date_to }),
+    ...(sellerId && { seller_id: sellerId }),
+    ...(client_phone && { client_phone }),
+    ...(search && { search })
+  };
+
+  try {
+    const { items, total } = await listPartsSales(filters, Number(page), Number(limit));
+
+    res.json({
+      success: true,
+      data: {
+        items,
+        pagination: {
+          page: Number(page),
+          limit: Number(limit),
+          total,
+          pages: Math.ceil(total / Number(limit))
+        }
+      }
+    } as PaginatedResponse<PartsSale>);
+  } catch (error) {
+    logger.error('Ошибка получения продаж запчастей:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+export const getPartsSaleById = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  if (!id) {
+    throw new ValidationError('ID продажи обязателен');
+  }
+
+  try {
+    const sale = await findPartsSale(id);
+
+    res.json({
+      success: true,
+      data: sale
+    } as ApiResponse<PartsSale>);
+  } catch (error) {
+    logger.error('Ошибка получения продажи запчастей:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Чек с несколькими позициями и оплатой
+export const createPartsSale = asyncHandler(async (req: Request, res: Response) => {
+  const saleData: CreatePartsSaleData = req.body;
+
+  try {
+    const sale = await insertPartsSale(saleData, req.user?.id);
+
+    logBusiness('Продажа запчастей', req.user?.id, {
+      partsSaleId: sale.id,
+      items: saleData.items.length,
+      total: sale.total,
+      payments: saleData.payments?.map(payment => payment.type) || []
+    });
+
+    res.status(201).json({
+      success: true,
+      data: sale
+    } as ApiResponse<PartsSale>);
+  } catch (error) {
+    logger.error('Ошибка создания продажи запчастей:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+export const updatePartsSale = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const updateData: UpdatePartsSaleData = req.body;
+
+  if (!id) {
+    throw new ValidationError('ID продажи обязателен');
+  }
+
+  try {
+    const sale = await savePartsSale(id, updateData);
+
+    logBusiness('Продажа запчастей обновлена', req.user?.id, {
+      partsSaleId: id,
+      changes: updateData
+    });
+
+    res.json({
+      success: true,
+      data: sale
+    } as ApiResponse<PartsSale>);
+  } catch (error) {
+    logger.error('Ошибка обновления продажи запчастей:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
@@ -0,0 +1,256 @@
+import { Request, Response } from 'express';
+import {
+  asyncHandler,
+  AppError,
+  ValidationError
+} from '@/middleware/errorHandler';
+import {
+  BrandAlias,
+  CreateBrandAliasData,
+  CreatePartCrossData,
+  PartCross,
+  PartOfferSearch,
+  PriceListImport,
+  PriceListMapping,
+  ApiResponse
+} from '@/types';
+import { logger, logBusiness } from '@/utils/logger';
+import {
+  importPriceList,
+  getPriceListImports as listPriceListImports,
+  searchPartOffers,
+  getBrandAliases as listBrandAliases,
+  createBrandAlias as insertBrandAlias,
+  deleteBrandAlias as removeBrandAlias,
+  getPartCrosses as listPartCrosses,
+  addPartCrosses,
+  deletePartCross as removePartCross
+} from '@/services/priceListService';
+
+// Загрузка прайс-листа поставщика (dry_run=true - только проверка)
+export const uploadPriceList = asyncHandler(async (req: Request, res: Response) => {
+  if (!req.file) {
+    throw new ValidationError('Файл обязателен');
+  }
+
+  const { supplier_id, dry_run } = req.body as { supplier_id: string; dry_run?: string };
+
+  let mapping: PriceListMapping | undefined;
+  if (req.body.mapping) {
+    try {
+      mapping = JSON.parse(req.body.mapping);
+    } catch {
+      throw new ValidationError('Сопоставление колонок должно быть JSON-объектом');
+    }
+  }
+
+  try {
+    const priceList = await importPriceList(
+      supplier_id,
+      req.file,
+      mapping,
+      dry_run === 'true',
+      req.user?.id
+    );
+
+    if (priceList.status !== 'dry_run') {
+      logBusiness('Загружен прайс-лист поставщика', req.user?.id, {
+        importId: priceList.id,
+        supplierId: supplier_id,
+        fileName: priceList.file_name,
+        importedRows: priceList.imported_rows,
+        crossRows: priceList.cross_rows
+      });
+    }
+
+    res.status(priceList.status === 'dry_run' ? 200 : 201).json({
+      success: true,
+      data: priceList
+    } as ApiResponse<PriceListImport>);
+  } catch (error) {
+    logger.error('Ошибка загрузки прайс-листа:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+export const getPriceListImports = asyncHandler(async (req: Request, res: Response) => {
+  const { supplier_id } = req.query as { supplier_id?: string };
+
+  try {
+    const imports = await listPriceListImports(supplier_id);
+
+    res.json({
+      success: true,
+      data: imports
+    } as ApiResponse<PriceListImport[]>);
+  } catch (error) {
+    logger.error('Ошибка получения загрузок прайс-листов:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Поиск предложений поставщиков для продажи запчастей
+export const getPartOffers = asyncHandler(async (req: Request, res: Response) => {
+  const { part_number, brand, limit } = req.query as {
+    part_number: string;
+    brand?: string;
+    limit?: string;
+  };
+
+  try {
+    const search = await searchPartOffers(part_number, brand, limit ? Number(limit) : undefined);
+
+    res.json({
+      success: true,
+      data: search
+    } as ApiResponse<PartOfferSearch>);
+  } catch (error) {
+    logger.error('Ошибка поиска предложений поставщиков:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Варианты написания брендов
+export const getBrandAliases = asyncHandler(async (_req: Request, res: Response) => {
+  try {
+    const aliases = await listBrandAliases();
+
+    res.json({
+      success: true,
+      data: aliases
+    } as ApiResponse<BrandAlias[]>);
+  } catch (error) {
+    logger.error('Ошибка получения вариантов брендов:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+export const createBrandAlias = asyncHandler(async (req: Request, res: Response) => {
+  const aliasData: CreateBrandAliasData = req.body;
+
+  try {
+    const alias = await insertBrandAlias(aliasData);
+
+    logBusiness('Добавлен вариант бренда', req.user?.id, {
+      alias: alias.alias,
+      brand: alias.brand
+    });
+
+    res.status(201).json({
+      success: true,
+      data: alias
+    } as ApiResponse<BrandAlias>);
+  } catch (error) {
+    logger.error('Ошибка создания варианта бренда:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+export const deleteBrandAlias = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  if (!id) {
+    throw new ValidationError('ID варианта бренда обязателен');
+  }
+
+  try {
+    await removeBrandAlias(id);
+
+    logBusiness('Удален вариант бренда', req.user?.id, { aliasId: id });
+
+    res.json({
+      success: true,
+      data: { message: 'Вариант бренда удален' }
+    } as ApiResponse);
+  } catch (error) {
+    logger.error('Ошибка удаления варианта бренда:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Кроссы артикулов
+export const getPartCrosses = asyncHandler(async (req: Request, res: Response) => {
+  const { part_number } = req.query as { part_number: string };
+
+  try {
+    const crosses = await listPartCrosses(part_number);
+
+    res.json({
+      success: true,
+      data: crosses
+    } as ApiResponse<PartCross[]>);
+  } catch (error) {
+    logger.error('Ошибка получения кроссов:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+export const createPartCrosses = asyncHandler(async (req: Request, res: Response) => {
+  const { crosses } = req.body as { crosses: CreatePartCrossData[] };
+
+  try {
+    const added = await addPartCrosses(crosses, req.user?.id);
+
+    logBusiness('Добавлены кроссы артикулов', req.user?.id, {
+      requested: crosses.length,
+      added
+    });
+
+    res.status(201).json({
+      success: true,
+      data: { added }
+    } as ApiResponse<{ added: number }>);
+  } catch (error) {
+    logger.error('Ошибка добавления кроссов:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+export const deletePartCross = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  if (!id) {
+    throw new ValidationError('ID кросса обязателен');
+  }
+
+  try {
+    await removePartCross(id);
+
+    logBusiness('Удален кросс артикула', req.user?.id, { crossId: id });
+
+    res.json({
+      success: true,
+      data: { message: 'Кросс удален' }
+    } as ApiResponse);
+  } catch (error) {
+    logger.error('Ошибка удаления кросса:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
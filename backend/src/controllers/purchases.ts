@@ -0,0 +1,302 @@
+import { Request, Response } from 'express';
+import {
+  asyncHandler,
+  AppError,
+  ValidationError
+} from '@/middleware/errorHandler';
+import {
+  CreatePurchaseOrderData,
+  CreateSupplierData,
+  PurchaseOrder,
+  PurchaseOrderFilters,
+  PurchaseOrderReceipt,
+  PurchaseOrderStatus,
+  ReceivePurchaseOrderData,
+  ReorderResult,
+  ReorderSuggestion,
+  Supplier,
+  UpdatePurchaseOrderData,
+  UpdateSupplierData,
+  ApiResponse,
+  PaginatedResponse,
+  PaginationParams
+} from '@/types';
+import { logger, logBusiness } from '@/utils/logger';
+import {
+  getSuppliers as listSuppliers,
+  createSupplier as insertSupplier,
+  updateSupplier as saveSupplier,
+  getPurchaseOrders as listPurchaseOrders,
+  getPurchaseOrderById as findPurchaseOrder,
+  createPurchaseOrder as insertPurchaseOrder,
+  updatePurchaseOrder as savePurchaseOrder,
+  receivePurchaseOrder as acceptPurchaseOrder
+} from '@/services/purchaseService';
+import {
+  getReorderSuggestions as listReorderSuggestions,
+  createReorderDrafts
+} from '@/services/reorderService';
+
+// Поставщики
+export const getSuppliers = asyncHandler(async (req: Request, res: Response) => {
+  const { include_inactive } = req.query as { include_inactive?: string };
+
+  try {
+    const suppliers = await listSuppliers(include_inactive === 'true');
+
+    res.json({
+      success: true,
+      data: suppliers
+    } as ApiResponse<Supplier[]>);
+  } catch (error) {
+    logger.error('Ошибка получения поставщиков:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+export const createSupplier = asyncHandler(async (req: Request, res: Response) => {
+  const supplierData: CreateSupplierData = req.body;
+
+  try {
+    const supplier = await insertSupplier(supplierData);
+
+    logBusiness('Создан поставщик', req.user?.id, {
+      supplierId: supplier.id,
+      name: supplier.name
+    });
+
+    res.status(201).json({
+      success: true,
+      data: supplier
+    } as ApiResponse<Supplier>);
+  } catch (error) {
+    logger.error('Ошибка создания поставщика:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+export const updateSupplier = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const updateData: UpdateSupplierData = req.body;
+
+  if (!id) {
+    throw new ValidationError('ID поставщика обязателен');
+  }
+
+  try {
+    const supplier = await saveSupplier(id, updateData);
+
+    logBusiness('Поставщик обновлен', req.user?.id, {
+      supplierId: id,
+      changes: updateData
+    });
+
+    res.json({
+      success: true,
+      data: supplier
+    } as ApiResponse<Supplier>);
+  } catch (error) {
+    logger.error('Ошибка обновления поставщика:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Заказы поставщикам
+export const getPurchaseOrders = asyncHandler(async (req: Request, res: Response) => {
+  const { supplier_id, status, order_id, overdue } = req.query as {
+    supplier_id?: string;
+    status?: PurchaseOrderStatus;
+    order_id?: string;
+    overdue?: string;
+  };
+  const { page = 1, limit = 20 } = req.query as PaginationParams;
+
+  const filters: PurchaseOrderFilters = {
+    ...(supplier_id && { supplier_id }),
+    ...(status && { status }),
+    ...(order_id && { order_id }),
+    overdue: overdue === 'true'
+  };
+
+  try {
+    const { items, total } = await listPurchaseOrders(filters, Number(page), Number(limit));
+
+    res.json({
+      success: true,
+      data: {
+        items,
+        pagination: {
+          page: Number(page),
+          limit: Number(limit),
+          total,
+          pages: Math.ceil(total / Number(limit))
+        }
+      }
+    } as PaginatedResponse<PurchaseOrder>);
+  } catch (error) {
+    logger.error('Ошибка получения заказов поставщикам:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+export const getPurchaseOrderById = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  if (!id) {
+    throw new ValidationError('ID заказа поставщику обязателен');
+  }
+
+  try {
+    const order = await findPurchaseOrder(id);
+
+    res.json({
+      success: true,
+      data: order
+    } as ApiResponse<PurchaseOrder>);
+  } catch (error) {
+    logger.error('Ошибка получения заказа поставщику:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+export const createPurchaseOrder = asyncHandler(async (req: Request, res: Response) => {
+  const orderData: CreatePurchaseOrderData = req.body;
+
+  try {
+    const order = await insertPurchaseOrder(orderData, req.user?.id);
+
+    logBusiness('Создан заказ поставщику', req.user?.id, {
+      purchaseOrderId: order.id,
+      supplierId: order.supplier_id,
+      items: orderData.items.length
+    });
+
+    res.status(201).json({
+      success: true,
+      data: order
+    } as ApiResponse<PurchaseOrder>);
+  } catch (error) {
+    logger.error('Ошибка создания заказа поставщику:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+export const updatePurchaseOrder = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const updateData: UpdatePurchaseOrderData = req.body;
+
+  if (!id) {
+    throw new ValidationError('ID заказа поставщику обязателен');
+  }
+
+  try {
+    const order = await savePurchaseOrder(id, updateData);
+
+    logBusiness('Заказ поставщику обновлен', req.user?.id, {
+      purchaseOrderId: id,
+      changes: updateData
+    });
+
+    res.json({
+      success: true,
+      data: order
+    } as ApiResponse<PurchaseOrder>);
+  } catch (error) {
+    logger.error('Ошибка обновления заказа поставщику:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Приемка заказа поставщику: полная или по позициям
+export const receivePurchaseOrder = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const receiptData: ReceivePurchaseOrderData = req.body;
+
+  if (!id) {
+    throw new ValidationError('ID заказа поставщику обязателен');
+  }
+
+  try {
+    const receipt = await acceptPurchaseOrder(id, receiptData, req.user?.id);
+
+    logBusiness('Приемка заказа поставщику', req.user?.id, {
+      purchaseOrderId: id,
+      status: receipt.purchase_order.status,
+      resumedOrders: receipt.orders.filter(order => order.resumed).map(order => order.order_id)
+    });
+
+    res.json({
+      success: true,
+      data: receipt
+    } as ApiResponse<PurchaseOrderReceipt>);
+  } catch (error) {
+    logger.error('Ошибка приемки заказа поставщику:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Запчасти ниже минимального остатка
+export const getReorderSuggestions = asyncHandler(async (_req: Request, res: Response) => {
+  try {
+    const suggestions = await listReorderSuggestions();
+
+    res.json({
+      success: true,
+      data: suggestions
+    } as ApiResponse<ReorderSuggestion[]>);
+  } catch (error) {
+    logger.error('Ошибка расчета автозаказа:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Ручной запуск автозаказа: черновики заказов поставщикам и уведомления
+export const runReorder = asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const result = await createReorderDrafts(req.user?.id);
+
+    logBusiness('Автозаказ запчастей', req.user?.id, {
+      parts: result.suggestions.length,
+      purchaseOrders: result.purchase_orders.map(order => order.purchase_order_id),
+      withoutSupplier: result.without_supplier.length
+    });
+
+    res.status(201).json({
+      success: true,
+      data: result
+    } as ApiResponse<ReorderResult>);
+  } catch (error) {
+    logger.error('Ошибка автозаказа запчастей:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
@@ -0,0 +1,114 @@
+import { Request, Response } from 'express';
+import { supabase } from '@/config/database';
+import {
+  asyncHandler,
+  AppError,
+  ValidationError,
+  NotFoundError
+} from '@/middleware/errorHandler';
+import {
+  DueService,
+  ServiceReminder,
+  UpdateServiceReminderData,
+  ApiResponse
+} from '@/types';
+import { logger, logBusiness } from '@/utils/logger';
+import { getDueServices as getDueServicesList } from '@/services/reminderService';
+
+// Услуги, которым подходит срок планового обслуживания
+export const getDueServices = asyncHandler(async (req: Request, res: Response) => {
+  const { days_ahead, km_ahead } = req.query as Record<string, string>;
+
+  try {
+    const due = await getDueServicesList({
+      ...(days_ahead !== undefined && { days_ahead: Number(days_ahead) }),
+      ...(km_ahead !== undefined && { km_ahead: Number(km_ahead) })
+    });
+
+    res.json({
+      success: true,
+      data: due
+    } as ApiResponse<DueService[]>);
+  } catch (error) {
+    logger.error('Ошибка получения планового обслуживания:', error);
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Список напоминаний (по умолчанию - необработанные)
+export const getReminders = asyncHandler(async (req: Request, res: Response) => {
+  const { status = 'open', client_id } = req.query as Record<string, string>;
+
+  try {
+    let query = supabase
+      .from('service_reminders')
+      .select(`
+        *,
+        client:clients(id, name, phone),
+        vehicle:vehicles(id, make, model, year, plate, mileage),
+        service:services(id, name)
+      `)
+      .eq('status', status);
+
+    if (client_id) {
+      query = query.eq('client_id', client_id);
+    }
+
+    const { data: reminders, error } = await query
+      .order('due_date', { ascending: true, nullsFirst: false });
+
+    if (error) {
+      throw new Error(`Ошибка получения напоминаний: ${error.message}`);
+    }
+
+    res.json({
+      success: true,
+      data: reminders || []
+    } as ApiResponse<ServiceReminder[]>);
+  } catch (error) {
+    logger.error('Ошибка получения напоминаний:', error);
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Отметка о звонке клиенту или записи на обслуживание
+export const updateReminder = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const updateData: UpdateServiceReminderData = req.body;
+
+  if (!id) {
+    throw new ValidationError('ID напоминания обязателен');
+  }
+
+  try {
+    const { data: reminder, error } = await supabase
+      .from('service_reminders')
+      .update({ ...updateData, handled_by: req.user?.id })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        throw new NotFoundError('Напоминание не найдено');
+      }
+      throw new Error(`Ошибка обновления напоминания: ${error.message}`);
+    }
+
+    logBusiness('Напоминание об обслуживании обработано', req.user?.id, {
+      reminderId: id,
+      status: reminder.status
+    });
+
+    res.json({
+      success: true,
+      data: reminder
+    } as ApiResponse<ServiceReminder>);
+  } catch (error) {
+    logger.error('Ошибка обновления напоминания:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
@@ -0,0 +1,106 @@
+import { Request, Response } from 'express';
+import {
+  asyncHandler,
+  AppError,
+  ValidationError
+} from '@/middleware/errorHandler';
+import {
+  CreateReturnData,
+  ReturnDocument,
+  ReturnFilters,
+  ApiResponse,
+  PaginatedResponse,
+  PaginationParams
+} from '@/types';
+import { logger, logBusiness } from '@/utils/logger';
+import {
+  getReturns as listReturns,
+  getReturnById as findReturn,
+  createReturn as insertReturn
+} from '@/services/returnService';
+
+// Возвраты по продажам запчастей и заказам
+export const getReturns = asyncHandler(async (req: Request, res: Response) => {
+  const { parts_sale_id, order_id, date_from, date_to } = req.query as ReturnFilters;
+  const { page = 1, limit = 20 } = req.query as PaginationParams;
+
+  const filters: ReturnFilters = {
+    ...(parts_sale_id && { parts_sale_id }),
+    ...(order_id && { order_id }),
+    ...(date_from && { date_from }),
+    ...(date_to && { date_to })
+  };
+
+  try {
+    const { items, total } = await listReturns(filters, Number(page), Number(limit));
+
+    res.json({
+      success: true,
+      data: {
+        items,
+        pagination: {
+          page: Number(page),
+          limit: Number(limit),
+          total,
+          pages: Math.ceil(total / Number(limit))
+        }
+      }
+    } as PaginatedResponse<ReturnDocument>);
+  } catch (error) {
+    logger.error('Ошибка получения возвратов:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+export const getReturnById = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  if (!id) {
+    throw new ValidationError('ID возврата обязателен');
+  }
+
+  try {
+    const document = await findReturn(id);
+
+    res.json({
+      success: true,
+      data: document
+    } as ApiResponse<ReturnDocument>);
+  } catch (error) {
+    logger.error('Ошибка получения возврата:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+export const createReturn = asyncHandler(async (req: Request, res: Response) => {
+  const returnData: CreateReturnData = req.body;
+
+  try {
+    const document = await insertReturn(returnData, req.user?.id);
+
+    logBusiness('Оформлен возврат', req.user?.id, {
+      returnId: document.id,
+      partsSaleId: document.parts_sale_id,
+      orderId: document.order_id,
+      total: document.total,
+      refunds: returnData.refunds?.map(refund => refund.type) || []
+    });
+
+    res.status(201).json({
+      success: true,
+      data: document
+    } as ApiResponse<ReturnDocument>);
+  } catch (error) {
+    logger.error('Ошибка оформления возврата:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
@@ -0,0 +1,208 @@
+import { Request, Response } from 'express';
+import { supabase } from '@/config/database';
+import {
+  asyncHandler,
+  AppError,
+  ValidationError,
+  NotFoundError,
+  ConflictError
+} from '@/middleware/errorHandler';
+import {
+  Bay,
+  CreateBayData,
+  UpdateBayData,
+  MasterWorkingHours,
+  ApiResponse
+} from '@/types';
+import { logger, logBusiness } from '@/utils/logger';
+
+// Получение постов
+export const getBays = asyncHandler(async (req: Request, res: Response) => {
+  const { all } = req.query;
+
+  try {
+    let query = supabase
+      .from('bays')
+      .select('*');
+
+    if (!all) {
+      query = query.eq('is_active', true);
+    }
+
+    const { data: bays, error } = await query.order('name', { ascending: true });
+
+    if (error) {
+      throw new Error(`Ошибка получения постов: ${error.message}`);
+    }
+
+    res.json({
+      success: true,
+      data: bays || []
+    } as ApiResponse<Bay[]>);
+  } catch (error) {
+    logger.error('Ошибка получения списка постов:', error);
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Создание поста
+export const createBay = asyncHandler(async (req: Request, res: Response) => {
+  const bayData: CreateBayData = req.body;
+
+  try {
+    const { data: bay, error } = await supabase
+      .from('bays')
+      .insert(bayData)
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new ConflictError('Пост с таким названием уже существует');
+      }
+      throw new Error(`Ошибка создания поста: ${error.message}`);
+    }
+
+    logBusiness('Создан пост', req.user?.id, { bayId: bay.id, name: bay.name });
+
+    res.status(201).json({
+      success: true,
+      data: bay
+    } as ApiResponse<Bay>);
+  } catch (error) {
+    logger.error('Ошибка создания поста:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Обновление поста (в том числе вывод из работы)
+export const updateBay = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const updateData: UpdateBayData = req.body;
+
+  if (!id) {
+    throw new ValidationError('ID поста обязателен');
+  }
+
+  try {
+    const { data: bay, error } = await supabase
+      .from('bays')
+      .update(updateData)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        throw new NotFoundError('Пост не найден');
+      }
+      if (error.code === '23505') {
+        throw new ConflictError('Пост с таким названием уже существует');
+      }
+      throw new Error(`Ошибка обновления поста: ${error.message}`);
+    }
+
+    logBusiness('Пост обновлен', req.user?.id, { bayId: id, changes: Object.keys(updateData) });
+
+    res.json({
+      success: true,
+      data: bay
+    } as ApiResponse<Bay>);
+  } catch (error) {
+    logger.error('Ошибка обновления поста:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Рабочие часы мастеров (всех или одного)
+export const getWorkingHours = asyncHandler(async (req: Request, res: Response) => {
+  const { master_id } = req.query as { master_id?: string };
+
+  try {
+    let query = supabase
+      .from('master_working_hours')
+      .select('*');
+
+    if (master_id) {
+      query = query.eq('master_id', master_id);
+    }
+
+    const { data: hours, error } = await query
+      .order('master_id')
+      .order('weekday');
+
+    if (error) {
+      throw new Error(`Ошибка получения рабочих часов: ${error.message}`);
+    }
+
+    res.json({
+      success: true,
+      data: hours || []
+    } as ApiResponse<MasterWorkingHours[]>);
+  } catch (error) {
+    logger.error('Ошибка получения рабочих часов:', error);
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Замена недельного графика мастера. Дни без записи считаются выходными
+export const setWorkingHours = asyncHandler(async (req: Request, res: Response) => {
+  const { masterId } = req.params;
+  const { hours }: { hours: Array<Omit<MasterWorkingHours, 'id' | 'master_id'>> } = req.body;
+
+  if (!masterId) {
+    throw new ValidationError('ID мастера обязателен');
+  }
+
+  const weekdays = hours.map(h => h.weekday);
+  if (new Set(weekdays).size !== weekdays.length) {
+    throw new ValidationError('День недели указан несколько раз');
+  }
+
+  try {
+    const { error: deleteError } = await supabase
+      .from('master_working_hours')
+      .delete()
+      .eq('master_id', masterId);
+
+    if (deleteError) {
+      throw new Error(`Ошибка обновления рабочих часов: ${deleteError.message}`);
+    }
+
+    const { data: saved, error } = hours.length > 0
+      ? await supabase
+        .from('master_working_hours')
+        .insert(hours.map(h => ({ ...h, master_id: masterId })))
+        .select()
+      : { data: [], error: null };
+
+    if (error) {
+      if (error.code === '23503') {
+        throw new NotFoundError('Мастер не найден');
+      }
+      if (error.code === '23514') {
+        throw new ValidationError('Окончание рабочего дня должно быть позже начала');
+      }
+      throw new Error(`Ошибка обновления рабочих часов: ${error.message}`);
+    }
+
+    logBusiness('Обновлен график мастера', req.user?.id, { masterId, weekdays });
+
+    res.json({
+      success: true,
+      data: saved || []
+    } as ApiResponse<MasterWorkingHours[]>);
+  } catch (error) {
+    logger.error('Ошибка обновления рабочих часов:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
@@ -0,0 +1,31 @@
+import { Request, Response } from 'express';
+import { asyncHandler, AppError } from '@/middleware/errorHandler';
+import { CashflowData, StatsFilters, ApiResponse } from '@/types';
+import { logger } from '@/utils/logger';
+import { getCashflow as loadCashflow } from '@/services/statsService';
+
+// Денежный поток: поступления, возвраты денег, расходы и прибыль по периодам
+export const getCashflow = asyncHandler(async (req: Request, res: Response) => {
+  const { period, date_from, date_to } = req.query as StatsFilters;
+
+  const filters: StatsFilters = {
+    ...(period && { period }),
+    ...(date_from && { date_from }),
+    ...(date_to && { date_to })
+  };
+
+  try {
+    const cashflow = await loadCashflow(filters);
+
+    res.json({
+      success: true,
+      data: cashflow
+    } as ApiResponse<CashflowData>);
+  } catch (error) {
+    logger.error('Ошибка получения денежного потока:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
@@ -0,0 +1,296 @@
+import { Request, Response } from 'express';
+import { supabase } from '@/config/database';
+import {
+  asyncHandler,
+  AppError,
+  ValidationError,
+  NotFoundError
+} from '@/middleware/errorHandler';
+import {
+  Vehicle,
+  VehicleOwner,
+  CreateVehicleData,
+  UpdateVehicleData,
+  VehicleFilters,
+  VinDecodeResult,
+  Order,
+  ApiResponse,
+  PaginatedResponse,
+  PaginationParams
+} from '@/types';
+import { logger, logBusiness } from '@/utils/logger';
+import {
+  toVehicleError,
+  normalizeVehicleData,
+  createVehicle as createVehicleRecord,
+  transferVehicle as transferVehicleOwner
+} from '@/services/vehicleService';
+import { decodeVin } from '@/services/vinService';
+
+// Получение списка автомобилей
+export const getVehicles = asyncHandler(async (req: Request, res: Response) => {
+  const { client_id, search } = req.query as VehicleFilters;
+  const { page = 1, limit = 20 } = req.query as PaginationParams;
+  const offset = (Number(page) - 1) * Number(limit);
+
+  try {
+    let query = supabase
+      .from('vehicles')
+      .select('*, client:clients(id, name, phone)', { count: 'exact' });
+
+    if (client_id) {
+      query = query.eq('client_id', client_id);
+    }
+
+    if (search) {
+      const term = search.replace(/[,()]/g, ' ').trim();
+      const compact = term.replace(/\s/g, '').toUpperCase();
+      query = query.or(
+        `plate.ilike.%${compact}%,vin.ilike.%${compact}%,make.ilike.%${term}%,model.ilike.%${term}%`
+      );
+    }
+
+    const { data: vehicles, count, error } = await query
+      .order('created_at', { ascending: false })
+      .range(offset, offset + Number(limit) - 1);
+
+    if (error) {
+      throw new Error(`Ошибка получения автомобилей: ${error.message}`);
+    }
+
+    res.json({
+      success: true,
+      data: {
+        items: vehicles || [],
+        pagination: {
+          page: Number(page),
+          limit: Number(limit),
+          total: count || 0,
+          pages: Math.ceil((count || 0) / Number(limit))
+        }
+      }
+    } as PaginatedResponse<Vehicle>);
+  } catch (error) {
+    logger.error('Ошибка получения списка автомобилей:', error);
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Получение автомобиля с историей владельцев
+export const getVehicleById = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  if (!id) {
+    throw new ValidationError('ID автомобиля обязателен');
+  }
+
+  try {
+    const { data: vehicle, error } = await supabase
+      .from('vehicles')
+      .select(`
+        *,
+        client:clients(id, name, phone),
+        owners:vehicle_owners(
+          id,
+          client_id,
+          owned_from,
+          owned_to,
+          client:clients(id, name, phone)
+        )
+      `)
+      .eq('id', id)
+      .order('owned_from', { foreignTable: 'vehicle_owners', ascending: false })
+      .single();
+
+    if (error) {
+      throw toVehicleError(error, 'получения автомобиля');
+    }
+
+    res.json({
+      success: true,
+      data: vehicle
+    } as ApiResponse<Vehicle & { owners: VehicleOwner[] }>);
+  } catch (error) {
+    logger.error('Ошибка получения автомобиля:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Заказы по автомобилю (все владельцы)
+export const getVehicleOrders = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  if (!id) {
+    throw new ValidationError('ID автомобиля обязателен');
+  }
+
+  try {
+    const { data: orders, error } = await supabase
+      .from('orders')
+      .select('*, client:clients(name, phone)')
+      .eq('vehicle_id', id)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Ошибка получения заказов автомобиля: ${error.message}`);
+    }
+
+    res.json({
+      success: true,
+      data: orders || []
+    } as ApiResponse<Order[]>);
+  } catch (error) {
+    logger.error('Ошибка получения заказов автомобиля:', error);
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Расшифровка VIN для заполнения карточки автомобиля
+export const decodeVehicleVin = asyncHandler(async (req: Request, res: Response) => {
+  const { vin } = req.params;
+
+  if (!vin) {
+    throw new ValidationError('VIN обязателен');
+  }
+
+  res.json({
+    success: true,
+    data: decodeVin(vin)
+  } as ApiResponse<VinDecodeResult>);
+});
+
+// Создание автомобиля
+export const createVehicle = asyncHandler(async (req: Request, res: Response) => {
+  const vehicleData: CreateVehicleData = req.body;
+
+  try {
+    const vehicle = await createVehicleRecord(vehicleData);
+
+    logBusiness('Добавлен автомобиль', req.user?.id, {
+      vehicleId: vehicle.id,
+      clientId: vehicle.client_id,
+      vin: vehicle.vin
+    });
+
+    res.status(201).json({
+      success: true,
+      data: vehicle
+    } as ApiResponse<Vehicle>);
+  } catch (error) {
+    logger.error('Ошибка создания автомобиля:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Обновление автомобиля. Владелец меняется только через /transfer
+export const updateVehicle = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { client_id: _clientId, ...updateData }: UpdateVehicleData & { client_id?: string } = req.body;
+
+  if (!id) {
+    throw new ValidationError('ID автомобиля обязателен');
+  }
+
+  try {
+    const { data: vehicle, error } = await supabase
+      .from('vehicles')
+      .update(normalizeVehicleData(updateData))
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      throw toVehicleError(error, 'обновления автомобиля');
+    }
+
+    logBusiness('Автомобиль обновлен', req.user?.id, {
+      vehicleId: id,
+      changes: Object.keys(updateData)
+    });
+
+    res.json({
+      success: true,
+      data: vehicle
+    } as ApiResponse<Vehicle>);
+  } catch (error) {
+    logger.error('Ошибка обновления автомобиля:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Смена владельца автомобиля
+export const transferVehicle = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { client_id } = req.body as { client_id: string };
+
+  if (!id) {
+    throw new ValidationError('ID автомобиля обязателен');
+  }
+
+  try {
+    const vehicle = await transferVehicleOwner(id, client_id);
+
+    logBusiness('Смена владельца автомобиля', req.user?.id, {
+      vehicleId: id,
+      clientId: client_id
+    });
+
+    res.json({
+      success: true,
+      data: vehicle
+    } as ApiResponse<Vehicle>);
+  } catch (error) {
+    logger.error('Ошибка смены владельца автомобиля:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
+
+// Удаление автомобиля. Заказы остаются без привязки к автомобилю
+export const deleteVehicle = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  if (!id) {
+    throw new ValidationError('ID автомобиля обязателен');
+  }
+
+  try {
+    const { data: deleted, error } = await supabase
+      .from('vehicles')
+      .delete()
+      .eq('id', id)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Ошибка удаления автомобиля: ${error.message}`);
+    }
+
+    if (!deleted || deleted.length === 0) {
+      throw new NotFoundError('Автомобиль не найден');
+    }
+
+    logBusiness('Автомобиль удален', req.user?.id, { vehicleId: id });
+
+    res.json({
+      success: true,
+      data: { message: 'Автомобиль удален' }
+    } as ApiResponse);
+  } catch (error) {
+    logger.error('Ошибка удаления автомобиля:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error('Внутренняя ошибка сервера');
+  }
+});
@@ -20,6 +20,17 @@ import salaryRoutes from '@/routes/salaries';
 import statsRoutes from '@/routes/stats';
 import serviceRoutes from '@/routes/services';
 import notificationRoutes from '@/routes/notifications';
+import estimateRoutes from '@/routes/estimates';
+import publicRoutes from '@/routes/public';
+import appointmentRoutes from '@/routes/appointments';
+import scheduleRoutes from '@/routes/schedule';
+import vehicleRoutes from '@/routes/vehicles';
+import reminderRoutes from '@/routes/reminders';
+import loyaltyRoutes from '@/routes/loyalty';
+import inventoryRoutes from '@/routes/inventory';
+import purchaseRoutes from '@/routes/purchases';
+import priceListRoutes from '@/routes/priceLists';
+import returnRoutes from '@/routes/returns';
 
 // Загрузка переменных окружения
 dotenv.config();
@@ -52,7 +63,8 @@ const corsOptions = {
     : ['http://localhost:3000', 'http://localhost:3001'],
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'If-Match'],
+  exposedHeaders: ['ETag'],
 };
 
 app.use(cors(corsOptions));
@@ -109,6 +121,17 @@ app.use('/api/salaries', salaryRoutes);
 app.use('/api/stats', statsRoutes);
 app.use('/api/services', serviceRoutes);
 app.use('/api/notifications', notificationRoutes);
+app.use('/api/estimates', estimateRoutes);
+app.use('/api/public', publicRoutes);
+app.use('/api/appointments', appointmentRoutes);
+app.use('/api/schedule', scheduleRoutes);
+app.use('/api/vehicles', vehicleRoutes);
+app.use('/api/reminders', reminderRoutes);
+app.use('/api/loyalty', loyaltyRoutes);
+app.use('/api/inventory', inventoryRoutes);
+app.use('/api/purchases', purchaseRoutes);
+app.use('/api/price-lists', priceListRoutes);
+app.use('/api/returns', returnRoutes);
 
 // Обработка 404
 app.use('*', (req, res) => {
@@ -127,6 +150,11 @@ app.use(errorHandler);
 // Запуск сервера
 async function startServer() {
   try {
+    // Секрет подписывает токены и SMS коды онлайн-записи
+    if (!process.env['JWT_SECRET']) {
+      throw new Error('Не задана переменная окружения JWT_SECRET');
+    }
+
     // Подключение к базе данных
     await connectDB();
     
@@ -46,9 +46,36 @@ export class NotFoundError extends AppError {
 }
 
 export class ConflictError extends AppError {
-  constructor(message: string = 'Конфликт данных') {
+  public details?: any;
+
+  constructor(message: string = 'Конфликт данных', details?: any) {
     super(message, 409, 'CONFLICT');
     this.name = 'ConflictError';
+    this.details = details;
+  }
+}
+
+export class PreconditionRequiredError extends AppError {
+  constructor(message: string = 'Не указана версия ресурса') {
+    super(message, 428, 'PRECONDITION_REQUIRED');
+    this.name = 'PreconditionRequiredError';
+  }
+}
+
+export class RateLimitError extends AppError {
+  constructor(message: string = 'Слишком много запросов, попробуйте позже.') {
+    super(message, 429, 'RATE_LIMIT_EXCEEDED');
+    this.name = 'RateLimitError';
+  }
+}
+
+export class StatusTransitionError extends AppError {
+  public details?: any;
+
+  constructor(message: string = 'Недопустимая смена статуса', details?: any) {
+    super(message, 422, 'INVALID_STATUS_TRANSITION');
+    this.name = 'StatusTransitionError';
+    this.details = details;
   }
 }
 
@@ -152,7 +179,14 @@ export function errorHandler(
   };
 
   // Добавляем детали валидации если есть
-  if (appError instanceof ValidationError && (appError as any).details) {
+  if (
+    (
+      appError instanceof ValidationError ||
+      appError instanceof StatusTransitionError ||
+      appError instanceof ConflictError
+    ) &&
+    (appError as any).details
+  ) {
     response.error.details = (appError as any).details;
   }
 
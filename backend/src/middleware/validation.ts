@@ -1,6 +1,8 @@
 import { Request, Response, NextFunction } from 'express';
+import { body } from 'express-validator';
 import { ValidationError } from '@/middleware/errorHandler';
 import { asyncHandler } from '@/middleware/errorHandler';
+import { isOrderStatus } from '@/services/orderStatusService';
 
 // Middleware для валидации запросов
 export const validateRequest = asyncHandler(
@@ -20,6 +22,43 @@ export const validateRequest = asyncHandler(
   }
 );
 
+// Правила валидации позиций заказа/сметы (услуги и запчасти)
+export const orderItemsValidation = (field: string, required: boolean = false) => [
+  (required ? body(field) : body(field).optional())
+    .isArray({ min: required ? 1 : 0 })
+    .withMessage('Позиции должны быть массивом'),
+  body(`${field}.*.type`)
+    .isIn(['service', 'part'])
+    .withMessage('Тип позиции должен быть service или part'),
+  body(`${field}.*.service_id`)
+    .optional()
+    .isUUID()
+    .withMessage('ID услуги должен быть валидным UUID'),
+  body(`${field}.*.part_id`)
+    .optional()
+    .isUUID()
+    .withMessage('ID запчасти должен быть валидным UUID'),
+  body(`${field}.*.name`)
+    .isString()
+    .isLength({ min: 1, max: 255 })
+    .withMessage('Название позиции обязательно'),
+  body(`${field}.*.part_number`)
+    .optional()
+    .isString()
+    .isLength({ max: 100 })
+    .withMessage('Артикул должен быть строкой до 100 символов'),
+  body(`${field}.*.quantity`)
+    .isFloat({ gt: 0 })
+    .withMessage('Количество должно быть положительным числом'),
+  body(`${field}.*.purchase_price`)
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('Закупочная цена должна быть неотрицательным числом'),
+  body(`${field}.*.price`)
+    .isFloat({ min: 0 })
+    .withMessage('Цена должна быть неотрицательным числом')
+];
+
 // Вспомогательная функция для форматирования ошибок валидации
 export function formatValidationErrors(errors: any[]): Record<string, string> {
   return errors.reduce((acc, error) => {
@@ -130,11 +169,7 @@ export const validateFileType = (file: Express.Multer.File, allowedTypes: string
 
 // Middleware для валидации статуса заказа
 export const validateOrderStatus = (status: string): boolean => {
-  const validStatuses = [
-    'новый', 'принял', 'диагностика', 'в_работе', 
-    'ожидание_деталей', 'готово', 'ожидание_оплаты', 'выдан', 'закрыт'
-  ];
-  return validStatuses.includes(status);
+  return isOrderStatus(status);
 };
 
 // Middleware для валидации роли пользователя
@@ -0,0 +1,130 @@
+import { Router } from 'express';
+import { body, query } from 'express-validator';
+import {
+  getAppointments,
+  getAvailability,
+  getAppointmentById,
+  createAppointment,
+  updateAppointment,
+  updateAppointmentStatus,
+  convertAppointmentToOrder
+} from '@/controllers/appointments';
+import { authenticateToken } from '@/middleware/auth';
+import { validateRequest } from '@/middleware/validation';
+import { APPOINTMENT_STATUSES } from '@/services/appointmentService';
+
+const router = Router();
+
+// Middleware для всех роутов записи
+router.use(authenticateToken);
+
+// Общая валидация полей записи
+const appointmentFieldsValidation = [
+  body('master_id')
+    .optional()
+    .isUUID()
+    .withMessage('ID мастера должен быть валидным UUID'),
+  body('vehicle_id')
+    .optional()
+    .isUUID()
+    .withMessage('ID автомобиля должен быть валидным UUID'),
+  body('service_ids.*')
+    .isUUID()
+    .withMessage('ID услуги должен быть валидным UUID'),
+  body('ends_at')
+    .optional()
+    .isISO8601()
+    .withMessage('Окончание должно быть в формате ISO8601'),
+  body('notes')
+    .optional()
+    .isString()
+    .isLength({ max: 1000 })
+    .withMessage('Примечания должны быть строкой до 1000 символов')
+];
+
+// Валидация для создания записи
+const createAppointmentValidation = [
+  body('client_id')
+    .isUUID()
+    .withMessage('ID клиента должен быть валидным UUID'),
+  body('bay_id')
+    .isUUID()
+    .withMessage('ID поста должен быть валидным UUID'),
+  body('service_ids')
+    .isArray({ min: 1 })
+    .withMessage('Выберите хотя бы одну услугу'),
+  body('starts_at')
+    .isISO8601()
+    .withMessage('Начало должно быть в формате ISO8601'),
+  ...appointmentFieldsValidation
+];
+
+// Валидация для изменения записи
+const updateAppointmentValidation = [
+  body('bay_id')
+    .optional()
+    .isUUID()
+    .withMessage('ID поста должен быть валидным UUID'),
+  body('service_ids')
+    .optional()
+    .isArray({ min: 1 })
+    .withMessage('Выберите хотя бы одну услугу'),
+  body('starts_at')
+    .optional()
+    .isISO8601()
+    .withMessage('Начало должно быть в формате ISO8601'),
+  ...appointmentFieldsValidation
+];
+
+// Валидация смены статуса
+const updateStatusValidation = [
+  body('status')
+    .isIn(APPOINTMENT_STATUSES)
+    .withMessage('Неверный статус записи')
+];
+
+// Валидация параметров запроса
+const queryValidation = [
+  query('date_from')
+    .optional()
+    .isISO8601()
+    .withMessage('Дата начала должна быть в формате ISO8601'),
+  query('date_to')
+    .optional()
+    .isISO8601()
+    .withMessage('Дата окончания должна быть в формате ISO8601'),
+  query(['bay_id', 'master_id', 'client_id'])
+    .optional()
+    .isUUID()
+    .withMessage('ID должен быть валидным UUID'),
+  query('status')
+    .optional()
+    .isIn(APPOINTMENT_STATUSES)
+    .withMessage('Неверный статус записи'),
+  query('source')
+    .optional()
+    .isIn(['crm', 'online'])
+    .withMessage('Неверный источник записи')
+];
+
+// Валидация запроса свободного времени
+const availabilityValidation = [
+  query('date')
+    .isISO8601({ strict: true })
+    .withMessage('Дата должна быть в формате YYYY-MM-DD'),
+  query(['bay_id', 'master_id'])
+    .optional()
+    .isUUID()
+    .withMessage('ID должен быть валидным UUID')
+];
+
+// Роуты
+router.get('/', queryValidation, validateRequest, getAppointments);
+router.get('/availability', availabilityValidation, validateRequest, getAvailability);
+router.get('/:id', getAppointmentById);
+router.post('/', createAppointmentValidation, validateRequest, createAppointment);
+router.put('/:id', updateAppointmentValidation, validateRequest, updateAppointment);
+router.patch('/:id/status', updateStatusValidation, validateRequest, updateAppointmentStatus);
+router.post('/:id/convert', convertAppointmentToOrder);
+
+export default router;
@@ -0,0 +1,293 @@
+import { Router } from 'express';
+import multer from 'multer';
+import { body, param, query } from 'express-validator';
+import {
+  getClients,
+  getClientById,
+  getClientOrders,
+  getClientDebts,
+  createClient,
+  updateClient,
+  deleteClient,
+  getClientDuplicates,
+  mergeClient,
+  getClientMerges,
+  uploadClientImport,
+  validateClientImport,
+  commitClientImportRows,
+  getClientImport,
+  getClientImportReport,
+  getClientTimeline,
+  createClientNote,
+  deleteClientNote,
+  getClientConsents,
+  createClientConsent,
+  exportClientData,
+  anonymizeClient
+} from '@/controllers/clients';
+import { authenticateToken, requireRole, requireOwnership } from '@/middleware/auth';
+import { validateRequest, validatePhone, validateVIN } from '@/middleware/validation';
+import { normalizePhone } from '@/utils/phone';
+
+const router = Router();
+
+// Файл импорта хранится в памяти: строки сразу сохраняются в client_imports
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 10 * 1024 * 1024 }
+});
+
+// Middleware для всех роутов клиентов
+router.use(authenticateToken);
+
+// Валидация полей клиента
+const clientValidation = (required: boolean) => [
+  (required ? body('name') : body('name').optional())
+    .isString()
+    .trim()
+    .isLength({ min: 2, max: 255 })
+    .withMessage('Имя должно содержать от 2 до 255 символов'),
+  body('phone')
+    .optional()
+    .isString()
+    .custom((phone: string) => validatePhone(normalizePhone(phone)))
+    .withMessage('Неверный формат телефона'),
+  body('notes')
+    .optional()
+    .isString()
+    .withMessage('Примечания должны быть строкой')
+];
+
+// Валидация для создания клиента вместе с автомобилями
+const createClientValidation = [
+  ...clientValidation(true),
+  body('vehicles')
+    .optional()
+    .isArray({ max: 10 })
+    .withMessage('Автомобили должны быть массивом (до 10)'),
+  body('vehicles.*.make')
+    .if(body('vehicles.*.vin').not().exists())
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Марка должна содержать от 1 до 100 символов'),
+  body('vehicles.*.year')
+    .optional()
+    .isInt({ min: 1950, max: new Date().getFullYear() + 1 })
+    .withMessage('Неверный год выпуска'),
+  body('vehicles.*.plate')
+    .optional()
+    .isString()
+    .isLength({ min: 1, max: 20 })
+    .withMessage('Госномер должен содержать до 20 символов'),
+  body(['vehicles.*.vin', 'vin'])
+    .optional()
+    .custom((vin: string) => validateVIN(vin.replace(/\s/g, '')))
+    .withMessage('VIN должен содержать 17 символов (без I, O, Q)'),
+  body('vehicles.*.mileage')
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('Пробег должен быть неотрицательным целым числом')
+];
+
+// Валидация параметров запроса
+const queryValidation = [
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Страница должна быть положительным числом'),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Лимит должен быть числом от 1 до 100'),
+  query('search')
+    .optional()
+    .isString()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Поиск должен содержать от 1 до 100 символов'),
+  query('has_debts')
+    .optional()
+    .isBoolean()
+    .withMessage('has_debts должен быть true или false')
+];
+
+// Валидация поиска дублей
+const duplicatesValidation = [
+  query('client_id')
+    .optional()
+    .isUUID()
+    .withMessage('ID клиента должен быть валидным UUID'),
+  query('min_score')
+    .optional()
+    .isFloat({ min: 0, max: 1 })
+    .withMessage('Минимальная оценка должна быть числом от 0 до 1'),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 200 })
+    .withMessage('Лимит должен быть числом от 1 до 200')
+];
+
+// Валидация объединения клиентов
+const mergeValidation = [
+  param('id')
+    .isUUID()
+    .withMessage('ID клиента должен быть валидным UUID'),
+  body('source_id')
+    .isUUID()
+    .withMessage('ID дубля должен быть валидным UUID')
+];
+
+// Валидация сопоставления колонок импорта
+const importMappingValidation = [
+  param('importId')
+    .isUUID()
+    .withMessage('ID импорта должен быть валидным UUID'),
+  body('mapping')
+    .isObject()
+    .withMessage('Сопоставление колонок должно быть объектом'),
+  body('mapping.name')
+    .isString()
+    .notEmpty()
+    .withMessage('Не выбрана колонка с именем клиента')
+];
+
+// Валидация фильтров истории клиента
+const timelineValidation = [
+  query('types')
+    .optional()
+    .matches(/^(order|payment|debt|parts_sale|note)(,(order|payment|debt|parts_sale|note))*$/)
+    .withMessage('Типы событий: order, payment, debt, parts_sale, note через запятую'),
+  query(['date_from', 'date_to'])
+    .optional()
+    .isISO8601()
+    .withMessage('Дата должна быть в формате ISO 8601')
+];
+
+// Валидация заметки
+const noteValidation = [
+  body('type')
+    .optional()
+    .isIn(['call', 'note'])
+    .withMessage('Тип заметки: call или note'),
+  body('text')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 2000 })
+    .withMessage('Текст заметки должен содержать от 1 до 2000 символов')
+];
+
+// Валидация согласия
+const consentValidation = [
+  body('type')
+    .isIn(['data_processing', 'marketing_sms'])
+    .withMessage('Тип согласия: data_processing или marketing_sms'),
+  body('granted')
+    .isBoolean()
+    .withMessage('granted должен быть true или false'),
+  body('source')
+    .optional()
+    .isIn(['office', 'phone', 'online_booking'])
+    .withMessage('Источник согласия: office, phone или online_booking'),
+  body('notes')
+    .optional()
+    .isString()
+    .withMessage('Примечания должны быть строкой')
+];
+
+const exportValidation = [
+  query('format')
+    .optional()
+    .isIn(['json', 'zip'])
+    .withMessage('Формат выгрузки: json или zip')
+];
+
+const importIdValidation = [
+  param('importId')
+    .isUUID()
+    .withMessage('ID импорта должен быть валидным UUID')
+];
+
+// Роуты
+router.get('/', queryValidation, validateRequest, getClients);
+router.post('/import',
+  requireRole(['director', 'admin']),
+  upload.single('file'),
+  uploadClientImport
+);
+router.get('/import/:importId',
+  requireRole(['director', 'admin']),
+  importIdValidation,
+  validateRequest,
+  getClientImport
+);
+router.post('/import/:importId/validate',
+  requireRole(['director', 'admin']),
+  importMappingValidation,
+  validateRequest,
+  validateClientImport
+);
+router.post('/import/:importId/commit',
+  requireRole(['director', 'admin']),
+  importIdValidation,
+  validateRequest,
+  commitClientImportRows
+);
+router.get('/import/:importId/report',
+  requireRole(['director', 'admin']),
+  importIdValidation,
+  validateRequest,
+  getClientImportReport
+);
+router.get('/duplicates',
+  requireRole(['director', 'admin']),
+  duplicatesValidation,
+  validateRequest,
+  getClientDuplicates
+);
+router.get('/:id', requireOwnership('client'), getClientById);
+router.get('/:id/orders', requireOwnership('client'), getClientOrders);
+router.get('/:id/debts', requireOwnership('client'), getClientDebts);
+router.get('/:id/timeline',
+  requireOwnership('client'),
+  timelineValidation,
+  validateRequest,
+  getClientTimeline
+);
+router.post('/:id/notes',
+  requireOwnership('client'),
+  noteValidation,
+  validateRequest,
+  createClientNote
+);
+router.delete('/:id/notes/:noteId', requireOwnership('client'), deleteClientNote);
+router.get('/:id/consents', requireOwnership('client'), getClientConsents);
+router.post('/:id/consents',
+  requireOwnership('client'),
+  consentValidation,
+  validateRequest,
+  createClientConsent
+);
+router.get('/:id/export',
+  requireRole(['director', 'admin']),
+  exportValidation,
+  validateRequest,
+  exportClientData
+);
+router.post('/:id/anonymize', requireRole(['director']), anonymizeClient);
+router.post('/', createClientValidation, validateRequest, createClient);
+router.patch('/:id',
+  requireRole(['director', 'admin']),
+  clientValidation(false),
+  validateRequest,
+  updateClient
+);
+router.delete('/:id', requireRole(['director']), deleteClient);
+router.post('/:id/merge',
+  requireRole(['director', 'admin']),
+  mergeValidation,
+  validateRequest,
+  mergeClient
+);
+router.get('/:id/merges', requireRole(['director', 'admin']), getClientMerges);
+
+export default router;
@@ -0,0 +1,92 @@
+import { Router } from 'express';
+import { body, query } from 'express-validator';
+import {
+  getEstimates,
+  getEstimateById,
+  createEstimate,
+  updateEstimate,
+  sendEstimate,
+  approveEstimate,
+  rejectEstimate
+} from '@/controllers/estimates';
+import { authenticateToken, requireRole } from '@/middleware/auth';
+import { validateRequest, orderItemsValidation } from '@/middleware/validation';
+
+const router = Router();
+
+// Middleware для всех роутов смет
+router.use(authenticateToken);
+
+// Валидация для создания сметы
+const createEstimateValidation = [
+  body('order_id')
+    .isString()
+    .notEmpty()
+    .withMessage('ID заказа обязателен'),
+  ...orderItemsValidation('items', true),
+  body('valid_until')
+    .optional()
+    .isISO8601()
+    .withMessage('Дата должна быть в формате ISO8601'),
+  body('notes')
+    .optional()
+    .isString()
+    .withMessage('Примечания должны быть строкой')
+];
+
+// Валидация для обновления сметы
+const updateEstimateValidation = [
+  ...orderItemsValidation('items'),
+  body('valid_until')
+    .optional()
+    .isISO8601()
+    .withMessage('Дата должна быть в формате ISO8601'),
+  body('notes')
+    .optional()
+    .isString()
+    .withMessage('Примечания должны быть строкой')
+];
+
+// Валидация решения по смете
+const decisionValidation = [
+  body('comment')
+    .optional()
+    .isString()
+    .isLength({ max: 1000 })
+    .withMessage('Комментарий должен быть строкой до 1000 символов')
+];
+
+// Валидация параметров запроса
+const queryValidation = [
+  query('order_id')
+    .optional()
+    .isString()
+    .withMessage('ID заказа должен быть строкой'),
+  query('status')
+    .optional()
+    .isIn(['draft', 'sent', 'approved', 'rejected'])
+    .withMessage('Неверный статус сметы')
+];
+
+// Роуты
+router.get('/', queryValidation, validateRequest, getEstimates);
+router.get('/:id', getEstimateById);
+router.post('/', createEstimateValidation, validateRequest, createEstimate);
+router.put('/:id', updateEstimateValidation, validateRequest, updateEstimate);
+router.post('/:id/send', sendEstimate);
+
+// Решение за клиента (например, согласование по телефону) - только для директора и админа
+router.post('/:id/approve',
+  requireRole(['director', 'admin']),
+  decisionValidation,
+  validateRequest,
+  approveEstimate
+);
+router.post('/:id/reject',
+  requireRole(['director', 'admin']),
+  decisionValidation,
+  validateRequest,
+  rejectEstimate
+);
+
+export default router;
@@ -0,0 +1,331 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import {
+  getParts,
+  getPartById,
+  createPart,
+  updatePart,
+  deletePart,
+  getWarehouses,
+  createWarehouse,
+  updateWarehouse,
+  getStock,
+  getStockMovements,
+  createStockMovement,
+  getStocktakes,
+  getStocktakeById,
+  createStocktake,
+  saveStocktakeCounts,
+  deleteStocktakeItem,
+  getStocktakeVariance,
+  approveStocktake,
+  cancelStocktake
+} from '@/controllers/inventory';
+import { authenticateToken, requireRole } from '@/middleware/auth';
+import { validateRequest } from '@/middleware/validation';
+
+const router = Router();
+
+// Middleware для всех роутов склада
+router.use(authenticateToken);
+
+const PART_UNITS = ['шт', 'л', 'кг', 'м', 'компл'];
+const MOVEMENT_TYPES = ['receipt', 'sale', 'write_off', 'order_consumption', 'return', 'adjustment'];
+const MANUAL_MOVEMENT_TYPES = ['receipt', 'write_off', 'return'];
+const STOCKTAKE_STATUSES = ['counting', 'approved', 'cancelled'];
+
+const paginationValidation = [
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Страница должна быть положительным числом'),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 200 })
+    .withMessage('Лимит должен быть числом от 1 до 200')
+];
+
+// Валидация полей запчасти
+const partValidation = (required: boolean) => [
+  (required ? body('part_number') : body('part_number').optional())
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Артикул должен содержать от 1 до 100 символов'),
+  (required ? body('name') : body('name').optional())
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 255 })
+    .withMessage('Название должно содержать от 1 до 255 символов'),
+  body('brand')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage('Бренд должен быть строкой до 100 символов'),
+  body('unit')
+    .optional()
+    .isIn(PART_UNITS)
+    .withMessage(`Единица измерения должна быть одной из: ${PART_UNITS.join(', ')}`),
+  body(['purchase_price', 'retail_price'])
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('Цена должна быть неотрицательным числом'),
+  // null снимает минимальный и максимальный остаток и основного поставщика
+  body(['min_quantity', 'max_quantity'])
+    .optional({ values: 'null' })
+    .isFloat({ min: 0 })
+    .withMessage('Минимальный и максимальный остаток должны быть неотрицательными числами'),
+  body()
+    .custom(value => value.min_quantity == null || value.max_quantity == null
+      || Number(value.max_quantity) >= Number(value.min_quantity))
+    .withMessage('Максимальный остаток не может быть меньше минимального'),
+  body('supplier_id')
+    .optional({ values: 'null' })
+    .isUUID()
+    .withMessage('ID поставщика должен быть валидным UUID'),
+  body('is_active')
+    .optional()
+    .isBoolean()
+    .withMessage('is_active должен быть boolean'),
+  body('notes')
+    .optional()
+    .isString()
+    .withMessage('Примечания должны быть строкой')
+];
+
+const partIdValidation = [
+  param('id')
+    .isUUID()
+    .withMessage('ID запчасти должен быть валидным UUID')
+];
+
+// Валидация полей склада
+const warehouseValidation = (required: boolean) => [
+  (required ? body('name') : body('name').optional())
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Название склада должно содержать от 1 до 100 символов'),
+  body('address')
+    .optional()
+    .isString()
+    .withMessage('Адрес должен быть строкой'),
+  body(['is_default', 'is_active'])
+    .optional()
+    .isBoolean()
+    .withMessage('Флаги склада должны быть boolean')
+];
+
+const warehouseIdValidation = [
+  param('id')
+    .isUUID()
+    .withMessage('ID склада должен быть валидным UUID')
+];
+
+const stockValidation = [
+  ...paginationValidation,
+  query('warehouse_id')
+    .optional()
+    .isUUID()
+    .withMessage('ID склада должен быть валидным UUID'),
+  query('in_stock')
+    .optional()
+    .isBoolean()
+    .withMessage('in_stock должен быть boolean')
+];
+
+const movementsValidation = [
+  ...paginationValidation,
+  query(['part_id', 'warehouse_id'])
+    .optional()
+    .isUUID()
+    .withMessage('ID запчасти или склада должен быть валидным UUID'),
+  query('type')
+    .optional()
+    .isIn(MOVEMENT_TYPES)
+    .withMessage(`Тип движения должен быть одним из: ${MOVEMENT_TYPES.join(', ')}`),
+  query(['date_from', 'date_to'])
+    .optional()
+    .isISO8601()
+    .withMessage('Дата должна быть в формате ISO 8601')
+];
+
+// Валидация ручного движения
+const createMovementValidation = [
+  body('part_id')
+    .isUUID()
+    .withMessage('ID запчасти должен быть валидным UUID'),
+  body('warehouse_id')
+    .optional()
+    .isUUID()
+    .withMessage('ID склада должен быть валидным UUID'),
+  body('type')
+    .isIn(MANUAL_MOVEMENT_TYPES)
+    .withMessage(`Вручную можно провести: ${MANUAL_MOVEMENT_TYPES.join(', ')}`),
+  body('quantity')
+    .isFloat({ gt: 0 })
+    .withMessage('Количество должно быть положительным числом'),
+  body('unit_cost')
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('Себестоимость должна быть неотрицательным числом'),
+  body('order_id')
+    .optional()
+    .isString()
+    .isLength({ min: 1, max: 10 })
+    .withMessage('Неверный ID заказа'),
+  body('notes')
+    .optional()
+    .isString()
+    .withMessage('Примечания должны быть строкой')
+];
+
+const stocktakeIdValidation = [
+  param('id')
+    .isUUID()
+    .withMessage('ID инвентаризации должен быть валидным UUID')
+];
+
+const stocktakesValidation = [
+  ...paginationValidation,
+  query('warehouse_id')
+    .optional()
+    .isUUID()
+    .withMessage('ID склада должен быть валидным UUID'),
+  query('status')
+    .optional()
+    .isIn(STOCKTAKE_STATUSES)
+    .withMessage(`Статус должен быть одним из: ${STOCKTAKE_STATUSES.join(', ')}`)
+];
+
+const createStocktakeValidation = [
+  body('warehouse_id')
+    .optional()
+    .isUUID()
+    .withMessage('ID склада должен быть валидным UUID'),
+  body('is_full')
+    .optional()
+    .isBoolean()
+    .withMessage('is_full должен быть boolean'),
+  body('notes')
+    .optional()
+    .isString()
+    .withMessage('Примечания должны быть строкой')
+];
+
+// Валидация пересчета: запчасть, место хранения и количество
+const stocktakeCountsValidation = [
+  body('items')
+    .isArray({ min: 1, max: 500 })
+    .withMessage('Пересчет должен содержать от 1 до 500 строк'),
+  body('items.*.part_id')
+    .isUUID()
+    .withMessage('ID запчасти должен быть валидным UUID'),
+  body('items.*.location')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ max: 50 })
+    .withMessage('Место хранения должно быть строкой до 50 символов'),
+  body('items.*.counted_quantity')
+    .isFloat({ min: 0 })
+    .withMessage('Количество должно быть неотрицательным числом')
+];
+
+const stocktakeItemValidation = [
+  ...stocktakeIdValidation,
+  param('itemId')
+    .isUUID()
+    .withMessage('ID строки должен быть валидным UUID')
+];
+
+// Роуты каталога
+router.get('/parts', paginationValidation, validateRequest, getParts);
+router.get('/parts/:id', partIdValidation, validateRequest, getPartById);
+router.post('/parts',
+  requireRole(['director', 'admin']),
+  partValidation(true),
+  validateRequest,
+  createPart
+);
+router.patch('/parts/:id',
+  requireRole(['director', 'admin']),
+  partIdValidation,
+  partValidation(false),
+  validateRequest,
+  updatePart
+);
+router.delete('/parts/:id',
+  requireRole(['director']),
+  partIdValidation,
+  validateRequest,
+  deletePart
+);
+
+// Роуты складов
+router.get('/warehouses', getWarehouses);
+router.post('/warehouses',
+  requireRole(['director']),
+  warehouseValidation(true),
+  validateRequest,
+  createWarehouse
+);
+router.patch('/warehouses/:id',
+  requireRole(['director']),
+  warehouseIdValidation,
+  warehouseValidation(false),
+  validateRequest,
+  updateWarehouse
+);
+
+// Роуты остатков и движений
+router.get('/stock', stockValidation, validateRequest, getStock);
+router.get('/movements', movementsValidation, validateRequest, getStockMovements);
+router.post('/movements',
+  requireRole(['director', 'admin']),
+  createMovementValidation,
+  validateRequest,
+  createStockMovement
+);
+
+// Роуты инвентаризации: пересчет вносят все сотрудники, утверждает директор
+router.get('/stocktakes', stocktakesValidation, validateRequest, getStocktakes);
+router.get('/stocktakes/:id', stocktakeIdValidation, validateRequest, getStocktakeById);
+router.post('/stocktakes',
+  requireRole(['director', 'admin']),
+  createStocktakeValidation,
+  validateRequest,
+  createStocktake
+);
+router.put('/stocktakes/:id/items',
+  stocktakeIdValidation,
+  stocktakeCountsValidation,
+  validateRequest,
+  saveStocktakeCounts
+);
+router.delete('/stocktakes/:id/items/:itemId',
+  stocktakeItemValidation,
+  validateRequest,
+  deleteStocktakeItem
+);
+router.get('/stocktakes/:id/variance',
+  requireRole(['director', 'admin']),
+  stocktakeIdValidation,
+  validateRequest,
+  getStocktakeVariance
+);
+router.post('/stocktakes/:id/approve',
+  requireRole(['director']),
+  stocktakeIdValidation,
+  validateRequest,
+  approveStocktake
+);
+router.post('/stocktakes/:id/cancel',
+  requireRole(['director', 'admin']),
+  stocktakeIdValidation,
+  validateRequest,
+  cancelStocktake
+);
+
+export default router;
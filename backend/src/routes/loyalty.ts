@@ -0,0 +1,128 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import {
+  getLoyaltyTiers,
+  createLoyaltyTier,
+  updateLoyaltyTier,
+  deleteLoyaltyTier,
+  getClientLoyalty,
+  adjustClientLoyalty,
+  redeemLoyaltyPoints
+} from '@/controllers/loyalty';
+import { authenticateToken, requireRole, requireOwnership } from '@/middleware/auth';
+import { validateRequest } from '@/middleware/validation';
+
+const router = Router();
+
+// Middleware для всех роутов программы лояльности
+router.use(authenticateToken);
+
+// Валидация полей уровня
+const tierValidation = (required: boolean) => [
+  (required ? body('name') : body('name').optional())
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Название уровня должно содержать от 1 до 100 символов'),
+  (required ? body('min_spend') : body('min_spend').optional())
+    .isFloat({ min: 0 })
+    .withMessage('Порог суммы покупок должен быть неотрицательным числом'),
+  body(['discount_percent', 'points_percent'])
+    .optional()
+    .isFloat({ min: 0, max: 100 })
+    .withMessage('Процент должен быть числом от 0 до 100')
+];
+
+const tierIdValidation = [
+  param('id')
+    .isUUID()
+    .withMessage('ID уровня должен быть валидным UUID')
+];
+
+// Валидация корректировки баланса
+const adjustmentValidation = [
+  param('id')
+    .isUUID()
+    .withMessage('ID клиента должен быть валидным UUID'),
+  body('points')
+    .isInt()
+    .custom((points: number) => Number(points) !== 0)
+    .withMessage('Количество бонусов должно быть ненулевым целым числом'),
+  body('notes')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 500 })
+    .withMessage('Укажите причину корректировки')
+];
+
+// Валидация оплаты бонусами
+const redemptionValidation = [
+  body('order_id')
+    .optional()
+    .isString()
+    .isLength({ min: 1, max: 10 })
+    .withMessage('Неверный ID заказа'),
+  body(['parts_sale_id', 'debt_id'])
+    .optional()
+    .isUUID()
+    .withMessage('ID продажи или долга должен быть валидным UUID'),
+  body('amount')
+    .isInt({ min: 1 })
+    .withMessage('Сумма оплаты бонусами должна быть целым положительным числом'),
+  body('notes')
+    .optional()
+    .isString()
+    .withMessage('Примечания должны быть строкой')
+];
+
+const clientLoyaltyValidation = [
+  param('id')
+    .isUUID()
+    .withMessage('ID клиента должен быть валидным UUID'),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 200 })
+    .withMessage('Лимит должен быть числом от 1 до 200')
+];
+
+// Роуты
+router.get('/tiers', getLoyaltyTiers);
+router.post('/tiers',
+  requireRole(['director']),
+  tierValidation(true),
+  validateRequest,
+  createLoyaltyTier
+);
+router.patch('/tiers/:id',
+  requireRole(['director']),
+  tierIdValidation,
+  tierValidation(false),
+  validateRequest,
+  updateLoyaltyTier
+);
+router.delete('/tiers/:id',
+  requireRole(['director']),
+  tierIdValidation,
+  validateRequest,
+  deleteLoyaltyTier
+);
+router.post('/redeem',
+  requireRole(['director', 'admin']),
+  redemptionValidation,
+  validateRequest,
+  redeemLoyaltyPoints
+);
+router.get('/clients/:id',
+  requireOwnership('client'),
+  clientLoyaltyValidation,
+  validateRequest,
+  getClientLoyalty
+);
+router.post('/clients/:id/adjust',
+  requireRole(['director']),
+  adjustmentValidation,
+  validateRequest,
+  adjustClientLoyalty
+);
+
+export default router;
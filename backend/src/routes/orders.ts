@@ -1,8 +1,10 @@
 import { Router } from 'express';
-import { body, query } from 'express-validator';
+import { body, param, query } from 'express-validator';
 import {
   getOrders,
   getOrderById,
+  getOrderHistory,
+  getOrderDocument,
   createOrder,
   updateOrder,
   updateOrderStatus,
@@ -10,8 +12,10 @@ import {
   deleteOrder
 } from '@/controllers/orders';
 import { authenticateToken, requireRole, requireOwnership } from '@/middleware/auth';
-import { validateRequest } from '@/middleware/validation';
+import { validateRequest, orderItemsValidation } from '@/middleware/validation';
 import { asyncHandler } from '@/middleware/errorHandler';
+import { ORDER_STATUSES, INITIAL_ORDER_STATUSES } from '@/services/orderStatusService';
+import { DOCUMENT_TYPES } from '@/services/documentService';
 
 const router = Router();
 
@@ -23,15 +27,27 @@ const createOrderValidation = [
   body('client_id')
     .isUUID()
     .withMessage('ID клиента должен быть валидным UUID'),
+  body('vehicle_id')
+    .optional()
+    .isUUID()
+    .withMessage('ID автомобиля должен быть валидным UUID'),
+  body('mileage')
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('Пробег должен быть неотрицательным целым числом'),
   body('services')
+    .optional()
     .isArray({ min: 1 })
     .withMessage('Услуги должны быть массивом'),
+  ...orderItemsValidation('items'),
   body('parts_cost')
+    .optional()
     .isNumeric()
     .withMessage('Стоимость запчастей должна быть числом'),
   body('status')
-    .isIn(['новый', 'принял', 'диагностика', 'в_работе', 'ожидание_деталей', 'готово', 'ожидание_оплаты', 'выдан', 'закрыт'])
-    .withMessage('Неверный статус'),
+    .optional()
+    .isIn(INITIAL_ORDER_STATUSES)
+    .withMessage(`Новый заказ может иметь только статус: ${INITIAL_ORDER_STATUSES.join(', ')}`),
   body('masters')
     .isArray({ min: 1 })
     .withMessage('Мастера должны быть массивом'),
@@ -53,29 +69,46 @@ const updateOrderValidation = [
     .optional()
     .isUUID()
     .withMessage('ID клиента должен быть валидным UUID'),
+  body('vehicle_id')
+    .optional()
+    .isUUID()
+    .withMessage('ID автомобиля должен быть валидным UUID'),
+  body('mileage')
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('Пробег должен быть неотрицательным целым числом'),
   body('services')
     .optional()
     .isArray()
     .withMessage('Услуги должны быть массивом'),
+  ...orderItemsValidation('items'),
   body('parts_cost')
     .optional()
     .isNumeric()
     .withMessage('Стоимость запчастей должна быть числом'),
   body('status')
     .optional()
-    .isIn(['новый', 'принял', 'диагностика', 'в_работе', 'ожидание_деталей', 'готово', 'ожидание_оплаты', 'выдан', 'закрыт'])
+    .isIn(ORDER_STATUSES)
     .withMessage('Неверный статус'),
   body('notes')
     .optional()
     .isString()
-    .withMessage('Примечания должны быть строкой')
+    .withMessage('Примечания должны быть строкой'),
+  body('version')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Версия заказа должна быть положительным числом')
 ];
 
 // Валидация для обновления статуса
 const updateStatusValidation = [
   body('status')
-    .isIn(['новый', 'принял', 'диагностика', 'в_работе', 'ожидание_деталей', 'готово', 'ожидание_оплаты', 'выдан', 'закрыт'])
-    .withMessage('Неверный статус')
+    .isIn(ORDER_STATUSES)
+    .withMessage('Неверный статус'),
+  body('version')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Версия заказа должна быть положительным числом')
 ];
 
 // Валидация для обновления мастеров
@@ -88,7 +121,11 @@ const updateMastersValidation = [
     .withMessage('ID мастера должен быть валидным UUID'),
   body('masters.*.percent')
     .isFloat({ min: 0.01, max: 100 })
-    .withMessage('Процент должен быть числом от 0.01 до 100')
+    .withMessage('Процент должен быть числом от 0.01 до 100'),
+  body('version')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Версия заказа должна быть положительным числом')
 ];
 
 // Валидация параметров запроса
@@ -107,12 +144,16 @@ const queryValidation = [
     .withMessage('Параметр my должен быть булевым'),
   query('status')
     .optional()
-    .isIn(['новый', 'принял', 'диагностика', 'в_работе', 'ожидание_деталей', 'готово', 'ожидание_оплаты', 'выдан', 'закрыт'])
+    .isIn(ORDER_STATUSES)
     .withMessage('Неверный статус'),
   query('client_id')
     .optional()
     .isUUID()
     .withMessage('ID клиента должен быть валидным UUID'),
+  query('vehicle_id')
+    .optional()
+    .isUUID()
+    .withMessage('ID автомобиля должен быть валидным UUID'),
   query('date_from')
     .optional()
     .isISO8601()
@@ -129,9 +170,23 @@ const queryValidation = [
     .withMessage('Поиск должен содержать от 1 до 100 символов')
 ];
 
+// Валидация типа печатного документа
+const documentValidation = [
+  param('type')
+    .isIn(DOCUMENT_TYPES)
+    .withMessage('Неверный тип документа')
+];
+
 // Роуты
 router.get('/', queryValidation, validateRequest, getOrders);
 router.get('/:id', getOrderById);
+router.get('/:id/history', requireOwnership('order'), getOrderHistory);
+router.get('/:id/documents/:type',
+  documentValidation,
+  validateRequest,
+  requireOwnership('order'),
+  getOrderDocument
+);
 router.post('/', createOrderValidation, validateRequest, createOrder);
 router.put('/:id', updateOrderValidation, validateRequest, updateOrder);
 router.patch('/:id/status', updateStatusValidation, validateRequest, updateOrderStatus);
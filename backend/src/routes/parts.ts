@@ -0,0 +1,138 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import {
+  getPartsSales,
+  getPartsSaleById,
+  createPartsSale,
+  updatePartsSale
+} from '@/controllers/parts';
+import { authenticateToken, requireOwnership } from '@/middleware/auth';
+import { validateRequest, validatePhone } from '@/middleware/validation';
+import { normalizePhone } from '@/utils/phone';
+
+const router = Router();
+
+// Middleware для всех роутов магазина запчастей
+router.use(authenticateToken);
+
+const PAYMENT_TYPES = ['наличные', 'карта', 'перевод', 'терминал', 'бонусы'];
+
+// Валидация данных покупателя
+const buyerValidation = [
+  body('client_name')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ max: 255 })
+    .withMessage('Имя покупателя должно быть строкой до 255 символов'),
+  body('client_phone')
+    .optional()
+    .isString()
+    .custom((phone: string) => validatePhone(normalizePhone(phone)))
+    .withMessage('Неверный формат телефона'),
+  body('client_id')
+    .optional()
+    .isUUID()
+    .withMessage('ID клиента должен быть валидным UUID'),
+  body('notes')
+    .optional()
+    .isString()
+    .withMessage('Примечания должны быть строкой')
+];
+
+const idValidation = [
+  param('id')
+    .isUUID()
+    .withMessage('ID должен быть валидным UUID')
+];
+
+const partsSalesValidation = [
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Страница должна быть положительным числом'),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Лимит должен быть числом от 1 до 100'),
+  query(['date_from', 'date_to'])
+    .optional()
+    .isISO8601()
+    .withMessage('Даты должны быть в формате ISO 8601'),
+  query('seller_id')
+    .optional()
+    .isUUID()
+    .withMessage('ID продавца должен быть валидным UUID'),
+  query('search')
+    .optional()
+    .isString()
+    .isLength({ max: 100 })
+    .withMessage('Поиск должен быть строкой до 100 символов')
+];
+
+// Валидация чека: позиции, скидки и оплата
+const createPartsSaleValidation = [
+  ...buyerValidation,
+  body('warehouse_id')
+    .optional()
+    .isUUID()
+    .withMessage('ID склада должен быть валидным UUID'),
+  body('discount')
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('Скидка на чек должна быть неотрицательным числом'),
+  body('items')
+    .isArray({ min: 1, max: 100 })
+    .withMessage('Чек должен содержать от 1 до 100 позиций'),
+  body('items.*.part_id')
+    .optional()
+    .isUUID()
+    .withMessage('ID запчасти должен быть валидным UUID'),
+  body('items.*.part_name')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 255 })
+    .withMessage('Название позиции должно содержать от 1 до 255 символов'),
+  body('items.*.part_number')
+    .optional()
+    .isString()
+    .isLength({ max: 100 })
+    .withMessage('Артикул должен быть строкой до 100 символов'),
+  body('items.*.quantity')
+    .isFloat({ gt: 0 })
+    .withMessage('Количество должно быть положительным числом'),
+  body(['items.*.price', 'items.*.discount'])
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('Цена и скидка позиции должны быть неотрицательными числами'),
+  body('payments')
+    .optional()
+    .isArray()
+    .withMessage('Оплаты должны быть массивом'),
+  body('payments.*.type')
+    .isIn(PAYMENT_TYPES)
+    .withMessage(`Способ оплаты должен быть одним из: ${PAYMENT_TYPES.join(', ')}`),
+  body('payments.*.amount')
+    .isFloat({ gt: 0 })
+    .withMessage('Сумма оплаты должна быть положительным числом')
+];
+
+// Роуты продаж запчастей
+router.get('/sales', partsSalesValidation, validateRequest, getPartsSales);
+router.get('/sales/:id',
+  idValidation,
+  validateRequest,
+  requireOwnership('parts_sale'),
+  getPartsSaleById
+);
+router.post('/sales', createPartsSaleValidation, validateRequest, createPartsSale);
+router.patch('/sales/:id',
+  idValidation,
+  buyerValidation,
+  validateRequest,
+  requireOwnership('parts_sale'),
+  updatePartsSale
+);
+
+export default router;
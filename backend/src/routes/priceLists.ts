@@ -0,0 +1,143 @@
+import { Router } from 'express';
+import multer from 'multer';
+import { body, param, query } from 'express-validator';
+import {
+  uploadPriceList,
+  getPriceListImports,
+  getPartOffers,
+  getBrandAliases,
+  createBrandAlias,
+  deleteBrandAlias,
+  getPartCrosses,
+  createPartCrosses,
+  deletePartCross
+} from '@/controllers/priceLists';
+import { authenticateToken, requireRole } from '@/middleware/auth';
+import { validateRequest } from '@/middleware/validation';
+
+const router = Router();
+
+// Прайс-лист читается из памяти и сразу записывается в supplier_offers
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 10 * 1024 * 1024 }
+});
+
+// Middleware для всех роутов прайс-листов
+router.use(authenticateToken);
+
+const idValidation = [
+  param('id')
+    .isUUID()
+    .withMessage('ID должен быть валидным UUID')
+];
+
+const partNumberValidation = query('part_number')
+  .isString()
+  .trim()
+  .isLength({ min: 1, max: 100 })
+  .withMessage('Артикул обязателен, до 100 символов');
+
+const uploadValidation = [
+  body('supplier_id')
+    .isUUID()
+    .withMessage('ID поставщика должен быть валидным UUID'),
+  body('dry_run')
+    .optional()
+    .isBoolean()
+    .withMessage('dry_run должен быть boolean')
+];
+
+const importsValidation = [
+  query('supplier_id')
+    .optional()
+    .isUUID()
+    .withMessage('ID поставщика должен быть валидным UUID')
+];
+
+const offersValidation = [
+  partNumberValidation,
+  query('brand')
+    .optional()
+    .isString()
+    .isLength({ max: 100 })
+    .withMessage('Бренд должен быть строкой до 100 символов'),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Лимит должен быть числом от 1 до 100')
+];
+
+const brandAliasValidation = [
+  body(['alias', 'brand'])
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Вариант написания и бренд должны содержать от 1 до 100 символов')
+];
+
+const crossesValidation = [
+  body('crosses')
+    .isArray({ min: 1, max: 500 })
+    .withMessage('Кроссы должны быть массивом от 1 до 500 элементов'),
+  body(['crosses.*.part_number', 'crosses.*.cross_number'])
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Артикулы кросса обязательны, до 100 символов'),
+  body(['crosses.*.brand', 'crosses.*.cross_brand'])
+    .optional()
+    .isString()
+    .isLength({ max: 100 })
+    .withMessage('Бренд должен быть строкой до 100 символов')
+];
+
+// Загрузка прайс-листов
+router.post('/imports',
+  requireRole(['director', 'admin']),
+  upload.single('file'),
+  uploadValidation,
+  validateRequest,
+  uploadPriceList
+);
+router.get('/imports',
+  requireRole(['director', 'admin']),
+  importsValidation,
+  validateRequest,
+  getPriceListImports
+);
+
+// Поиск предложений для формы продажи запчастей
+router.get('/offers', offersValidation, validateRequest, getPartOffers);
+
+// Справочник брендов
+router.get('/brands', getBrandAliases);
+router.post('/brands',
+  requireRole(['director', 'admin']),
+  brandAliasValidation,
+  validateRequest,
+  createBrandAlias
+);
+router.delete('/brands/:id',
+  requireRole(['director', 'admin']),
+  idValidation,
+  validateRequest,
+  deleteBrandAlias
+);
+
+// Кроссы артикулов
+router.get('/crosses', [partNumberValidation], validateRequest, getPartCrosses);
+router.post('/crosses',
+  requireRole(['director', 'admin']),
+  crossesValidation,
+  validateRequest,
+  createPartCrosses
+);
+router.delete('/crosses/:id',
+  requireRole(['director', 'admin']),
+  idValidation,
+  validateRequest,
+  deletePartCross
+);
+
+export default router;
@@ -0,0 +1,123 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import rateLimit from 'express-rate-limit';
+import {
+  getPublicEstimate,
+  approvePublicEstimate,
+  rejectPublicEstimate
+} from '@/controllers/estimates';
+import {
+  getBookingServices,
+  getBookingSlots,
+  requestBookingCode,
+  createBooking
+} from '@/controllers/booking';
+import { requireApiKey } from '@/middleware/auth';
+import { validateRequest, validatePhone } from '@/middleware/validation';
+import { normalizePhone } from '@/utils/phone';
+
+const router = Router();
+
+// Публичные роуты без аутентификации: доступ по токену из ссылки
+
+// Валидация токена сметы
+const tokenValidation = [
+  param('token')
+    .isHexadecimal()
+    .isLength({ min: 48, max: 64 })
+    .withMessage('Неверная ссылка на смету')
+];
+
+// Валидация решения клиента
+const decisionValidation = [
+  ...tokenValidation,
+  body('comment')
+    .optional()
+    .isString()
+    .isLength({ max: 1000 })
+    .withMessage('Комментарий должен быть строкой до 1000 символов')
+];
+
+// Лимит запросов онлайн-записи: строже общего лимита API
+const bookingLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 минут
+  max: parseInt(process.env['BOOKING_RATE_LIMIT_MAX_REQUESTS'] || '30'),
+  message: {
+    error: 'Слишком много запросов, попробуйте позже.',
+    code: 'RATE_LIMIT_EXCEEDED'
+  },
+  standardHeaders: true,
+  legacyHeaders: false
+});
+
+// Валидация телефона клиента
+const phoneValidation = body('phone')
+  .isString()
+  .custom(phone => validatePhone(normalizePhone(phone)))
+  .withMessage('Неверный формат телефона');
+
+// Валидация запроса свободного времени
+const slotsValidation = [
+  query('date')
+    .isISO8601({ strict: true })
+    .withMessage('Дата должна быть в формате YYYY-MM-DD'),
+  query('service_ids')
+    .isString()
+    .notEmpty()
+    .withMessage('Выберите услуги')
+];
+
+// Валидация заявки на запись
+const bookingValidation = [
+  body('name')
+    .isString()
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Имя должно содержать от 2 до 100 символов'),
+  phoneValidation,
+  body('code')
+    .isString()
+    .isLength({ min: 6, max: 6 })
+    .withMessage('Введите код из SMS'),
+  body('service_ids')
+    .isArray({ min: 1, max: 10 })
+    .withMessage('Выберите от 1 до 10 услуг'),
+  body('service_ids.*')
+    .isUUID()
+    .withMessage('ID услуги должен быть валидным UUID'),
+  body('starts_at')
+    .isISO8601()
+    .withMessage('Время должно быть в формате ISO8601'),
+  body('car')
+    .optional()
+    .isString()
+    .isLength({ max: 255 })
+    .withMessage('Автомобиль должен быть строкой до 255 символов'),
+  body('notes')
+    .optional()
+    .isString()
+    .isLength({ max: 1000 })
+    .withMessage('Комментарий должен быть строкой до 1000 символов'),
+  body('marketing_consent')
+    .optional()
+    .isBoolean()
+    .withMessage('marketing_consent должен быть true или false')
+];
+
+// Онлайн-запись для виджета сайта: доступ по API ключу
+const bookingRouter = Router();
+
+bookingRouter.use(requireApiKey, bookingLimiter);
+bookingRouter.get('/services', getBookingServices);
+bookingRouter.get('/slots', slotsValidation, validateRequest, getBookingSlots);
+bookingRouter.post('/otp', phoneValidation, validateRequest, requestBookingCode);
+bookingRouter.post('/', bookingValidation, validateRequest, createBooking);
+
+router.use('/booking', bookingRouter);
+
+// Сметы
+router.get('/estimates/:token', tokenValidation, validateRequest, getPublicEstimate);
+router.post('/estimates/:token/approve', decisionValidation, validateRequest, approvePublicEstimate);
+router.post('/estimates/:token/reject', decisionValidation, validateRequest, rejectPublicEstimate);
+
+export default router;
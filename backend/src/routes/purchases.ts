@@ -0,0 +1,193 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import {
+  getSuppliers,
+  createSupplier,
+  updateSupplier,
+  getPurchaseOrders,
+  getPurchaseOrderById,
+  createPurchaseOrder,
+  updatePurchaseOrder,
+  receivePurchaseOrder,
+  getReorderSuggestions,
+  runReorder
+} from '@/controllers/purchases';
+import { authenticateToken, requireRole } from '@/middleware/auth';
+import { validateRequest } from '@/middleware/validation';
+
+const router = Router();
+
+// Middleware для всех роутов закупок
+router.use(authenticateToken);
+
+const PURCHASE_ORDER_STATUSES = ['draft', 'ordered', 'partially_received', 'received', 'cancelled'];
+
+// Валидация полей поставщика
+const supplierValidation = (required: boolean) => [
+  (required ? body('name') : body('name').optional())
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 255 })
+    .withMessage('Название поставщика должно содержать от 1 до 255 символов'),
+  body(['contact_person', 'address', 'notes'])
+    .optional()
+    .isString()
+    .withMessage('Контакт, адрес и примечания должны быть строками'),
+  body('phone')
+    .optional()
+    .isString()
+    .isLength({ max: 20 })
+    .withMessage('Телефон должен быть строкой до 20 символов'),
+  body('email')
+    .optional()
+    .isEmail()
+    .withMessage('Неверный email'),
+  body('delivery_days')
+    .optional()
+    .isInt({ min: 0, max: 365 })
+    .withMessage('Срок поставки должен быть числом дней от 0 до 365'),
+  body('is_active')
+    .optional()
+    .isBoolean()
+    .withMessage('is_active должен быть boolean')
+];
+
+const idValidation = [
+  param('id')
+    .isUUID()
+    .withMessage('ID должен быть валидным UUID')
+];
+
+const purchaseOrdersValidation = [
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Страница должна быть положительным числом'),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Лимит должен быть числом от 1 до 100'),
+  query('supplier_id')
+    .optional()
+    .isUUID()
+    .withMessage('ID поставщика должен быть валидным UUID'),
+  query('status')
+    .optional()
+    .isIn(PURCHASE_ORDER_STATUSES)
+    .withMessage(`Статус должен быть одним из: ${PURCHASE_ORDER_STATUSES.join(', ')}`),
+  query('overdue')
+    .optional()
+    .isBoolean()
+    .withMessage('overdue должен быть boolean')
+];
+
+// Валидация создания заказа поставщику
+const createPurchaseOrderValidation = [
+  body('supplier_id')
+    .isUUID()
+    .withMessage('ID поставщика должен быть валидным UUID'),
+  body('warehouse_id')
+    .optional()
+    .isUUID()
+    .withMessage('ID склада должен быть валидным UUID'),
+  body('expected_at')
+    .optional()
+    .isISO8601()
+    .withMessage('Дата поставки должна быть в формате ISO 8601'),
+  body('notes')
+    .optional()
+    .isString()
+    .withMessage('Примечания должны быть строкой'),
+  body('items')
+    .isArray({ min: 1 })
+    .withMessage('Заказ поставщику должен содержать позиции'),
+  body('items.*.part_id')
+    .isUUID()
+    .withMessage('ID запчасти должен быть валидным UUID'),
+  body('items.*.order_id')
+    .optional()
+    .isString()
+    .isLength({ min: 1, max: 10 })
+    .withMessage('Неверный ID заказа клиента'),
+  body('items.*.quantity')
+    .isFloat({ gt: 0 })
+    .withMessage('Количество должно быть положительным числом'),
+  body('items.*.unit_cost')
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('Цена закупки должна быть неотрицательным числом')
+];
+
+const updatePurchaseOrderValidation = [
+  body('status')
+    .optional()
+    .isIn(['ordered', 'cancelled'])
+    .withMessage('Вручную заказ можно только отправить (ordered) или отменить (cancelled)'),
+  body('expected_at')
+    .optional()
+    .isISO8601()
+    .withMessage('Дата поставки должна быть в формате ISO 8601'),
+  body('notes')
+    .optional()
+    .isString()
+    .withMessage('Примечания должны быть строкой')
+];
+
+const receiveValidation = [
+  body('items')
+    .optional()
+    .isArray()
+    .withMessage('Позиции приемки должны быть массивом'),
+  body('items.*.item_id')
+    .isUUID()
+    .withMessage('ID позиции должен быть валидным UUID'),
+  body('items.*.quantity')
+    .isFloat({ gt: 0 })
+    .withMessage('Принятое количество должно быть положительным числом')
+];
+
+// Роуты поставщиков
+router.get('/suppliers', getSuppliers);
+router.post('/suppliers',
+  requireRole(['director', 'admin']),
+  supplierValidation(true),
+  validateRequest,
+  createSupplier
+);
+router.patch('/suppliers/:id',
+  requireRole(['director', 'admin']),
+  idValidation,
+  supplierValidation(false),
+  validateRequest,
+  updateSupplier
+);
+
+// Роуты заказов поставщикам
+router.get('/orders', purchaseOrdersValidation, validateRequest, getPurchaseOrders);
+router.get('/orders/:id', idValidation, validateRequest, getPurchaseOrderById);
+router.post('/orders',
+  requireRole(['director', 'admin']),
+  createPurchaseOrderValidation,
+  validateRequest,
+  createPurchaseOrder
+);
+router.patch('/orders/:id',
+  requireRole(['director', 'admin']),
+  idValidation,
+  updatePurchaseOrderValidation,
+  validateRequest,
+  updatePurchaseOrder
+);
+router.post('/orders/:id/receive',
+  requireRole(['director', 'admin']),
+  idValidation,
+  receiveValidation,
+  validateRequest,
+  receivePurchaseOrder
+);
+
+// Роуты автозаказа
+router.get('/reorder', requireRole(['director', 'admin']), getReorderSuggestions);
+router.post('/reorder', requireRole(['director', 'admin']), runReorder);
+
+export default router;
@@ -0,0 +1,61 @@
+import { Router } from 'express';
+import { body, query } from 'express-validator';
+import {
+  getDueServices,
+  getReminders,
+  updateReminder
+} from '@/controllers/reminders';
+import { authenticateToken, requireRole } from '@/middleware/auth';
+import { validateRequest } from '@/middleware/validation';
+
+const router = Router();
+
+const REMINDER_STATUSES = ['open', 'called', 'booked', 'dismissed'];
+
+// Напоминания обрабатывают админ и директор
+router.use(authenticateToken);
+router.use(requireRole(['director', 'admin']));
+
+// Валидация горизонта планового обслуживания
+const dueValidation = [
+  query('days_ahead')
+    .optional()
+    .isInt({ min: 0, max: 365 })
+    .withMessage('days_ahead должен быть числом от 0 до 365'),
+  query('km_ahead')
+    .optional()
+    .isInt({ min: 0, max: 100000 })
+    .withMessage('km_ahead должен быть числом от 0 до 100000')
+];
+
+// Валидация параметров списка напоминаний
+const queryValidation = [
+  query('status')
+    .optional()
+    .isIn(REMINDER_STATUSES)
+    .withMessage('Неверный статус напоминания'),
+  query('client_id')
+    .optional()
+    .isUUID()
+    .withMessage('ID клиента должен быть валидным UUID')
+];
+
+// Валидация обработки напоминания
+const updateValidation = [
+  body('status')
+    .optional()
+    .isIn(REMINDER_STATUSES)
+    .withMessage('Неверный статус напоминания'),
+  body('notes')
+    .optional()
+    .isString()
+    .isLength({ max: 1000 })
+    .withMessage('Примечания должны быть строкой до 1000 символов')
+];
+
+// Роуты
+router.get('/due', dueValidation, validateRequest, getDueServices);
+router.get('/', queryValidation, validateRequest, getReminders);
+router.patch('/:id', updateValidation, validateRequest, updateReminder);
+
+export default router;
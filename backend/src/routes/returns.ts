@@ -0,0 +1,105 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import {
+  getReturns,
+  getReturnById,
+  createReturn
+} from '@/controllers/returns';
+import { authenticateToken, requireRole } from '@/middleware/auth';
+import { validateRequest } from '@/middleware/validation';
+
+const router = Router();
+
+// Возвраты оформляют и просматривают администратор и директор
+router.use(authenticateToken);
+router.use(requireRole(['director', 'admin']));
+
+const PAYMENT_TYPES = ['наличные', 'карта', 'перевод', 'терминал', 'бонусы'];
+
+const idValidation = [
+  param('id')
+    .isUUID()
+    .withMessage('ID должен быть валидным UUID')
+];
+
+const returnsValidation = [
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Страница должна быть положительным числом'),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Лимит должен быть числом от 1 до 100'),
+  query('parts_sale_id')
+    .optional()
+    .isUUID()
+    .withMessage('ID продажи должен быть валидным UUID'),
+  query('order_id')
+    .optional()
+    .isString()
+    .isLength({ min: 1, max: 10 })
+    .withMessage('Неверный ID заказа'),
+  query(['date_from', 'date_to'])
+    .optional()
+    .isISO8601()
+    .withMessage('Даты должны быть в формате ISO 8601')
+];
+
+// Валидация возврата: документ, строки и возврат денег
+const createReturnValidation = [
+  body('parts_sale_id')
+    .optional()
+    .isUUID()
+    .withMessage('ID продажи должен быть валидным UUID'),
+  body('order_id')
+    .optional()
+    .isString()
+    .isLength({ min: 1, max: 10 })
+    .withMessage('Неверный ID заказа'),
+  body()
+    .custom(value => Boolean(value.parts_sale_id) !== Boolean(value.order_id))
+    .withMessage('Укажите либо продажу (parts_sale_id), либо заказ (order_id)'),
+  body('warehouse_id')
+    .optional()
+    .isUUID()
+    .withMessage('ID склада должен быть валидным UUID'),
+  body('reason')
+    .optional()
+    .isString()
+    .withMessage('Причина возврата должна быть строкой'),
+  body('items')
+    .isArray({ min: 1, max: 100 })
+    .withMessage('Возврат должен содержать от 1 до 100 позиций'),
+  body('items.*.item_id')
+    .isUUID()
+    .withMessage('ID позиции должен быть валидным UUID'),
+  body('items.*.quantity')
+    .isFloat({ gt: 0 })
+    .withMessage('Количество возврата должно быть положительным числом'),
+  body('items.*.amount')
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('Сумма возврата позиции должна быть неотрицательным числом'),
+  body('items.*.restock')
+    .optional()
+    .isBoolean()
+    .withMessage('restock должен быть boolean'),
+  body('refunds')
+    .optional()
+    .isArray()
+    .withMessage('Возврат денег должен быть массивом'),
+  body('refunds.*.type')
+    .isIn(PAYMENT_TYPES)
+    .withMessage(`Способ возврата денег должен быть одним из: ${PAYMENT_TYPES.join(', ')}`),
+  body('refunds.*.amount')
+    .isFloat({ gt: 0 })
+    .withMessage('Сумма возврата денег должна быть положительным числом')
+];
+
+// Роуты возвратов
+router.get('/', returnsValidation, validateRequest, getReturns);
+router.get('/:id', idValidation, validateRequest, getReturnById);
+router.post('/', createReturnValidation, validateRequest, createReturn);
+
+export default router;
@@ -0,0 +1,78 @@
+import { Router } from 'express';
+import { body, query } from 'express-validator';
+import {
+  getBays,
+  createBay,
+  updateBay,
+  getWorkingHours,
+  setWorkingHours
+} from '@/controllers/schedule';
+import { authenticateToken, requireRole } from '@/middleware/auth';
+import { validateRequest } from '@/middleware/validation';
+
+const router = Router();
+
+// Middleware для всех роутов расписания
+router.use(authenticateToken);
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// Валидация поста
+const bayValidation = (required: boolean) => [
+  (required ? body('name') : body('name').optional())
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Название поста должно содержать от 1 до 100 символов'),
+  body('description')
+    .optional()
+    .isString()
+    .withMessage('Описание должно быть строкой'),
+  body('is_active')
+    .optional()
+    .isBoolean()
+    .withMessage('is_active должен быть булевым значением')
+];
+
+// Валидация недельного графика мастера
+const workingHoursValidation = [
+  body('hours')
+    .isArray({ max: 7 })
+    .withMessage('График должен быть массивом до 7 дней'),
+  body('hours.*.weekday')
+    .isInt({ min: 1, max: 7 })
+    .withMessage('День недели должен быть от 1 (пн) до 7 (вс)'),
+  body(['hours.*.start_time', 'hours.*.end_time'])
+    .matches(TIME_PATTERN)
+    .withMessage('Время должно быть в формате HH:MM')
+];
+
+// Роуты постов
+router.get('/bays', getBays);
+router.post('/bays',
+  requireRole(['director', 'admin']),
+  bayValidation(true),
+  validateRequest,
+  createBay
+);
+router.put('/bays/:id',
+  requireRole(['director', 'admin']),
+  bayValidation(false),
+  validateRequest,
+  updateBay
+);
+
+// Роуты рабочих часов
+router.get('/working-hours',
+  query('master_id').optional().isUUID().withMessage('ID мастера должен быть валидным UUID'),
+  validateRequest,
+  getWorkingHours
+);
+router.put('/working-hours/:masterId',
+  requireRole(['director', 'admin']),
+  workingHoursValidation,
+  validateRequest,
+  setWorkingHours
+);
+
+export default router;
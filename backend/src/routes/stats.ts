@@ -0,0 +1,31 @@
+import { Router } from 'express';
+import { query } from 'express-validator';
+import { getCashflow } from '@/controllers/stats';
+import { authenticateToken, requireRole } from '@/middleware/auth';
+import { validateRequest } from '@/middleware/validation';
+
+const router = Router();
+
+// Middleware для всех роутов статистики
+router.use(authenticateToken);
+
+const cashflowValidation = [
+  query('period')
+    .optional()
+    .isIn(['day', 'week', 'month', 'year'])
+    .withMessage('Период должен быть одним из: day, week, month, year'),
+  query(['date_from', 'date_to'])
+    .optional()
+    .isISO8601()
+    .withMessage('Даты должны быть в формате ISO 8601')
+];
+
+// Роуты статистики
+router.get('/cashflow',
+  requireRole(['director', 'admin']),
+  cashflowValidation,
+  validateRequest,
+  getCashflow
+);
+
+export default router;
@@ -0,0 +1,115 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import {
+  getVehicles,
+  getVehicleById,
+  getVehicleOrders,
+  decodeVehicleVin,
+  createVehicle,
+  updateVehicle,
+  transferVehicle,
+  deleteVehicle
+} from '@/controllers/vehicles';
+import { authenticateToken, requireRole } from '@/middleware/auth';
+import { validateRequest, validateVIN } from '@/middleware/validation';
+
+const router = Router();
+
+// Middleware для всех роутов автомобилей
+router.use(authenticateToken);
+
+// Валидация полей автомобиля. При создании марка обязательна, если не передан VIN
+const vehicleValidation = (required: boolean) => [
+  (required ? body('make').if(body('vin').not().exists()) : body('make').optional())
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Марка должна содержать от 1 до 100 символов'),
+  body(['model', 'engine'])
+    .optional()
+    .isString()
+    .isLength({ max: 100 })
+    .withMessage('Поле должно быть строкой до 100 символов'),
+  body('year')
+    .optional()
+    .isInt({ min: 1950, max: new Date().getFullYear() + 1 })
+    .withMessage('Неверный год выпуска'),
+  body('plate')
+    .optional()
+    .isString()
+    .isLength({ min: 1, max: 20 })
+    .withMessage('Госномер должен содержать до 20 символов'),
+  body('vin')
+    .optional()
+    .custom((vin: string) => validateVIN(vin.replace(/\s/g, '')))
+    .withMessage('VIN должен содержать 17 символов (без I, O, Q)'),
+  body('mileage')
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('Пробег должен быть неотрицательным целым числом'),
+  body('notes')
+    .optional()
+    .isString()
+    .withMessage('Примечания должны быть строкой')
+];
+
+// Валидация для создания автомобиля
+const createVehicleValidation = [
+  body('client_id')
+    .optional()
+    .isUUID()
+    .withMessage('ID клиента должен быть валидным UUID'),
+  ...vehicleValidation(true)
+];
+
+// Валидация смены владельца
+const transferValidation = [
+  body('client_id')
+    .isUUID()
+    .withMessage('ID клиента должен быть валидным UUID')
+];
+
+// Валидация параметров запроса
+const queryValidation = [
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Страница должна быть положительным числом'),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Лимит должен быть числом от 1 до 100'),
+  query('client_id')
+    .optional()
+    .isUUID()
+    .withMessage('ID клиента должен быть валидным UUID'),
+  query('search')
+    .optional()
+    .isString()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Поиск должен содержать от 1 до 100 символов')
+];
+
+// Валидация VIN для расшифровки
+const decodeValidation = [
+  param('vin')
+    .custom((vin: string) => validateVIN(vin.replace(/\s/g, '')))
+    .withMessage('VIN должен содержать 17 символов (без I, O, Q)')
+];
+
+// Роуты
+router.get('/', queryValidation, validateRequest, getVehicles);
+router.get('/decode/:vin', decodeValidation, validateRequest, decodeVehicleVin);
+router.get('/:id', getVehicleById);
+router.get('/:id/orders', getVehicleOrders);
+router.post('/', createVehicleValidation, validateRequest, createVehicle);
+router.put('/:id', vehicleValidation(false), validateRequest, updateVehicle);
+router.post('/:id/transfer',
+  requireRole(['director', 'admin']),
+  transferValidation,
+  validateRequest,
+  transferVehicle
+);
+router.delete('/:id', requireRole(['director']), deleteVehicle);
+
+export default router;
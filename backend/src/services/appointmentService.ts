@@ -0,0 +1,322 @@
+import { supabase } from '@/config/database';
+import { ConflictError, NotFoundError, ValidationError } from '@/middleware/errorHandler';
+import {
+  Appointment,
+  AvailabilityQuery,
+  AvailableSlot,
+  MasterWorkingHours,
+  Service
+} from '@/types';
+import { createOrderWithMasters } from '@/services/orderService';
+import { logger } from '@/utils/logger';
+import { getWorkshopDayStart, getWorkshopTime } from '@/utils/workshopTime';
+
+// Статусы, при которых запись занимает пост и мастера
+export const ACTIVE_APPOINTMENT_STATUSES: readonly Appointment['status'][] = ['pending', 'scheduled', 'confirmed', 'arrived'];
+
+export const APPOINTMENT_STATUSES: readonly Appointment['status'][] = [
+  ...ACTIVE_APPOINTMENT_STATUSES,
+  'converted',
+  'cancelled',
+  'no_show'
+];
+
+// Шаг сетки свободных слотов
+const SLOT_STEP_MINUTES = 15;
+
+const DEFAULT_SERVICE_DURATION = 60;
+
+interface TimeRange {
+  starts_at: string;
+  ends_at: string;
+}
+
+// "09:30" или "09:30:00" в минуты от начала дня
+function timeToMinutes(time: string): number {
+  const [hours = 0, minutes = 0] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function addMinutes(date: Date, minutes: number): Date {
+  return new Date(date.getTime() + minutes * 60000);
+}
+
+function overlaps(a: TimeRange, startsAt: Date, endsAt: Date): boolean {
+  return new Date(a.starts_at) < endsAt && new Date(a.ends_at) > startsAt;
+}
+
+// Суммарная длительность услуг в минутах по services.duration_minutes
+export async function getServicesDuration(serviceIds: string[]): Promise<number> {
+  if (serviceIds.length === 0) {
+    return DEFAULT_SERVICE_DURATION;
+  }
+
+  const { data, error } = await supabase
+    .from('services')
+    .select('id, duration_minutes')
+    .in('id', serviceIds);
+
+  if (error) {
+    throw new Error(`Ошибка получения услуг: ${error.message}`);
+  }
+
+  const services: Pick<Service, 'id' | 'duration_minutes'>[] = data || [];
+  const durations = new Map(services.map(service => [service.id, service.duration_minutes]));
+  const missing = serviceIds.filter(id => !durations.has(id));
+
+  if (missing.length > 0) {
+    throw new ValidationError(`Услуга не найдена: ${missing.join(', ')}`);
+  }
+
+  return serviceIds.reduce((total, id) => total + (durations.get(id) || DEFAULT_SERVICE_DURATION), 0);
+}
+
+// Активные записи, пересекающиеся с интервалом по посту или мастеру
+export async function findAppointmentConflicts(
+  range: TimeRange,
+  bayId: string,
+  masterId?: string,
+  excludeId?: string
+): Promise<Appointment[]> {
+  let query = supabase
+    .from('appointments')
+    .select('*')
+    .in('status', ACTIVE_APPOINTMENT_STATUSES)
+    .lt('starts_at', range.ends_at)
+    .gt('ends_at', range.starts_at);
+
+  query = masterId
+    ? query.or(`bay_id.eq.${bayId},master_id.eq.${masterId}`)
+    : query.eq('bay_id', bayId);
+
+  if (excludeId) {
+    query = query.neq('id', excludeId);
+  }
+
+  const { data: conflicts, error } = await query;
+
+  if (error) {
+    throw new Error(`Ошибка проверки пересечений записей: ${error.message}`);
+  }
+
+  return conflicts || [];
+}
+
+// Проверка, что мастер работает весь интервал записи (по времени автосервиса)
+export async function assertMasterWorking(masterId: string, range: TimeRange): Promise<void> {
+  const start = getWorkshopTime(new Date(range.starts_at));
+  const last = getWorkshopTime(addMinutes(new Date(range.ends_at), -1));
+
+  const { data: hours } = await supabase
+    .from('master_working_hours')
+    .select('start_time, end_time')
+    .eq('master_id', masterId)
+    .eq('weekday', start.weekday)
+    .maybeSingle();
+
+  if (
+    !hours ||
+    start.date !== last.date ||
+    start.minutes < timeToMinutes(hours.start_time) ||
+    last.minutes >= timeToMinutes(hours.end_time)
+  ) {
+    throw new ValidationError('Мастер не работает в выбранное время');
+  }
+}
+
+// Проверка записи перед сохранением: рабочие часы мастера и пересечения
+export async function assertAppointmentAvailable(
+  range: TimeRange,
+  bayId: string,
+  masterId?: string,
+  excludeId?: string
+): Promise<void> {
+  if (new Date(range.ends_at) <= new Date(range.starts_at)) {
+    throw new ValidationError('Окончание записи должно быть позже начала');
+  }
+
+  if (masterId) {
+    await assertMasterWorking(masterId, range);
+  }
+
+  const conflicts = await findAppointmentConflicts(range, bayId, masterId, excludeId);
+
+  if (conflicts.length > 0) {
+    throw new ConflictError('Пост или мастер уже заняты в это время', {
+      conflicts: conflicts.map(conflict => ({
+        id: conflict.id,
+        bay_id: conflict.bay_id,
+        master_id: conflict.master_id,
+        starts_at: conflict.starts_at,
+        ends_at: conflict.ends_at
+      }))
+    });
+  }
+}
+
+// Свободные слоты на дату: пост свободен и есть мастер, который работает и не занят.
+// Дата и рабочие часы - по времени автосервиса
+export async function getAvailableSlots(params: AvailabilityQuery): Promise<AvailableSlot[]> {
+  const duration = await getServicesDuration(params.service_ids);
+  const dayStart = getWorkshopDayStart(params.date);
+  const dayEnd = addMinutes(dayStart, 24 * 60);
+
+  if (Number.isNaN(dayStart.getTime())) {
+    throw new ValidationError('Неверная дата');
+  }
+
+  let baysQuery = supabase.from('bays').select('id').eq('is_active', true);
+  if (params.bay_id) {
+    baysQuery = baysQuery.eq('id', params.bay_id);
+  }
+
+  let hoursQuery = supabase
+    .from('master_working_hours')
+    .select('master_id, start_time, end_time')
+    .eq('weekday', getWorkshopTime(dayStart).weekday);
+  if (params.master_id) {
+    hoursQuery = hoursQuery.eq('master_id', params.master_id);
+  }
+
+  const [baysResult, hoursResult, appointmentsResult] = await Promise.all([
+    baysQuery,
+    hoursQuery,
+    supabase
+      .from('appointments')
+      .select('bay_id, master_id, starts_at, ends_at')
+      .in('status', ACTIVE_APPOINTMENT_STATUSES)
+      .lt('starts_at', dayEnd.toISOString())
+      .gt('ends_at', dayStart.toISOString())
+  ]);
+
+  const error = baysResult.error || hoursResult.error || appointmentsResult.error;
+  if (error) {
+    throw new Error(`Ошибка расчета свободного времени: ${error.message}`);
+  }
+
+  const bays: Array<{ id: string }> = baysResult.data || [];
+  const hours: Omit<MasterWorkingHours, 'weekday'>[] = hoursResult.data || [];
+  const appointments: Array<TimeRange & { bay_id: string; master_id?: string }> = appointmentsResult.data || [];
+
+  if (bays.length === 0 || hours.length === 0) {
+    return [];
+  }
+
+  const openMinutes = Math.min(...hours.map(h => timeToMinutes(h.start_time)));
+  const closeMinutes = Math.max(...hours.map(h => timeToMinutes(h.end_time)));
+  const now = new Date();
+  const slots: AvailableSlot[] = [];
+
+  for (let minute = openMinutes; minute + duration <= closeMinutes; minute += SLOT_STEP_MINUTES) {
+    const startsAt = addMinutes(dayStart, minute);
+    const endsAt = addMinutes(startsAt, duration);
+
+    if (startsAt < now) {
+      continue;
+    }
+
+    const bayIds = bays
+      .filter(bay => !appointments.some(a => a.bay_id === bay.id && overlaps(a, startsAt, endsAt)))
+      .map(bay => bay.id);
+
+    const masterIds = hours
+      .filter(h => timeToMinutes(h.start_time) <= minute && minute + duration <= timeToMinutes(h.end_time))
+      .filter(h => !appointments.some(a => a.master_id === h.master_id && overlaps(a, startsAt, endsAt)))
+      .map(h => h.master_id);
+
+    if (bayIds.length > 0 && masterIds.length > 0) {
+      slots.push({
+        starts_at: startsAt.toISOString(),
+        ends_at: endsAt.toISOString(),
+        bay_ids: bayIds,
+        master_ids: masterIds
+      });
+    }
+  }
+
+  return slots;
+}
+
+// Перевод записи в заказ: услуги записи становятся позициями заказа,
+// мастер записи получает 100%. Возвращает ID заказа
+export async function convertAppointmentToOrder(
+  appointmentId: string,
+  userId?: string
+): Promise<string> {
+  const { data: appointment, error } = await supabase
+    .from('appointments')
+    .select('*')
+    .eq('id', appointmentId)
+    .single();
+
+  if (error || !appointment) {
+    throw new NotFoundError('Запись не найдена');
+  }
+
+  if (!ACTIVE_APPOINTMENT_STATUSES.includes(appointment.status)) {
+    throw new ValidationError('Запись уже переведена в заказ или отменена');
+  }
+
+  if (!appointment.master_id) {
+    throw new ValidationError('Для перевода записи в заказ назначьте мастера');
+  }
+
+  const { data: services, error: servicesError } = await supabase
+    .from('services')
+    .select('id, name, price')
+    .in('id', appointment.service_ids);
+
+  if (servicesError) {
+    throw new Error(`Ошибка получения услуг: ${servicesError.message}`);
+  }
+
+  const orderServices: Pick<Service, 'id' | 'name' | 'price'>[] = services || [];
+
+  // Запись помечается переведенной до создания заказа, чтобы повторный
+  // запрос не создал второй заказ
+  const { data: claimed } = await supabase
+    .from('appointments')
+    .update({ status: 'converted' })
+    .eq('id', appointmentId)
+    .eq('status', appointment.status)
+    .select('id');
+
+  if (!claimed || claimed.length === 0) {
+    throw new ConflictError('Запись была изменена другим пользователем');
+  }
+
+  let orderId: string;
+  try {
+    orderId = await createOrderWithMasters({
+      client_id: appointment.client_id,
+      items: orderServices.map(service => ({
+        type: 'service' as const,
+        service_id: service.id,
+        name: service.name,
+        quantity: 1,
+        price: service.price
+      })),
+      masters: [{ master_id: appointment.master_id, percent: 100 }],
+      status: 'принял',
+      ...(appointment.vehicle_id && { vehicle_id: appointment.vehicle_id }),
+      ...(appointment.notes && { notes: appointment.notes })
+    }, userId);
+  } catch (error) {
+    await supabase
+      .from('appointments')
+      .update({ status: appointment.status })
+      .eq('id', appointmentId);
+    throw error;
+  }
+
+  const { error: linkError } = await supabase
+    .from('appointments')
+    .update({ order_id: orderId })
+    .eq('id', appointmentId);
+
+  if (linkError) {
+    logger.error(`Не удалось связать запись ${appointmentId} с заказом ${orderId}:`, linkError);
+  }
+
+  return orderId;
+}
@@ -0,0 +1,277 @@
+import crypto from 'crypto';
+import { supabase } from '@/config/database';
+import {
+  ConflictError,
+  RateLimitError,
+  ValidationError
+} from '@/middleware/errorHandler';
+import { Appointment, CreateOnlineBookingData, User } from '@/types';
+import { ACTIVE_APPOINTMENT_STATUSES, getAvailableSlots } from '@/services/appointmentService';
+import { sendSms } from '@/services/smsService';
+import { recordClientConsent } from '@/services/clientPrivacyService';
+import { createVehicle, parseCarTitle } from '@/services/vehicleService';
+import { logger } from '@/utils/logger';
+import { WORKSHOP_TIMEZONE, getWorkshopTime } from '@/utils/workshopTime';
+
+// Ограничения онлайн-записи
+const OTP_TTL_MINUTES = 10;
+const OTP_MAX_ATTEMPTS = 5;
+const OTP_MAX_PER_HOUR = 3;
+const MAX_ACTIVE_BOOKINGS_PER_PHONE = 2;
+const BOOKING_MAX_DAYS_AHEAD = 30;
+
+// JWT_SECRET проверяется при запуске сервера
+function hashCode(phone: string, code: string): string {
+  return crypto
+    .createHmac('sha256', process.env['JWT_SECRET']!)
+    .update(`${phone}:${code}`)
+    .digest('hex');
+}
+
+// Отправка SMS кода для подтверждения телефона
+export async function requestBookingOtp(phone: string, ip?: string): Promise<void> {
+  const hourAgo = new Date(Date.now() - 60 * 60000).toISOString();
+
+  const { count, error: countError } = await supabase
+    .from('booking_otps')
+    .select('id', { count: 'exact', head: true })
+    .eq('phone', phone)
+    .gte('created_at', hourAgo);
+
+  if (countError) {
+    throw new Error(`Ошибка проверки SMS кодов: ${countError.message}`);
+  }
+
+  if ((count || 0) >= OTP_MAX_PER_HOUR) {
+    throw new RateLimitError('Слишком много запросов кода, попробуйте через час');
+  }
+
+  const code = crypto.randomInt(100000, 1000000).toString();
+
+  const { error } = await supabase
+    .from('booking_otps')
+    .insert({
+      phone,
+      code_hash: hashCode(phone, code),
+      expires_at: new Date(Date.now() + OTP_TTL_MINUTES * 60000).toISOString(),
+      ip: ip || null
+    });
+
+  if (error) {
+    throw new Error(`Ошибка сохранения SMS кода: ${error.message}`);
+  }
+
+  await sendSms(phone, `Код для записи в VIPauto: ${code}`, 'booking_otp');
+}
+
+// Проверка SMS кода. Код одноразовый, число попыток ограничено
+export async function verifyBookingOtp(phone: string, code: string): Promise<void> {
+  const { data: otp, error } = await supabase
+    .from('booking_otps')
+    .select('id, code_hash')
+    .eq('phone', phone)
+    .is('used_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Ошибка проверки SMS кода: ${error.message}`);
+  }
+
+  if (!otp) {
+    throw new ValidationError('Код истек, запросите новый');
+  }
+
+  // Попытка засчитывается до сравнения, чтобы параллельные запросы
+  // не перебрали больше кодов, чем разрешено
+  const { data: attemptAllowed, error: attemptError } = await supabase.rpc('use_booking_otp_attempt', {
+    p_otp_id: otp.id,
+    p_max_attempts: OTP_MAX_ATTEMPTS
+  });
+
+  if (attemptError) {
+    throw new Error(`Ошибка проверки SMS кода: ${attemptError.message}`);
+  }
+
+  if (!attemptAllowed) {
+    throw new ValidationError('Код истек, запросите новый');
+  }
+
+  const expected = Buffer.from(otp.code_hash, 'hex');
+  const actual = Buffer.from(hashCode(phone, code), 'hex');
+
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    throw new ValidationError('Неверный код');
+  }
+
+  // Код погашается только одним из параллельных запросов
+  const { data: used, error: useError } = await supabase
+    .from('booking_otps')
+    .update({ used_at: new Date().toISOString() })
+    .eq('id', otp.id)
+    .is('used_at', null)
+    .select('id');
+
+  if (useError) {
+    throw new Error(`Ошибка погашения SMS кода: ${useError.message}`);
+  }
+
+  if (!used || used.length === 0) {
+    throw new ValidationError('Код уже использован, запросите новый');
+  }
+}
+
+async function findClientId(phone: string): Promise<string | undefined> {
+  const { data: existing } = await supabase
+    .from('clients')
+    .select('id')
+    .eq('phone', phone)
+    .maybeSingle();
+
+  return existing?.id;
+}
+
+// Новый клиент с именем из заявки
+async function createClient(phone: string, name: string, car?: string): Promise<string> {
+  const { data: client, error } = await supabase
+    .from('clients')
+    .insert({ name, phone, notes: 'Онлайн-запись с сайта' })
+    .select('id')
+    .single();
+
+  if (error) {
+    throw new Error(`Ошибка создания клиента: ${error.message}`);
+  }
+
+  if (car) {
+    await createVehicle({ client_id: client.id, ...parseCarTitle(car) });
+  }
+
+  return client.id;
+}
+
+// Уведомление администраторов и директора о новой заявке
+async function notifyAdmins(appointment: Appointment, name: string, phone: string): Promise<void> {
+  const { data } = await supabase
+    .from('masters')
+    .select('id')
+    .in('role', ['admin', 'director']);
+  const admins: Pick<User, 'id'>[] = data || [];
+
+  if (admins.length === 0) {
+    return;
+  }
+
+  const startsAt = new Date(appointment.starts_at).toLocaleString('ru-RU', {
+    day: 'numeric',
+    month: 'long',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone: WORKSHOP_TIMEZONE
+  });
+
+  const { error } = await supabase
+    .from('notifications')
+    .insert(admins.map(admin => ({
+      user_id: admin.id,
+      title: 'Онлайн-запись',
+      message: `${name} (${phone}) записался на ${startsAt}. Подтвердите запись`,
+      type: 'online_booking',
+      entity_id: appointment.id,
+      entity_type: 'appointment'
+    })));
+
+  if (error) {
+    logger.error('Ошибка создания уведомлений об онлайн-записи:', error);
+  }
+}
+
+// Заявка с сайта: телефон подтвержден кодом, время свободно.
+// Запись создается в статусе pending и ждет подтверждения сотрудником
+export async function createOnlineBooking(data: CreateOnlineBookingData): Promise<Appointment> {
+  const startsAt = new Date(data.starts_at);
+  const maxDate = new Date(Date.now() + BOOKING_MAX_DAYS_AHEAD * 24 * 60 * 60000);
+
+  if (Number.isNaN(startsAt.getTime()) || startsAt <= new Date() || startsAt > maxDate) {
+    throw new ValidationError(`Запись возможна на ближайшие ${BOOKING_MAX_DAYS_AHEAD} дней`);
+  }
+
+  // Лимит проверяется до кода и любых записей в базу
+  const existingClientId = await findClientId(data.phone);
+
+  if (existingClientId) {
+    const { count, error: countError } = await supabase
+      .from('appointments')
+      .select('id', { count: 'exact', head: true })
+      .eq('client_id', existingClientId)
+      .in('status', ACTIVE_APPOINTMENT_STATUSES)
+      .gte('starts_at', new Date().toISOString());
+
+    if (countError) {
+      throw new Error(`Ошибка проверки активных записей: ${countError.message}`);
+    }
+
+    if ((count || 0) >= MAX_ACTIVE_BOOKINGS_PER_PHONE) {
+      throw new RateLimitError('У вас уже есть активные записи. Для изменения позвоните нам');
+    }
+  }
+
+  // Дата слота по времени автосервиса
+  const { date } = getWorkshopTime(startsAt);
+
+  const slots = await getAvailableSlots({ date, service_ids: data.service_ids });
+  const slot = slots.find(s => new Date(s.starts_at).getTime() === startsAt.getTime());
+
+  if (!slot) {
+    throw new ConflictError('Это время уже занято, выберите другое');
+  }
+
+  // Код проверяется после слота, чтобы занятое время не сжигало код
+  await verifyBookingOtp(data.phone, data.code);
+
+  const clientId = existingClientId ?? await createClient(data.phone, data.name, data.car);
+
+  // Форма записи на сайте содержит согласие на обработку персональных данных
+  await recordClientConsent(clientId, {
+    type: 'data_processing',
+    granted: true,
+    source: 'online_booking'
+  });
+
+  if (data.marketing_consent !== undefined) {
+    await recordClientConsent(clientId, {
+      type: 'marketing_sms',
+      granted: data.marketing_consent,
+      source: 'online_booking'
+    });
+  }
+
+  const { data: appointment, error } = await supabase
+    .from('appointments')
+    .insert({
+      client_id: clientId,
+      bay_id: slot.bay_ids[0],
+      master_id: slot.master_ids[0],
+      service_ids: data.service_ids,
+      starts_at: slot.starts_at,
+      ends_at: slot.ends_at,
+      status: 'pending',
+      source: 'online',
+      notes: data.notes || null
+    })
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === '23P01') {
+      throw new ConflictError('Это время уже занято, выберите другое');
+    }
+    throw new Error(`Ошибка создания онлайн-записи: ${error.message}`);
+  }
+
+  await notifyAdmins(appointment, data.name, data.phone);
+
+  return appointment;
+}
@@ -0,0 +1,512 @@
+import ExcelJS from 'exceljs';
+import { supabase } from '@/config/database';
+import { NotFoundError, ValidationError } from '@/middleware/errorHandler';
+import { validatePhone, validateVIN } from '@/middleware/validation';
+import {
+  ClientImport,
+  ClientImportDuplicate,
+  ClientImportError,
+  ClientImportField,
+  ClientImportMapping,
+  ClientImportRow,
+  CreateClientData,
+  CreateVehicleData
+} from '@/types';
+import { normalizeVehicleData, parseCarTitle, prefillFromVin } from '@/services/vehicleService';
+import { normalizePhone } from '@/utils/phone';
+import { normalizeHeader, parseImportFile } from '@/utils/importFile';
+
+// Ограничения импорта
+const MAX_IMPORT_ROWS = 10000;
+const IMPORT_BATCH_SIZE = 200;
+const LOOKUP_CHUNK_SIZE = 500;
+const PREVIEW_ROWS = 20;
+
+// Поля сеанса без исходных строк файла
+const IMPORT_FIELDS = `
+  id, file_name, headers, mapping, status, total_rows, valid_rows, duplicate_rows,
+  imported_rows, errors, duplicates, created_by, created_at, updated_at, completed_at
+`;
+
+// Заголовки колонок, по которым сопоставление определяется автоматически
+const FIELD_SYNONYMS: Record<ClientImportField, string[]> = {
+  name: ['имя', 'фио', 'клиент', 'name'],
+  phone: ['телефон', 'тел', 'тел.', 'мобильный', 'phone'],
+  notes: ['примечание', 'примечания', 'комментарий', 'notes'],
+  car1: ['автомобиль', 'авто', 'машина', 'car', 'car1'],
+  car2: ['автомобиль 2', 'авто 2', 'машина 2', 'car2'],
+  make: ['марка', 'make'],
+  model: ['модель', 'model'],
+  year: ['год', 'год выпуска', 'year'],
+  plate: ['госномер', 'гос. номер', 'гос номер', 'номер', 'plate'],
+  vin: ['vin', 'вин', 'vin-код', 'vin код'],
+  mileage: ['пробег', 'mileage']
+};
+
+type ImportVehicle = Omit<CreateVehicleData, 'client_id'>;
+
+interface ValidatedRow {
+  row: number;
+  data: CreateClientData & { vehicles: ImportVehicle[] };
+}
+
+interface DryRunResult {
+  valid: ValidatedRow[];
+  errors: ClientImportError[];
+  duplicates: ClientImportDuplicate[];
+}
+
+// Автоматическое сопоставление колонок по заголовкам
+export function guessMapping(headers: string[]): ClientImportMapping {
+  const mapping: ClientImportMapping = {};
+  const used = new Set<string>();
+
+  for (const [field, synonyms] of Object.entries(FIELD_SYNONYMS) as [ClientImportField, string[]][]) {
+    const header = headers.find(candidate =>
+      !used.has(candidate) &&
+      synonyms.includes(normalizeHeader(candidate))
+    );
+
+    if (header) {
+      mapping[field] = header;
+      used.add(header);
+    }
+  }
+
+  return mapping;
+}
+
+function checkMapping(headers: string[], mapping: ClientImportMapping): void {
+  if (!mapping.name) {
+    throw new ValidationError('Не выбрана колонка с именем клиента');
+  }
+
+  const unknown = Object.values(mapping).filter(header => !headers.includes(header));
+  if (unknown.length > 0) {
+    throw new ValidationError(`В файле нет колонок: ${unknown.join(', ')}`);
+  }
+}
+
+// Проверка строки и перевод в данные клиента с автомобилями
+function validateRow(
+  { row, values }: ClientImportRow,
+  headers: string[],
+  mapping: ClientImportMapping
+): { data?: ValidatedRow['data']; errors: ClientImportError[] } {
+  const errors: ClientImportError[] = [];
+  const get = (field: ClientImportField): string | undefined => {
+    const header = mapping[field];
+    const value = header ? values[headers.indexOf(header)] : undefined;
+    return value || undefined;
+  };
+  const fail = (field: ClientImportField, message: string): void => {
+    const value = get(field);
+    errors.push({ row, field, ...(value && { value }), message });
+  };
+
+  const name = get('name');
+  if (!name || name.length < 2 || name.length > 255) {
+    fail('name', 'Имя должно содержать от 2 до 255 символов');
+  }
+
+  const rawPhone = get('phone');
+  const phone = rawPhone ? normalizePhone(rawPhone) : undefined;
+  if (phone && !validatePhone(phone)) {
+    fail('phone', 'Неверный формат телефона');
+  }
+
+  const vin = get('vin')?.replace(/\s/g, '').toUpperCase();
+  if (vin && !validateVIN(vin)) {
+    fail('vin', 'VIN должен содержать 17 символов (без I, O, Q)');
+  }
+
+  const year = get('year');
+  if (year && !(/^\d{4}$/.test(year) && Number(year) >= 1950 && Number(year) <= new Date().getFullYear() + 1)) {
+    fail('year', 'Неверный год выпуска');
+  }
+
+  const mileage = get('mileage')?.replace(/\s/g, '');
+  if (mileage && !/^\d+$/.test(mileage)) {
+    fail('mileage', 'Пробег должен быть неотрицательным целым числом');
+  }
+
+  const plate = get('plate');
+  if (plate && plate.length > 20) {
+    fail('plate', 'Госномер должен содержать до 20 символов');
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  // Основной автомобиль: из колонки "Автомобиль" и отдельных колонок марки, модели и т.д.
+  const vehicles: ImportVehicle[] = [];
+  const car1 = get('car1');
+  const make = get('make');
+  const model = get('model');
+  const notes = get('notes');
+
+  if (car1 || make || model || year || plate || vin || mileage) {
+    const vehicle: ImportVehicle = {
+      ...(car1 ? parseCarTitle(car1) : { make: '' }),
+      ...(make && { make }),
+      ...(model && { model }),
+      ...(year && { year: Number(year) }),
+      ...(plate && { plate }),
+      ...(vin && { vin }),
+      ...(mileage && { mileage: Number(mileage) })
+    };
+
+    if (!vehicle.make && !vehicle.vin) {
+      fail('make', 'Не указана марка автомобиля');
+      return { errors };
+    }
+
+    vehicles.push(prefillFromVin(normalizeVehicleData(vehicle)));
+  }
+
+  const car2 = get('car2');
+  if (car2) {
+    vehicles.push(parseCarTitle(car2));
+  }
+
+  return {
+    data: {
+      name: name || '',
+      ...(phone && { phone }),
+      ...(notes && { notes }),
+      vehicles
+    },
+    errors
+  };
+}
+
+// Поиск существующих клиентов по телефонам и автомобилей по VIN частями
+async function findExisting(
+  table: 'clients' | 'vehicles',
+  column: 'phone' | 'vin',
+  values: string[]
+): Promise<Map<string, string>> {
+  const found = new Map<string, string>();
+  const select = table === 'clients' ? 'id, phone' : 'client_id, vin';
+
+  for (let offset = 0; offset < values.length; offset += LOOKUP_CHUNK_SIZE) {
+    const { data: rows, error } = await supabase
+      .from(table)
+      .select(select)
+      .in(column, values.slice(offset, offset + LOOKUP_CHUNK_SIZE));
+
+    if (error) {
+      throw new Error(`Ошибка поиска дублей: ${error.message}`);
+    }
+
+    for (const row of (rows || []) as any[]) {
+      found.set(row[column], table === 'clients' ? row.id : row.client_id);
+    }
+  }
+
+  return found;
+}
+
+// Проверка всех строк и поиск дублей среди существующих клиентов и внутри файла
+async function dryRun(
+  headers: string[],
+  rows: ClientImportRow[],
+  mapping: ClientImportMapping
+): Promise<DryRunResult> {
+  checkMapping(headers, mapping);
+
+  const errors: ClientImportError[] = [];
+  const checked: ValidatedRow[] = [];
+
+  for (const row of rows) {
+    const result = validateRow(row, headers, mapping);
+    errors.push(...result.errors);
+    if (result.data) {
+      checked.push({ row: row.row, data: result.data });
+    }
+  }
+
+  const phones = checked.flatMap(({ data }) => (data.phone ? [data.phone] : []));
+  const vins = checked.flatMap(({ data }) => data.vehicles.flatMap(vehicle => (vehicle.vin ? [vehicle.vin] : [])));
+  const existingPhones = await findExisting('clients', 'phone', [...new Set(phones)]);
+  const existingVins = await findExisting('vehicles', 'vin', [...new Set(vins)]);
+
+  const seenPhones = new Map<string, number>();
+  const seenVins = new Map<string, number>();
+  const duplicates: ClientImportDuplicate[] = [];
+  const valid: ValidatedRow[] = [];
+
+  for (const item of checked) {
+    const { row, data } = item;
+    let duplicate: ClientImportDuplicate | undefined;
+
+    if (data.phone) {
+      const clientId = existingPhones.get(data.phone);
+      const firstRow = seenPhones.get(data.phone);
+      if (clientId || firstRow) {
+        duplicate = {
+          row,
+          reason: 'phone',
+          value: data.phone,
+          ...(clientId ? { client_id: clientId } : firstRow && { duplicate_of_row: firstRow })
+        };
+      }
+    }
+
+    for (const vin of data.vehicles.flatMap(vehicle => (vehicle.vin ? [vehicle.vin] : []))) {
+      const clientId = existingVins.get(vin);
+      const firstRow = seenVins.get(vin);
+      if (!duplicate && (clientId || firstRow)) {
+        duplicate = {
+          row,
+          reason: 'vin',
+          value: vin,
+          ...(clientId ? { client_id: clientId } : firstRow && { duplicate_of_row: firstRow })
+        };
+      }
+    }
+
+    if (duplicate) {
+      duplicates.push(duplicate);
+      continue;
+    }
+
+    if (data.phone) {
+      seenPhones.set(data.phone, row);
+    }
+    data.vehicles.forEach(vehicle => vehicle.vin && seenVins.set(vehicle.vin, row));
+    valid.push(item);
+  }
+
+  return { valid, errors, duplicates };
+}
+
+function summarize(result: DryRunResult, totalRows: number) {
+  return {
+    total_rows: totalRows,
+    valid_rows: result.valid.length,
+    duplicate_rows: result.duplicates.length,
+    errors: result.errors,
+    duplicates: result.duplicates
+  };
+}
+
+// После записи исходные строки нужны только для отчета об ошибках и дублях,
+// остальные персональные данные из файла не хранятся
+function reportRows(
+  rows: ClientImportRow[],
+  problems: Pick<DryRunResult, 'errors' | 'duplicates'>
+): ClientImportRow[] {
+  const reported = new Set([...problems.errors, ...problems.duplicates].map(({ row }) => row));
+  return rows.filter(({ row }) => reported.has(row));
+}
+
+async function getImportRecord(id: string): Promise<ClientImport & { rows: ClientImportRow[] }> {
+  const { data: record, error } = await supabase
+    .from('client_imports')
+    .select('*')
+    .eq('id', id)
+    .single();
+
+  if (error) {
+    if (error.code === 'PGRST116') {
+      throw new NotFoundError('Импорт не найден');
+    }
+    throw new Error(`Ошибка получения импорта: ${error.message}`);
+  }
+
+  return record;
+}
+
+// Загрузка файла и пробная проверка без записи клиентов.
+// Без сопоставления колонки определяются по заголовкам
+export async function createClientImport(
+  file: { buffer: Buffer; originalname: string },
+  mapping: ClientImportMapping | undefined,
+  userId?: string
+): Promise<ClientImport> {
+  const { headers, rows } = await parseImportFile(file.buffer, file.originalname, MAX_IMPORT_ROWS);
+  const importMapping = mapping || guessMapping(headers);
+  const result = await dryRun(headers, rows, importMapping);
+
+  const { data: record, error } = await supabase
+    .from('client_imports')
+    .insert({
+      file_name: file.originalname,
+      headers,
+      rows,
+      mapping: importMapping,
+      ...summarize(result, rows.length),
+      created_by: userId || null
+    })
+    .select(IMPORT_FIELDS)
+    .single();
+
+  if (error) {
+    throw new Error(`Ошибка сохранения импорта: ${error.message}`);
+  }
+
+  return { ...record, preview: result.valid.slice(0, PREVIEW_ROWS).map(({ data }) => data) };
+}
+
+// Повторная проверка загруженного файла с другим сопоставлением колонок
+export async function revalidateClientImport(
+  id: string,
+  mapping: ClientImportMapping
+): Promise<ClientImport> {
+  const current = await getImportRecord(id);
+
+  if (current.status !== 'validated') {
+    throw new ValidationError('Импорт уже выполнен');
+  }
+
+  const result = await dryRun(current.headers, current.rows, mapping);
+
+  const { data: record, error } = await supabase
+    .from('client_imports')
+    .update({ mapping, ...summarize(result, current.rows.length) })
+    .eq('id', id)
+    .select(IMPORT_FIELDS)
+    .single();
+
+  if (error) {
+    throw new Error(`Ошибка сохранения импорта: ${error.message}`);
+  }
+
+  return { ...record, preview: result.valid.slice(0, PREVIEW_ROWS).map(({ data }) => data) };
+}
+
+// Запись клиентов пакетами. Проверка повторяется: с момента загрузки
+// могли появиться новые клиенты. Строки с ошибками и дубли пропускаются
+export async function commitClientImport(id: string): Promise<ClientImport> {
+  const current = await getImportRecord(id);
+
+  // Смена статуса защищает от повторного запуска того же импорта
+  const { data: locked, error: lockError } = await supabase
+    .from('client_imports')
+    .update({ status: 'importing' })
+    .eq('id', id)
+    .eq('status', 'validated')
+    .select('id');
+
+  if (lockError) {
+    throw new Error(`Ошибка запуска импорта: ${lockError.message}`);
+  }
+
+  if (!locked || locked.length === 0) {
+    throw new ValidationError('Импорт уже выполнен или выполняется');
+  }
+
+  let imported = 0;
+  let result: DryRunResult | undefined;
+
+  try {
+    result = await dryRun(current.headers, current.rows, current.mapping);
+
+    for (let offset = 0; offset < result.valid.length; offset += IMPORT_BATCH_SIZE) {
+      const batch = result.valid.slice(offset, offset + IMPORT_BATCH_SIZE);
+      const { data: rows, error } = await supabase.rpc('import_clients_batch', {
+        p_rows: batch.map(({ row, data: { vehicles, ...client } }) => ({ row, client, vehicles }))
+      });
+
+      if (error) {
+        throw new Error(`Ошибка записи клиентов: ${error.message}`);
+      }
+
+      for (const item of (rows || []) as Array<{ file_row: number; client_id?: string; error?: string }>) {
+        if (item.error) {
+          result.errors.push({ row: item.file_row, message: item.error });
+        } else {
+          imported++;
+        }
+      }
+
+      await supabase
+        .from('client_imports')
+        .update({ imported_rows: imported, errors: result.errors })
+        .eq('id', id);
+    }
+  } catch (error) {
+    await supabase
+      .from('client_imports')
+      .update({
+        status: 'failed',
+        imported_rows: imported,
+        rows: reportRows(current.rows, result || current),
+        ...(result && { errors: result.errors })
+      })
+      .eq('id', id);
+    throw error;
+  }
+
+  const { data: record, error } = await supabase
+    .from('client_imports')
+    .update({
+      status: 'completed',
+      imported_rows: imported,
+      rows: reportRows(current.rows, result),
+      ...summarize(result, current.rows.length),
+      completed_at: new Date().toISOString()
+    })
+    .eq('id', id)
+    .select(IMPORT_FIELDS)
+    .single();
+
+  if (error) {
+    throw new Error(`Ошибка завершения импорта: ${error.message}`);
+  }
+
+  return record;
+}
+
+// Сеанс импорта без исходных строк
+export async function getClientImport(id: string): Promise<ClientImport> {
+  const { data: record, error } = await supabase
+    .from('client_imports')
+    .select(IMPORT_FIELDS)
+    .eq('id', id)
+    .single();
+
+  if (error) {
+    if (error.code === 'PGRST116') {
+      throw new NotFoundError('Импорт не найден');
+    }
+    throw new Error(`Ошибка получения импорта: ${error.message}`);
+  }
+
+  return record;
+}
+
+// Отчет об ошибках и дублях в CSV (";" и BOM - для открытия в Excel)
+// с исходными значениями строки
+export async function buildImportReport(id: string): Promise<Buffer> {
+  const record = await getImportRecord(id);
+  const valuesByRow = new Map(record.rows.map(({ row, values }) => [row, values]));
+
+  const workbook = new ExcelJS.Workbook();
+  const worksheet = workbook.addWorksheet('Ошибки');
+  worksheet.addRow(['Строка', 'Поле', 'Значение', 'Ошибка', ...record.headers]);
+
+  const problems = [
+    ...record.errors.map(({ row, field, value, message }) => [row, field || '', value || '', message]),
+    ...record.duplicates.map(({ row, reason, value, client_id, duplicate_of_row }) => [
+      row,
+      reason,
+      value,
+      client_id
+        ? `Дубль существующего клиента ${client_id}`
+        : `Дубль строки ${duplicate_of_row}`
+    ])
+  ].sort((a, b) => Number(a[0]) - Number(b[0]));
+
+  for (const problem of problems) {
+    worksheet.addRow([...problem, ...(valuesByRow.get(Number(problem[0])) || [])]);
+  }
+
+  const report = await workbook.csv.writeBuffer({
+    formatterOptions: { delimiter: ';', writeBOM: true }
+  });
+
+  return Buffer.from(report);
+}
@@ -0,0 +1,233 @@
+import JSZip from 'jszip';
+import { supabase } from '@/config/database';
+import { NotFoundError } from '@/middleware/errorHandler';
+import {
+  ClientConsent,
+  ClientConsents,
+  ClientDataExport,
+  ClientExportFormat,
+  CreateClientConsentData
+} from '@/types';
+import { toClientError } from '@/services/clientService';
+
+// Действующие согласия клиента и полная история записей
+export async function getClientConsents(clientId: string): Promise<ClientConsents> {
+  const [current, history] = await Promise.all([
+    supabase.rpc('get_client_consents', { p_client_id: clientId }),
+    supabase
+      .from('client_consents')
+      .select('*')
+      .eq('client_id', clientId)
+      .order('created_at', { ascending: false })
+  ]);
+
+  if (current.error) {
+    throw toClientError(current.error, 'получения согласий клиента');
+  }
+
+  if (history.error) {
+    throw toClientError(history.error, 'получения истории согласий');
+  }
+
+  return {
+    current: (current.data || []) as ClientConsent[],
+    history: (history.data || []) as ClientConsent[]
+  };
+}
+
+// Запись согласия или его отзыва (granted = false)
+export async function recordClientConsent(
+  clientId: string,
+  data: CreateClientConsentData,
+  userId?: string
+): Promise<ClientConsent> {
+  const { data: consent, error } = await supabase
+    .from('client_consents')
+    .insert({
+      client_id: clientId,
+      type: data.type,
+      granted: data.granted,
+      source: data.source || 'office',
+      notes: data.notes || null,
+      recorded_by: userId || null
+    })
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === '23503') {
+      throw new NotFoundError('Клиент не найден');
+    }
+    throw toClientError(error, 'записи согласия');
+  }
+
+  return consent as ClientConsent;
+}
+
+// Записи таблицы по клиенту для выгрузки
+async function selectByClient<T>(
+  table: string,
+  clientId: string,
+  columns: string = '*'
+): Promise<T[]> {
+  const { data, error } = await supabase
+    .from(table)
+    .select(columns)
+    .eq('client_id', clientId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Ошибка выгрузки ${table}: ${error.message}`);
+  }
+
+  return (data || []) as T[];
+}
+
+// Все данные, которые хранятся о клиенте: карточка, автомобили, согласия,
+// заказы с позициями, оплаты, долги, покупки, записи, заметки и бонусы
+export async function buildClientExport(clientId: string): Promise<ClientDataExport> {
+  const { data: client, error: clientError } = await supabase
+    .from('clients')
+    .select('*, loyalty_tier:loyalty_tiers(*)')
+    .eq('id', clientId)
+    .single();
+
+  if (clientError) {
+    throw toClientError(clientError, 'получения клиента');
+  }
+
+  const [
+    vehicles,
+    vehicleOwners,
+    consents,
+    orders,
+    debts,
+    partsSales,
+    appointments,
+    notes,
+    loyaltyTransactions,
+    serviceReminders
+  ] = await Promise.all([
+    selectByClient<ClientDataExport['vehicles'][number]>('vehicles', clientId),
+    supabase
+      .from('vehicle_owners')
+      .select('*')
+      .eq('client_id', clientId)
+      .order('owned_from', { ascending: true })
+      .then(({ data, error }) => {
+        if (error) {
+          throw new Error(`Ошибка выгрузки vehicle_owners: ${error.message}`);
+        }
+        return (data || []) as ClientDataExport['vehicle_owners'];
+      }),
+    selectByClient<ClientConsent>('client_consents', clientId),
+    selectByClient<ClientDataExport['orders'][number]>(
+      'orders',
+      clientId,
+      '*, items:order_items(*), order_masters(percent, master:masters(full_name))'
+    ),
+    selectByClient<ClientDataExport['debts'][number]>('debts', clientId),
+    selectByClient<ClientDataExport['parts_sales'][number]>(
+      'parts_sales',
+      clientId,
+      '*, items:parts_sale_items(*)'
+    ),
+    selectByClient<ClientDataExport['appointments'][number]>('appointments', clientId),
+    selectByClient<ClientDataExport['notes'][number]>('client_notes', clientId),
+    selectByClient<ClientDataExport['loyalty_transactions'][number]>('loyalty_transactions', clientId),
+    selectByClient<ClientDataExport['service_reminders'][number]>('service_reminders', clientId)
+  ]);
+
+  // Оплаты привязаны к заказам, долгам и покупкам клиента
+  const links = [
+    ['order_id', orders.map(order => `"${order.id}"`)],
+    ['debt_id', debts.map(debt => debt.id)],
+    ['parts_sale_id', partsSales.map(sale => sale.id)]
+  ] as const;
+  const filter = links
+    .filter(([, ids]) => ids.length > 0)
+    .map(([column, ids]) => `${column}.in.(${ids.join(',')})`)
+    .join(',');
+
+  let payments: ClientDataExport['payments'] = [];
+  if (filter) {
+    const { data, error } = await supabase
+      .from('payments')
+      .select('*')
+      .or(filter)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Ошибка выгрузки payments: ${error.message}`);
+    }
+
+    payments = data || [];
+  }
+
+  return {
+    exported_at: new Date().toISOString(),
+    client,
+    vehicles,
+    vehicle_owners: vehicleOwners,
+    consents,
+    orders,
+    payments,
+    debts,
+    parts_sales: partsSales,
+    appointments,
+    notes,
+    loyalty_transactions: loyaltyTransactions,
+    service_reminders: serviceReminders
+  };
+}
+
+// ZIP-архив выгрузки: отдельный JSON-файл на каждый раздел
+export async function packClientExport(data: ClientDataExport): Promise<Buffer> {
+  const zip = new JSZip();
+
+  for (const [section, value] of Object.entries(data)) {
+    if (section !== 'exported_at') {
+      zip.file(`${section}.json`, JSON.stringify(value, null, 2));
+    }
+  }
+
+  zip.file('README.txt', [
+    'Выгрузка персональных данных клиента VIPauto',
+    `Дата выгрузки: ${data.exported_at}`,
+    `Клиент: ${data.client.id}`
+  ].join('\n'));
+
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
+
+// Запись выгрузки в журнал запросов по персональным данным
+export async function logClientExport(
+  clientId: string,
+  format: ClientExportFormat,
+  userId?: string
+): Promise<void> {
+  const { error } = await supabase
+    .from('client_data_requests')
+    .insert({
+      client_id: clientId,
+      type: 'export',
+      format,
+      performed_by: userId || null
+    });
+
+  if (error) {
+    throw new Error(`Ошибка записи журнала выгрузок: ${error.message}`);
+  }
+}
+
+// Обезличивание клиента одной транзакцией. Финансовые записи сохраняются
+export async function anonymizeClient(clientId: string, userId?: string): Promise<void> {
+  const { error } = await supabase.rpc('anonymize_client', {
+    p_client_id: clientId,
+    p_performed_by: userId || null
+  });
+
+  if (error) {
+    throw toClientError(error, 'обезличивания клиента');
+  }
+}
@@ -0,0 +1,231 @@
+import { supabase } from '@/config/database';
+import { ConflictError, NotFoundError, ValidationError } from '@/middleware/errorHandler';
+import {
+  Client,
+  ClientDuplicate,
+  ClientDuplicateQuery,
+  ClientFilters,
+  ClientTimeline,
+  ClientTimelineEvent,
+  ClientTimelineFilters,
+  ClientTotals,
+  CreateClientData,
+  CreateVehicleData
+} from '@/types';
+import { normalizePhone } from '@/utils/phone';
+import { normalizeVehicleData, parseCarTitle, prefillFromVin } from '@/services/vehicleService';
+
+// Перевод ошибок Postgres в ошибки приложения
+export function toClientError(error: { code?: string; message: string }, action: string): Error {
+  switch (error.code) {
+    case 'PGRST116':
+    case 'P0002':
+      return new NotFoundError('Клиент не найден');
+    case '22023':
+      return new ValidationError(error.message);
+    case '23505':
+      return new ConflictError('Клиент с таким телефоном уже существует');
+    case '23514':
+      return new ValidationError('Неверные данные клиента');
+    default:
+      return new Error(`Ошибка ${action}: ${error.message}`);
+  }
+}
+
+// Поиск клиентов по имени, телефону, госномеру и VIN с суммой долга.
+// Для мастера выдача ограничена клиентами из его заказов
+export async function searchClients(
+  filters: ClientFilters,
+  page: number,
+  limit: number,
+  masterId?: string
+): Promise<{ items: Client[]; total: number }> {
+  const { data: rows, error } = await supabase.rpc('search_clients', {
+    p_search: filters.search || null,
+    p_has_debts: Boolean(filters.has_debts),
+    p_master_id: masterId || null,
+    p_limit: limit,
+    p_offset: (page - 1) * limit
+  });
+
+  if (error) {
+    throw new Error(`Ошибка поиска клиентов: ${error.message}`);
+  }
+
+  const items = (rows || []) as Array<Client & { score: number; total_count: number }>;
+
+  return {
+    items: items.map(({ score: _score, total_count: _total, ...client }) => client),
+    total: Number(items[0]?.total_count || 0)
+  };
+}
+
+// Сумма непогашенных долгов клиента
+export async function getClientDebtTotal(clientId: string): Promise<number> {
+  const { data: debts, error } = await supabase
+    .from('debts')
+    .select('remaining')
+    .eq('client_id', clientId)
+    .gt('remaining', 0);
+
+  if (error) {
+    throw new Error(`Ошибка получения долгов клиента: ${error.message}`);
+  }
+
+  return (debts || []).reduce((sum: number, debt: any) => sum + Number(debt.remaining), 0);
+}
+
+// Автомобили из устаревших полей car1/car2/vin
+function legacyVehicles(data: CreateClientData): Omit<CreateVehicleData, 'client_id'>[] {
+  const vehicles: Omit<CreateVehicleData, 'client_id'>[] = [];
+
+  if (data.car1 || data.vin) {
+    vehicles.push({
+      ...parseCarTitle(data.car1 || ''),
+      ...(data.vin && { vin: data.vin })
+    });
+  }
+
+  if (data.car2) {
+    vehicles.push(parseCarTitle(data.car2));
+  }
+
+  return vehicles;
+}
+
+// Создание клиента вместе с автомобилями одной транзакцией. car1/car2/vin
+// принимаются для совместимости и сохраняются как автомобили. Возвращает ID клиента
+export async function createClientWithVehicles(data: CreateClientData): Promise<string> {
+  const vehicles = [...(data.vehicles || []), ...legacyVehicles(data)]
+    .map(vehicle => prefillFromVin(normalizeVehicleData(vehicle)));
+
+  const { data: clientId, error } = await supabase.rpc('create_client_with_vehicles', {
+    p_client: {
+      name: data.name,
+      phone: data.phone ? normalizePhone(data.phone) : null,
+      notes: data.notes || null
+    },
+    p_vehicles: vehicles
+  });
+
+  if (error) {
+    throw toClientError(error, 'создания клиента');
+  }
+
+  return clientId as string;
+}
+
+// Кандидаты в дубли с оценкой по телефону, VIN и сходству имени.
+// Без client_id возвращаются все пары, самые вероятные первыми
+export async function findClientDuplicates(query: ClientDuplicateQuery): Promise<ClientDuplicate[]> {
+  const { data: rows, error } = await supabase.rpc('find_client_duplicates', {
+    p_client_id: query.client_id || null,
+    p_min_score: query.min_score ?? 0.5,
+    p_limit: query.limit ?? 50
+  });
+
+  if (error) {
+    throw new Error(`Ошибка поиска дублей клиентов: ${error.message}`);
+  }
+
+  const pairs = (rows || []) as Array<{
+    client_id: string;
+    duplicate_id: string;
+    score: number;
+    phone_match: boolean;
+    vin_match: boolean;
+    name_similarity: number;
+  }>;
+
+  if (pairs.length === 0) {
+    return [];
+  }
+
+  const ids = [...new Set(pairs.flatMap(pair => [pair.client_id, pair.duplicate_id]))];
+  const { data: clients, error: clientsError } = await supabase
+    .from('clients')
+    .select('*, vehicles(id, make, model, year, plate, vin)')
+    .in('id', ids);
+
+  if (clientsError) {
+    throw new Error(`Ошибка получения клиентов: ${clientsError.message}`);
+  }
+
+  const byId = new Map<string, Client>((clients || []).map((client: Client) => [client.id, client]));
+
+  return pairs.flatMap(({ client_id, duplicate_id, ...match }) => {
+    const client = byId.get(client_id);
+    const duplicate = byId.get(duplicate_id);
+    return client && duplicate ? [{ client, duplicate, ...match }] : [];
+  });
+}
+
+// Объединение дубля с основным клиентом одной транзакцией.
+// Дубль удаляется, объединение записывается в журнал client_merges
+export async function mergeClients(
+  targetId: string,
+  sourceId: string,
+  mergedBy?: string
+): Promise<string> {
+  const { data: mergeId, error } = await supabase.rpc('merge_clients', {
+    p_target_id: targetId,
+    p_source_id: sourceId,
+    p_merged_by: mergedBy || null
+  });
+
+  if (error) {
+    throw toClientError(error, 'объединения клиентов');
+  }
+
+  return mergeId as string;
+}
+
+// Хронология клиента с итогами за все время. Итоги не зависят от фильтров
+export async function getClientTimeline(
+  clientId: string,
+  filters: ClientTimelineFilters
+): Promise<ClientTimeline> {
+  const { data: client, error: clientError } = await supabase
+    .from('clients')
+    .select('id, name, phone')
+    .eq('id', clientId)
+    .single();
+
+  if (clientError) {
+    throw toClientError(clientError, 'получения клиента');
+  }
+
+  const [timeline, totals] = await Promise.all([
+    supabase.rpc('get_client_timeline', {
+      p_client_id: clientId,
+      p_types: filters.types?.length ? filters.types : null,
+      p_date_from: filters.date_from || null,
+      p_date_to: filters.date_to || null
+    }),
+    supabase.rpc('get_client_totals', { p_client_id: clientId }).single()
+  ]);
+
+  if (timeline.error) {
+    throw new Error(`Ошибка получения истории клиента: ${timeline.error.message}`);
+  }
+
+  if (totals.error) {
+    throw new Error(`Ошибка расчета итогов клиента: ${totals.error.message}`);
+  }
+
+  const row = totals.data as Record<keyof ClientTotals, number | string | null>;
+
+  return {
+    client,
+    totals: {
+      lifetime_value: Number(row.lifetime_value),
+      orders_count: Number(row.orders_count),
+      average_check: Number(row.average_check),
+      parts_total: Number(row.parts_total),
+      paid_total: Number(row.paid_total),
+      debt_total: Number(row.debt_total),
+      ...(row.last_visit && { last_visit: String(row.last_visit) })
+    },
+    events: (timeline.data || []) as ClientTimelineEvent[]
+  };
+}
@@ -0,0 +1,322 @@
+import fs from 'fs';
+import PDFDocument from 'pdfkit';
+import { supabase } from '@/config/database';
+import { getDocumentsConfig } from '@/config/documents';
+import { NotFoundError, ValidationError } from '@/middleware/errorHandler';
+import {
+  DocumentsConfig,
+  OrderDocumentData,
+  OrderDocumentType,
+  OrderItem
+} from '@/types';
+
+export const DOCUMENT_TYPES: readonly OrderDocumentType[] = ['work_order', 'act', 'receipt'];
+
+// Имена файлов документов
+const DOCUMENT_FILE_NAMES: Record<OrderDocumentType, string> = {
+  work_order: 'zakaz-naryad',
+  act: 'akt',
+  receipt: 'kvitanciya'
+};
+
+const PAGE_MARGIN = 40;
+
+// Колонки таблицы позиций: ширины в сумме дают ширину страницы A4 без полей
+const ITEM_COLUMNS = [
+  { title: '№', width: 25, align: 'left' },
+  { title: 'Наименование', width: 260, align: 'left' },
+  { title: 'Кол-во', width: 60, align: 'right' },
+  { title: 'Цена', width: 80, align: 'right' },
+  { title: 'Сумма', width: 90, align: 'right' }
+] as const;
+
+export function isDocumentType(value: unknown): value is OrderDocumentType {
+  return typeof value === 'string' && (DOCUMENT_TYPES as readonly string[]).includes(value);
+}
+
+export function getDocumentFileName(type: OrderDocumentType, orderId: string): string {
+  return `${DOCUMENT_FILE_NAMES[type]}-${orderId}.pdf`;
+}
+
+function formatMoney(amount: number): string {
+  return `${new Intl.NumberFormat('ru-RU', {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2
+  }).format(amount)} руб.`;
+}
+
+function formatDate(date: string | Date): string {
+  return new Date(date).toLocaleDateString('ru-RU');
+}
+
+// Подстановка {order_id}, {date} и других полей в текст шаблона
+function fillTemplate(text: string, values: Record<string, string>): string {
+  return text.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match);
+}
+
+// Данные заказа для документа: клиент, позиции, мастера и оплаты
+export async function getOrderDocumentData(
+  orderId: string,
+  type: OrderDocumentType
+): Promise<OrderDocumentData> {
+  const { data: order, error } = await supabase
+    .from('orders')
+    .select(`
+      *,
+      client:clients(name, phone, car1, car2, vin),
+      vehicle:vehicles(make, model, year, plate, vin, mileage),
+      items:order_items(*),
+      order_masters(percent, master:masters(full_name))
+    `)
+    .eq('id', orderId)
+    .single();
+
+  if (error || !order) {
+    throw new NotFoundError('Заказ не найден');
+  }
+
+  const { data: payments, error: paymentsError } = await supabase
+    .from('payments')
+    .select('*')
+    .eq('order_id', orderId)
+    .order('created_at', { ascending: true });
+
+  if (paymentsError) {
+    throw new Error(`Ошибка получения оплат заказа: ${paymentsError.message}`);
+  }
+
+  if (type === 'receipt' && (!payments || payments.length === 0)) {
+    throw new ValidationError('По заказу нет оплат');
+  }
+
+  const { order_masters: orderMasters, ...orderData } = order;
+
+  return {
+    order: orderData,
+    masters: (orderMasters || []).map((om: any) => ({
+      full_name: om.master?.full_name || 'Мастер',
+      percent: om.percent
+    })),
+    payments: payments || []
+  };
+}
+
+// Формирование PDF документа заказа. Шрифты берутся с диска,
+// поэтому генерация не требует доступа в интернет
+export function renderOrderDocument(
+  type: OrderDocumentType,
+  data: OrderDocumentData
+): Promise<Buffer> {
+  const config = getDocumentsConfig();
+
+  for (const fontPath of [config.fonts.regular, config.fonts.bold]) {
+    if (!fs.existsSync(fontPath)) {
+      throw new Error(`Шрифт для PDF не найден: ${fontPath}`);
+    }
+  }
+
+  const template = config.templates[type];
+  const { order } = data;
+  const values: Record<string, string> = {
+    order_id: order.id,
+    date: formatDate(type === 'work_order' ? order.created_at : new Date()),
+    company: config.company.legal_name || config.company.name,
+    client: order.client?.name || '',
+    total: formatMoney(order.total)
+  };
+  const title = fillTemplate(template.title, values);
+
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: 'A4',
+      margin: PAGE_MARGIN,
+      info: { Title: title, Author: config.company.name }
+    });
+    const chunks: Buffer[] = [];
+
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    doc.registerFont('regular', config.fonts.regular);
+    doc.registerFont('bold', config.fonts.bold);
+
+    renderCompanyHeader(doc, config);
+
+    doc.moveDown(1.5);
+    doc.font('bold').fontSize(14).text(title, { align: 'center' });
+    doc.moveDown();
+
+    if (template.header) {
+      doc.font('regular').fontSize(10).text(fillTemplate(template.header, values));
+      doc.moveDown(0.5);
+    }
+
+    renderClientBlock(doc, data);
+
+    if (type === 'receipt') {
+      renderPayments(doc, data);
+    } else {
+      const items = order.items || [];
+      renderItemsTable(doc, 'Работы', items.filter(item => item.type === 'service'));
+      renderItemsTable(doc, 'Запчасти и материалы', items.filter(item => item.type === 'part'));
+
+      doc.moveDown(0.5);
+      items.filter(item => item.type === 'discount').forEach(item => {
+        doc.font('regular').fontSize(10).text(`${item.name}: −${formatMoney(item.total)}`, { align: 'right' });
+      });
+      doc.font('bold').fontSize(11).text(`Итого: ${formatMoney(order.total)}`, { align: 'right' });
+    }
+
+    if (template.footer) {
+      doc.moveDown();
+      doc.font('regular').fontSize(10).text(fillTemplate(template.footer, values));
+    }
+
+    renderSignatures(doc, template.signatures);
+
+    doc.end();
+  });
+}
+
+function renderCompanyHeader(doc: PDFKit.PDFDocument, config: DocumentsConfig): void {
+  const { company } = config;
+
+  doc.font('bold').fontSize(12).text(company.legal_name || company.name);
+
+  const lines = [
+    [company.inn && `ИНН ${company.inn}`, company.kpp && `КПП ${company.kpp}`, company.ogrn && `ОГРН ${company.ogrn}`]
+      .filter(Boolean).join(', '),
+    company.address,
+    [company.phone && `Тел.: ${company.phone}`, company.email].filter(Boolean).join(', '),
+    company.bank_account && [
+      `Р/с ${company.bank_account}`,
+      company.bank_name,
+      company.bik && `БИК ${company.bik}`,
+      company.corr_account && `К/с ${company.corr_account}`
+    ].filter(Boolean).join(', ')
+  ].filter(Boolean) as string[];
+
+  doc.font('regular').fontSize(9);
+  lines.forEach(line => doc.text(line));
+}
+
+function renderClientBlock(doc: PDFKit.PDFDocument, data: OrderDocumentData): void {
+  const { order, masters } = data;
+  const client = order.client;
+  const vehicle = order.vehicle;
+
+  // Заказы без привязки к автомобилю печатаются по старым полям клиента
+  const car = vehicle
+    ? [
+        [vehicle.make, vehicle.model, vehicle.year].filter(Boolean).join(' '),
+        vehicle.plate,
+        vehicle.vin && `VIN ${vehicle.vin}`,
+        vehicle.mileage !== undefined && vehicle.mileage !== null && `пробег ${vehicle.mileage} км`
+      ].filter(Boolean).join(', ')
+    : [client?.car1, client?.vin && `VIN ${client.vin}`].filter(Boolean).join(', ');
+
+  doc.font('regular').fontSize(10);
+  doc.text(`Заказчик: ${client?.name || '—'}${client?.phone ? `, тел. ${client.phone}` : ''}`);
+  doc.text(`Автомобиль: ${car || '—'}`);
+
+  if (masters.length > 0) {
+    doc.text(`Мастер: ${masters.map(master => master.full_name).join(', ')}`);
+  }
+
+  if (order.notes) {
+    doc.text(`Примечание: ${order.notes}`);
+  }
+}
+
+function renderTableRow(
+  doc: PDFKit.PDFDocument,
+  cells: string[],
+  font: 'regular' | 'bold'
+): void {
+  const rowHeight = 16;
+
+  if (doc.y + rowHeight > doc.page.height - PAGE_MARGIN) {
+    doc.addPage();
+  }
+
+  const y = doc.y;
+  let x = PAGE_MARGIN;
+
+  doc.font(font).fontSize(9);
+  ITEM_COLUMNS.forEach((column, index) => {
+    doc.text(cells[index] ?? '', x, y, {
+      width: column.width - 4,
+      align: column.align,
+      lineBreak: false,
+      ellipsis: true
+    });
+    x += column.width;
+  });
+
+  doc.x = PAGE_MARGIN;
+  doc.y = y + rowHeight;
+}
+
+function renderItemsTable(doc: PDFKit.PDFDocument, title: string, items: OrderItem[]): void {
+  if (items.length === 0) {
+    return;
+  }
+
+  doc.moveDown();
+  doc.font('bold').fontSize(11).text(title, PAGE_MARGIN);
+  doc.moveDown(0.3);
+
+  renderTableRow(doc, ITEM_COLUMNS.map(column => column.title), 'bold');
+
+  items.forEach((item, index) => {
+    const name = item.part_number ? `${item.name} (${item.part_number})` : item.name;
+    renderTableRow(doc, [
+      String(index + 1),
+      name,
+      String(item.quantity),
+      formatMoney(item.price),
+      formatMoney(item.total)
+    ], 'regular');
+  });
+
+  const sum = items.reduce((total, item) => total + Number(item.total), 0);
+  doc.font('bold').fontSize(10).text(`Всего: ${formatMoney(sum)}`, PAGE_MARGIN, doc.y, { align: 'right' });
+}
+
+function renderPayments(doc: PDFKit.PDFDocument, data: OrderDocumentData): void {
+  const { order, payments } = data;
+  const paid = payments.reduce((total, payment) => total + Number(payment.amount), 0);
+
+  doc.moveDown();
+  doc.font('bold').fontSize(11).text('Оплаты', PAGE_MARGIN);
+  doc.moveDown(0.3);
+
+  doc.font('regular').fontSize(10);
+  payments.forEach(payment => {
+    doc.text(`${formatDate(payment.created_at)} — ${payment.type}: ${formatMoney(Number(payment.amount))}`);
+  });
+
+  doc.moveDown(0.5);
+  doc.text(`Сумма заказа: ${formatMoney(order.total)}`, { align: 'right' });
+  doc.font('bold').text(`Оплачено: ${formatMoney(paid)}`, { align: 'right' });
+
+  if (paid < order.total) {
+    doc.font('regular').text(`Остаток к оплате: ${formatMoney(order.total - paid)}`, { align: 'right' });
+  }
+}
+
+function renderSignatures(doc: PDFKit.PDFDocument, signatures: string[]): void {
+  if (signatures.length === 0) {
+    return;
+  }
+
+  doc.moveDown(3);
+  const y = doc.y;
+  const width = (doc.page.width - PAGE_MARGIN * 2) / signatures.length;
+
+  doc.font('regular').fontSize(10);
+  signatures.forEach((signature, index) => {
+    doc.text(`${signature} ____________________`, PAGE_MARGIN + index * width, y, { width: width - 10 });
+  });
+}
@@ -0,0 +1,110 @@
+import crypto from 'crypto';
+import { supabase } from '@/config/database';
+import { NotFoundError, ValidationError } from '@/middleware/errorHandler';
+import { Estimate } from '@/types';
+
+// Поля сметы, которые видит клиент по публичной ссылке
+const PUBLIC_ESTIMATE_FIELDS = `
+  id,
+  order_id,
+  status,
+  items,
+  total,
+  valid_until,
+  sent_at,
+  decided_at,
+  order:orders(
+    id,
+    client:clients(name, car1, car2)
+  )
+`;
+
+// Токен публичной ссылки на смету
+export function generateEstimateToken(): string {
+  return crypto.randomBytes(24).toString('hex');
+}
+
+// Публичная ссылка, по которой клиент открывает смету без входа в систему
+export function getEstimatePublicUrl(token: string): string {
+  const baseUrl = process.env['FRONTEND_URL'] || 'http://localhost:3000';
+  return `${baseUrl.replace(/\/$/, '')}/estimate/${token}`;
+}
+
+// Проверка, что смета еще действует
+export function isEstimateExpired(estimate: Pick<Estimate, 'valid_until'>): boolean {
+  if (!estimate.valid_until) {
+    return false;
+  }
+
+  const today = new Date().toISOString().split('T')[0]!;
+  return estimate.valid_until < today;
+}
+
+// Смета по публичному токену. Доступны только отправленные клиенту сметы
+export async function getEstimateByToken(token: string): Promise<Estimate> {
+  const { data: estimate, error } = await supabase
+    .from('estimates')
+    .select(PUBLIC_ESTIMATE_FIELDS)
+    .eq('public_token', token)
+    .neq('status', 'draft')
+    .single();
+
+  if (error || !estimate) {
+    throw new NotFoundError('Смета не найдена');
+  }
+
+  return estimate as unknown as Estimate;
+}
+
+// Согласование сметы одной транзакцией: позиции переносятся в заказ,
+// заказ из диагностики переходит в работу. Возвращает ID заказа
+export async function approveEstimate(
+  estimateId: string,
+  userId?: string,
+  comment?: string
+): Promise<string> {
+  const { data: orderId, error } = await supabase.rpc('approve_estimate', {
+    p_estimate_id: estimateId,
+    p_decided_by: userId || null,
+    p_comment: comment || null
+  });
+
+  if (error) {
+    switch (error.code) {
+      case 'P0002':
+        throw new NotFoundError('Смета не найдена');
+      case '22023':
+        throw new ValidationError(error.message);
+      default:
+        throw new Error(`Ошибка согласования сметы: ${error.message}`);
+    }
+  }
+
+  return orderId as string;
+}
+
+// Отклонение сметы клиентом или сотрудником
+export async function rejectEstimate(
+  estimateId: string,
+  userId?: string,
+  comment?: string
+): Promise<Estimate> {
+  const { data: estimate, error } = await supabase
+    .from('estimates')
+    .update({
+      status: 'rejected',
+      decided_at: new Date().toISOString(),
+      decided_by: userId || null,
+      decision_comment: comment || null
+    })
+    .eq('id', estimateId)
+    .in('status', ['draft', 'sent'])
+    .select()
+    .single();
+
+  if (error || !estimate) {
+    throw new ValidationError('Смету нельзя отклонить: она не найдена или уже рассмотрена');
+  }
+
+  return estimate;
+}
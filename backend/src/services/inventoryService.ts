@@ -0,0 +1,345 @@
+import { supabase } from '@/config/database';
+import { ConflictError, NotFoundError, ValidationError } from '@/middleware/errorHandler';
+import {
+  CreatePartData,
+  CreateStockMovementData,
+  CreateWarehouseData,
+  Part,
+  PartFilters,
+  StockFilters,
+  StockLevel,
+  StockMovement,
+  StockMovementFilters,
+  UpdatePartData,
+  UpdateWarehouseData,
+  Warehouse
+} from '@/types';
+
+// Сообщения об ошибках для каталога и складов
+const INVENTORY_ERRORS = {
+  part: {
+    notFound: 'Запчасть не найдена',
+    conflict: 'Запчасть с таким артикулом и брендом уже есть в каталоге',
+    inUse: 'Запчасть используется в движениях склада',
+    invalid: 'Неверные данные запчасти'
+  },
+  warehouse: {
+    notFound: 'Склад не найден',
+    conflict: 'Склад с таким названием уже существует',
+    inUse: 'Склад используется в движениях или не найден',
+    invalid: 'Неверные данные движения склада'
+  }
+} as const;
+
+// Перевод ошибок Postgres в ошибки приложения
+function toInventoryError(
+  error: { code?: string; message: string },
+  action: string,
+  entity: keyof typeof INVENTORY_ERRORS = 'part'
+): Error {
+  const messages = INVENTORY_ERRORS[entity];
+
+  switch (error.code) {
+    case 'PGRST116':
+    case 'P0002':
+      return new NotFoundError(messages.notFound);
+    case '22023':
+      return new ValidationError(error.message);
+    case '23505':
+      return new ConflictError(messages.conflict);
+    case '23503':
+      return new ValidationError(messages.inUse);
+    case '23514':
+      return new ValidationError(messages.invalid);
+    default:
+      return new Error(`Ошибка ${action}: ${error.message}`);
+  }
+}
+
+// Каталог запчастей с поиском по артикулу, названию и бренду
+export async function getParts(
+  filters: PartFilters,
+  page: number,
+  limit: number
+): Promise<{ items: Part[]; total: number }> {
+  let query = supabase
+    .from('parts')
+    .select('*', { count: 'exact' });
+
+  if (!filters.include_inactive) {
+    query = query.eq('is_active', true);
+  }
+
+  if (filters.search) {
+    const search = filters.search.replace(/[,()]/g, ' ');
+    query = query.or(`part_number.ilike.%${search}%,name.ilike.%${search}%,brand.ilike.%${search}%`);
+  }
+
+  const from = (page - 1) * limit;
+  const { data: parts, error, count } = await query
+    .order('name', { ascending: true })
+    .range(from, from + limit - 1);
+
+  if (error) {
+    throw toInventoryError(error, 'получения каталога запчастей');
+  }
+
+  return { items: (parts || []) as Part[], total: count || 0 };
+}
+
+export async function getPartById(id: string): Promise<Part> {
+  const { data: part, error } = await supabase
+    .from('parts')
+    .select('*')
+    .eq('id', id)
+    .single();
+
+  if (error) {
+    throw toInventoryError(error, 'получения запчасти');
+  }
+
+  return part as Part;
+}
+
+export async function createPart(data: CreatePartData): Promise<Part> {
+  const { data: part, error } = await supabase
+    .from('parts')
+    .insert(data)
+    .select()
+    .single();
+
+  if (error) {
+    throw toInventoryError(error, 'создания запчасти');
+  }
+
+  return part as Part;
+}
+
+export async function updatePart(id: string, data: UpdatePartData): Promise<Part> {
+  const { data: part, error } = await supabase
+    .from('parts')
+    .update(data)
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) {
+    throw toInventoryError(error, 'обновления запчасти');
+  }
+
+  return part as Part;
+}
+
+// Запчасть с движениями не удаляется, ее можно только скрыть (is_active = false)
+export async function deletePart(id: string): Promise<void> {
+  const { data, error } = await supabase
+    .from('parts')
+    .delete()
+    .eq('id', id)
+    .select('id');
+
+  if (error) {
+    throw toInventoryError(error, 'удаления запчасти');
+  }
+
+  if (!data || data.length === 0) {
+    throw new NotFoundError('Запчасть не найдена');
+  }
+}
+
+export async function getWarehouses(includeInactive: boolean = false): Promise<Warehouse[]> {
+  let query = supabase
+    .from('warehouses')
+    .select('*');
+
+  if (!includeInactive) {
+    query = query.eq('is_active', true);
+  }
+
+  const { data: warehouses, error } = await query
+    .order('is_default', { ascending: false })
+    .order('name', { ascending: true });
+
+  if (error) {
+    throw toInventoryError(error, 'получения складов', 'warehouse');
+  }
+
+  return (warehouses || []) as Warehouse[];
+}
+
+// Склад по умолчанию может быть только один: отметка снимается с прежнего
+async function resetDefaultWarehouse(exceptId?: string): Promise<void> {
+  let query = supabase
+    .from('warehouses')
+    .update({ is_default: false })
+    .eq('is_default', true);
+
+  if (exceptId) {
+    query = query.neq('id', exceptId);
+  }
+
+  const { error } = await query;
+
+  if (error) {
+    throw toInventoryError(error, 'смены склада по умолчанию', 'warehouse');
+  }
+}
+
+export async function createWarehouse(data: CreateWarehouseData): Promise<Warehouse> {
+  if (data.is_default) {
+    await resetDefaultWarehouse();
+  }
+
+  const { data: warehouse, error } = await supabase
+    .from('warehouses')
+    .insert(data)
+    .select()
+    .single();
+
+  if (error) {
+    throw toInventoryError(error, 'создания склада', 'warehouse');
+  }
+
+  return warehouse as Warehouse;
+}
+
+export async function updateWarehouse(id: string, data: UpdateWarehouseData): Promise<Warehouse> {
+  if (data.is_default === false) {
+    throw new ValidationError('Назначьте складом по умолчанию другой склад');
+  }
+
+  if (data.is_default) {
+    await resetDefaultWarehouse(id);
+  }
+
+  const { data: warehouse, error } = await supabase
+    .from('warehouses')
+    .update(data)
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) {
+    throw toInventoryError(error, 'обновления склада', 'warehouse');
+  }
+
+  return warehouse as Warehouse;
+}
+
+// Текущие остатки, посчитанные по журналу движений
+export async function getStockLevels(
+  filters: StockFilters,
+  page: number,
+  limit: number
+): Promise<{ items: StockLevel[]; total: number }> {
+  const { data: rows, error } = await supabase.rpc('get_inventory_stock', {
+    p_warehouse_id: filters.warehouse_id || null,
+    p_search: filters.search || null,
+    p_in_stock: filters.in_stock ?? null,
+    p_limit: limit,
+    p_offset: (page - 1) * limit
+  });
+
+  if (error) {
+    throw toInventoryError(error, 'получения остатков');
+  }
+
+  const items = (rows || []) as Array<StockLevel & { total_count: number }>;
+
+  return {
+    items: items.map(({ total_count: _total, ...level }) => level),
+    total: Number(items[0]?.total_count || 0)
+  };
+}
+
+export async function getStockMovements(
+  filters: StockMovementFilters,
+  page: number,
+  limit: number
+): Promise<{ items: StockMovement[]; total: number }> {
+  let query = supabase
+    .from('stock_movements')
+    .select(`
+      *,
+      part:parts(id, part_number, brand, name, unit),
+      warehouse:warehouses(id, name)
+    `, { count: 'exact' });
+
+  if (filters.part_id) {
+    query = query.eq('part_id', filters.part_id);
+  }
+
+  if (filters.warehouse_id) {
+    query = query.eq('warehouse_id', filters.warehouse_id);
+  }
+
+  if (filters.type) {
+    query = query.eq('type', filters.type);
+  }
+
+  if (filters.order_id) {
+    query = query.eq('order_id', filters.order_id);
+  }
+
+  if (filters.date_from) {
+    query = query.gte('created_at', filters.date_from);
+  }
+
+  if (filters.date_to) {
+    query = query.lte('created_at', filters.date_to);
+  }
+
+  const from = (page - 1) * limit;
+  const { data: movements, error, count } = await query
+    .order('created_at', { ascending: false })
+    .range(from, from + limit - 1);
+
+  if (error) {
+    throw toInventoryError(error, 'получения движений склада');
+  }
+
+  return { items: (movements || []) as StockMovement[], total: count || 0 };
+}
+
+// Ручное движение: приход, списание или возврат. Списание хранится
+// с отрицательным количеством, себестоимость по умолчанию - из каталога
+export async function createStockMovement(
+  data: CreateStockMovementData,
+  userId?: string
+): Promise<StockMovement> {
+  const part = await getPartById(data.part_id);
+
+  let warehouseId = data.warehouse_id;
+  if (!warehouseId) {
+    const warehouses = await getWarehouses();
+    warehouseId = warehouses.find(warehouse => warehouse.is_default)?.id;
+    if (!warehouseId) {
+      throw new ValidationError('Не задан склад по умолчанию');
+    }
+  }
+
+  const { data: movement, error } = await supabase
+    .from('stock_movements')
+    .insert({
+      part_id: part.id,
+      warehouse_id: warehouseId,
+      type: data.type,
+      quantity: data.type === 'write_off' ? -data.quantity : data.quantity,
+      unit_cost: data.unit_cost ?? part.purchase_price ?? null,
+      order_id: data.order_id || null,
+      notes: data.notes || null,
+      created_by: userId || null
+    })
+    .select(`
+      *,
+      part:parts(id, part_number, brand, name, unit),
+      warehouse:warehouses(id, name)
+    `)
+    .single();
+
+  if (error) {
+    throw toInventoryError(error, 'проведения движения', 'warehouse');
+  }
+
+  return movement as StockMovement;
+}
@@ -0,0 +1,210 @@
+import { supabase } from '@/config/database';
+import { ConflictError, NotFoundError, ValidationError } from '@/middleware/errorHandler';
+import {
+  BonusRedemptionData,
+  ClientLoyalty,
+  CreateLoyaltyTierData,
+  LoyaltyAdjustmentData,
+  LoyaltyTier,
+  LoyaltyTransaction,
+  Payment,
+  UpdateLoyaltyTierData
+} from '@/types';
+
+// Перевод ошибок Postgres в ошибки приложения
+function toLoyaltyError(error: { code?: string; message: string }, action: string): Error {
+  switch (error.code) {
+    case 'PGRST116':
+    case 'P0002':
+      return new NotFoundError('Уровень лояльности не найден');
+    case '22023':
+      return new ValidationError(error.message);
+    case '23505':
+      return new ConflictError('Уровень с таким названием или порогом уже существует');
+    case '23514':
+      return new ValidationError('Недостаточно бонусов на балансе клиента');
+    case '23503':
+      return new ValidationError('Клиент, заказ или продажа не найдены');
+    default:
+      return new Error(`Ошибка ${action}: ${error.message}`);
+  }
+}
+
+// Пересчет уровней всех клиентов. Возвращает число клиентов со сменой уровня
+export async function recalculateLoyaltyTiers(): Promise<number> {
+  const { data: changed, error } = await supabase.rpc('recalculate_loyalty_tiers');
+
+  if (error) {
+    throw toLoyaltyError(error, 'пересчета уровней лояльности');
+  }
+
+  return Number(changed);
+}
+
+export async function getLoyaltyTiers(): Promise<LoyaltyTier[]> {
+  const { data: tiers, error } = await supabase
+    .from('loyalty_tiers')
+    .select('*')
+    .order('min_spend', { ascending: true });
+
+  if (error) {
+    throw toLoyaltyError(error, 'получения уровней лояльности');
+  }
+
+  return (tiers || []) as LoyaltyTier[];
+}
+
+// Изменение уровней сразу переназначает уровни клиентов
+export async function createLoyaltyTier(
+  data: CreateLoyaltyTierData
+): Promise<{ tier: LoyaltyTier; recalculated: number }> {
+  const { data: tier, error } = await supabase
+    .from('loyalty_tiers')
+    .insert(data)
+    .select()
+    .single();
+
+  if (error) {
+    throw toLoyaltyError(error, 'создания уровня лояльности');
+  }
+
+  return { tier: tier as LoyaltyTier, recalculated: await recalculateLoyaltyTiers() };
+}
+
+export async function updateLoyaltyTier(
+  id: string,
+  data: UpdateLoyaltyTierData
+): Promise<{ tier: LoyaltyTier; recalculated: number }> {
+  const { data: tier, error } = await supabase
+    .from('loyalty_tiers')
+    .update(data)
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) {
+    throw toLoyaltyError(error, 'обновления уровня лояльности');
+  }
+
+  return { tier: tier as LoyaltyTier, recalculated: await recalculateLoyaltyTiers() };
+}
+
+export async function deleteLoyaltyTier(id: string): Promise<{ recalculated: number }> {
+  const { data: deleted, error } = await supabase
+    .from('loyalty_tiers')
+    .delete()
+    .eq('id', id)
+    .select('id');
+
+  if (error) {
+    throw toLoyaltyError(error, 'удаления уровня лояльности');
+  }
+
+  if (!deleted || deleted.length === 0) {
+    throw new NotFoundError('Уровень лояльности не найден');
+  }
+
+  return { recalculated: await recalculateLoyaltyTiers() };
+}
+
+// Уровень, баланс и последние операции клиента с порогом следующего уровня
+export async function getClientLoyalty(clientId: string, limit: number = 50): Promise<ClientLoyalty> {
+  const { data: client, error: clientError } = await supabase
+    .from('clients')
+    .select('id, bonus_points, loyalty_tier:loyalty_tiers(*)')
+    .eq('id', clientId)
+    .single();
+
+  if (clientError) {
+    if (clientError.code === 'PGRST116') {
+      throw new NotFoundError('Клиент не найден');
+    }
+    throw toLoyaltyError(clientError, 'получения клиента');
+  }
+
+  const [tiers, totals, transactions] = await Promise.all([
+    getLoyaltyTiers(),
+    supabase.rpc('get_client_totals', { p_client_id: clientId }).single(),
+    supabase
+      .from('loyalty_transactions')
+      .select('*')
+      .eq('client_id', clientId)
+      .order('created_at', { ascending: false })
+      .limit(limit)
+  ]);
+
+  if (totals.error) {
+    throw new Error(`Ошибка расчета итогов клиента: ${totals.error.message}`);
+  }
+
+  if (transactions.error) {
+    throw toLoyaltyError(transactions.error, 'получения журнала бонусов');
+  }
+
+  const lifetimeValue = Number((totals.data as { lifetime_value: number | string }).lifetime_value);
+  const tier = client.loyalty_tier as unknown as LoyaltyTier | null;
+  const nextTier = tiers.find(candidate => Number(candidate.min_spend) > lifetimeValue);
+
+  return {
+    client_id: client.id,
+    ...(tier && { tier }),
+    ...(nextTier && {
+      next_tier: nextTier,
+      to_next_tier: Number(nextTier.min_spend) - lifetimeValue
+    }),
+    lifetime_value: lifetimeValue,
+    bonus_points: client.bonus_points,
+    transactions: (transactions.data || []) as LoyaltyTransaction[]
+  };
+}
+
+// Ручное начисление или списание бонусов. Баланс не может стать отрицательным
+export async function adjustClientPoints(
+  clientId: string,
+  data: LoyaltyAdjustmentData,
+  userId?: string
+): Promise<LoyaltyTransaction> {
+  const { data: transaction, error } = await supabase
+    .from('loyalty_transactions')
+    .insert({
+      client_id: clientId,
+      type: 'adjustment',
+      points: data.points,
+      notes: data.notes,
+      created_by: userId || null
+    })
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === '23503') {
+      throw new NotFoundError('Клиент не найден');
+    }
+    throw toLoyaltyError(error, 'корректировки бонусов');
+  }
+
+  return transaction as LoyaltyTransaction;
+}
+
+// Оплата бонусами: обычная оплата с типом "бонусы".
+// Проверку и списание баланса выполняет триггер redeem_loyalty_points
+export async function redeemBonusPoints(
+  data: BonusRedemptionData,
+  userId?: string
+): Promise<Payment> {
+  const { data: payment, error } = await supabase
+    .from('payments')
+    .insert({
+      ...data,
+      type: 'бонусы',
+      created_by: userId || null
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw toLoyaltyError(error, 'оплаты бонусами');
+  }
+
+  return payment as Payment;
+}
@@ -0,0 +1,144 @@
+import { supabase } from '@/config/database';
+import { ConflictError, NotFoundError, ValidationError } from '@/middleware/errorHandler';
+import { CreateOrderData, Order, UpdateOrderData } from '@/types';
+import { INITIAL_ORDER_STATUSES } from '@/services/orderStatusService';
+
+// Перевод ошибок Postgres-функций в ошибки приложения
+function toOrderError(error: { code?: string; message: string }, action: string): Error {
+  switch (error.code) {
+    case 'P0002':
+      return new NotFoundError('Заказ не найден');
+    case '22023':
+    case '23514':
+      return new ValidationError(error.message);
+    case '23503':
+      return new ValidationError('Клиент, автомобиль или мастер не найден');
+    case '23505':
+      return new ConflictError('Заказ с таким ID уже существует');
+    default:
+      return new Error(`Ошибка ${action}: ${error.message}`);
+  }
+}
+
+// Проверка нового заказа: одинакова для API заказов и перевода записи в заказ
+function assertNewOrderData(orderData: CreateOrderData): void {
+  if (!orderData.items?.length && !orderData.services?.length) {
+    throw new ValidationError('Услуги или позиции заказа обязательны');
+  }
+
+  if (!orderData.masters || orderData.masters.length === 0) {
+    throw new ValidationError('Мастера обязательны');
+  }
+
+  // Проверяем проценты мастеров
+  const totalPercentage = orderData.masters.reduce((sum, master) => sum + master.percent, 0);
+  if (Math.abs(totalPercentage - 100) > 0.01) {
+    throw new ValidationError('Сумма процентов мастеров должна быть равна 100%');
+  }
+
+  if (orderData.status && !INITIAL_ORDER_STATUSES.includes(orderData.status)) {
+    throw new ValidationError(
+      `Новый заказ может иметь только статус: ${INITIAL_ORDER_STATUSES.join(', ')}`
+    );
+  }
+}
+
+// Создание заказа с позициями и мастерами одной транзакцией. Возвращает ID заказа.
+// Без items позиции строятся из services и parts_cost
+export async function createOrderWithMasters(
+  orderData: CreateOrderData,
+  userId?: string
+): Promise<string> {
+  assertNewOrderData(orderData);
+
+  const { masters, items, ...order } = orderData;
+
+  const { data: orderId, error } = await supabase.rpc('create_order_with_masters', {
+    p_order: order,
+    p_masters: masters || [],
+    p_created_by: userId || null,
+    p_items: items || null
+  });
+
+  if (error) {
+    throw toOrderError(error, 'создания заказа');
+  }
+
+  return orderId as string;
+}
+
+// Созданный заказ с клиентом, автомобилем, позициями и мастерами для ответа API
+export async function getCreatedOrder(orderId: string): Promise<Order> {
+  const { data: order, error } = await supabase
+    .from('orders')
+    .select(`
+      *,
+      client:clients(name, phone, car1, car2),
+      vehicle:vehicles(id, make, model, year, plate, vin),
+      items:order_items(*),
+      order_masters!inner(
+        master_id,
+        percent,
+        users!inner(full_name, phone)
+      )
+    `)
+    .eq('id', orderId)
+    .single();
+
+  if (error) {
+    throw new Error(`Ошибка получения созданного заказа: ${error.message}`);
+  }
+
+  return order;
+}
+
+// Текущее состояние заказа для ответа на конфликт версий
+async function getOrderConflictError(orderId: string): Promise<ConflictError> {
+  const { data: current } = await supabase
+    .from('orders')
+    .select(`
+      *,
+      order_masters(
+        master_id,
+        percent
+      )
+    `)
+    .eq('id', orderId)
+    .single();
+
+  return new ConflictError('Заказ был изменен другим пользователем', {
+    current_version: current?.version,
+    current
+  });
+}
+
+// Обновление заказа, позиций и (опционально) мастеров одной транзакцией.
+// Если переданы expectedVersion или expectedStatus, устаревшие изменения
+// отклоняются с ConflictError
+export async function updateOrderWithMasters(
+  orderId: string,
+  changes: Omit<UpdateOrderData, 'masters' | 'version'>,
+  masters?: UpdateOrderData['masters'],
+  userId?: string,
+  expectedVersion?: number,
+  expectedStatus?: string
+): Promise<void> {
+  const { items, ...fields } = changes;
+
+  const { error } = await supabase.rpc('update_order_with_masters', {
+    p_order_id: orderId,
+    p_changes: fields,
+    p_masters: masters || null,
+    p_changed_by: userId || null,
+    p_expected_version: expectedVersion ?? null,
+    p_items: items || null,
+    p_expected_status: expectedStatus ?? null
+  });
+
+  if (error) {
+    if (error.code === '40001') {
+      throw await getOrderConflictError(orderId);
+    }
+    throw toOrderError(error, 'обновления заказа');
+  }
+}
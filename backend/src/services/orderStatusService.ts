@@ -0,0 +1,236 @@
+import { supabase } from '@/config/database';
+import { StatusTransitionError } from '@/middleware/errorHandler';
+import {
+  Order,
+  OrderStatusTransition,
+  OrderStatusPrecondition,
+  OrderStatusHistoryEntry,
+  OrderStatusTimeline,
+  User
+} from '@/types';
+
+// Все статусы заказа в порядке жизненного цикла
+export const ORDER_STATUSES: Order['status'][] = [
+  'новый', 'принял', 'диагностика', 'в_работе',
+  'ожидание_деталей', 'готово', 'ожидание_оплаты', 'выдан', 'закрыт'
+];
+
+// Статусы, с которыми можно создать заказ
+export const INITIAL_ORDER_STATUSES: Order['status'][] = ['новый', 'принял'];
+
+const ALL_ROLES: User['role'][] = ['master', 'admin', 'director'];
+const MANAGERS: User['role'][] = ['admin', 'director'];
+
+// Граф переходов: из какого статуса, в какой, кем и при каких условиях
+export const ORDER_STATUS_TRANSITIONS: Record<Order['status'], OrderStatusTransition[]> = {
+  'новый': [
+    { to: 'принял', roles: ALL_ROLES },
+    { to: 'диагностика', roles: ALL_ROLES, preconditions: ['masters_assigned'] }
+  ],
+  'принял': [
+    { to: 'диагностика', roles: ALL_ROLES, preconditions: ['masters_assigned'] },
+    { to: 'в_работе', roles: ALL_ROLES, preconditions: ['masters_assigned'] }
+  ],
+  'диагностика': [
+    { to: 'в_работе', roles: ALL_ROLES, preconditions: ['masters_assigned', 'estimate_approved'] },
+    { to: 'ожидание_деталей', roles: ALL_ROLES },
+    { to: 'готово', roles: ALL_ROLES }
+  ],
+  'в_работе': [
+    { to: 'ожидание_деталей', roles: ALL_ROLES },
+    { to: 'готово', roles: ALL_ROLES }
+  ],
+  'ожидание_деталей': [
+    { to: 'в_работе', roles: ALL_ROLES, preconditions: ['masters_assigned'] }
+  ],
+  'готово': [
+    { to: 'в_работе', roles: ALL_ROLES },
+    { to: 'ожидание_оплаты', roles: MANAGERS },
+    { to: 'выдан', roles: MANAGERS, preconditions: ['payment_covered'] }
+  ],
+  'ожидание_оплаты': [
+    { to: 'выдан', roles: MANAGERS, preconditions: ['payment_covered'] }
+  ],
+  'выдан': [
+    { to: 'закрыт', roles: MANAGERS }
+  ],
+  'закрыт': []
+};
+
+const PRECONDITION_MESSAGES: Record<OrderStatusPrecondition, string> = {
+  masters_assigned: 'На заказ не назначены мастера',
+  payment_covered: 'Заказ не оплачен полностью',
+  estimate_approved: 'Смета по заказу не согласована клиентом'
+};
+
+// Строка истории статусов вместе с именем сотрудника
+type OrderStatusHistoryRow = Pick<OrderStatusHistoryEntry, 'id' | 'order_id' | 'to_status' | 'created_at'> & {
+  from_status: Order['status'] | null;
+  changed_by: string | null;
+  changed_by_user: Pick<User, 'full_name'> | null;
+};
+
+// Проверка, что статус входит в список допустимых
+export function isOrderStatus(status: unknown): status is Order['status'] {
+  return typeof status === 'string' && ORDER_STATUSES.includes(status as Order['status']);
+}
+
+// Статусы, в которые роль может перевести заказ из текущего
+export function getAllowedTransitions(
+  from: Order['status'],
+  role: string
+): Order['status'][] {
+  return ORDER_STATUS_TRANSITIONS[from]
+    .filter(transition => transition.roles.includes(role as User['role']))
+    .map(transition => transition.to);
+}
+
+// Проверка условия перехода по данным заказа
+async function checkPrecondition(
+  order: Pick<Order, 'id' | 'total'>,
+  precondition: OrderStatusPrecondition
+): Promise<boolean> {
+  switch (precondition) {
+    case 'masters_assigned': {
+      const { count, error } = await supabase
+        .from('order_masters')
+        .select('id', { count: 'exact', head: true })
+        .eq('order_id', order.id);
+
+      if (error) {
+        throw new Error(`Ошибка проверки мастеров заказа: ${error.message}`);
+      }
+
+      return (count || 0) > 0;
+    }
+
+    case 'payment_covered': {
+      // Оплаченная часть плюс оформленный долг должны покрывать сумму заказа
+      const [{ data: payments, error: paymentsError }, { data: debts, error: debtsError }] =
+        await Promise.all([
+          supabase.from('payments').select('amount').eq('order_id', order.id),
+          supabase.from('debts').select('amount').eq('order_id', order.id)
+        ]);
+
+      if (paymentsError || debtsError) {
+        throw new Error('Ошибка проверки оплаты заказа');
+      }
+
+      const paid = (payments || []).reduce((sum, payment) => sum + Number(payment.amount), 0);
+      const debt = (debts || []).reduce((sum, item) => sum + Number(item.amount), 0);
+
+      return paid + debt + 0.01 >= Number(order.total);
+    }
+
+    case 'estimate_approved': {
+      const { count, error } = await supabase
+        .from('estimates')
+        .select('id', { count: 'exact', head: true })
+        .eq('order_id', order.id)
+        .eq('status', 'approved');
+
+      if (error) {
+        throw new Error(`Ошибка проверки сметы заказа: ${error.message}`);
+      }
+
+      return (count || 0) > 0;
+    }
+  }
+}
+
+// Проверка перехода заказа в новый статус. Бросает StatusTransitionError
+export async function assertOrderStatusTransition(
+  order: Pick<Order, 'id' | 'status' | 'total'>,
+  to: Order['status'],
+  role: string
+): Promise<void> {
+  if (!isOrderStatus(to)) {
+    throw new StatusTransitionError('Неверный статус', { from: order.status, to });
+  }
+
+  const transition = ORDER_STATUS_TRANSITIONS[order.status]
+    .find(candidate => candidate.to === to);
+
+  if (!transition) {
+    throw new StatusTransitionError(
+      `Переход из статуса "${order.status}" в "${to}" невозможен`,
+      { from: order.status, to, allowed: getAllowedTransitions(order.status, role) }
+    );
+  }
+
+  if (!transition.roles.includes(role as User['role'])) {
+    throw new StatusTransitionError(
+      `Недостаточно прав для перевода заказа в статус "${to}"`,
+      { from: order.status, to, roles: transition.roles }
+    );
+  }
+
+  for (const precondition of transition.preconditions || []) {
+    if (!(await checkPrecondition(order, precondition))) {
+      throw new StatusTransitionError(PRECONDITION_MESSAGES[precondition], {
+        from: order.status,
+        to,
+        precondition
+      });
+    }
+  }
+}
+
+// Хронология статусов заказа со временем нахождения в каждом статусе
+export async function getOrderStatusTimeline(
+  order: Pick<Order, 'id' | 'status'>
+): Promise<OrderStatusTimeline> {
+  const { data: rows, error } = await supabase
+    .from('order_status_history')
+    .select(`
+      id,
+      order_id,
+      from_status,
+      to_status,
+      changed_by,
+      created_at,
+      changed_by_user:masters(full_name)
+    `)
+    .eq('order_id', order.id)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Ошибка получения истории статусов: ${error.message}`);
+  }
+
+  const history = (rows || []) as unknown as OrderStatusHistoryRow[];
+  const now = Date.now();
+  const timeInStatus: OrderStatusTimeline['time_in_status'] = {};
+
+  const entries: OrderStatusHistoryEntry[] = history.map((row, index, all) => {
+    const next = all[index + 1];
+    const startedAt = new Date(row.created_at).getTime();
+    // Закрытый заказ больше не накапливает время
+    const endedAt = next
+      ? new Date(next.created_at).getTime()
+      : row.to_status === 'закрыт' ? startedAt : now;
+    const durationMinutes = Math.max(0, Math.round((endedAt - startedAt) / 60000));
+
+    const status = row.to_status;
+    timeInStatus[status] = (timeInStatus[status] || 0) + durationMinutes;
+
+    return {
+      id: row.id,
+      order_id: row.order_id,
+      to_status: status,
+      created_at: row.created_at,
+      duration_minutes: durationMinutes,
+      ...(row.from_status && { from_status: row.from_status }),
+      ...(row.changed_by && { changed_by: row.changed_by }),
+      ...(row.changed_by_user?.full_name && { changed_by_name: row.changed_by_user.full_name }),
+      ...(next && { left_at: next.created_at })
+    };
+  });
+
+  return {
+    order_id: order.id,
+    status: order.status,
+    entries,
+    time_in_status: timeInStatus
+  };
+}
@@ -0,0 +1,144 @@
+import { supabase } from '@/config/database';
+import { NotFoundError, ValidationError } from '@/middleware/errorHandler';
+import {
+  CreatePartsSaleData,
+  PartsSale,
+  PartsSaleFilters,
+  UpdatePartsSaleData
+} from '@/types';
+
+// Перевод ошибок Postgres в ошибки приложения
+function toPartsSaleError(error: { code?: string; message: string }, action: string): Error {
+  switch (error.code) {
+    case 'PGRST116':
+    case 'P0002':
+      return new NotFoundError('Продажа не найдена');
+    case '22023':
+      return new ValidationError(error.message);
+    case '23503':
+      return new ValidationError('Клиент, склад или запчасть не найдены');
+    case '23514':
+      return new ValidationError('Неверное количество, цена, скидка или способ оплаты');
+    default:
+      return new Error(`Ошибка ${action}: ${error.message}`);
+  }
+}
+
+const PARTS_SALE_SELECT = `
+  *,
+  client:clients(id, name, phone),
+  seller:masters(id, full_name),
+  items:parts_sale_items(*),
+  payments(id, amount, type, created_at)
+`;
+
+export async function getPartsSales(
+  filters: PartsSaleFilters,
+  page: number,
+  limit: number
+): Promise<{ items: PartsSale[]; total: number }> {
+  let query = supabase
+    .from('parts_sales')
+    .select(PARTS_SALE_SELECT, { count: 'exact' });
+
+  if (filters.date_from) {
+    query = query.gte('created_at', filters.date_from);
+  }
+
+  if (filters.date_to) {
+    query = query.lt('created_at', filters.date_to);
+  }
+
+  if (filters.seller_id) {
+    query = query.eq('seller_id', filters.seller_id);
+  }
+
+  if (filters.client_phone) {
+    query = query.eq('client_phone', filters.client_phone);
+  }
+
+  // Поиск по названию и артикулу в строках чека
+  if (filters.search) {
+    const pattern = `%${filters.search.replace(/[%_,()]/g, ' ')}%`;
+    const { data: lines, error } = await supabase
+      .from('parts_sale_items')
+      .select('parts_sale_id')
+      .or(`part_name.ilike.${pattern},part_number.ilike.${pattern}`);
+
+    if (error) {
+      throw toPartsSaleError(error, 'поиска продаж');
+    }
+
+    const ids = [...new Set((lines || []).map(line => line.parts_sale_id as string))];
+    if (ids.length === 0) {
+      return { items: [], total: 0 };
+    }
+
+    query = query.in('id', ids);
+  }
+
+  const from = (page - 1) * limit;
+  const { data: sales, error, count } = await query
+    .order('created_at', { ascending: false })
+    .order('position', { foreignTable: 'items', ascending: true })
+    .range(from, from + limit - 1);
+
+  if (error) {
+    throw toPartsSaleError(error, 'получения продаж');
+  }
+
+  return { items: (sales || []) as PartsSale[], total: count || 0 };
+}
+
+export async function getPartsSaleById(id: string): Promise<PartsSale> {
+  const { data: sale, error } = await supabase
+    .from('parts_sales')
+    .select(PARTS_SALE_SELECT)
+    .eq('id', id)
+    .order('position', { foreignTable: 'items', ascending: true })
+    .single();
+
+  if (error) {
+    throw toPartsSaleError(error, 'получения продажи');
+  }
+
+  return sale as PartsSale;
+}
+
+// Чек создается вместе со строками, движениями склада и оплатой одной транзакцией
+export async function createPartsSale(
+  data: CreatePartsSaleData,
+  sellerId?: string
+): Promise<PartsSale> {
+  const { items, payments, ...header } = data;
+
+  const { data: id, error } = await supabase.rpc('create_parts_sale', {
+    p_sale: header,
+    p_items: items,
+    p_payments: payments || [],
+    p_seller_id: sellerId || null
+  });
+
+  if (error) {
+    throw toPartsSaleError(error, 'создания продажи');
+  }
+
+  return getPartsSaleById(id as string);
+}
+
+// Меняются только данные покупателя и примечание: строки и оплата чека
+// после создания не редактируются
+export async function updatePartsSale(id: string, data: UpdatePartsSaleData): Promise<PartsSale> {
+  const { error } = await supabase
+    .from('parts_sales')
+    .update(data)
+    .eq('id', id)
+    .select('id')
+    .single();
+
+  if (error) {
+    throw toPartsSaleError(error, 'обновления продажи');
+  }
+
+  return getPartsSaleById(id);
+}
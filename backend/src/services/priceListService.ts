@@ -0,0 +1,483 @@
+import { supabase } from '@/config/database';
+import { ConflictError, NotFoundError, ValidationError } from '@/middleware/errorHandler';
+import {
+  BrandAlias,
+  CreateBrandAliasData,
+  CreatePartCrossData,
+  ImportFileRow,
+  PartCross,
+  PartOfferSearch,
+  PriceListError,
+  PriceListField,
+  PriceListImport,
+  PriceListMapping,
+  PriceListOffer,
+  Supplier,
+  SupplierOffer
+} from '@/types';
+import { normalizeHeader, parseImportFile } from '@/utils/importFile';
+
+// Ограничения загрузки прайс-листа
+const MAX_PRICE_LIST_ROWS = 50000;
+const OFFER_BATCH_SIZE = 1000;
+const MAX_STORED_ERRORS = 500;
+const PREVIEW_ROWS = 20;
+
+// Заголовки колонок, по которым сопоставление определяется автоматически
+const FIELD_SYNONYMS: Record<PriceListField, string[]> = {
+  part_number: ['артикул', 'номер', 'код', 'каталожный номер', 'part number', 'part_number', 'article', 'sku'],
+  brand: ['бренд', 'производитель', 'марка', 'brand', 'manufacturer'],
+  name: ['наименование', 'название', 'описание', 'name', 'description'],
+  price: ['цена', 'цена, руб', 'цена руб', 'стоимость', 'price'],
+  quantity: ['количество', 'кол-во', 'наличие', 'остаток', 'qty', 'quantity', 'stock'],
+  delivery_days: ['срок', 'срок поставки', 'срок, дн', 'дней', 'delivery', 'delivery_days'],
+  oem_number: ['oem', 'оем', 'оригинал', 'оригинальный номер', 'oem номер', 'cross']
+};
+
+// Перевод ошибок Postgres в ошибки приложения
+function toPriceListError(error: { code?: string; message: string }, action: string): Error {
+  switch (error.code) {
+    case 'PGRST116':
+    case 'P0002':
+      return new NotFoundError('Запись не найдена');
+    case '22023':
+      return new ValidationError(error.message);
+    case '23505':
+      return new ConflictError('Такой вариант написания бренда уже есть');
+    case '23514':
+      return new ValidationError('Неверный артикул или цена');
+    default:
+      return new Error(`Ошибка ${action}: ${error.message}`);
+  }
+}
+
+// Автоматическое сопоставление колонок по заголовкам
+export function guessPriceListMapping(headers: string[]): PriceListMapping {
+  const mapping: PriceListMapping = {};
+  const used = new Set<string>();
+
+  for (const [field, synonyms] of Object.entries(FIELD_SYNONYMS) as [PriceListField, string[]][]) {
+    const header = headers.find(candidate =>
+      !used.has(candidate) && synonyms.includes(normalizeHeader(candidate))
+    );
+
+    if (header) {
+      mapping[field] = header;
+      used.add(header);
+    }
+  }
+
+  return mapping;
+}
+
+// Сохраненное сопоставление подходит, если все его колонки есть в файле
+function pickMapping(
+  headers: string[],
+  mapping: PriceListMapping | undefined,
+  saved: PriceListMapping | undefined
+): PriceListMapping {
+  if (mapping) {
+    return mapping;
+  }
+
+  if (saved && Object.values(saved).every(header => headers.includes(header))) {
+    return saved;
+  }
+
+  return guessPriceListMapping(headers);
+}
+
+function checkMapping(headers: string[], mapping: PriceListMapping): void {
+  if (!mapping.part_number) {
+    throw new ValidationError('Не выбрана колонка с артикулом');
+  }
+
+  if (!mapping.price) {
+    throw new ValidationError('Не выбрана колонка с ценой');
+  }
+
+  const unknown = Object.values(mapping).filter(header => !headers.includes(header));
+  if (unknown.length > 0) {
+    throw new ValidationError(`В файле нет колонок: ${unknown.join(', ')}`);
+  }
+}
+
+// Число из прайса: "1 234,50", "1234.5 ₽"
+function parseNumber(value: string): number | undefined {
+  const cleaned = value.replace(/[\s ]/g, '').replace(',', '.').replace(/[^\d.]/g, '');
+  return cleaned && !Number.isNaN(Number(cleaned)) ? Number(cleaned) : undefined;
+}
+
+// Наличие в прайсе: "12", ">10", "10+", "есть". Без цифр - не указано
+function parseQuantity(value: string): number | undefined {
+  const digits = value.match(/\d+/);
+  return digits ? Number(digits[0]) : undefined;
+}
+
+function partKey(partNumber: string, brand?: string): string {
+  return `${partNumber.replace(/[^A-Za-z0-9]/g, '').toUpperCase()}|${(brand || '').toUpperCase()}`;
+}
+
+// Проверка строк прайса. Повторы артикула с брендом сводятся к самой низкой цене
+function readOffers(
+  headers: string[],
+  rows: ImportFileRow[],
+  mapping: PriceListMapping
+): { offers: PriceListOffer[]; errors: PriceListError[] } {
+  const errors: PriceListError[] = [];
+  const offers = new Map<string, PriceListOffer>();
+
+  for (const { row, values } of rows) {
+    const get = (field: PriceListField): string | undefined => {
+      const header = mapping[field];
+      const value = header ? values[headers.indexOf(header)] : undefined;
+      return value || undefined;
+    };
+    const fail = (field: PriceListField, message: string): void => {
+      const value = get(field);
+      errors.push({ row, field, ...(value && { value }), message });
+    };
+
+    const partNumber = get('part_number');
+    if (!partNumber || !/[A-Za-z0-9]/.test(partNumber) || partNumber.length > 100) {
+      fail('part_number', 'Артикул должен содержать латинские буквы или цифры, до 100 символов');
+      continue;
+    }
+
+    const rawPrice = get('price');
+    const price = rawPrice ? parseNumber(rawPrice) : undefined;
+    if (price === undefined || price >= 100000000) {
+      fail('price', 'Неверная цена');
+      continue;
+    }
+
+    const rawQuantity = get('quantity');
+    const quantity = rawQuantity ? parseQuantity(rawQuantity) : undefined;
+    const rawDays = get('delivery_days');
+    const deliveryDays = rawDays ? parseQuantity(rawDays) : undefined;
+    const brand = get('brand')?.slice(0, 100);
+    const name = get('name')?.slice(0, 255);
+    const oemNumber = get('oem_number');
+
+    const offer: PriceListOffer = {
+      part_number: partNumber,
+      price: Math.round(price * 100) / 100,
+      ...(brand && { brand }),
+      ...(name && { name }),
+      ...(quantity !== undefined && { quantity }),
+      ...(deliveryDays !== undefined && { delivery_days: deliveryDays }),
+      ...(oemNumber && { oem_number: oemNumber })
+    };
+
+    const key = partKey(partNumber, brand);
+    const existing = offers.get(key);
+    if (!existing || offer.price < existing.price) {
+      offers.set(key, offer);
+    }
+  }
+
+  return { offers: [...offers.values()], errors };
+}
+
+async function getSupplier(id: string): Promise<Supplier> {
+  const { data: supplier, error } = await supabase
+    .from('suppliers')
+    .select('*')
+    .eq('id', id)
+    .single();
+
+  if (error) {
+    if (error.code === 'PGRST116') {
+      throw new NotFoundError('Поставщик не найден');
+    }
+    throw new Error(`Ошибка получения поставщика: ${error.message}`);
+  }
+
+  return supplier as Supplier;
+}
+
+// Загрузка прайс-листа поставщика. Без сопоставления используется сохраненное
+// для поставщика или определенное по заголовкам. dryRun - только проверка.
+// Предложения прежнего прайс-листа заменяются после записи всех строк
+export async function importPriceList(
+  supplierId: string,
+  file: { buffer: Buffer; originalname: string },
+  mapping: PriceListMapping | undefined,
+  dryRun: boolean,
+  userId?: string
+): Promise<PriceListImport> {
+  const supplier = await getSupplier(supplierId);
+  const { headers, rows } = await parseImportFile(file.buffer, file.originalname, MAX_PRICE_LIST_ROWS);
+  const importMapping = pickMapping(headers, mapping, supplier.price_list_mapping);
+  checkMapping(headers, importMapping);
+
+  const { offers, errors } = readOffers(headers, rows, importMapping);
+  const storedErrors = errors.slice(0, MAX_STORED_ERRORS);
+  const preview = offers.slice(0, PREVIEW_ROWS);
+
+  if (dryRun) {
+    return {
+      supplier_id: supplierId,
+      file_name: file.originalname,
+      headers,
+      mapping: importMapping,
+      status: 'dry_run',
+      total_rows: rows.length,
+      valid_rows: offers.length,
+      imported_rows: 0,
+      cross_rows: 0,
+      errors: storedErrors,
+      preview
+    };
+  }
+
+  if (offers.length === 0) {
+    throw new ValidationError('В прайс-листе нет строк с артикулом и ценой');
+  }
+
+  const { data: record, error: recordError } = await supabase
+    .from('price_list_imports')
+    .insert({
+      supplier_id: supplierId,
+      file_name: file.originalname,
+      mapping: importMapping,
+      total_rows: rows.length,
+      created_by: userId || null
+    })
+    .select('id')
+    .single();
+
+  if (recordError) {
+    throw toPriceListError(recordError, 'сохранения загрузки прайс-листа');
+  }
+
+  let crossRows = 0;
+
+  try {
+    for (let offset = 0; offset < offers.length; offset += OFFER_BATCH_SIZE) {
+      const batch = offers.slice(offset, offset + OFFER_BATCH_SIZE);
+
+      const { error } = await supabase
+        .from('supplier_offers')
+        .insert(batch.map(({ oem_number: _oem, ...offer }) => ({
+          ...offer,
+          supplier_id: supplierId,
+          price_list_import_id: record.id
+        })));
+
+      if (error) {
+        throw new Error(`Ошибка записи предложений: ${error.message}`);
+      }
+
+      // Колонка OEM дает кроссы между номером поставщика и оригинальным
+      const crosses = batch
+        .filter(offer => offer.oem_number)
+        .map(offer => ({
+          part_number: offer.part_number,
+          brand: offer.brand || null,
+          cross_number: offer.oem_number,
+          cross_brand: null
+        }));
+
+      if (crosses.length > 0) {
+        const { data: added, error: crossError } = await supabase.rpc('add_part_crosses', {
+          p_crosses: crosses,
+          p_source: 'price_list',
+          p_created_by: userId || null
+        });
+
+        if (crossError) {
+          throw new Error(`Ошибка записи кроссов: ${crossError.message}`);
+        }
+
+        crossRows += Number(added);
+      }
+    }
+
+    const { error: completeError } = await supabase.rpc('complete_price_list_import', {
+      p_import_id: record.id,
+      p_imported_rows: offers.length,
+      p_cross_rows: crossRows,
+      p_errors: storedErrors
+    });
+
+    if (completeError) {
+      throw new Error(`Ошибка завершения загрузки: ${completeError.message}`);
+    }
+  } catch (error) {
+    // Записанные строки неудачной загрузки удаляются, прежний прайс остается
+    await supabase.from('supplier_offers').delete().eq('price_list_import_id', record.id);
+    await supabase
+      .from('price_list_imports')
+      .update({ status: 'failed', cross_rows: crossRows, errors: storedErrors })
+      .eq('id', record.id);
+    throw error;
+  }
+
+  const { error: mappingError } = await supabase
+    .from('suppliers')
+    .update({ price_list_mapping: importMapping })
+    .eq('id', supplierId);
+
+  if (mappingError) {
+    throw new Error(`Ошибка сохранения сопоставления колонок: ${mappingError.message}`);
+  }
+
+  const { data: completed, error } = await supabase
+    .from('price_list_imports')
+    .select('*')
+    .eq('id', record.id)
+    .single();
+
+  if (error) {
+    throw toPriceListError(error, 'получения загрузки прайс-листа');
+  }
+
+  return { ...completed, headers, valid_rows: offers.length, preview } as PriceListImport;
+}
+
+export async function getPriceListImports(supplierId?: string, limit: number = 50): Promise<PriceListImport[]> {
+  let query = supabase
+    .from('price_list_imports')
+    .select('*');
+
+  if (supplierId) {
+    query = query.eq('supplier_id', supplierId);
+  }
+
+  const { data: imports, error } = await query
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw toPriceListError(error, 'получения загрузок прайс-листов');
+  }
+
+  return (imports || []) as PriceListImport[];
+}
+
+// Предложения по артикулу и его кроссам, самое дешевое - первым
+export async function searchPartOffers(
+  partNumber: string,
+  brand?: string,
+  limit: number = 20
+): Promise<PartOfferSearch> {
+  const { data: offers, error } = await supabase.rpc('search_part_offers', {
+    p_part_number: partNumber,
+    p_brand: brand || null,
+    p_limit: limit
+  });
+
+  if (error) {
+    throw toPriceListError(error, 'поиска предложений');
+  }
+
+  const items = (offers || []) as SupplierOffer[];
+
+  return {
+    part_number: partNumber,
+    ...(brand && { brand }),
+    ...(items[0] && { cheapest: items[0] }),
+    offers: items
+  };
+}
+
+export async function getBrandAliases(): Promise<BrandAlias[]> {
+  const { data: aliases, error } = await supabase
+    .from('brand_aliases')
+    .select('*')
+    .order('brand', { ascending: true })
+    .order('alias', { ascending: true });
+
+  if (error) {
+    throw toPriceListError(error, 'получения вариантов брендов');
+  }
+
+  return (aliases || []) as BrandAlias[];
+}
+
+// Новый вариант применяется к следующим загрузкам и записям каталога
+export async function createBrandAlias(data: CreateBrandAliasData): Promise<BrandAlias> {
+  const { data: alias, error } = await supabase
+    .from('brand_aliases')
+    .insert({ alias: data.alias.trim(), brand: data.brand.trim().toUpperCase() })
+    .select()
+    .single();
+
+  if (error) {
+    throw toPriceListError(error, 'создания варианта бренда');
+  }
+
+  return alias as BrandAlias;
+}
+
+export async function deleteBrandAlias(id: string): Promise<void> {
+  const { data, error } = await supabase
+    .from('brand_aliases')
+    .delete()
+    .eq('id', id)
+    .select('id');
+
+  if (error) {
+    throw toPriceListError(error, 'удаления варианта бренда');
+  }
+
+  if (!data || data.length === 0) {
+    throw new NotFoundError('Вариант бренда не найден');
+  }
+}
+
+// Кроссы артикула в обе стороны
+export async function getPartCrosses(partNumber: string): Promise<PartCross[]> {
+  const key = partNumber.replace(/[^A-Za-z0-9]/g, '').toUpperCase();
+
+  if (!key) {
+    throw new ValidationError('Артикул должен содержать латинские буквы или цифры');
+  }
+
+  const { data: crosses, error } = await supabase
+    .from('part_crosses')
+    .select('*')
+    .or(`part_number_key.eq.${key},cross_number_key.eq.${key}`)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw toPriceListError(error, 'получения кроссов');
+  }
+
+  return (crosses || []) as PartCross[];
+}
+
+// Ручное добавление кроссов. Повторы и обратные пары пропускаются
+export async function addPartCrosses(
+  crosses: CreatePartCrossData[],
+  userId?: string
+): Promise<number> {
+  const { data: added, error } = await supabase.rpc('add_part_crosses', {
+    p_crosses: crosses,
+    p_source: 'manual',
+    p_created_by: userId || null
+  });
+
+  if (error) {
+    throw toPriceListError(error, 'добавления кроссов');
+  }
+
+  return Number(added);
+}
+
+export async function deletePartCross(id: string): Promise<void> {
+  const { data, error } = await supabase
+    .from('part_crosses')
+    .delete()
+    .eq('id', id)
+    .select('id');
+
+  if (error) {
+    throw toPriceListError(error, 'удаления кросса');
+  }
+
+  if (!data || data.length === 0) {
+    throw new NotFoundError('Кросс не найден');
+  }
+}
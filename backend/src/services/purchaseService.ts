@@ -0,0 +1,259 @@
+import { supabase } from '@/config/database';
+import { ConflictError, NotFoundError, ValidationError } from '@/middleware/errorHandler';
+import {
+  CreatePurchaseOrderData,
+  CreateSupplierData,
+  PurchaseOrder,
+  PurchaseOrderFilters,
+  PurchaseOrderReceipt,
+  PurchaseOrderStatus,
+  ReceivePurchaseOrderData,
+  Supplier,
+  UpdatePurchaseOrderData,
+  UpdateSupplierData
+} from '@/types';
+
+// Перевод ошибок Postgres в ошибки приложения
+function toPurchaseError(error: { code?: string; message: string }, action: string): Error {
+  switch (error.code) {
+    case 'PGRST116':
+    case 'P0002':
+      return new NotFoundError('Заказ поставщику не найден');
+    case '22023':
+      return new ValidationError(error.message);
+    case '23505':
+      return new ConflictError('Поставщик с таким названием уже существует');
+    case '23503':
+      return new ValidationError('Поставщик, склад, запчасть или заказ не найдены');
+    case '23514':
+      return new ValidationError('Неверное количество или цена в заказе поставщику');
+    default:
+      return new Error(`Ошибка ${action}: ${error.message}`);
+  }
+}
+
+// Переходы статусов заказа поставщику, доступные вручную.
+// Приемка меняет статус через receive_purchase_order
+const PURCHASE_ORDER_TRANSITIONS: Record<PurchaseOrderStatus, PurchaseOrderStatus[]> = {
+  draft: ['ordered', 'cancelled'],
+  ordered: ['cancelled'],
+  partially_received: ['cancelled'],
+  received: [],
+  cancelled: []
+};
+
+const PURCHASE_ORDER_SELECT = `
+  *,
+  supplier:suppliers(id, name, phone, delivery_days),
+  warehouse:warehouses(id, name),
+  items:purchase_order_items(*, part:parts(id, part_number, brand, name, unit))
+`;
+
+export async function getSuppliers(includeInactive: boolean = false): Promise<Supplier[]> {
+  let query = supabase
+    .from('suppliers')
+    .select('*');
+
+  if (!includeInactive) {
+    query = query.eq('is_active', true);
+  }
+
+  const { data: suppliers, error } = await query.order('name', { ascending: true });
+
+  if (error) {
+    throw toPurchaseError(error, 'получения поставщиков');
+  }
+
+  return (suppliers || []) as Supplier[];
+}
+
+export async function createSupplier(data: CreateSupplierData): Promise<Supplier> {
+  const { data: supplier, error } = await supabase
+    .from('suppliers')
+    .insert(data)
+    .select()
+    .single();
+
+  if (error) {
+    throw toPurchaseError(error, 'создания поставщика');
+  }
+
+  return supplier as Supplier;
+}
+
+export async function updateSupplier(id: string, data: UpdateSupplierData): Promise<Supplier> {
+  const { data: supplier, error } = await supabase
+    .from('suppliers')
+    .update(data)
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === 'PGRST116') {
+      throw new NotFoundError('Поставщик не найден');
+    }
+    throw toPurchaseError(error, 'обновления поставщика');
+  }
+
+  return supplier as Supplier;
+}
+
+// Заказы поставщикам. overdue - отправленные заказы с прошедшей датой поставки
+export async function getPurchaseOrders(
+  filters: PurchaseOrderFilters,
+  page: number,
+  limit: number
+): Promise<{ items: PurchaseOrder[]; total: number }> {
+  let query = supabase
+    .from('purchase_orders')
+    .select(PURCHASE_ORDER_SELECT, { count: 'exact' });
+
+  if (filters.supplier_id) {
+    query = query.eq('supplier_id', filters.supplier_id);
+  }
+
+  if (filters.status) {
+    query = query.eq('status', filters.status);
+  }
+
+  if (filters.order_id) {
+    const { data: lines, error } = await supabase
+      .from('purchase_order_items')
+      .select('purchase_order_id')
+      .eq('order_id', filters.order_id);
+
+    if (error) {
+      throw toPurchaseError(error, 'поиска заказов поставщикам');
+    }
+
+    const ids = [...new Set((lines || []).map(line => line.purchase_order_id as string))];
+    if (ids.length === 0) {
+      return { items: [], total: 0 };
+    }
+
+    query = query.in('id', ids);
+  }
+
+  if (filters.overdue) {
+    query = query
+      .in('status', ['ordered', 'partially_received'])
+      .lt('expected_at', new Date().toISOString().slice(0, 10));
+  }
+
+  const from = (page - 1) * limit;
+  const { data: orders, error, count } = await query
+    .order('created_at', { ascending: false })
+    .range(from, from + limit - 1);
+
+  if (error) {
+    throw toPurchaseError(error, 'получения заказов поставщикам');
+  }
+
+  return { items: (orders || []) as PurchaseOrder[], total: count || 0 };
+}
+
+export async function getPurchaseOrderById(id: string): Promise<PurchaseOrder> {
+  const { data: order, error } = await supabase
+    .from('purchase_orders')
+    .select(PURCHASE_ORDER_SELECT)
+    .eq('id', id)
+    .single();
+
+  if (error) {
+    throw toPurchaseError(error, 'получения заказа поставщику');
+  }
+
+  return order as PurchaseOrder;
+}
+
+// Заказ создается черновиком вместе с позициями одной транзакцией
+export async function createPurchaseOrder(
+  data: CreatePurchaseOrderData,
+  userId?: string
+): Promise<PurchaseOrder> {
+  const { items, ...header } = data;
+
+  const { data: id, error } = await supabase.rpc('create_purchase_order', {
+    p_data: header,
+    p_items: items,
+    p_created_by: userId || null
+  });
+
+  if (error) {
+    throw toPurchaseError(error, 'создания заказа поставщику');
+  }
+
+  return getPurchaseOrderById(id as string);
+}
+
+// Изменение даты поставки, примечаний и статуса. При отправке без даты
+// поставки она считается по обычному сроку поставщика
+export async function updatePurchaseOrder(
+  id: string,
+  data: UpdatePurchaseOrderData
+): Promise<PurchaseOrder> {
+  const current = await getPurchaseOrderById(id);
+  const changes: Record<string, unknown> = { ...data };
+
+  if (data.status && data.status !== current.status) {
+    if (!PURCHASE_ORDER_TRANSITIONS[current.status].includes(data.status)) {
+      throw new ValidationError(
+        `Заказ поставщику в статусе "${current.status}" нельзя перевести в "${data.status}"`
+      );
+    }
+
+    if (data.status === 'ordered') {
+      changes['ordered_at'] = new Date().toISOString();
+
+      const deliveryDays = current.supplier?.delivery_days;
+      if (!data.expected_at && !current.expected_at && deliveryDays !== undefined && deliveryDays !== null) {
+        const expected = new Date();
+        expected.setDate(expected.getDate() + deliveryDays);
+        changes['expected_at'] = expected.toISOString().slice(0, 10);
+      }
+    }
+  }
+
+  // Условие на статус защищает от одновременной приемки
+  const { data: updated, error } = await supabase
+    .from('purchase_orders')
+    .update(changes)
+    .eq('id', id)
+    .eq('status', current.status)
+    .select('id');
+
+  if (error) {
+    throw toPurchaseError(error, 'обновления заказа поставщику');
+  }
+
+  if (!updated || updated.length === 0) {
+    throw new ConflictError('Заказ поставщику изменен другим пользователем');
+  }
+
+  return getPurchaseOrderById(id);
+}
+
+// Приемка: приход на склад, перевод ожидающих заказов клиентов в работу
+// и уведомления выполняются одной транзакцией
+export async function receivePurchaseOrder(
+  id: string,
+  data: ReceivePurchaseOrderData,
+  userId?: string
+): Promise<PurchaseOrderReceipt> {
+  const { data: rows, error } = await supabase.rpc('receive_purchase_order', {
+    p_purchase_order_id: id,
+    p_items: data.items && data.items.length > 0 ? data.items : null,
+    p_received_by: userId || null
+  });
+
+  if (error) {
+    throw toPurchaseError(error, 'приемки заказа поставщику');
+  }
+
+  return {
+    purchase_order: await getPurchaseOrderById(id),
+    orders: ((rows || []) as Array<{ customer_order_id: string; resumed: boolean }>)
+      .map(row => ({ order_id: row.customer_order_id, resumed: row.resumed }))
+  };
+}
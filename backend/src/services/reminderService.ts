@@ -0,0 +1,112 @@
+import { supabase } from '@/config/database';
+import { DueService, DueServiceQuery, Vehicle } from '@/types';
+import { logger } from '@/utils/logger';
+
+// Горизонт напоминаний по умолчанию: за 2 недели или 1000 км до срока
+const DEFAULT_DAYS_AHEAD = 14;
+const DEFAULT_KM_AHEAD = 1000;
+
+// Услуги, которым подходит или прошел срок, с автомобилем и владельцем
+export async function getDueServices(params: DueServiceQuery = {}): Promise<DueService[]> {
+  const { data: due, error } = await supabase.rpc('get_due_services', {
+    p_days_ahead: params.days_ahead ?? DEFAULT_DAYS_AHEAD,
+    p_km_ahead: params.km_ahead ?? DEFAULT_KM_AHEAD
+  });
+
+  if (error) {
+    throw new Error(`Ошибка расчета планового обслуживания: ${error.message}`);
+  }
+
+  const rows = (due || []) as DueService[];
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const { data: vehicles, error: vehiclesError } = await supabase
+    .from('vehicles')
+    .select('id, make, model, year, plate, mileage, client:clients(id, name, phone)')
+    .in('id', [...new Set(rows.map(row => row.vehicle_id))]);
+
+  if (vehiclesError) {
+    throw new Error(`Ошибка получения автомобилей: ${vehiclesError.message}`);
+  }
+
+  const vehiclesById = new Map<string, Vehicle>(
+    (vehicles || []).map((vehicle: any) => [vehicle.id, vehicle])
+  );
+
+  return rows.map(row => {
+    const vehicle = vehiclesById.get(row.vehicle_id);
+    return vehicle ? { ...row, vehicle } : row;
+  });
+}
+
+function describeVehicle(vehicle: any): string {
+  return [vehicle?.make, vehicle?.model, vehicle?.plate].filter(Boolean).join(' ');
+}
+
+// Создание напоминаний по подошедшим услугам и уведомлений администраторам.
+// Повторный запуск не дублирует напоминания. Возвращает число новых напоминаний
+export async function createServiceReminders(): Promise<number> {
+  const due = await getDueServices();
+
+  if (due.length === 0) {
+    return 0;
+  }
+
+  const { data: created, error } = await supabase
+    .from('service_reminders')
+    .upsert(
+      due.map(item => ({
+        vehicle_id: item.vehicle_id,
+        client_id: item.client_id,
+        service_id: item.service_id,
+        last_order_id: item.last_order_id,
+        due_date: item.due_date ?? null,
+        due_mileage: item.due_mileage ?? null
+      })),
+      { onConflict: 'vehicle_id,service_id,last_order_id', ignoreDuplicates: true }
+    )
+    .select(`
+      id,
+      due_date,
+      client:clients(name, phone),
+      vehicle:vehicles(make, model, plate),
+      service:services(name)
+    `);
+
+  if (error) {
+    throw new Error(`Ошибка создания напоминаний: ${error.message}`);
+  }
+
+  if (!created || created.length === 0) {
+    return 0;
+  }
+
+  const { data: admins } = await supabase
+    .from('masters')
+    .select('id')
+    .in('role', ['admin', 'director']);
+
+  if (admins && admins.length > 0) {
+    const notifications = created.flatMap((reminder: any) => admins.map((admin: any) => ({
+      user_id: admin.id,
+      title: 'Плановое обслуживание',
+      message: `${reminder.service?.name}: ${describeVehicle(reminder.vehicle)}. ` +
+        `Позвоните клиенту ${reminder.client?.name}${reminder.client?.phone ? ` (${reminder.client.phone})` : ''}`,
+      type: 'service_reminder',
+      entity_id: reminder.id,
+      entity_type: 'service_reminder'
+    })));
+
+    const { error: notifyError } = await supabase
+      .from('notifications')
+      .insert(notifications);
+
+    if (notifyError) {
+      logger.error('Ошибка создания уведомлений о плановом обслуживании:', notifyError);
+    }
+  }
+
+  return created.length;
+}
@@ -0,0 +1,124 @@
+import { supabase } from '@/config/database';
+import { ReorderResult, ReorderSuggestion, User } from '@/types';
+import { logger } from '@/utils/logger';
+
+// Средний расход считается за последние 90 дней
+const CONSUMPTION_DAYS = 90;
+// Срок поставки, если у поставщика он не указан
+const DEFAULT_LEAD_DAYS = 7;
+
+// Запчасти ниже минимального остатка с количеством к заказу и поставщиком
+export async function getReorderSuggestions(): Promise<ReorderSuggestion[]> {
+  const { data, error } = await supabase.rpc('get_reorder_suggestions', {
+    p_days: CONSUMPTION_DAYS,
+    p_default_lead_days: DEFAULT_LEAD_DAYS
+  });
+
+  if (error) {
+    throw new Error(`Ошибка расчета автозаказа: ${error.message}`);
+  }
+
+  return (data || []) as ReorderSuggestion[];
+}
+
+function describePart(part: ReorderSuggestion): string {
+  return [part.brand, part.part_number, part.name].filter(Boolean).join(' ');
+}
+
+// Черновики заказов поставщикам по запчастям ниже минимума и уведомления
+// администраторам. Предложения, черновики и уведомления строятся по одному
+// расчету в базе. Повторный запуск не дублирует заказы: черновики
+// учитываются в ожидаемом остатке. О запчасти без поставщика повторно не
+// уведомляем, пока прошлое уведомление не прочитано
+export async function createReorderDrafts(userId?: string): Promise<ReorderResult> {
+  const { data, error } = await supabase.rpc('create_reorder_purchase_orders', {
+    p_created_by: userId || null,
+    p_days: CONSUMPTION_DAYS,
+    p_default_lead_days: DEFAULT_LEAD_DAYS
+  });
+
+  if (error) {
+    throw new Error(`Ошибка создания заказов поставщикам: ${error.message}`);
+  }
+
+  const { suggestions, purchase_orders: purchaseOrders } =
+    data as Pick<ReorderResult, 'suggestions' | 'purchase_orders'>;
+  const withoutSupplier = suggestions.filter(part => !part.supplier_id);
+
+  if (purchaseOrders.length === 0 && withoutSupplier.length === 0) {
+    return { suggestions, purchase_orders: purchaseOrders, without_supplier: withoutSupplier };
+  }
+
+  const { data: adminRows } = await supabase
+    .from('masters')
+    .select('id')
+    .in('role', ['admin', 'director']);
+  const admins: Pick<User, 'id'>[] = adminRows || [];
+
+  if (admins.length > 0) {
+    const supplierNames = new Map(
+      suggestions.map(part => [part.supplier_id, part.supplier_name])
+    );
+
+    const orderNotifications = purchaseOrders.flatMap(order => admins.map(admin => ({
+      user_id: admin.id,
+      title: 'Автозаказ запчастей',
+      message: `Черновик заказа поставщику ${supplierNames.get(order.supplier_id) || ''}: ` +
+        `${order.items_count} поз. ниже минимального остатка. Проверьте и отправьте заказ`,
+      type: 'low_stock',
+      entity_id: order.purchase_order_id,
+      entity_type: 'purchase_order'
+    })));
+
+    const notified = await getUnreadPartNotifications(withoutSupplier.map(part => part.part_id));
+
+    const partNotifications = withoutSupplier.flatMap(part => admins
+      .filter(admin => !notified.has(`${admin.id}:${part.part_id}`))
+      .map(admin => ({
+        user_id: admin.id,
+        title: 'Запчасть ниже минимума',
+        message: `Не найден поставщик: ${describePart(part)}. Укажите основного поставщика в каталоге`,
+        type: 'low_stock',
+        entity_id: part.part_id,
+        entity_type: 'part'
+      })));
+
+    const notifications = [...orderNotifications, ...partNotifications];
+
+    if (notifications.length > 0) {
+      const { error: notifyError } = await supabase
+        .from('notifications')
+        .insert(notifications);
+
+      if (notifyError) {
+        logger.error('Ошибка создания уведомлений об автозаказе:', notifyError);
+      }
+    }
+  }
+
+  return { suggestions, purchase_orders: purchaseOrders, without_supplier: withoutSupplier };
+}
+
+// Непрочитанные уведомления о запчастях ниже минимума: ключи "пользователь:запчасть".
+// Ошибка запроса не мешает автозаказу, уведомления тогда отправляются заново
+async function getUnreadPartNotifications(partIds: string[]): Promise<Set<string>> {
+  if (partIds.length === 0) {
+    return new Set();
+  }
+
+  const { data, error } = await supabase
+    .from('notifications')
+    .select('user_id, entity_id')
+    .eq('type', 'low_stock')
+    .eq('entity_type', 'part')
+    .eq('read', false)
+    .in('entity_id', partIds);
+
+  if (error) {
+    logger.error('Ошибка проверки уведомлений об автозаказе:', error);
+    return new Set();
+  }
+
+  const rows: Array<{ user_id: string; entity_id: string }> = data || [];
+  return new Set(rows.map(row => `${row.user_id}:${row.entity_id}`));
+}
@@ -0,0 +1,104 @@
+import { supabase } from '@/config/database';
+import { NotFoundError, ValidationError } from '@/middleware/errorHandler';
+import {
+  CreateReturnData,
+  ReturnDocument,
+  ReturnFilters
+} from '@/types';
+
+// Перевод ошибок Postgres в ошибки приложения
+function toReturnError(error: { code?: string; message: string }, action: string): Error {
+  switch (error.code) {
+    case 'PGRST116':
+      return new NotFoundError('Возврат не найден');
+    case 'P0002':
+      return new NotFoundError(error.message);
+    case '22023':
+      return new ValidationError(error.message);
+    case '23503':
+      return new ValidationError('Продажа, заказ или склад не найдены');
+    case '23514':
+      return new ValidationError('Неверное количество, сумма или способ возврата денег');
+    default:
+      return new Error(`Ошибка ${action}: ${error.message}`);
+  }
+}
+
+const RETURN_SELECT = `
+  *,
+  items:return_items(*),
+  payments(id, amount, type, created_at)
+`;
+
+export async function getReturns(
+  filters: ReturnFilters,
+  page: number,
+  limit: number
+): Promise<{ items: ReturnDocument[]; total: number }> {
+  let query = supabase
+    .from('returns')
+    .select(RETURN_SELECT, { count: 'exact' });
+
+  if (filters.parts_sale_id) {
+    query = query.eq('parts_sale_id', filters.parts_sale_id);
+  }
+
+  if (filters.order_id) {
+    query = query.eq('order_id', filters.order_id);
+  }
+
+  if (filters.date_from) {
+    query = query.gte('created_at', filters.date_from);
+  }
+
+  if (filters.date_to) {
+    query = query.lt('created_at', filters.date_to);
+  }
+
+  const from = (page - 1) * limit;
+  const { data: returns, error, count } = await query
+    .order('created_at', { ascending: false })
+    .range(from, from + limit - 1);
+
+  if (error) {
+    throw toReturnError(error, 'получения возвратов');
+  }
+
+  return { items: (returns || []) as ReturnDocument[], total: count || 0 };
+}
+
+export async function getReturnById(id: string): Promise<ReturnDocument> {
+  const { data: document, error } = await supabase
+    .from('returns')
+    .select(RETURN_SELECT)
+    .eq('id', id)
+    .single();
+
+  if (error) {
+    throw toReturnError(error, 'получения возврата');
+  }
+
+  return document as ReturnDocument;
+}
+
+// Возврат оформляется одной транзакцией: строки, возврат на склад,
+// отрицательные оплаты и сторно зарплаты мастеров заказа
+export async function createReturn(
+  data: CreateReturnData,
+  userId?: string
+): Promise<ReturnDocument> {
+  const { items, refunds, ...header } = data;
+
+  const { data: id, error } = await supabase.rpc('create_return', {
+    p_data: header,
+    p_items: items,
+    p_refunds: refunds || [],
+    p_created_by: userId || null
+  });
+
+  if (error) {
+    throw toReturnError(error, 'оформления возврата');
+  }
+
+  return getReturnById(id as string);
+}
@@ -0,0 +1,39 @@
+import twilio from 'twilio';
+import { logger } from '@/utils/logger';
+
+let client: ReturnType<typeof twilio> | null = null;
+
+function getClient(): ReturnType<typeof twilio> | null {
+  if (!process.env['TWILIO_ACCOUNT_SID'] || !process.env['TWILIO_AUTH_TOKEN']) {
+    return null;
+  }
+
+  if (!client) {
+    client = twilio(process.env['TWILIO_ACCOUNT_SID'], process.env['TWILIO_AUTH_TOKEN']);
+  }
+
+  return client;
+}
+
+// Тип сообщения для логов: текст SMS может содержать коды и не логируется
+export type SmsType = 'booking_otp';
+
+// Отправка SMS через Twilio. Без настроек Twilio в режиме разработки
+// сообщение не отправляется, в продакшене это ошибка
+export async function sendSms(phone: string, text: string, type: SmsType): Promise<void> {
+  const twilioClient = getClient();
+
+  if (!twilioClient) {
+    if (process.env['NODE_ENV'] === 'production') {
+      throw new Error('Отправка SMS не настроена');
+    }
+    logger.info(`SMS ${type} для ${phone} не отправлено: Twilio не настроен`);
+    return;
+  }
+
+  await twilioClient.messages.create({
+    to: phone,
+    from: process.env['TWILIO_PHONE_NUMBER']!,
+    body: text
+  });
+}
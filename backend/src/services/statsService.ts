@@ -0,0 +1,39 @@
+import { supabase } from '@/config/database';
+import { CashflowData, StatsFilters } from '@/types';
+
+interface CashflowRow {
+  period_start: string;
+  revenue: number;
+  refunds: number;
+  expenses: number;
+  profit: number;
+}
+
+// По умолчанию - последние 30 дней по дням
+export async function getCashflow(filters: StatsFilters): Promise<CashflowData> {
+  const period = filters.period || 'day';
+  const dateTo = filters.date_to || new Date().toISOString().slice(0, 10);
+  const dateFrom = filters.date_from
+    || new Date(new Date(dateTo).getTime() - 30 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+  const { data, error } = await supabase.rpc('get_cashflow', {
+    p_date_from: dateFrom,
+    p_date_to: dateTo,
+    p_period: period
+  });
+
+  if (error) {
+    throw new Error(`Ошибка получения денежного потока: ${error.message}`);
+  }
+
+  const rows = (data || []) as CashflowRow[];
+
+  return {
+    period,
+    dates: rows.map(row => row.period_start),
+    revenue: rows.map(row => Number(row.revenue)),
+    refunds: rows.map(row => Number(row.refunds)),
+    expenses: rows.map(row => Number(row.expenses)),
+    profit: rows.map(row => Number(row.profit))
+  };
+}
@@ -0,0 +1,242 @@
+import { supabase } from '@/config/database';
+import { ConflictError, NotFoundError, ValidationError } from '@/middleware/errorHandler';
+import {
+  CreateStocktakeData,
+  Stocktake,
+  StocktakeCountData,
+  StocktakeFilters,
+  StocktakeVariance,
+  StocktakeVarianceLine
+} from '@/types';
+
+// Перевод ошибок Postgres в ошибки приложения
+function toStocktakeError(error: { code?: string; message: string }, action: string): Error {
+  switch (error.code) {
+    case 'PGRST116':
+      return new NotFoundError('Инвентаризация не найдена');
+    case 'P0002':
+      return new NotFoundError(error.message);
+    case '22023':
+      return new ValidationError(error.message);
+    case '23505':
+      return new ConflictError('По складу уже идет инвентаризация');
+    case '23503':
+      return new ValidationError('Склад или запчасть не найдены');
+    case '23514':
+      return new ValidationError('Неверное количество');
+    default:
+      return new Error(`Ошибка ${action}: ${error.message}`);
+  }
+}
+
+const STOCKTAKE_SELECT = `
+  *,
+  warehouse:warehouses(id, name),
+  items:stocktake_items(*, part:parts(id, part_number, brand, name, unit))
+`;
+
+export async function getStocktakes(
+  filters: StocktakeFilters,
+  page: number,
+  limit: number
+): Promise<{ items: Stocktake[]; total: number }> {
+  let query = supabase
+    .from('stocktakes')
+    .select('*, warehouse:warehouses(id, name)', { count: 'exact' });
+
+  if (filters.warehouse_id) {
+    query = query.eq('warehouse_id', filters.warehouse_id);
+  }
+
+  if (filters.status) {
+    query = query.eq('status', filters.status);
+  }
+
+  const from = (page - 1) * limit;
+  const { data: stocktakes, error, count } = await query
+    .order('created_at', { ascending: false })
+    .range(from, from + limit - 1);
+
+  if (error) {
+    throw toStocktakeError(error, 'получения инвентаризаций');
+  }
+
+  return { items: (stocktakes || []) as Stocktake[], total: count || 0 };
+}
+
+export async function getStocktakeById(id: string): Promise<Stocktake> {
+  const { data: stocktake, error } = await supabase
+    .from('stocktakes')
+    .select(STOCKTAKE_SELECT)
+    .eq('id', id)
+    .order('created_at', { foreignTable: 'items', ascending: true })
+    .single();
+
+  if (error) {
+    throw toStocktakeError(error, 'получения инвентаризации');
+  }
+
+  return stocktake as Stocktake;
+}
+
+// Без склада инвентаризация проводится по складу по умолчанию
+export async function createStocktake(
+  data: CreateStocktakeData,
+  userId?: string
+): Promise<Stocktake> {
+  let warehouseId = data.warehouse_id;
+  if (!warehouseId) {
+    const { data: warehouse } = await supabase
+      .from('warehouses')
+      .select('id')
+      .eq('is_default', true)
+      .maybeSingle();
+
+    warehouseId = warehouse?.id;
+    if (!warehouseId) {
+      throw new ValidationError('Не задан склад по умолчанию');
+    }
+  }
+
+  const { data: stocktake, error } = await supabase
+    .from('stocktakes')
+    .insert({
+      warehouse_id: warehouseId,
+      is_full: data.is_full ?? false,
+      notes: data.notes || null,
+      created_by: userId || null
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    throw toStocktakeError(error, 'создания инвентаризации');
+  }
+
+  return getStocktakeById(stocktake.id);
+}
+
+// Повторный ввод по той же запчасти и месту заменяет количество
+export async function saveStocktakeCounts(
+  id: string,
+  items: StocktakeCountData[],
+  userId?: string
+): Promise<Stocktake> {
+  const { error } = await supabase.rpc('save_stocktake_counts', {
+    p_stocktake_id: id,
+    p_items: items,
+    p_counted_by: userId || null
+  });
+
+  if (error) {
+    throw toStocktakeError(error, 'сохранения пересчета');
+  }
+
+  return getStocktakeById(id);
+}
+
+async function assertCounting(id: string): Promise<void> {
+  const { data: stocktake, error } = await supabase
+    .from('stocktakes')
+    .select('status')
+    .eq('id', id)
+    .single();
+
+  if (error) {
+    throw toStocktakeError(error, 'получения инвентаризации');
+  }
+
+  if (stocktake.status !== 'counting') {
+    throw new ValidationError('Инвентаризация уже завершена');
+  }
+}
+
+export async function deleteStocktakeItem(id: string, itemId: string): Promise<void> {
+  await assertCounting(id);
+
+  const { data, error } = await supabase
+    .from('stocktake_items')
+    .delete()
+    .eq('id', itemId)
+    .eq('stocktake_id', id)
+    .select('id');
+
+  if (error) {
+    throw toStocktakeError(error, 'удаления строки пересчета');
+  }
+
+  if (!data || data.length === 0) {
+    throw new NotFoundError('Строка пересчета не найдена');
+  }
+}
+
+// Ведомость расхождений с итогами по излишкам и недостачам
+export async function getStocktakeVariance(id: string): Promise<StocktakeVariance> {
+  const stocktake = await getStocktakeById(id);
+
+  const { data, error } = await supabase.rpc('get_stocktake_variance', {
+    p_stocktake_id: id
+  });
+
+  if (error) {
+    throw toStocktakeError(error, 'получения ведомости расхождений');
+  }
+
+  const lines = ((data || []) as StocktakeVarianceLine[]).map(line => ({
+    ...line,
+    book_quantity: Number(line.book_quantity),
+    counted_quantity: Number(line.counted_quantity),
+    difference: Number(line.difference),
+    difference_value: Number(line.difference_value)
+  }));
+
+  const round = (value: number) => Math.round(value * 100) / 100;
+  const surplus = lines.filter(line => line.difference > 0);
+  const shortage = lines.filter(line => line.difference < 0);
+  const sum = (items: StocktakeVarianceLine[], key: 'difference' | 'difference_value') =>
+    round(items.reduce((total, line) => total + line[key], 0));
+
+  const { items: _items, ...header } = stocktake;
+
+  return {
+    stocktake: header,
+    lines,
+    totals: {
+      surplus_quantity: sum(surplus, 'difference'),
+      shortage_quantity: -sum(shortage, 'difference'),
+      surplus_value: sum(surplus, 'difference_value'),
+      shortage_value: -sum(shortage, 'difference_value'),
+      net_value: sum(lines, 'difference_value')
+    }
+  };
+}
+
+// Утверждение проводит корректировки по расхождениям и закрывает инвентаризацию
+export async function approveStocktake(id: string, userId?: string): Promise<StocktakeVariance> {
+  const { error } = await supabase.rpc('approve_stocktake', {
+    p_stocktake_id: id,
+    p_approved_by: userId || null
+  });
+
+  if (error) {
+    throw toStocktakeError(error, 'утверждения инвентаризации');
+  }
+
+  return getStocktakeVariance(id);
+}
+
+export async function cancelStocktake(id: string): Promise<Stocktake> {
+  await assertCounting(id);
+
+  const { error } = await supabase
+    .from('stocktakes')
+    .update({ status: 'cancelled' })
+    .eq('id', id)
+    .eq('status', 'counting');
+
+  if (error) {
+    throw toStocktakeError(error, 'отмены инвентаризации');
+  }
+
+  return getStocktakeById(id);
+}
@@ -0,0 +1,116 @@
+import { supabase } from '@/config/database';
+import { ConflictError, NotFoundError, ValidationError } from '@/middleware/errorHandler';
+import { Vehicle, CreateVehicleData, UpdateVehicleData } from '@/types';
+import { decodeVin } from '@/services/vinService';
+
+// Перевод ошибок Postgres в ошибки приложения
+export function toVehicleError(error: { code?: string; message: string }, action: string): Error {
+  switch (error.code) {
+    case 'PGRST116':
+      return new NotFoundError('Автомобиль не найден');
+    case '23505':
+      return new ConflictError('Автомобиль с таким VIN уже существует');
+    case '23503':
+      return new ValidationError('Клиент не найден');
+    case '23514':
+      return new ValidationError('Неверные данные автомобиля');
+    default:
+      return new Error(`Ошибка ${action}: ${error.message}`);
+  }
+}
+
+// VIN и госномер хранятся в верхнем регистре без пробелов
+export function normalizeVehicleData<T extends CreateVehicleData | UpdateVehicleData>(data: T): T {
+  const normalized = { ...data };
+
+  if (normalized.vin) {
+    normalized.vin = normalized.vin.replace(/\s/g, '').toUpperCase();
+  }
+
+  if (normalized.plate) {
+    normalized.plate = normalized.plate.replace(/\s/g, '').toUpperCase();
+  }
+
+  return normalized;
+}
+
+// Разбор названия автомобиля из свободного текста: "Toyota Camry 2018"
+export function parseCarTitle(title: string): Pick<CreateVehicleData, 'make' | 'model' | 'year'> {
+  const words = title.trim().split(/\s+/);
+  const result: Pick<CreateVehicleData, 'make' | 'model' | 'year'> = { make: '' };
+
+  const last = words[words.length - 1];
+  if (words.length > 1 && last && /^(19[5-9]|20\d)\d$/.test(last)) {
+    result.year = Number(words.pop());
+  }
+
+  result.make = words.shift() || 'Не указано';
+
+  if (words.length > 0) {
+    result.model = words.join(' ');
+  }
+
+  return result;
+}
+
+// Марка, модель и год, не указанные явно, заполняются по VIN
+export function prefillFromVin<T extends Omit<CreateVehicleData, 'client_id'>>(data: T): T {
+  if (!data.vin || (data.make && data.model && data.year)) {
+    return data;
+  }
+
+  const decoded = decodeVin(data.vin);
+
+  return {
+    ...data,
+    make: data.make || decoded.make || 'Не указано',
+    ...(!data.model && decoded.model && { model: decoded.model }),
+    ...(!data.year && decoded.model_year && { year: decoded.model_year })
+  };
+}
+
+// Создание автомобиля. История владельцев ведется триггером
+export async function createVehicle(data: CreateVehicleData): Promise<Vehicle> {
+  const { data: vehicle, error } = await supabase
+    .from('vehicles')
+    .insert(prefillFromVin(normalizeVehicleData(data)))
+    .select()
+    .single();
+
+  if (error) {
+    throw toVehicleError(error, 'создания автомобиля');
+  }
+
+  return vehicle;
+}
+
+// Передача автомобиля другому клиенту (продажа).
+// Предыдущий владелец остается в истории, заказы не меняются
+export async function transferVehicle(vehicleId: string, clientId: string): Promise<Vehicle> {
+  const { data: current, error: fetchError } = await supabase
+    .from('vehicles')
+    .select('id, client_id')
+    .eq('id', vehicleId)
+    .single();
+
+  if (fetchError) {
+    throw toVehicleError(fetchError, 'получения автомобиля');
+  }
+
+  if (current.client_id === clientId) {
+    throw new ValidationError('Клиент уже является владельцем автомобиля');
+  }
+
+  const { data: vehicle, error } = await supabase
+    .from('vehicles')
+    .update({ client_id: clientId })
+    .eq('id', vehicleId)
+    .select()
+    .single();
+
+  if (error) {
+    throw toVehicleError(error, 'смены владельца');
+  }
+
+  return vehicle;
+}
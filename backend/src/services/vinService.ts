@@ -0,0 +1,112 @@
+import { ValidationError } from '@/middleware/errorHandler';
+import { validateVIN } from '@/middleware/validation';
+import { VinDecodeResult } from '@/types';
+import regions from '@/data/vin/regions.json';
+import wmiTable from '@/data/vin/wmi.json';
+import vdsTable from '@/data/vin/vds.json';
+
+interface WmiEntry {
+  manufacturer: string;
+  make: string;
+}
+
+// Порядок символов в диапазонах кодов стран ISO 3779: A-Z, затем 1-9, 0
+const REGION_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ1234567890';
+
+// Коды модельного года (10-й символ), цикл 30 лет начиная с 1980
+const YEAR_CODES = 'ABCDEFGHJKLMNPRSTVWXY123456789';
+
+// Числовые значения символов и веса позиций для контрольной цифры
+const TRANSLITERATION: Record<string, number> = {
+  A: 1, B: 2, C: 3, D: 4, E: 5, F: 6, G: 7, H: 8,
+  J: 1, K: 2, L: 3, M: 4, N: 5, P: 7, R: 9,
+  S: 2, T: 3, U: 4, V: 5, W: 6, X: 7, Y: 8, Z: 9
+};
+const WEIGHTS = [8, 7, 6, 5, 4, 3, 2, 10, 0, 9, 8, 7, 6, 5, 4, 3, 2];
+
+const WMI = wmiTable as Record<string, WmiEntry>;
+
+function findRegion(vin: string): { country: string; region: string } | undefined {
+  const first = vin.charAt(0);
+  const second = REGION_ALPHABET.indexOf(vin.charAt(1));
+
+  const entry = regions.find(range =>
+    range.from.charAt(0) === first &&
+    REGION_ALPHABET.indexOf(range.from.charAt(1)) <= second &&
+    second <= REGION_ALPHABET.indexOf(range.to.charAt(1))
+  );
+
+  return entry && { country: entry.country, region: entry.region };
+}
+
+function findModel(vin: string, wmi: string): string | undefined {
+  return vdsTable.find(entry =>
+    entry.wmi === wmi &&
+    vin.substring(entry.position - 1, entry.position - 1 + entry.code.length) === entry.code
+  )?.model;
+}
+
+// Контрольная цифра (9-й символ): взвешенная сумма по модулю 11, 10 = X
+export function calculateCheckDigit(vin: string): string {
+  const sum = vin.split('').reduce((acc, char, index) => {
+    const value = /\d/.test(char) ? Number(char) : TRANSLITERATION[char] ?? 0;
+    return acc + value * (WEIGHTS[index] ?? 0);
+  }, 0);
+
+  const remainder = sum % 11;
+  return remainder === 10 ? 'X' : String(remainder);
+}
+
+// Модельный год по 10-му символу. Код повторяется раз в 30 лет:
+// для Северной Америки цикл определяет 7-й символ (цифра - 1980-2009),
+// в остальных случаях берется последний год не позже следующего
+function decodeModelYear(vin: string, region?: string): number | undefined {
+  const index = YEAR_CODES.indexOf(vin.charAt(9));
+  if (index === -1) {
+    return undefined;
+  }
+
+  const year = 1980 + index;
+
+  if (region === 'Северная Америка') {
+    return /\d/.test(vin.charAt(6)) ? year : year + 30;
+  }
+
+  const maxYear = new Date().getFullYear() + 1;
+  return year + 30 <= maxYear ? year + 30 : year;
+}
+
+// Расшифровка VIN по локальным справочникам WMI/VDS, без внешних запросов
+export function decodeVin(rawVin: string): VinDecodeResult {
+  const vin = rawVin.replace(/\s/g, '').toUpperCase();
+
+  if (!validateVIN(vin)) {
+    throw new ValidationError('VIN должен содержать 17 символов (без I, O, Q)');
+  }
+
+  const wmi = vin.substring(0, 3);
+  const manufacturer = WMI[wmi];
+  const location = findRegion(vin);
+  const model = findModel(vin, wmi);
+  const modelYear = decodeModelYear(vin, location?.region);
+  const expected = calculateCheckDigit(vin);
+
+  return {
+    vin,
+    wmi,
+    vds: vin.substring(3, 9),
+    vis: vin.substring(9),
+    ...(manufacturer && { manufacturer: manufacturer.manufacturer, make: manufacturer.make }),
+    ...(model && { model }),
+    ...(location && { country: location.country, region: location.region }),
+    ...(modelYear !== undefined && { model_year: modelYear }),
+    serial: vin.substring(11),
+    check_digit: {
+      value: vin.charAt(8),
+      expected,
+      valid: vin.charAt(8) === expected,
+      // Контрольная цифра обязательна для рынков Северной Америки и Китая
+      required: location?.region === 'Северная Америка' || location?.country === 'Китай'
+    }
+  };
+}
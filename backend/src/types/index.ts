@@ -65,6 +65,12 @@ export interface Client {
   created_at: string;
   updated_at: string;
   debt_total?: number;
+  vehicles?: Vehicle[];
+  loyalty_tier_id?: string;
+  loyalty_tier?: LoyaltyTier;
+  bonus_points?: number;
+  anonymized_at?: string;
+  anonymized_by?: string;
 }
 
 export interface CreateClientData {
@@ -74,6 +80,7 @@ export interface CreateClientData {
   car2?: string;
   vin?: string;
   notes?: string;
+  vehicles?: Omit<CreateVehicleData, 'client_id'>[];
 }
 
 export interface UpdateClientData {
@@ -85,145 +92,1140 @@ export interface UpdateClientData {
   notes?: string;
 }
 
+export interface ClientFilters {
+  search?: string;
+  has_debts?: boolean;
+}
+
+export interface ClientDuplicate {
+  client: Client;
+  duplicate: Client;
+  score: number;
+  phone_match: boolean;
+  vin_match: boolean;
+  name_similarity: number;
+}
+
+export interface ClientDuplicateQuery {
+  client_id?: string;
+  min_score?: number;
+  limit?: number;
+}
+
+export interface ClientMerge {
+  id: string;
+  target_client_id?: string;
+  source_client_id: string;
+  source_data: Client;
+  moved: {
+    orders?: number;
+    debts?: number;
+    parts_sales?: number;
+    payments?: number;
+    vehicles?: number;
+    appointments?: number;
+    notes?: number;
+    loyalty_transactions?: number;
+    consents?: number;
+  };
+  merged_by?: string;
+  created_at: string;
+}
+
+// Типы истории клиента
+export interface ClientNote {
+  id: string;
+  client_id: string;
+  type: 'call' | 'note';
+  text: string;
+  created_by?: string;
+  created_at: string;
+}
+
+export interface CreateClientNoteData {
+  type?: ClientNote['type'];
+  text: string;
+}
+
+export type ClientTimelineEventType = 'order' | 'payment' | 'debt' | 'parts_sale' | 'note';
+
+export interface ClientTimelineEvent {
+  type: ClientTimelineEventType;
+  id: string;
+  occurred_at: string;
+  title: string;
+  amount?: number;
+  status?: string;
+  order_id?: string;
+  details: Record<string, unknown>;
+}
+
+export interface ClientTimelineFilters {
+  types?: ClientTimelineEventType[];
+  date_from?: string;
+  date_to?: string;
+}
+
+export interface ClientTotals {
+  lifetime_value: number;
+  orders_count: number;
+  average_check: number;
+  parts_total: number;
+  paid_total: number;
+  debt_total: number;
+  last_visit?: string;
+}
+
+export interface ClientTimeline {
+  client: Pick<Client, 'id' | 'name' | 'phone'>;
+  totals: ClientTotals;
+  events: ClientTimelineEvent[];
+}
+
+// Типы персональных данных клиента (152-ФЗ)
+export interface ClientConsent {
+  id: string;
+  client_id: string;
+  type: 'data_processing' | 'marketing_sms';
+  granted: boolean;
+  source: 'office' | 'phone' | 'online_booking';
+  notes?: string;
+  recorded_by?: string;
+  created_at: string;
+}
+
+export interface CreateClientConsentData {
+  type: ClientConsent['type'];
+  granted: boolean;
+  source?: ClientConsent['source'];
+  notes?: string;
+}
+
+export interface ClientConsents {
+  current: ClientConsent[];
+  history: ClientConsent[];
+}
+
+export type ClientExportFormat = 'json' | 'zip';
+
+export interface ClientDataExport {
+  exported_at: string;
+  client: Client;
+  vehicles: Vehicle[];
+  vehicle_owners: VehicleOwner[];
+  consents: ClientConsent[];
+  orders: Order[];
+  payments: Payment[];
+  debts: Debt[];
+  parts_sales: PartsSale[];
+  appointments: Appointment[];
+  notes: ClientNote[];
+  loyalty_transactions: LoyaltyTransaction[];
+  service_reminders: ServiceReminder[];
+}
+
+// Типы импорта клиентов
+export type ClientImportField =
+  | 'name'
+  | 'phone'
+  | 'notes'
+  | 'car1'
+  | 'car2'
+  | 'make'
+  | 'model'
+  | 'year'
+  | 'plate'
+  | 'vin'
+  | 'mileage';
+
+// Поле -> заголовок колонки файла
+export type ClientImportMapping = Partial<Record<ClientImportField, string>>;
+
+// Строка файла импорта: номер строки в файле и значения колонок
+export interface ImportFileRow {
+  row: number;
+  values: string[];
+}
+
+export type ClientImportRow = ImportFileRow;
+
+export interface ClientImportError {
+  row: number;
+  field?: ClientImportField;
+  value?: string;
+  message: string;
+}
+
+export interface ClientImportDuplicate {
+  row: number;
+  reason: 'phone' | 'vin';
+  value: string;
+  client_id?: string;
+  duplicate_of_row?: number;
+}
+
+export interface ClientImport {
+  id: string;
+  file_name: string;
+  headers: string[];
+  mapping: ClientImportMapping;
+  status: 'validated' | 'importing' | 'completed' | 'failed';
+  total_rows: number;
+  valid_rows: number;
+  duplicate_rows: number;
+  imported_rows: number;
+  errors: ClientImportError[];
+  duplicates: ClientImportDuplicate[];
+  preview?: CreateClientData[];
+  created_by?: string;
+  created_at: string;
+  updated_at: string;
+  completed_at?: string;
+}
+
+// Типы автомобилей
+export interface Vehicle {
+  id: string;
+  client_id?: string;
+  client?: Client;
+  make: string;
+  model?: string;
+  year?: number;
+  plate?: string;
+  vin?: string;
+  engine?: string;
+  mileage?: number;
+  mileage_updated_at?: string;
+  notes?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface VehicleOwner {
+  id: string;
+  vehicle_id: string;
+  client_id: string;
+  client?: Pick<Client, 'id' | 'name' | 'phone'>;
+  owned_from: string;
+  owned_to?: string;
+}
+
+export interface CreateVehicleData {
+  client_id?: string;
+  make: string;
+  model?: string;
+  year?: number;
+  plate?: string;
+  vin?: string;
+  engine?: string;
+  mileage?: number;
+  notes?: string;
+}
+
+export interface UpdateVehicleData {
+  make?: string;
+  model?: string;
+  year?: number;
+  plate?: string;
+  vin?: string;
+  engine?: string;
+  mileage?: number;
+  notes?: string;
+}
+
+export interface VehicleFilters {
+  client_id?: string;
+  search?: string;
+}
+
+export interface VinDecodeResult {
+  vin: string;
+  wmi: string;
+  vds: string;
+  vis: string;
+  manufacturer?: string;
+  make?: string;
+  model?: string;
+  country?: string;
+  region?: string;
+  model_year?: number;
+  serial: string;
+  check_digit: {
+    value: string;
+    expected: string;
+    valid: boolean;
+    required: boolean;
+  };
+}
+
 // Типы услуг
 export interface Service {
   id: string;
   name: string;
-  price: number;
-  category?: string;
-  duration_minutes: number;
+  price: number;
+  category?: string;
+  duration_minutes: number;
+  interval_km?: number;
+  interval_months?: number;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateServiceData {
+  name: string;
+  price: number;
+  category?: string;
+  duration_minutes?: number;
+  interval_km?: number;
+  interval_months?: number;
+  is_active?: boolean;
+}
+
+export interface UpdateServiceData {
+  name?: string;
+  price?: number;
+  category?: string;
+  duration_minutes?: number;
+  interval_km?: number;
+  interval_months?: number;
+  is_active?: boolean;
+}
+
+// Типы планового обслуживания
+export interface DueService {
+  vehicle_id: string;
+  client_id: string;
+  service_id: string;
+  service_name: string;
+  last_order_id: string;
+  last_service_at: string;
+  last_mileage?: number;
+  estimated_mileage?: number;
+  due_date?: string;
+  due_mileage?: number;
+  overdue: boolean;
+  vehicle?: Vehicle;
+}
+
+export interface DueServiceQuery {
+  days_ahead?: number;
+  km_ahead?: number;
+}
+
+export interface ServiceReminder {
+  id: string;
+  vehicle_id: string;
+  vehicle?: Vehicle;
+  client_id: string;
+  client?: Client;
+  service_id: string;
+  service?: Service;
+  last_order_id: string;
+  due_date?: string;
+  due_mileage?: number;
+  status: 'open' | 'called' | 'booked' | 'dismissed';
+  notes?: string;
+  handled_by?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface UpdateServiceReminderData {
+  status?: ServiceReminder['status'];
+  notes?: string;
+}
+
+// Типы заказов
+export interface OrderService {
+  service_id: string;
+  qty: number;
+  price: number;
+  name?: string;
+}
+
+export interface OrderItem {
+  id: string;
+  order_id: string;
+  type: 'service' | 'part' | 'discount';
+  service_id?: string;
+  part_id?: string;
+  name: string;
+  part_number?: string;
+  quantity: number;
+  purchase_price?: number;
+  price: number;
+  total: number;
+  created_at: string;
+}
+
+// Позиция скидки формируется программой лояльности, в запросах ее нет
+export interface OrderItemData {
+  type: Exclude<OrderItem['type'], 'discount'>;
+  service_id?: string;
+  part_id?: string;
+  name: string;
+  part_number?: string;
+  quantity: number;
+  purchase_price?: number;
+  price: number;
+}
+
+export interface OrderMaster {
+  id: string;
+  order_id: string;
+  master_id: string;
+  master_name?: string;
+  percent: number;
+  created_at: string;
+}
+
+export interface Order {
+  id: string;
+  client_id?: string;
+  client?: Client;
+  vehicle_id?: string;
+  vehicle?: Vehicle;
+  mileage?: number;
+  services: OrderService[];
+  items?: OrderItem[];
+  parts_cost: number;
+  services_cost: number;
+  discount: number;
+  total: number;
+  status: 'новый' | 'принял' | 'диагностика' | 'в_работе' | 'ожидание_деталей' | 'готово' | 'ожидание_оплаты' | 'выдан' | 'закрыт';
+  notes?: string;
+  created_by?: string;
+  created_at: string;
+  updated_at: string;
+  version: number;
+  masters?: OrderMaster[];
+}
+
+export type OrderStatusPrecondition = 'masters_assigned' | 'payment_covered' | 'estimate_approved';
+
+export interface OrderStatusTransition {
+  to: Order['status'];
+  roles: User['role'][];
+  preconditions?: OrderStatusPrecondition[];
+}
+
+export interface OrderStatusHistoryEntry {
+  id: string;
+  order_id: string;
+  from_status?: Order['status'];
+  to_status: Order['status'];
+  changed_by?: string;
+  changed_by_name?: string;
+  created_at: string;
+  left_at?: string;
+  duration_minutes: number;
+}
+
+export interface OrderStatusTimeline {
+  order_id: string;
+  status: Order['status'];
+  entries: OrderStatusHistoryEntry[];
+  time_in_status: Partial<Record<Order['status'], number>>;
+}
+
+export interface CreateOrderData {
+  client_id?: string;
+  vehicle_id?: string;
+  mileage?: number;
+  services?: OrderService[];
+  items?: OrderItemData[];
+  parts_cost?: number;
+  masters?: Array<{
+    master_id: string;
+    percent: number;
+  }>;
+  status?: Order['status'];
+  notes?: string;
+}
+
+export interface UpdateOrderData {
+  client_id?: string;
+  vehicle_id?: string;
+  mileage?: number;
+  services?: OrderService[];
+  items?: OrderItemData[];
+  parts_cost?: number;
+  masters?: CreateOrderData['masters'];
+  status?: Order['status'];
+  notes?: string;
+  version?: number;
+}
+
+export interface OrderFilters {
+  my?: boolean;
+  status?: string;
+  client_id?: string;
+  vehicle_id?: string;
+  date_from?: string;
+  date_to?: string;
+  search?: string;
+}
+
+// Типы смет
+export interface Estimate {
+  id: string;
+  order_id: string;
+  order?: Order;
+  status: 'draft' | 'sent' | 'approved' | 'rejected';
+  items: OrderItemData[];
+  total: number;
+  valid_until?: string;
+  public_token?: string;
+  public_url?: string;
+  notes?: string;
+  decision_comment?: string;
+  sent_at?: string;
+  decided_at?: string;
+  decided_by?: string;
+  created_by?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateEstimateData {
+  order_id: string;
+  items: OrderItemData[];
+  valid_until?: string;
+  notes?: string;
+}
+
+export interface UpdateEstimateData {
+  items?: OrderItemData[];
+  valid_until?: string;
+  notes?: string;
+}
+
+export interface EstimateDecisionData {
+  comment?: string;
+}
+
+export interface EstimateFilters {
+  order_id?: string;
+  status?: Estimate['status'];
+}
+
+// Типы записи и постов
+export interface Bay {
+  id: string;
+  name: string;
+  description?: string;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateBayData {
+  name: string;
+  description?: string;
+}
+
+export interface UpdateBayData {
+  name?: string;
+  description?: string;
+  is_active?: boolean;
+}
+
+export interface MasterWorkingHours {
+  id?: string;
+  master_id: string;
+  weekday: number; // 1 - понедельник, 7 - воскресенье
+  start_time: string; // HH:MM
+  end_time: string;
+}
+
+export interface Appointment {
+  id: string;
+  client_id: string;
+  client?: Client;
+  bay_id: string;
+  bay?: Bay;
+  master_id?: string;
+  vehicle_id?: string;
+  vehicle?: Vehicle;
+  service_ids: string[];
+  starts_at: string;
+  ends_at: string;
+  status: 'pending' | 'scheduled' | 'confirmed' | 'arrived' | 'converted' | 'cancelled' | 'no_show';
+  source: 'crm' | 'online';
+  order_id?: string;
+  notes?: string;
+  created_by?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateAppointmentData {
+  client_id: string;
+  bay_id: string;
+  master_id?: string;
+  vehicle_id?: string;
+  service_ids: string[];
+  starts_at: string;
+  ends_at?: string; // по умолчанию starts_at + длительность услуг
+  notes?: string;
+}
+
+export interface UpdateAppointmentData {
+  bay_id?: string;
+  master_id?: string;
+  vehicle_id?: string;
+  service_ids?: string[];
+  starts_at?: string;
+  ends_at?: string;
+  notes?: string;
+}
+
+export interface AppointmentFilters {
+  date_from?: string;
+  date_to?: string;
+  bay_id?: string;
+  master_id?: string;
+  client_id?: string;
+  status?: Appointment['status'];
+  source?: Appointment['source'];
+}
+
+export interface AvailabilityQuery {
+  date: string; // YYYY-MM-DD
+  service_ids: string[];
+  bay_id?: string;
+  master_id?: string;
+}
+
+export interface AvailableSlot {
+  starts_at: string;
+  ends_at: string;
+  bay_ids: string[];
+  master_ids: string[];
+}
+
+export interface BookingOtpRequest {
+  phone: string;
+}
+
+export interface CreateOnlineBookingData {
+  name: string;
+  phone: string;
+  code: string;
+  service_ids: string[];
+  starts_at: string;
+  car?: string;
+  notes?: string;
+  marketing_consent?: boolean;
+}
+
+// Типы продаж запчастей: чек и его строки
+export interface PartsSaleItem {
+  id: string;
+  parts_sale_id: string;
+  position: number;
+  part_id?: string;
+  part_name: string;
+  part_number?: string;
+  quantity: number;
+  price: number;
+  discount: number;
+  total: number;
+  created_at: string;
+}
+
+export interface PartsSale {
+  id: string;
+  client_name?: string;
+  client_phone?: string;
+  client_id?: string;
+  client?: Client;
+  warehouse_id?: string;
+  subtotal: number;
+  discount: number;
+  total: number;
+  seller_id?: string;
+  seller?: User;
+  notes?: string;
+  items?: PartsSaleItem[];
+  payments?: Payment[];
+  created_at: string;
+}
+
+// Без part_name и price значения берутся из каталога по part_id
+export interface PartsSaleItemData {
+  part_id?: string;
+  part_name?: string;
+  part_number?: string;
+  quantity: number;
+  price?: number;
+  discount?: number;
+}
+
+export interface PartsSalePaymentData {
+  type: Payment['type'];
+  amount: number;
+}
+
+export interface CreatePartsSaleData {
+  client_name?: string;
+  client_phone?: string;
+  client_id?: string;
+  warehouse_id?: string;
+  discount?: number;
+  notes?: string;
+  items: PartsSaleItemData[];
+  payments?: PartsSalePaymentData[];
+}
+
+export interface UpdatePartsSaleData {
+  client_name?: string;
+  client_phone?: string;
+  client_id?: string;
+  notes?: string;
+}
+
+export interface PartsSaleFilters {
+  date_from?: string;
+  date_to?: string;
+  seller_id?: string;
+  client_phone?: string;
+  search?: string;
+}
+
+// Типы склада
+export type PartUnit = 'шт' | 'л' | 'кг' | 'м' | 'компл';
+
+export interface Part {
+  id: string;
+  part_number: string;
+  brand?: string;
+  name: string;
+  unit: PartUnit;
+  purchase_price?: number;
+  retail_price?: number;
+  // Минимальный и максимальный остаток по всем складам и основной поставщик для автозаказа
+  min_quantity?: number;
+  max_quantity?: number;
+  supplier_id?: string;
+  notes?: string;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreatePartData {
+  part_number: string;
+  brand?: string;
+  name: string;
+  unit?: PartUnit;
+  purchase_price?: number;
+  retail_price?: number;
+  min_quantity?: number | null;
+  max_quantity?: number | null;
+  supplier_id?: string | null;
+  notes?: string;
+}
+
+export interface UpdatePartData extends Partial<CreatePartData> {
+  is_active?: boolean;
+}
+
+export interface PartFilters {
+  search?: string;
+  include_inactive?: boolean;
+}
+
+export interface Warehouse {
+  id: string;
+  name: string;
+  address?: string;
+  is_default: boolean;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateWarehouseData {
+  name: string;
+  address?: string;
+  is_default?: boolean;
+}
+
+export interface UpdateWarehouseData extends Partial<CreateWarehouseData> {
+  is_active?: boolean;
+}
+
+// Приход и возврат увеличивают остаток, корректировка по инвентаризации -
+// в обе стороны, остальные типы уменьшают
+export type StockMovementType =
+  | 'receipt'
+  | 'sale'
+  | 'write_off'
+  | 'order_consumption'
+  | 'return'
+  | 'adjustment';
+
+export interface StockMovement {
+  id: string;
+  part_id: string;
+  part?: Part;
+  warehouse_id: string;
+  warehouse?: Warehouse;
+  type: StockMovementType;
+  quantity: number;
+  unit_cost?: number;
+  parts_sale_id?: string;
+  parts_sale_item_id?: string;
+  order_item_id?: string;
+  return_item_id?: string;
+  stocktake_id?: string;
+  order_id?: string;
+  notes?: string;
+  created_by?: string;
+  created_at: string;
+}
+
+// Продажи, расход в заказ и корректировки проводятся автоматически, вручную - остальные типы.
+// Количество передается положительным, знак определяется типом
+export interface CreateStockMovementData {
+  part_id: string;
+  warehouse_id?: string;
+  type: Exclude<StockMovementType, 'sale' | 'order_consumption' | 'adjustment'>;
+  quantity: number;
+  unit_cost?: number;
+  order_id?: string;
+  notes?: string;
+}
+
+export interface StockMovementFilters {
+  part_id?: string;
+  warehouse_id?: string;
+  type?: StockMovementType;
+  order_id?: string;
+  date_from?: string;
+  date_to?: string;
+}
+
+export interface StockLevel {
+  part_id: string;
+  part_number: string;
+  brand?: string;
+  name: string;
+  unit: PartUnit;
+  purchase_price?: number;
+  retail_price?: number;
+  quantity: number;
+  stock_value: number;
+}
+
+export interface StockFilters {
+  warehouse_id?: string;
+  search?: string;
+  in_stock?: boolean;
+}
+
+// Типы инвентаризации
+export type StocktakeStatus = 'counting' | 'approved' | 'cancelled';
+
+export interface StocktakeItem {
+  id: string;
+  stocktake_id: string;
+  part_id: string;
+  part?: Part;
+  location?: string;
+  counted_quantity: number;
+  book_quantity?: number; // учетный остаток запчасти на момент ввода
+  counted_by?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface Stocktake {
+  id: string;
+  warehouse_id: string;
+  warehouse?: Warehouse;
+  status: StocktakeStatus;
+  is_full: boolean;
+  notes?: string;
+  created_by?: string;
+  approved_by?: string;
+  approved_at?: string;
+  items?: StocktakeItem[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateStocktakeData {
+  warehouse_id?: string;
+  is_full?: boolean;
+  notes?: string;
+}
+
+export interface StocktakeCountData {
+  part_id: string;
+  location?: string;
+  counted_quantity: number;
+}
+
+export interface StocktakeFilters {
+  warehouse_id?: string;
+  status?: StocktakeStatus;
+}
+
+// Строка ведомости расхождений: difference > 0 - излишек, < 0 - недостача
+export interface StocktakeVarianceLine {
+  part_id: string;
+  part_number: string;
+  brand?: string;
+  name: string;
+  unit: PartUnit;
+  locations: Array<{ location: string | null; quantity: number }>;
+  book_quantity: number;
+  counted_quantity: number;
+  difference: number;
+  unit_cost?: number;
+  difference_value: number;
+}
+
+export interface StocktakeVariance {
+  stocktake: Stocktake;
+  lines: StocktakeVarianceLine[];
+  totals: {
+    surplus_quantity: number;
+    shortage_quantity: number;
+    surplus_value: number;
+    shortage_value: number;
+    net_value: number;
+  };
+}
+
+// Типы закупок
+export interface Supplier {
+  id: string;
+  name: string;
+  contact_person?: string;
+  phone?: string;
+  email?: string;
+  address?: string;
+  delivery_days?: number;
+  notes?: string;
   is_active: boolean;
+  price_list_mapping?: PriceListMapping;
   created_at: string;
   updated_at: string;
 }
 
-export interface CreateServiceData {
+export interface CreateSupplierData {
   name: string;
-  price: number;
-  category?: string;
-  duration_minutes?: number;
-  is_active?: boolean;
+  contact_person?: string;
+  phone?: string;
+  email?: string;
+  address?: string;
+  delivery_days?: number;
+  notes?: string;
 }
 
-export interface UpdateServiceData {
-  name?: string;
-  price?: number;
-  category?: string;
-  duration_minutes?: number;
+export interface UpdateSupplierData extends Partial<CreateSupplierData> {
   is_active?: boolean;
 }
 
-// Типы заказов
-export interface OrderService {
-  service_id: string;
-  qty: number;
-  price: number;
-  name?: string;
-}
+export type PurchaseOrderStatus = 'draft' | 'ordered' | 'partially_received' | 'received' | 'cancelled';
 
-export interface OrderMaster {
+export interface PurchaseOrderItem {
   id: string;
-  order_id: string;
-  master_id: string;
-  master_name?: string;
-  percent: number;
+  purchase_order_id: string;
+  part_id: string;
+  part?: Part;
+  order_id?: string;
+  quantity: number;
+  received_quantity: number;
+  unit_cost?: number;
   created_at: string;
 }
 
-export interface Order {
+export interface PurchaseOrder {
   id: string;
-  client_id?: string;
-  client?: Client;
-  services: OrderService[];
-  parts_cost: number;
-  services_cost: number;
-  total: number;
-  status: 'новый' | 'принял' | 'диагностика' | 'в_работе' | 'ожидание_деталей' | 'готово' | 'ожидание_оплаты' | 'выдан' | 'закрыт';
+  supplier_id: string;
+  supplier?: Supplier;
+  warehouse_id: string;
+  warehouse?: Warehouse;
+  status: PurchaseOrderStatus;
+  expected_at?: string;
+  ordered_at?: string;
+  received_at?: string;
   notes?: string;
   created_by?: string;
+  items?: PurchaseOrderItem[];
   created_at: string;
   updated_at: string;
-  masters?: OrderMaster[];
 }
 
-export interface CreateOrderData {
-  client_id?: string;
-  services: OrderService[];
-  parts_cost?: number;
-  masters?: Array<{
-    master_id: string;
-    percent: number;
-  }>;
-  status?: Order['status'];
+// order_id позиции - заказ клиента, для которого заказывается деталь
+export interface PurchaseOrderItemData {
+  part_id: string;
+  order_id?: string;
+  quantity: number;
+  unit_cost?: number;
+}
+
+export interface CreatePurchaseOrderData {
+  supplier_id: string;
+  warehouse_id?: string;
+  expected_at?: string;
   notes?: string;
+  items: PurchaseOrderItemData[];
 }
 
-export interface UpdateOrderData {
-  client_id?: string;
-  services?: OrderService[];
-  parts_cost?: number;
-  status?: Order['status'];
+export interface UpdatePurchaseOrderData {
+  status?: Extract<PurchaseOrderStatus, 'ordered' | 'cancelled'>;
+  expected_at?: string;
   notes?: string;
 }
 
-export interface OrderFilters {
-  my?: boolean;
-  status?: string;
-  client_id?: string;
-  date_from?: string;
-  date_to?: string;
-  search?: string;
+export interface PurchaseOrderFilters {
+  supplier_id?: string;
+  status?: PurchaseOrderStatus;
+  order_id?: string;
+  overdue?: boolean;
 }
 
-// Типы продаж запчастей
-export interface PartsSale {
-  id: string;
-  client_name?: string;
-  client_phone?: string;
-  client_id?: string;
-  client?: Client;
-  part_name: string;
-  part_number?: string;
-  quantity: number;
+// Без items принимаются все оставшиеся позиции
+export interface ReceivePurchaseOrderData {
+  items?: Array<{ item_id: string; quantity: number }>;
+}
+
+export interface PurchaseOrderReceipt {
+  purchase_order: PurchaseOrder;
+  orders: Array<{ order_id: string; resumed: boolean }>;
+}
+
+// Запчасть ниже минимального остатка и количество к заказу
+export interface ReorderSuggestion {
+  part_id: string;
+  part_number: string;
+  brand?: string;
+  name: string;
+  unit: PartUnit;
+  min_quantity: number;
+  max_quantity?: number;
+  // Остаток по всем складам, запчасти открытых заказов уже списаны
+  stock: number;
+  on_order: number;
+  avg_daily_consumption: number;
+  lead_days: number;
+  projected: number;
+  order_quantity: number;
+  supplier_id?: string;
+  supplier_name?: string;
+  unit_cost?: number;
+}
+
+export interface ReorderResult {
+  suggestions: ReorderSuggestion[];
+  purchase_orders: Array<{ purchase_order_id: string; supplier_id: string; items_count: number }>;
+  without_supplier: ReorderSuggestion[];
+}
+
+// Типы прайс-листов поставщиков
+export type PriceListField =
+  | 'part_number'
+  | 'brand'
+  | 'name'
+  | 'price'
+  | 'quantity'
+  | 'delivery_days'
+  | 'oem_number';
+
+// Поле -> заголовок колонки файла
+export type PriceListMapping = Partial<Record<PriceListField, string>>;
+
+export interface PriceListError {
+  row: number;
+  field?: PriceListField;
+  value?: string;
+  message: string;
+}
+
+export interface PriceListOffer {
+  part_number: string;
+  brand?: string;
+  name?: string;
   price: number;
-  discount: number;
-  total: number;
-  seller_id?: string;
-  seller?: User;
-  notes?: string;
+  quantity?: number;
+  delivery_days?: number;
+  oem_number?: string;
+}
+
+export interface PriceListImport {
+  id?: string;
+  supplier_id: string;
+  file_name: string;
+  headers?: string[];
+  mapping: PriceListMapping;
+  status: 'dry_run' | 'importing' | 'completed' | 'failed';
+  total_rows: number;
+  valid_rows?: number;
+  imported_rows: number;
+  cross_rows: number;
+  errors: PriceListError[];
+  preview?: PriceListOffer[];
+  created_by?: string;
+  created_at?: string;
+  completed_at?: string;
+}
+
+export interface BrandAlias {
+  id: string;
+  alias: string;
+  brand: string;
   created_at: string;
 }
 
-export interface CreatePartsSaleData {
-  client_name?: string;
-  client_phone?: string;
-  client_id?: string;
-  part_name: string;
-  part_number?: string;
-  quantity: number;
-  price: number;
-  discount?: number;
-  notes?: string;
+export interface CreateBrandAliasData {
+  alias: string;
+  brand: string;
 }
 
-export interface UpdatePartsSaleData {
-  client_name?: string;
-  client_phone?: string;
-  client_id?: string;
-  part_name?: string;
-  part_number?: string;
+export interface PartCross {
+  id: string;
+  part_number: string;
+  brand?: string;
+  cross_number: string;
+  cross_brand?: string;
+  source: 'manual' | 'price_list';
+  created_by?: string;
+  created_at: string;
+}
+
+export interface CreatePartCrossData {
+  part_number: string;
+  brand?: string;
+  cross_number: string;
+  cross_brand?: string;
+}
+
+export interface SupplierOffer {
+  id: string;
+  supplier_id: string;
+  supplier_name: string;
+  part_number: string;
+  brand?: string;
+  name?: string;
+  price: number;
   quantity?: number;
-  price?: number;
-  discount?: number;
-  notes?: string;
+  delivery_days?: number;
+  is_cross: boolean;
+  price_list_date: string;
 }
 
-export interface PartsSaleFilters {
-  date_from?: string;
-  date_to?: string;
-  seller_id?: string;
-  client_phone?: string;
-  search?: string;
+// Самое дешевое предложение и все найденные по возрастанию цены
+export interface PartOfferSearch {
+  part_number: string;
+  brand?: string;
+  cheapest?: SupplierOffer;
+  offers: SupplierOffer[];
 }
 
 // Типы долгов
@@ -264,8 +1266,9 @@ export interface Payment {
   parts_sale?: PartsSale;
   debt_id?: string;
   debt?: Debt;
-  amount: number;
-  type: 'наличные' | 'карта' | 'перевод' | 'терминал';
+  return_id?: string;
+  amount: number; // Возврат денег - отрицательная сумма
+  type: 'наличные' | 'карта' | 'перевод' | 'терминал' | 'бонусы';
   notes?: string;
   created_by?: string;
   created_at: string;
@@ -288,6 +1291,124 @@ export interface PaymentFilters {
   client_id?: string;
 }
 
+// Типы возвратов
+export interface ReturnItem {
+  id: string;
+  return_id: string;
+  parts_sale_item_id?: string;
+  order_item_id?: string;
+  part_id?: string;
+  name: string;
+  quantity: number;
+  amount: number;
+  restock: boolean;
+  created_at: string;
+}
+
+export interface ReturnDocument {
+  id: string;
+  parts_sale_id?: string;
+  order_id?: string;
+  warehouse_id?: string;
+  total: number;
+  reason?: string;
+  created_by?: string;
+  items?: ReturnItem[];
+  payments?: Payment[];
+  created_at: string;
+}
+
+// item_id - строка продажи или позиция заказа. Без amount возвращается
+// доля строки в итоге документа
+export interface ReturnItemData {
+  item_id: string;
+  quantity: number;
+  amount?: number;
+  restock?: boolean;
+}
+
+export interface RefundData {
+  type: Payment['type'];
+  amount: number;
+}
+
+export interface CreateReturnData {
+  parts_sale_id?: string;
+  order_id?: string;
+  warehouse_id?: string;
+  reason?: string;
+  items: ReturnItemData[];
+  refunds?: RefundData[];
+}
+
+export interface ReturnFilters {
+  parts_sale_id?: string;
+  order_id?: string;
+  date_from?: string;
+  date_to?: string;
+}
+
+// Типы программы лояльности
+export interface LoyaltyTier {
+  id: string;
+  name: string;
+  min_spend: number;
+  discount_percent: number;
+  points_percent: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateLoyaltyTierData {
+  name: string;
+  min_spend: number;
+  discount_percent?: number;
+  points_percent?: number;
+}
+
+export interface UpdateLoyaltyTierData {
+  name?: string;
+  min_spend?: number;
+  discount_percent?: number;
+  points_percent?: number;
+}
+
+export interface LoyaltyTransaction {
+  id: string;
+  client_id: string;
+  type: 'accrual' | 'redemption' | 'refund' | 'adjustment' | 'reversal';
+  points: number;
+  order_id?: string;
+  parts_sale_id?: string;
+  payment_id?: string;
+  notes?: string;
+  created_by?: string;
+  created_at: string;
+}
+
+export interface LoyaltyAdjustmentData {
+  points: number;
+  notes: string;
+}
+
+export interface BonusRedemptionData {
+  order_id?: string;
+  parts_sale_id?: string;
+  debt_id?: string;
+  amount: number;
+  notes?: string;
+}
+
+export interface ClientLoyalty {
+  client_id: string;
+  tier?: LoyaltyTier;
+  next_tier?: LoyaltyTier;
+  lifetime_value: number;
+  to_next_tier?: number;
+  bonus_points: number;
+  transactions: LoyaltyTransaction[];
+}
+
 // Типы зарплат
 export interface Salary {
   id: string;
@@ -299,6 +1420,8 @@ export interface Salary {
   paid: boolean;
   paid_at?: string;
   week_period: string;
+  // Сторно за возврат - отрицательная сумма
+  return_id?: string;
   notes?: string;
   created_at: string;
 }
@@ -420,6 +1543,7 @@ export interface CashflowData {
   period: string;
   dates: string[];
   revenue: number[];
+  refunds: number[];
   expenses: number[];
   profit: number[];
 }
@@ -529,6 +1653,47 @@ export interface ExportOptions {
   filters?: any;
 }
 
+// Типы печатных документов
+export type OrderDocumentType = 'work_order' | 'act' | 'receipt';
+
+export interface CompanyRequisites {
+  name: string;
+  legal_name?: string;
+  inn?: string;
+  kpp?: string;
+  ogrn?: string;
+  address?: string;
+  phone?: string;
+  email?: string;
+  bank_name?: string;
+  bank_account?: string;
+  bik?: string;
+  corr_account?: string;
+  director_name?: string;
+}
+
+export interface DocumentTemplate {
+  title: string; // поддерживает {order_id}, {date}, {company}, {client}, {total}
+  header?: string;
+  footer?: string;
+  signatures: string[];
+}
+
+export interface DocumentsConfig {
+  company: CompanyRequisites;
+  templates: Record<OrderDocumentType, DocumentTemplate>;
+  fonts: {
+    regular: string;
+    bold: string;
+  };
+}
+
+export interface OrderDocumentData {
+  order: Order;
+  masters: Array<{ full_name: string; percent: number }>;
+  payments: Payment[];
+}
+
 // Типы для поиска
 export interface SearchParams {
   query?: string;
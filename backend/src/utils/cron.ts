@@ -1,6 +1,8 @@
 import * as cron from 'node-cron';
 import { supabase } from '@/config/database';
 import { logger, logBusiness } from '@/utils/logger';
+import { createServiceReminders } from '@/services/reminderService';
+import { createReorderDrafts } from '@/services/reorderService';
 
 // Ежедневный расчет зарплат в 20:00
 const salaryCalculationJob = cron.schedule('0 20 * * *', async () => {
@@ -210,6 +212,42 @@ const dataArchivingJob = cron.schedule('0 3 1 * *', async () => {
   timezone: 'Europe/Moscow'
 });
 
+// Ежедневные напоминания о плановом обслуживании в 9:00
+const serviceReminderJob = cron.schedule('0 9 * * *', async () => {
+  logger.info('Запуск расчета планового обслуживания');
+
+  try {
+    const created = await createServiceReminders();
+
+    logBusiness('Напоминания о плановом обслуживании созданы', undefined, { created });
+  } catch (error) {
+    logger.error('Ошибка в cron задаче планового обслуживания:', error);
+  }
+}, {
+  scheduled: true,
+  timezone: 'Europe/Moscow'
+});
+
+// Ежедневный автозаказ запчастей ниже минимального остатка в 8:00
+const lowStockJob = cron.schedule('0 8 * * *', async () => {
+  logger.info('Запуск проверки минимальных остатков');
+
+  try {
+    const result = await createReorderDrafts();
+
+    logBusiness('Проверка минимальных остатков завершена', undefined, {
+      parts: result.suggestions.length,
+      purchaseOrders: result.purchase_orders.length,
+      withoutSupplier: result.without_supplier.length
+    });
+  } catch (error) {
+    logger.error('Ошибка в cron задаче минимальных остатков:', error);
+  }
+}, {
+  scheduled: true,
+  timezone: 'Europe/Moscow'
+});
+
 // Функция для запуска всех cron задач
 export function setupCronJobs(): void {
   logger.info('Настройка cron задач');
@@ -219,6 +257,8 @@ export function setupCronJobs(): void {
   notificationCleanupJob.start();
   statsUpdateJob.start();
   dataArchivingJob.start();
+  serviceReminderJob.start();
+  lowStockJob.start();
   
   logger.info('Cron задачи успешно запущены');
 }
@@ -231,6 +271,8 @@ export function stopCronJobs(): void {
   notificationCleanupJob.stop();
   statsUpdateJob.stop();
   dataArchivingJob.stop();
+  serviceReminderJob.stop();
+  lowStockJob.stop();
   
   logger.info('Cron задачи остановлены');
 }
@@ -254,7 +296,9 @@ export function getCronJobsStatus(): any {
     salaryCalculation: salaryCalculationJob.running,
     notificationCleanup: notificationCleanupJob.running,
     statsUpdate: statsUpdateJob.running,
-    dataArchiving: dataArchivingJob.running
+    dataArchiving: dataArchivingJob.running,
+    serviceReminders: serviceReminderJob.running,
+    lowStock: lowStockJob.running
   };
 }
 
@@ -0,0 +1,95 @@
+import ExcelJS from 'exceljs';
+import { Readable } from 'stream';
+import { ValidationError } from '@/middleware/errorHandler';
+import { ImportFileRow } from '@/types';
+import { logger } from '@/utils/logger';
+
+// CSV из Excel часто сохранен в Windows-1251
+function decodeText(buffer: Buffer): string {
+  let text: string;
+
+  try {
+    text = new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+  } catch {
+    text = new TextDecoder('windows-1251').decode(buffer);
+  }
+
+  return text.replace(/^\uFEFF/, '');
+}
+
+// Разделитель CSV по первой строке: ";", "," или табуляция
+function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+
+  return [';', ',', '\t']
+    .map(delimiter => ({ delimiter, count: firstLine.split(delimiter).length }))
+    .sort((a, b) => b.count - a.count)[0]?.delimiter || ',';
+}
+
+// Чтение первого листа XLSX или CSV. Первая строка - заголовки
+export async function parseImportFile(
+  buffer: Buffer,
+  fileName: string,
+  maxRows: number
+): Promise<{ headers: string[]; rows: ImportFileRow[] }> {
+  const workbook = new ExcelJS.Workbook();
+  const extension = fileName.toLowerCase().split('.').pop();
+  let worksheet: ExcelJS.Worksheet | undefined;
+
+  try {
+    if (extension === 'xlsx') {
+      // Тип Buffer в exceljs объявлен иначе, чем в @types/node
+      await workbook.xlsx.load(buffer as unknown as ExcelJS.Buffer);
+      worksheet = workbook.worksheets[0];
+    } else if (extension === 'csv') {
+      const text = decodeText(buffer);
+      // Значения читаются как строки: иначе теряются ведущие нули и "+" в телефонах
+      worksheet = await workbook.csv.read(Readable.from([text]), {
+        parserOptions: { delimiter: detectDelimiter(text) },
+        map: (value: string) => value
+      });
+    } else {
+      throw new ValidationError('Поддерживаются файлы CSV и XLSX');
+    }
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      throw error;
+    }
+    logger.error('Ошибка чтения файла импорта:', error);
+    throw new ValidationError('Не удалось прочитать файл');
+  }
+
+  if (!worksheet || worksheet.rowCount < 2) {
+    throw new ValidationError('Файл не содержит данных');
+  }
+
+  const columnCount = worksheet.columnCount;
+  const readValues = (row: ExcelJS.Row): string[] =>
+    Array.from({ length: columnCount }, (_, index) => row.getCell(index + 1).text.trim());
+
+  const headers = readValues(worksheet.getRow(1))
+    .map((header, index) => header || `Колонка ${index + 1}`);
+
+  const rows: ImportFileRow[] = [];
+  worksheet.eachRow((row, rowNumber) => {
+    const values = readValues(row);
+    if (rowNumber > 1 && values.some(value => value !== '')) {
+      rows.push({ row: rowNumber, values });
+    }
+  });
+
+  if (rows.length === 0) {
+    throw new ValidationError('Файл не содержит данных');
+  }
+
+  if (rows.length > maxRows) {
+    throw new ValidationError(`В файле больше ${maxRows} строк, разделите его на части`);
+  }
+
+  return { headers, rows };
+}
+
+// Заголовок в виде для сравнения с синонимами: нижний регистр, одиночные пробелы
+export function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/\s+/g, ' ').trim();
+}
@@ -0,0 +1,16 @@
+// Телефон в формате E.164: "+" и цифры без пробелов, скобок и дефисов.
+// Российские номера 8XXXXXXXXXX, 7XXXXXXXXXX и 9XXXXXXXXX (без кода страны)
+// приводятся к +7XXXXXXXXXX. Логика совпадает с normalize_phone в БД
+export function normalizePhone(phone: string): string {
+  let digits = phone.replace(/\D/g, '');
+
+  if (!phone.trim().startsWith('+')) {
+    if (/^[78]\d{10}$/.test(digits)) {
+      digits = `7${digits.slice(1)}`;
+    } else if (/^9\d{9}$/.test(digits)) {
+      digits = `7${digits}`;
+    }
+  }
+
+  return `+${digits}`;
+}
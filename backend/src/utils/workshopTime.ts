@@ -0,0 +1,74 @@
+// Рабочие часы мастеров и слоты записи задаются по местному времени
+// автосервиса и не зависят от часового пояса сервера
+export const WORKSHOP_TIMEZONE = 'Europe/Moscow';
+
+export interface WorkshopTime {
+  // Дата в формате YYYY-MM-DD
+  date: string;
+  // День недели по ISO: 1 - понедельник, 7 - воскресенье
+  weekday: number;
+  // Минуты от начала дня
+  minutes: number;
+}
+
+const formatter = new Intl.DateTimeFormat('en-US', {
+  timeZone: WORKSHOP_TIMEZONE,
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+  second: '2-digit',
+  hourCycle: 'h23'
+});
+
+function getParts(date: Date) {
+  const values = new Map(
+    formatter.formatToParts(date).map(part => [part.type, Number(part.value)])
+  );
+
+  return {
+    year: values.get('year') ?? 0,
+    month: values.get('month') ?? 1,
+    day: values.get('day') ?? 1,
+    hour: values.get('hour') ?? 0,
+    minute: values.get('minute') ?? 0,
+    second: values.get('second') ?? 0
+  };
+}
+
+// Смещение времени автосервиса от UTC в минутах на момент date
+function getOffsetMinutes(date: Date): number {
+  const parts = getParts(date);
+  const local = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return Math.round((local - date.getTime()) / 60000);
+}
+
+// Дата, день недели и время момента по часам автосервиса
+export function getWorkshopTime(date: Date): WorkshopTime {
+  const parts = getParts(date);
+
+  return {
+    date: [
+      parts.year,
+      String(parts.month).padStart(2, '0'),
+      String(parts.day).padStart(2, '0')
+    ].join('-'),
+    weekday: new Date(Date.UTC(parts.year, parts.month - 1, parts.day)).getUTCDay() || 7,
+    minutes: parts.hour * 60 + parts.minute
+  };
+}
+
+// Начало дня YYYY-MM-DD по времени автосервиса. Для неверной даты - Invalid Date
+export function getWorkshopDayStart(date: string): Date {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date);
+  if (!match) {
+    return new Date(NaN);
+  }
+
+  const midnightUtc = Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  const guess = new Date(midnightUtc - getOffsetMinutes(new Date(midnightUtc)) * 60000);
+
+  // Смещение могло смениться между полуночью UTC и местной полуночью
+  return new Date(midnightUtc - getOffsetMinutes(guess) * 60000);
+}
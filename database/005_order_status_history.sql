@@ -0,0 +1,37 @@
+-- История смены статусов заказов
+CREATE TABLE IF NOT EXISTS order_status_history (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    order_id VARCHAR(10) REFERENCES orders(id) ON DELETE CASCADE,
+    from_status VARCHAR(20), -- NULL для записи о создании заказа
+    to_status VARCHAR(20) NOT NULL CHECK (
+        to_status IN ('новый', 'принял', 'диагностика', 'в_работе', 'ожидание_деталей', 'готово', 'ожидание_оплаты', 'выдан', 'закрыт')
+    ),
+    changed_by UUID REFERENCES masters(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Индексы для истории статусов
+CREATE INDEX IF NOT EXISTS idx_order_status_history_order_id ON order_status_history(order_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_order_status_history_to_status ON order_status_history(to_status);
+
+-- RLS для истории статусов
+ALTER TABLE order_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Мастера видят историю своих заказов" ON order_status_history
+    FOR SELECT USING (
+        auth.jwt() ->> 'role' IN ('admin', 'director') OR
+        order_id IN (
+            SELECT order_id FROM order_masters WHERE master_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Система может записывать историю статусов" ON order_status_history
+    FOR INSERT WITH CHECK (true);
+
+-- Начальные записи для уже существующих заказов
+INSERT INTO order_status_history (order_id, from_status, to_status, changed_by, created_at)
+SELECT o.id, NULL, o.status, o.created_by, o.created_at
+FROM orders o
+WHERE NOT EXISTS (
+    SELECT 1 FROM order_status_history h WHERE h.order_id = o.id
+);
@@ -0,0 +1,122 @@
+-- Транзакционные операции с заказами.
+-- Каждая функция выполняется в одной транзакции: заказ, мастера, стоимость
+-- и история статусов сохраняются вместе или не сохраняются вовсе.
+
+-- Расчет стоимости услуг заказа из JSONB
+CREATE OR REPLACE FUNCTION calculate_services_cost(p_services JSONB)
+RETURNS DECIMAL(10,2) AS $$
+    SELECT COALESCE(SUM(
+        COALESCE((item ->> 'price')::DECIMAL, 0) * COALESCE((item ->> 'qty')::DECIMAL, 1)
+    ), 0)::DECIMAL(10,2)
+    FROM jsonb_array_elements(COALESCE(p_services, '[]'::JSONB)) AS item;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Замена распределения мастеров с проверкой суммы процентов
+CREATE OR REPLACE FUNCTION replace_order_masters(
+    p_order_id VARCHAR(10),
+    p_masters JSONB
+)
+RETURNS VOID AS $$
+DECLARE
+    total_percent DECIMAL;
+BEGIN
+    IF p_masters IS NULL OR jsonb_array_length(p_masters) = 0 THEN
+        RAISE EXCEPTION 'Мастера обязательны' USING ERRCODE = '22023';
+    END IF;
+
+    SELECT COALESCE(SUM((master ->> 'percent')::DECIMAL), 0)
+    INTO total_percent
+    FROM jsonb_array_elements(p_masters) AS master;
+
+    IF ABS(total_percent - 100) > 0.01 THEN
+        RAISE EXCEPTION 'Сумма процентов мастеров должна быть равна 100%%' USING ERRCODE = '22023';
+    END IF;
+
+    DELETE FROM order_masters WHERE order_id = p_order_id;
+
+    INSERT INTO order_masters (order_id, master_id, percent)
+    SELECT p_order_id, (master ->> 'master_id')::UUID, (master ->> 'percent')::DECIMAL
+    FROM jsonb_array_elements(p_masters) AS master;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Создание заказа вместе с мастерами и первой записью истории статусов
+CREATE OR REPLACE FUNCTION create_order_with_masters(
+    p_order JSONB,
+    p_masters JSONB,
+    p_created_by UUID DEFAULT NULL
+)
+RETURNS VARCHAR(10) AS $$
+DECLARE
+    new_order orders%ROWTYPE;
+BEGIN
+    INSERT INTO orders (client_id, services, parts_cost, services_cost, status, notes, created_by)
+    VALUES (
+        (p_order ->> 'client_id')::UUID,
+        COALESCE(p_order -> 'services', '[]'::JSONB),
+        COALESCE((p_order ->> 'parts_cost')::DECIMAL, 0),
+        calculate_services_cost(p_order -> 'services'),
+        COALESCE(p_order ->> 'status', 'новый'),
+        p_order ->> 'notes',
+        p_created_by
+    )
+    RETURNING * INTO new_order;
+
+    PERFORM replace_order_masters(new_order.id, p_masters);
+
+    INSERT INTO order_status_history (order_id, from_status, to_status, changed_by)
+    VALUES (new_order.id, NULL, new_order.status, p_created_by);
+
+    RETURN new_order.id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Обновление заказа: меняются только переданные в p_changes поля,
+-- мастера заменяются если переданы, смена статуса пишется в историю
+CREATE OR REPLACE FUNCTION update_order_with_masters(
+    p_order_id VARCHAR(10),
+    p_changes JSONB,
+    p_masters JSONB DEFAULT NULL,
+    p_changed_by UUID DEFAULT NULL
+)
+RETURNS VARCHAR(10) AS $$
+DECLARE
+    current_order orders%ROWTYPE;
+    new_status VARCHAR(20);
+BEGIN
+    SELECT * INTO current_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Заказ % не найден', p_order_id USING ERRCODE = 'P0002';
+    END IF;
+
+    p_changes := COALESCE(p_changes, '{}'::JSONB);
+    new_status := COALESCE(p_changes ->> 'status', current_order.status);
+
+    UPDATE orders SET
+        client_id = CASE WHEN p_changes ? 'client_id'
+            THEN (p_changes ->> 'client_id')::UUID ELSE client_id END,
+        services = CASE WHEN p_changes ? 'services'
+            THEN p_changes -> 'services' ELSE services END,
+        services_cost = CASE WHEN p_changes ? 'services'
+            THEN calculate_services_cost(p_changes -> 'services') ELSE services_cost END,
+        parts_cost = CASE WHEN p_changes ? 'parts_cost'
+            THEN (p_changes ->> 'parts_cost')::DECIMAL ELSE parts_cost END,
+        notes = CASE WHEN p_changes ? 'notes'
+            THEN p_changes ->> 'notes' ELSE notes END,
+        status = new_status,
+        updated_at = NOW()
+    WHERE id = p_order_id;
+
+    IF p_masters IS NOT NULL THEN
+        PERFORM replace_order_masters(p_order_id, p_masters);
+    END IF;
+
+    IF new_status IS DISTINCT FROM current_order.status THEN
+        INSERT INTO order_status_history (order_id, from_status, to_status, changed_by)
+        VALUES (p_order_id, current_order.status, new_status, p_changed_by);
+    END IF;
+
+    RETURN p_order_id;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,76 @@
+-- Версия заказа для оптимистичной блокировки
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+
+-- Функция увеличения версии при любом изменении заказа
+CREATE OR REPLACE FUNCTION increment_order_version()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.version := OLD.version + 1;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Триггер для увеличения версии заказа
+CREATE TRIGGER trigger_increment_order_version
+    BEFORE UPDATE ON orders
+    FOR EACH ROW
+    EXECUTE FUNCTION increment_order_version();
+
+-- Обновление заказа с проверкой версии: если p_expected_version передана
+-- и не совпадает с текущей, изменения отклоняются
+DROP FUNCTION IF EXISTS update_order_with_masters(VARCHAR, JSONB, JSONB, UUID);
+
+CREATE OR REPLACE FUNCTION update_order_with_masters(
+    p_order_id VARCHAR(10),
+    p_changes JSONB,
+    p_masters JSONB DEFAULT NULL,
+    p_changed_by UUID DEFAULT NULL,
+    p_expected_version INTEGER DEFAULT NULL
+)
+RETURNS VARCHAR(10) AS $$
+DECLARE
+    current_order orders%ROWTYPE;
+    new_status VARCHAR(20);
+BEGIN
+    SELECT * INTO current_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Заказ % не найден', p_order_id USING ERRCODE = 'P0002';
+    END IF;
+
+    IF p_expected_version IS NOT NULL AND p_expected_version <> current_order.version THEN
+        RAISE EXCEPTION 'Заказ % был изменен (версия %, ожидалась %)',
+            p_order_id, current_order.version, p_expected_version
+            USING ERRCODE = '40001';
+    END IF;
+
+    p_changes := COALESCE(p_changes, '{}'::JSONB);
+    new_status := COALESCE(p_changes ->> 'status', current_order.status);
+
+    UPDATE orders SET
+        client_id = CASE WHEN p_changes ? 'client_id'
+            THEN (p_changes ->> 'client_id')::UUID ELSE client_id END,
+        services = CASE WHEN p_changes ? 'services'
+            THEN p_changes -> 'services' ELSE services END,
+        services_cost = CASE WHEN p_changes ? 'services'
+            THEN calculate_services_cost(p_changes -> 'services') ELSE services_cost END,
+        parts_cost = CASE WHEN p_changes ? 'parts_cost'
+            THEN (p_changes ->> 'parts_cost')::DECIMAL ELSE parts_cost END,
+        notes = CASE WHEN p_changes ? 'notes'
+            THEN p_changes ->> 'notes' ELSE notes END,
+        status = new_status,
+        updated_at = NOW()
+    WHERE id = p_order_id;
+
+    IF p_masters IS NOT NULL THEN
+        PERFORM replace_order_masters(p_order_id, p_masters);
+    END IF;
+
+    IF new_status IS DISTINCT FROM current_order.status THEN
+        INSERT INTO order_status_history (order_id, from_status, to_status, changed_by)
+        VALUES (p_order_id, current_order.status, new_status, p_changed_by);
+    END IF;
+
+    RETURN p_order_id;
+END;
+$$ LANGUAGE plpgsql;
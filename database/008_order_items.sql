@@ -0,0 +1,265 @@
+-- Позиции заказа: услуги и запчасти.
+-- services_cost и parts_cost заказа вычисляются из позиций,
+-- колонка orders.services остается зеркалом услуг для старых клиентов API.
+CREATE TABLE IF NOT EXISTS order_items (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    order_id VARCHAR(10) REFERENCES orders(id) ON DELETE CASCADE,
+    type VARCHAR(10) NOT NULL CHECK (type IN ('service', 'part')),
+    service_id UUID REFERENCES services(id) ON DELETE SET NULL,
+    name VARCHAR(255) NOT NULL,
+    part_number VARCHAR(100),
+    quantity DECIMAL(10,2) NOT NULL DEFAULT 1 CHECK (quantity > 0),
+    purchase_price DECIMAL(10,2) CHECK (purchase_price >= 0),
+    price DECIMAL(10,2) NOT NULL CHECK (price >= 0),
+    total DECIMAL(10,2) GENERATED ALWAYS AS (quantity * price) STORED,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CHECK (type = 'part' OR part_number IS NULL)
+);
+
+-- Индексы для позиций заказа
+CREATE INDEX IF NOT EXISTS idx_order_items_order_id ON order_items(order_id);
+CREATE INDEX IF NOT EXISTS idx_order_items_service_id ON order_items(service_id);
+CREATE INDEX IF NOT EXISTS idx_order_items_part_number ON order_items(part_number);
+
+-- RLS для позиций заказа
+ALTER TABLE order_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Мастера видят позиции своих заказов" ON order_items
+    FOR SELECT USING (
+        auth.jwt() ->> 'role' IN ('admin', 'director') OR
+        order_id IN (
+            SELECT order_id FROM order_masters WHERE master_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Админ и директор могут управлять позициями" ON order_items
+    FOR ALL USING (
+        auth.jwt() ->> 'role' IN ('admin', 'director')
+    );
+
+-- Позиции в формате JSONB из старого формата заказа (services + parts_cost)
+CREATE OR REPLACE FUNCTION legacy_order_items(
+    p_services JSONB,
+    p_parts_cost DECIMAL
+)
+RETURNS JSONB AS $$
+    SELECT COALESCE(jsonb_agg(item), '[]'::JSONB)
+    FROM (
+        SELECT jsonb_build_object(
+            'type', 'service',
+            'service_id', service ->> 'service_id',
+            'name', COALESCE(service ->> 'name', 'Услуга'),
+            'quantity', COALESCE((service ->> 'qty')::DECIMAL, 1),
+            'price', COALESCE((service ->> 'price')::DECIMAL, 0)
+        ) AS item
+        FROM jsonb_array_elements(COALESCE(p_services, '[]'::JSONB)) AS service
+        UNION ALL
+        SELECT jsonb_build_object(
+            'type', 'part',
+            'name', 'Запчасти',
+            'quantity', 1,
+            'price', p_parts_cost
+        )
+        WHERE COALESCE(p_parts_cost, 0) > 0
+    ) AS items;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Стоимость позиций заданного типа из JSONB
+CREATE OR REPLACE FUNCTION calculate_items_cost(p_items JSONB, p_type VARCHAR)
+RETURNS DECIMAL(10,2) AS $$
+    SELECT COALESCE(SUM(
+        COALESCE((item ->> 'quantity')::DECIMAL, 1) * COALESCE((item ->> 'price')::DECIMAL, 0)
+    ), 0)::DECIMAL(10,2)
+    FROM jsonb_array_elements(COALESCE(p_items, '[]'::JSONB)) AS item
+    WHERE item ->> 'type' = p_type;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Услуги из JSONB позиций в формате колонки orders.services
+CREATE OR REPLACE FUNCTION items_services_json(p_items JSONB)
+RETURNS JSONB AS $$
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'service_id', item -> 'service_id',
+        'name', item -> 'name',
+        'qty', COALESCE(item -> 'quantity', '1'::JSONB),
+        'price', item -> 'price'
+    )), '[]'::JSONB)
+    FROM jsonb_array_elements(COALESCE(p_items, '[]'::JSONB)) AS item
+    WHERE item ->> 'type' = 'service';
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Стоимость сохраненных позиций заказа заданного типа
+CREATE OR REPLACE FUNCTION order_items_cost(p_order_id VARCHAR(10), p_type VARCHAR)
+RETURNS DECIMAL(10,2) AS $$
+    SELECT COALESCE(SUM(total), 0)::DECIMAL(10,2)
+    FROM order_items
+    WHERE order_id = p_order_id AND type = p_type;
+$$ LANGUAGE sql STABLE;
+
+-- Услуги заказа в формате колонки orders.services
+CREATE OR REPLACE FUNCTION order_items_services_json(p_order_id VARCHAR(10))
+RETURNS JSONB AS $$
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'service_id', service_id,
+        'name', name,
+        'qty', quantity,
+        'price', price
+    ) ORDER BY created_at), '[]'::JSONB)
+    FROM order_items
+    WHERE order_id = p_order_id AND type = 'service';
+$$ LANGUAGE sql STABLE;
+
+-- Замена позиций заказа (всех или только заданного типа)
+CREATE OR REPLACE FUNCTION replace_order_items(
+    p_order_id VARCHAR(10),
+    p_items JSONB,
+    p_type VARCHAR DEFAULT NULL
+)
+RETURNS VOID AS $$
+BEGIN
+    DELETE FROM order_items
+    WHERE order_id = p_order_id AND (p_type IS NULL OR type = p_type);
+
+    INSERT INTO order_items (order_id, type, service_id, name, part_number, quantity, purchase_price, price)
+    SELECT
+        p_order_id,
+        item ->> 'type',
+        (item ->> 'service_id')::UUID,
+        item ->> 'name',
+        item ->> 'part_number',
+        COALESCE((item ->> 'quantity')::DECIMAL, 1),
+        (item ->> 'purchase_price')::DECIMAL,
+        (item ->> 'price')::DECIMAL
+    FROM jsonb_array_elements(COALESCE(p_items, '[]'::JSONB)) AS item
+    WHERE p_type IS NULL OR item ->> 'type' = p_type;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Перенос существующих заказов в позиции
+INSERT INTO order_items (order_id, type, service_id, name, quantity, price)
+SELECT
+    o.id,
+    item ->> 'type',
+    (item ->> 'service_id')::UUID,
+    item ->> 'name',
+    (item ->> 'quantity')::DECIMAL,
+    (item ->> 'price')::DECIMAL
+FROM orders o
+CROSS JOIN LATERAL jsonb_array_elements(legacy_order_items(o.services, o.parts_cost)) AS item
+WHERE NOT EXISTS (SELECT 1 FROM order_items oi WHERE oi.order_id = o.id);
+
+-- Создание заказа с позициями, мастерами и первой записью истории статусов.
+-- Если p_items не передан, позиции строятся из services и parts_cost
+DROP FUNCTION IF EXISTS create_order_with_masters(JSONB, JSONB, UUID);
+
+CREATE OR REPLACE FUNCTION create_order_with_masters(
+    p_order JSONB,
+    p_masters JSONB,
+    p_created_by UUID DEFAULT NULL,
+    p_items JSONB DEFAULT NULL
+)
+RETURNS VARCHAR(10) AS $$
+DECLARE
+    new_order orders%ROWTYPE;
+    items JSONB;
+BEGIN
+    items := COALESCE(
+        p_items,
+        legacy_order_items(p_order -> 'services', (p_order ->> 'parts_cost')::DECIMAL)
+    );
+
+    INSERT INTO orders (client_id, services, parts_cost, services_cost, status, notes, created_by)
+    VALUES (
+        (p_order ->> 'client_id')::UUID,
+        items_services_json(items),
+        calculate_items_cost(items, 'part'),
+        calculate_items_cost(items, 'service'),
+        COALESCE(p_order ->> 'status', 'новый'),
+        p_order ->> 'notes',
+        p_created_by
+    )
+    RETURNING * INTO new_order;
+
+    PERFORM replace_order_items(new_order.id, items);
+
+    PERFORM replace_order_masters(new_order.id, p_masters);
+
+    INSERT INTO order_status_history (order_id, from_status, to_status, changed_by)
+    VALUES (new_order.id, NULL, new_order.status, p_created_by);
+
+    RETURN new_order.id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Обновление заказа с проверкой версии. Позиции заменяются из p_items;
+-- без p_items поля services и parts_cost заменяют позиции соответствующего типа
+DROP FUNCTION IF EXISTS update_order_with_masters(VARCHAR, JSONB, JSONB, UUID, INTEGER);
+
+CREATE OR REPLACE FUNCTION update_order_with_masters(
+    p_order_id VARCHAR(10),
+    p_changes JSONB,
+    p_masters JSONB DEFAULT NULL,
+    p_changed_by UUID DEFAULT NULL,
+    p_expected_version INTEGER DEFAULT NULL,
+    p_items JSONB DEFAULT NULL
+)
+RETURNS VARCHAR(10) AS $$
+DECLARE
+    current_order orders%ROWTYPE;
+    new_status VARCHAR(20);
+BEGIN
+    SELECT * INTO current_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Заказ % не найден', p_order_id USING ERRCODE = 'P0002';
+    END IF;
+
+    IF p_expected_version IS NOT NULL AND p_expected_version <> current_order.version THEN
+        RAISE EXCEPTION 'Заказ % был изменен (версия %, ожидалась %)',
+            p_order_id, current_order.version, p_expected_version
+            USING ERRCODE = '40001';
+    END IF;
+
+    p_changes := COALESCE(p_changes, '{}'::JSONB);
+    new_status := COALESCE(p_changes ->> 'status', current_order.status);
+
+    IF p_items IS NOT NULL THEN
+        PERFORM replace_order_items(p_order_id, p_items);
+    ELSE
+        IF p_changes ? 'services' THEN
+            PERFORM replace_order_items(
+                p_order_id, legacy_order_items(p_changes -> 'services', NULL), 'service'
+            );
+        END IF;
+
+        IF p_changes ? 'parts_cost' THEN
+            PERFORM replace_order_items(
+                p_order_id, legacy_order_items(NULL, (p_changes ->> 'parts_cost')::DECIMAL), 'part'
+            );
+        END IF;
+    END IF;
+
+    UPDATE orders SET
+        client_id = CASE WHEN p_changes ? 'client_id'
+            THEN (p_changes ->> 'client_id')::UUID ELSE client_id END,
+        services = order_items_services_json(p_order_id),
+        services_cost = order_items_cost(p_order_id, 'service'),
+        parts_cost = order_items_cost(p_order_id, 'part'),
+        notes = CASE WHEN p_changes ? 'notes'
+            THEN p_changes ->> 'notes' ELSE notes END,
+        status = new_status,
+        updated_at = NOW()
+    WHERE id = p_order_id;
+
+    IF p_masters IS NOT NULL THEN
+        PERFORM replace_order_masters(p_order_id, p_masters);
+    END IF;
+
+    IF new_status IS DISTINCT FROM current_order.status THEN
+        INSERT INTO order_status_history (order_id, from_status, to_status, changed_by)
+        VALUES (p_order_id, current_order.status, new_status, p_changed_by);
+    END IF;
+
+    RETURN p_order_id;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,120 @@
+-- Сметы: предложение работ по заказу, которое согласует клиент
+CREATE TABLE IF NOT EXISTS estimates (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    order_id VARCHAR(10) REFERENCES orders(id) ON DELETE CASCADE,
+    status VARCHAR(20) DEFAULT 'draft' CHECK (status IN ('draft', 'sent', 'approved', 'rejected')),
+    items JSONB NOT NULL DEFAULT '[]', -- позиции в формате order_items
+    total DECIMAL(10,2) GENERATED ALWAYS AS (
+        calculate_items_cost(items, 'service') + calculate_items_cost(items, 'part')
+    ) STORED,
+    valid_until DATE,
+    public_token VARCHAR(64) UNIQUE,
+    notes TEXT,
+    decision_comment TEXT,
+    sent_at TIMESTAMP WITH TIME ZONE,
+    decided_at TIMESTAMP WITH TIME ZONE,
+    decided_by UUID REFERENCES masters(id) ON DELETE SET NULL, -- NULL если согласовал клиент по ссылке
+    created_by UUID REFERENCES masters(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Индексы для смет
+CREATE INDEX IF NOT EXISTS idx_estimates_order_id ON estimates(order_id);
+CREATE INDEX IF NOT EXISTS idx_estimates_status ON estimates(status);
+
+-- Триггер для обновления updated_at
+CREATE TRIGGER update_estimates_updated_at
+    BEFORE UPDATE ON estimates
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- RLS для смет
+ALTER TABLE estimates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Мастера видят сметы своих заказов" ON estimates
+    FOR SELECT USING (
+        auth.jwt() ->> 'role' IN ('admin', 'director') OR
+        order_id IN (
+            SELECT order_id FROM order_masters WHERE master_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Мастера могут создавать сметы" ON estimates
+    FOR INSERT WITH CHECK (
+        auth.jwt() ->> 'role' IN ('master', 'admin', 'director')
+    );
+
+CREATE POLICY "Мастера могут обновлять сметы своих заказов" ON estimates
+    FOR UPDATE USING (
+        auth.jwt() ->> 'role' IN ('admin', 'director') OR
+        order_id IN (
+            SELECT order_id FROM order_masters WHERE master_id = auth.uid()
+        )
+    );
+
+-- Согласование сметы: позиции сметы переносятся в заказ, заказ из
+-- диагностики переходит в работу, мастера получают уведомление
+CREATE OR REPLACE FUNCTION approve_estimate(
+    p_estimate_id UUID,
+    p_decided_by UUID DEFAULT NULL,
+    p_comment TEXT DEFAULT NULL
+)
+RETURNS VARCHAR(10) AS $$
+DECLARE
+    estimate estimates%ROWTYPE;
+    order_status VARCHAR(20);
+    status_change JSONB := '{}'::JSONB;
+    master_record RECORD;
+BEGIN
+    SELECT * INTO estimate FROM estimates WHERE id = p_estimate_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Смета не найдена' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF estimate.status NOT IN ('draft', 'sent') THEN
+        RAISE EXCEPTION 'Смета уже %', CASE estimate.status
+            WHEN 'approved' THEN 'согласована' ELSE 'отклонена' END
+            USING ERRCODE = '22023';
+    END IF;
+
+    IF estimate.valid_until IS NOT NULL AND estimate.valid_until < CURRENT_DATE THEN
+        RAISE EXCEPTION 'Срок действия сметы истек' USING ERRCODE = '22023';
+    END IF;
+
+    UPDATE estimates SET
+        status = 'approved',
+        decided_at = NOW(),
+        decided_by = p_decided_by,
+        decision_comment = p_comment
+    WHERE id = p_estimate_id;
+
+    SELECT status INTO order_status FROM orders WHERE id = estimate.order_id;
+
+    IF order_status = 'диагностика'
+        AND EXISTS (SELECT 1 FROM order_masters WHERE order_id = estimate.order_id) THEN
+        status_change := jsonb_build_object('status', 'в_работе');
+    END IF;
+
+    PERFORM update_order_with_masters(
+        estimate.order_id, status_change, NULL, p_decided_by, NULL, estimate.items
+    );
+
+    FOR master_record IN
+        SELECT master_id FROM order_masters WHERE order_id = estimate.order_id
+    LOOP
+        INSERT INTO notifications (user_id, title, message, type, entity_id, entity_type)
+        VALUES (
+            master_record.master_id,
+            'Смета согласована',
+            'Смета по заказу ' || estimate.order_id || ' согласована клиентом',
+            'estimate_approved',
+            estimate.order_id,
+            'order'
+        );
+    END LOOP;
+
+    RETURN estimate.order_id;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,105 @@
+-- Запись клиентов: посты (подъемники), рабочие часы мастеров и записи на время
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+-- Посты / подъемники
+CREATE TABLE IF NOT EXISTS bays (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR(100) NOT NULL UNIQUE,
+    description TEXT,
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Рабочие часы мастеров по дням недели (1 - понедельник, 7 - воскресенье)
+CREATE TABLE IF NOT EXISTS master_working_hours (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    master_id UUID REFERENCES masters(id) ON DELETE CASCADE,
+    weekday SMALLINT NOT NULL CHECK (weekday BETWEEN 1 AND 7),
+    start_time TIME NOT NULL,
+    end_time TIME NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CHECK (end_time > start_time),
+    UNIQUE (master_id, weekday)
+);
+
+-- Записи на время. Пересечения по посту и мастеру запрещены ограничениями
+CREATE TABLE IF NOT EXISTS appointments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    client_id UUID REFERENCES clients(id) ON DELETE CASCADE,
+    bay_id UUID NOT NULL REFERENCES bays(id) ON DELETE RESTRICT,
+    master_id UUID REFERENCES masters(id) ON DELETE SET NULL,
+    service_ids UUID[] NOT NULL DEFAULT '{}',
+    starts_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    ends_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    status VARCHAR(20) DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'confirmed', 'arrived', 'converted', 'cancelled', 'no_show')),
+    order_id VARCHAR(10) REFERENCES orders(id) ON DELETE SET NULL,
+    notes TEXT,
+    created_by UUID REFERENCES masters(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CHECK (ends_at > starts_at),
+    CONSTRAINT appointments_bay_overlap EXCLUDE USING gist (
+        bay_id WITH =,
+        tstzrange(starts_at, ends_at) WITH &&
+    ) WHERE (status IN ('scheduled', 'confirmed', 'arrived')),
+    CONSTRAINT appointments_master_overlap EXCLUDE USING gist (
+        master_id WITH =,
+        tstzrange(starts_at, ends_at) WITH &&
+    ) WHERE (status IN ('scheduled', 'confirmed', 'arrived') AND master_id IS NOT NULL)
+);
+
+-- Индексы для записей
+CREATE INDEX IF NOT EXISTS idx_appointments_starts_at ON appointments(starts_at);
+CREATE INDEX IF NOT EXISTS idx_appointments_client_id ON appointments(client_id);
+CREATE INDEX IF NOT EXISTS idx_appointments_master_id ON appointments(master_id);
+CREATE INDEX IF NOT EXISTS idx_appointments_status ON appointments(status);
+
+-- Триггеры для обновления updated_at
+CREATE TRIGGER update_bays_updated_at
+    BEFORE UPDATE ON bays
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_appointments_updated_at
+    BEFORE UPDATE ON appointments
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- RLS для записи
+ALTER TABLE bays ENABLE ROW LEVEL SECURITY;
+ALTER TABLE master_working_hours ENABLE ROW LEVEL SECURITY;
+ALTER TABLE appointments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Все видят посты" ON bays
+    FOR SELECT USING (true);
+
+CREATE POLICY "Админ и директор управляют постами" ON bays
+    FOR ALL USING (
+        auth.jwt() ->> 'role' IN ('admin', 'director')
+    );
+
+CREATE POLICY "Все видят рабочие часы" ON master_working_hours
+    FOR SELECT USING (true);
+
+CREATE POLICY "Админ и директор управляют рабочими часами" ON master_working_hours
+    FOR ALL USING (
+        auth.jwt() ->> 'role' IN ('admin', 'director')
+    );
+
+CREATE POLICY "Все видят записи" ON appointments
+    FOR SELECT USING (true);
+
+CREATE POLICY "Сотрудники управляют записями" ON appointments
+    FOR ALL USING (
+        auth.jwt() ->> 'role' IN ('master', 'admin', 'director')
+    );
+
+-- Посты по умолчанию
+INSERT INTO bays (name, description) VALUES
+('Пост 1', 'Подъемник'),
+('Пост 2', 'Подъемник'),
+('Пост 3', 'Яма')
+ON CONFLICT (name) DO NOTHING;
@@ -0,0 +1,41 @@
+-- Онлайн-запись с сайта: заявки в статусе pending, источник записи и SMS коды
+
+-- Заявка с сайта ждет подтверждения сотрудником, но уже занимает время
+ALTER TABLE appointments DROP CONSTRAINT IF EXISTS appointments_status_check;
+ALTER TABLE appointments ADD CONSTRAINT appointments_status_check
+    CHECK (status IN ('pending', 'scheduled', 'confirmed', 'arrived', 'converted', 'cancelled', 'no_show'));
+
+ALTER TABLE appointments
+    ADD COLUMN IF NOT EXISTS source VARCHAR(20) NOT NULL DEFAULT 'crm' CHECK (source IN ('crm', 'online'));
+
+ALTER TABLE appointments DROP CONSTRAINT IF EXISTS appointments_bay_overlap;
+ALTER TABLE appointments ADD CONSTRAINT appointments_bay_overlap EXCLUDE USING gist (
+    bay_id WITH =,
+    tstzrange(starts_at, ends_at) WITH &&
+) WHERE (status IN ('pending', 'scheduled', 'confirmed', 'arrived'));
+
+ALTER TABLE appointments DROP CONSTRAINT IF EXISTS appointments_master_overlap;
+ALTER TABLE appointments ADD CONSTRAINT appointments_master_overlap EXCLUDE USING gist (
+    master_id WITH =,
+    tstzrange(starts_at, ends_at) WITH &&
+) WHERE (status IN ('pending', 'scheduled', 'confirmed', 'arrived') AND master_id IS NOT NULL);
+
+CREATE INDEX IF NOT EXISTS idx_appointments_source ON appointments(source);
+
+-- Одноразовые SMS коды для подтверждения телефона при онлайн-записи
+CREATE TABLE IF NOT EXISTS booking_otps (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    phone VARCHAR(20) NOT NULL,
+    code_hash VARCHAR(64) NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    used_at TIMESTAMP WITH TIME ZONE,
+    ip VARCHAR(45),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Индексы для кодов
+CREATE INDEX IF NOT EXISTS idx_booking_otps_phone ON booking_otps(phone, created_at);
+
+-- Коды доступны только backend (service key), политик для пользователей нет
+ALTER TABLE booking_otps ENABLE ROW LEVEL SECURITY;
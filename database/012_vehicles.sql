@@ -0,0 +1,293 @@
+-- Автомобили клиентов с историей владельцев.
+-- Колонки clients.car1, car2 и vin остаются для старых клиентов API,
+-- данные из них переносятся в vehicles
+CREATE TABLE IF NOT EXISTS vehicles (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    client_id UUID REFERENCES clients(id) ON DELETE SET NULL,
+    make VARCHAR(100) NOT NULL,
+    model VARCHAR(100),
+    year SMALLINT CHECK (year BETWEEN 1950 AND 2100),
+    plate VARCHAR(20),
+    vin VARCHAR(17) CHECK (vin ~ '^[A-HJ-NPR-Z0-9]{17}$'),
+    engine VARCHAR(100),
+    mileage INTEGER CHECK (mileage >= 0),
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- История владельцев: открытая запись (owned_to IS NULL) - текущий владелец
+CREATE TABLE IF NOT EXISTS vehicle_owners (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    vehicle_id UUID REFERENCES vehicles(id) ON DELETE CASCADE,
+    client_id UUID REFERENCES clients(id) ON DELETE CASCADE,
+    owned_from TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    owned_to TIMESTAMP WITH TIME ZONE,
+
+    CHECK (owned_to IS NULL OR owned_to >= owned_from)
+);
+
+-- Автомобиль, который ремонтировали в заказе
+ALTER TABLE orders
+    ADD COLUMN IF NOT EXISTS vehicle_id UUID REFERENCES vehicles(id) ON DELETE SET NULL;
+
+-- Индексы для автомобилей
+CREATE UNIQUE INDEX IF NOT EXISTS idx_vehicles_vin ON vehicles(vin) WHERE vin IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_vehicles_client_id ON vehicles(client_id);
+CREATE INDEX IF NOT EXISTS idx_vehicles_plate ON vehicles(plate);
+CREATE INDEX IF NOT EXISTS idx_vehicle_owners_vehicle_id ON vehicle_owners(vehicle_id);
+CREATE INDEX IF NOT EXISTS idx_vehicle_owners_client_id ON vehicle_owners(client_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_vehicle_owners_current
+    ON vehicle_owners(vehicle_id) WHERE owned_to IS NULL;
+CREATE INDEX IF NOT EXISTS idx_orders_vehicle_id ON orders(vehicle_id);
+
+-- Перенос car1/car2/vin. Год в конце названия ("Toyota Camry 2018") выделяется
+-- в year, первое слово - марка, остальное - модель. VIN достается car1;
+-- невалидные и повторяющиеся VIN сохраняются в примечании автомобиля
+WITH legacy AS (
+    SELECT
+        c.id AS client_id,
+        c.created_at,
+        car.slot,
+        trim(car.title) AS title,
+        CASE WHEN car.slot = 1 THEN upper(nullif(trim(c.vin), '')) END AS vin
+    FROM clients c
+    CROSS JOIN LATERAL (VALUES (1, c.car1), (2, c.car2)) AS car(slot, title)
+    WHERE nullif(trim(car.title), '') IS NOT NULL
+       OR (car.slot = 1 AND nullif(trim(c.vin), '') IS NOT NULL)
+),
+parsed AS (
+    SELECT
+        legacy.*,
+        substring(title FROM '(?:^|\s)((?:19[5-9]|20[0-9])[0-9])$')::SMALLINT AS year,
+        nullif(trim(regexp_replace(coalesce(title, ''), '\s*(19[5-9]|20[0-9])[0-9]$', '')), '') AS base,
+        vin ~ '^[A-HJ-NPR-Z0-9]{17}$'
+            AND row_number() OVER (PARTITION BY vin ORDER BY created_at, client_id) = 1 AS vin_valid
+    FROM legacy
+)
+INSERT INTO vehicles (client_id, make, model, year, vin, notes, created_at)
+SELECT
+    client_id,
+    coalesce(split_part(base, ' ', 1), 'Не указано'),
+    nullif(trim(substr(base, length(split_part(base, ' ', 1)) + 1)), ''),
+    year,
+    CASE WHEN vin_valid THEN vin END,
+    CASE WHEN vin IS NOT NULL AND NOT vin_valid THEN 'VIN из карточки клиента: ' || vin END,
+    created_at
+FROM parsed
+ORDER BY client_id, slot;
+
+INSERT INTO vehicle_owners (vehicle_id, client_id, owned_from)
+SELECT id, client_id, coalesce(created_at, NOW())
+FROM vehicles
+WHERE client_id IS NOT NULL;
+
+-- Заказы клиентов с единственным автомобилем привязываются к нему
+UPDATE orders o
+SET vehicle_id = v.id
+FROM vehicles v
+WHERE v.client_id = o.client_id
+  AND o.vehicle_id IS NULL
+  AND (SELECT count(*) FROM vehicles WHERE client_id = o.client_id) = 1;
+
+-- Смена владельца закрывает текущую запись истории и открывает новую
+CREATE OR REPLACE FUNCTION track_vehicle_owner()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'UPDATE' AND NEW.client_id IS NOT DISTINCT FROM OLD.client_id THEN
+        RETURN NEW;
+    END IF;
+
+    UPDATE vehicle_owners SET owned_to = NOW()
+    WHERE vehicle_id = NEW.id AND owned_to IS NULL;
+
+    IF NEW.client_id IS NOT NULL THEN
+        INSERT INTO vehicle_owners (vehicle_id, client_id)
+        VALUES (NEW.id, NEW.client_id);
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER track_vehicle_owner_trigger
+    AFTER INSERT OR UPDATE OF client_id ON vehicles
+    FOR EACH ROW
+    EXECUTE FUNCTION track_vehicle_owner();
+
+-- Автомобиль заказа должен принадлежать клиенту заказа.
+-- Без клиента заказ получает текущего владельца автомобиля
+CREATE OR REPLACE FUNCTION check_order_vehicle()
+RETURNS TRIGGER AS $$
+DECLARE
+    owner_id UUID;
+BEGIN
+    IF NEW.vehicle_id IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'UPDATE'
+       AND NEW.vehicle_id IS NOT DISTINCT FROM OLD.vehicle_id
+       AND NEW.client_id IS NOT DISTINCT FROM OLD.client_id THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT client_id INTO owner_id FROM vehicles WHERE id = NEW.vehicle_id;
+
+    IF NEW.client_id IS NULL THEN
+        NEW.client_id := owner_id;
+    ELSIF owner_id IS NOT NULL AND owner_id <> NEW.client_id THEN
+        RAISE EXCEPTION 'Автомобиль не принадлежит клиенту заказа' USING ERRCODE = '22023';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER check_order_vehicle_trigger
+    BEFORE INSERT OR UPDATE OF vehicle_id, client_id ON orders
+    FOR EACH ROW
+    EXECUTE FUNCTION check_order_vehicle();
+
+-- Триггер для обновления updated_at
+CREATE TRIGGER update_vehicles_updated_at
+    BEFORE UPDATE ON vehicles
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Создание и обновление заказа принимают vehicle_id
+CREATE OR REPLACE FUNCTION create_order_with_masters(
+    p_order JSONB,
+    p_masters JSONB,
+    p_created_by UUID DEFAULT NULL,
+    p_items JSONB DEFAULT NULL
+)
+RETURNS VARCHAR(10) AS $$
+DECLARE
+    new_order orders%ROWTYPE;
+    items JSONB;
+BEGIN
+    items := COALESCE(
+        p_items,
+        legacy_order_items(p_order -> 'services', (p_order ->> 'parts_cost')::DECIMAL)
+    );
+
+    INSERT INTO orders (client_id, vehicle_id, services, parts_cost, services_cost, status, notes, created_by)
+    VALUES (
+        (p_order ->> 'client_id')::UUID,
+        (p_order ->> 'vehicle_id')::UUID,
+        items_services_json(items),
+        calculate_items_cost(items, 'part'),
+        calculate_items_cost(items, 'service'),
+        COALESCE(p_order ->> 'status', 'новый'),
+        p_order ->> 'notes',
+        p_created_by
+    )
+    RETURNING * INTO new_order;
+
+    PERFORM replace_order_items(new_order.id, items);
+
+    PERFORM replace_order_masters(new_order.id, p_masters);
+
+    INSERT INTO order_status_history (order_id, from_status, to_status, changed_by)
+    VALUES (new_order.id, NULL, new_order.status, p_created_by);
+
+    RETURN new_order.id;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION update_order_with_masters(
+    p_order_id VARCHAR(10),
+    p_changes JSONB,
+    p_masters JSONB DEFAULT NULL,
+    p_changed_by UUID DEFAULT NULL,
+    p_expected_version INTEGER DEFAULT NULL,
+    p_items JSONB DEFAULT NULL
+)
+RETURNS VARCHAR(10) AS $$
+DECLARE
+    current_order orders%ROWTYPE;
+    new_status VARCHAR(20);
+BEGIN
+    SELECT * INTO current_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Заказ % не найден', p_order_id USING ERRCODE = 'P0002';
+    END IF;
+
+    IF p_expected_version IS NOT NULL AND p_expected_version <> current_order.version THEN
+        RAISE EXCEPTION 'Заказ % был изменен (версия %, ожидалась %)',
+            p_order_id, current_order.version, p_expected_version
+            USING ERRCODE = '40001';
+    END IF;
+
+    p_changes := COALESCE(p_changes, '{}'::JSONB);
+    new_status := COALESCE(p_changes ->> 'status', current_order.status);
+
+    IF p_items IS NOT NULL THEN
+        PERFORM replace_order_items(p_order_id, p_items);
+    ELSE
+        IF p_changes ? 'services' THEN
+            PERFORM replace_order_items(
+                p_order_id, legacy_order_items(p_changes -> 'services', NULL), 'service'
+            );
+        END IF;
+
+        IF p_changes ? 'parts_cost' THEN
+            PERFORM replace_order_items(
+                p_order_id, legacy_order_items(NULL, (p_changes ->> 'parts_cost')::DECIMAL), 'part'
+            );
+        END IF;
+    END IF;
+
+    UPDATE orders SET
+        client_id = CASE WHEN p_changes ? 'client_id'
+            THEN (p_changes ->> 'client_id')::UUID ELSE client_id END,
+        vehicle_id = CASE WHEN p_changes ? 'vehicle_id'
+            THEN (p_changes ->> 'vehicle_id')::UUID ELSE vehicle_id END,
+        services = order_items_services_json(p_order_id),
+        services_cost = order_items_cost(p_order_id, 'service'),
+        parts_cost = order_items_cost(p_order_id, 'part'),
+        notes = CASE WHEN p_changes ? 'notes'
+            THEN p_changes ->> 'notes' ELSE notes END,
+        status = new_status,
+        updated_at = NOW()
+    WHERE id = p_order_id;
+
+    IF p_masters IS NOT NULL THEN
+        PERFORM replace_order_masters(p_order_id, p_masters);
+    END IF;
+
+    IF new_status IS DISTINCT FROM current_order.status THEN
+        INSERT INTO order_status_history (order_id, from_status, to_status, changed_by)
+        VALUES (p_order_id, current_order.status, new_status, p_changed_by);
+    END IF;
+
+    RETURN p_order_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- RLS для автомобилей: как у клиентов
+ALTER TABLE vehicles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE vehicle_owners ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Все пользователи могут читать автомобили" ON vehicles
+    FOR SELECT USING (true);
+
+CREATE POLICY "Сотрудники могут добавлять автомобили" ON vehicles
+    FOR INSERT WITH CHECK (
+        auth.jwt() ->> 'role' IN ('master', 'admin', 'director')
+    );
+
+CREATE POLICY "Сотрудники могут обновлять автомобили" ON vehicles
+    FOR UPDATE USING (
+        auth.jwt() ->> 'role' IN ('master', 'admin', 'director')
+    );
+
+CREATE POLICY "Только директор может удалять автомобили" ON vehicles
+    FOR DELETE USING (
+        auth.jwt() ->> 'role' = 'director'
+    );
+
+CREATE POLICY "Все пользователи могут читать историю владельцев" ON vehicle_owners
+    FOR SELECT USING (true);
@@ -0,0 +1,278 @@
+-- Пробег на приемке заказа и интервалы обслуживания.
+-- Ежедневная задача ищет автомобили, которым подошло ТО, и создает
+-- напоминания для администраторов позвонить клиенту
+
+-- Пробег по одометру при приемке автомобиля
+ALTER TABLE orders
+    ADD COLUMN IF NOT EXISTS mileage INTEGER CHECK (mileage >= 0);
+
+-- Интервалы обслуживания услуги: по пробегу и/или по времени
+ALTER TABLE services
+    ADD COLUMN IF NOT EXISTS interval_km INTEGER CHECK (interval_km > 0),
+    ADD COLUMN IF NOT EXISTS interval_months INTEGER CHECK (interval_months > 0);
+
+-- Дата последнего показания пробега автомобиля
+ALTER TABLE vehicles
+    ADD COLUMN IF NOT EXISTS mileage_updated_at TIMESTAMP WITH TIME ZONE;
+
+-- Напоминания о плановом обслуживании. Одно напоминание на автомобиль,
+-- услугу и заказ, в котором услуга выполнялась последний раз
+CREATE TABLE IF NOT EXISTS service_reminders (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    vehicle_id UUID REFERENCES vehicles(id) ON DELETE CASCADE,
+    client_id UUID REFERENCES clients(id) ON DELETE CASCADE,
+    service_id UUID REFERENCES services(id) ON DELETE CASCADE,
+    last_order_id VARCHAR(10) REFERENCES orders(id) ON DELETE CASCADE,
+    due_date DATE,
+    due_mileage INTEGER,
+    status VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'called', 'booked', 'dismissed')),
+    notes TEXT,
+    handled_by UUID REFERENCES masters(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    UNIQUE (vehicle_id, service_id, last_order_id)
+);
+
+-- Индексы
+CREATE INDEX IF NOT EXISTS idx_service_reminders_status ON service_reminders(status);
+CREATE INDEX IF NOT EXISTS idx_service_reminders_client_id ON service_reminders(client_id);
+CREATE INDEX IF NOT EXISTS idx_service_reminders_due_date ON service_reminders(due_date);
+
+-- Интервалы для услуг из базового справочника
+UPDATE services SET interval_km = 10000, interval_months = 12 WHERE name = 'Замена масла';
+UPDATE services SET interval_km = 10000, interval_months = 12 WHERE name = 'Замена масляного фильтра';
+UPDATE services SET interval_km = 20000, interval_months = 24 WHERE name = 'Замена воздушного фильтра';
+UPDATE services SET interval_km = 15000, interval_months = 12 WHERE name = 'Замена салонного фильтра';
+UPDATE services SET interval_km = 30000, interval_months = 36 WHERE name = 'Замена свечей зажигания';
+UPDATE services SET interval_km = 60000, interval_months = 48 WHERE name = 'Замена ремня ГРМ';
+UPDATE services SET interval_km = 60000, interval_months = 36 WHERE name = 'Замена антифриза';
+UPDATE services SET interval_months = 24 WHERE name = 'Замена тормозной жидкости';
+
+-- Пробег заказа обновляет пробег автомобиля, если он больше известного
+CREATE OR REPLACE FUNCTION update_vehicle_mileage()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.vehicle_id IS NULL OR NEW.mileage IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    UPDATE vehicles SET
+        mileage = NEW.mileage,
+        mileage_updated_at = NOW()
+    WHERE id = NEW.vehicle_id
+      AND (mileage IS NULL OR mileage <= NEW.mileage);
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_vehicle_mileage_trigger
+    AFTER INSERT OR UPDATE OF mileage, vehicle_id ON orders
+    FOR EACH ROW
+    EXECUTE FUNCTION update_vehicle_mileage();
+
+-- Триггер для обновления updated_at
+CREATE TRIGGER update_service_reminders_updated_at
+    BEFORE UPDATE ON service_reminders
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Услуги с интервалом, которым подходит срок: последнее выполнение услуги
+-- по автомобилю (заказы выдан/закрыт) плюс интервал. Пробег на сегодня
+-- прогнозируется по среднесуточному пробегу между заказами автомобиля
+CREATE OR REPLACE FUNCTION get_due_services(
+    p_days_ahead INTEGER DEFAULT 14,
+    p_km_ahead INTEGER DEFAULT 1000
+)
+RETURNS TABLE (
+    vehicle_id UUID,
+    client_id UUID,
+    service_id UUID,
+    service_name VARCHAR,
+    last_order_id VARCHAR,
+    last_service_at TIMESTAMP WITH TIME ZONE,
+    last_mileage INTEGER,
+    estimated_mileage INTEGER,
+    due_date DATE,
+    due_mileage INTEGER,
+    overdue BOOLEAN
+) AS $$
+    WITH last_services AS (
+        SELECT DISTINCT ON (o.vehicle_id, oi.service_id)
+            o.vehicle_id,
+            oi.service_id,
+            o.id AS order_id,
+            o.created_at,
+            o.mileage
+        FROM orders o
+        JOIN order_items oi ON oi.order_id = o.id AND oi.type = 'service'
+        WHERE o.vehicle_id IS NOT NULL
+          AND oi.service_id IS NOT NULL
+          AND o.status IN ('выдан', 'закрыт')
+        ORDER BY o.vehicle_id, oi.service_id, o.created_at DESC
+    ),
+    daily_mileage AS (
+        SELECT
+            o.vehicle_id,
+            (max(o.mileage) - min(o.mileage))::DECIMAL
+                / GREATEST(EXTRACT(EPOCH FROM max(o.created_at) - min(o.created_at)) / 86400, 1) AS km_per_day
+        FROM orders o
+        WHERE o.vehicle_id IS NOT NULL AND o.mileage IS NOT NULL
+        GROUP BY o.vehicle_id
+        HAVING count(*) > 1
+    ),
+    due AS (
+        SELECT
+            v.id AS vehicle_id,
+            v.client_id,
+            s.id AS service_id,
+            s.name AS service_name,
+            ls.order_id AS last_order_id,
+            ls.created_at AS last_service_at,
+            ls.mileage AS last_mileage,
+            (COALESCE(v.mileage, ls.mileage)
+                + COALESCE(dm.km_per_day, 0)
+                  * EXTRACT(EPOCH FROM NOW() - COALESCE(v.mileage_updated_at, ls.created_at)) / 86400
+            )::INTEGER AS estimated_mileage,
+            (ls.created_at + make_interval(months => s.interval_months))::DATE AS due_date,
+            ls.mileage + s.interval_km AS due_mileage
+        FROM last_services ls
+        JOIN services s ON s.id = ls.service_id
+        JOIN vehicles v ON v.id = ls.vehicle_id
+        LEFT JOIN daily_mileage dm ON dm.vehicle_id = v.id
+        WHERE v.client_id IS NOT NULL
+          AND (s.interval_km IS NOT NULL OR s.interval_months IS NOT NULL)
+    )
+    SELECT
+        due.*,
+        COALESCE(due.due_date <= CURRENT_DATE, false)
+            OR COALESCE(due.estimated_mileage >= due.due_mileage, false) AS overdue
+    FROM due
+    WHERE due.due_date <= CURRENT_DATE + p_days_ahead
+       OR due.estimated_mileage >= due.due_mileage - p_km_ahead
+    ORDER BY COALESCE(due.due_date, CURRENT_DATE);
+$$ LANGUAGE sql STABLE;
+
+-- Создание и обновление заказа принимают пробег на приемке
+CREATE OR REPLACE FUNCTION create_order_with_masters(
+    p_order JSONB,
+    p_masters JSONB,
+    p_created_by UUID DEFAULT NULL,
+    p_items JSONB DEFAULT NULL
+)
+RETURNS VARCHAR(10) AS $$
+DECLARE
+    new_order orders%ROWTYPE;
+    items JSONB;
+BEGIN
+    items := COALESCE(
+        p_items,
+        legacy_order_items(p_order -> 'services', (p_order ->> 'parts_cost')::DECIMAL)
+    );
+
+    INSERT INTO orders (client_id, vehicle_id, mileage, services, parts_cost, services_cost, status, notes, created_by)
+    VALUES (
+        (p_order ->> 'client_id')::UUID,
+        (p_order ->> 'vehicle_id')::UUID,
+        (p_order ->> 'mileage')::INTEGER,
+        items_services_json(items),
+        calculate_items_cost(items, 'part'),
+        calculate_items_cost(items, 'service'),
+        COALESCE(p_order ->> 'status', 'новый'),
+        p_order ->> 'notes',
+        p_created_by
+    )
+    RETURNING * INTO new_order;
+
+    PERFORM replace_order_items(new_order.id, items);
+
+    PERFORM replace_order_masters(new_order.id, p_masters);
+
+    INSERT INTO order_status_history (order_id, from_status, to_status, changed_by)
+    VALUES (new_order.id, NULL, new_order.status, p_created_by);
+
+    RETURN new_order.id;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION update_order_with_masters(
+    p_order_id VARCHAR(10),
+    p_changes JSONB,
+    p_masters JSONB DEFAULT NULL,
+    p_changed_by UUID DEFAULT NULL,
+    p_expected_version INTEGER DEFAULT NULL,
+    p_items JSONB DEFAULT NULL
+)
+RETURNS VARCHAR(10) AS $$
+DECLARE
+    current_order orders%ROWTYPE;
+    new_status VARCHAR(20);
+BEGIN
+    SELECT * INTO current_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Заказ % не найден', p_order_id USING ERRCODE = 'P0002';
+    END IF;
+
+    IF p_expected_version IS NOT NULL AND p_expected_version <> current_order.version THEN
+        RAISE EXCEPTION 'Заказ % был изменен (версия %, ожидалась %)',
+            p_order_id, current_order.version, p_expected_version
+            USING ERRCODE = '40001';
+    END IF;
+
+    p_changes := COALESCE(p_changes, '{}'::JSONB);
+    new_status := COALESCE(p_changes ->> 'status', current_order.status);
+
+    IF p_items IS NOT NULL THEN
+        PERFORM replace_order_items(p_order_id, p_items);
+    ELSE
+        IF p_changes ? 'services' THEN
+            PERFORM replace_order_items(
+                p_order_id, legacy_order_items(p_changes -> 'services', NULL), 'service'
+            );
+        END IF;
+
+        IF p_changes ? 'parts_cost' THEN
+            PERFORM replace_order_items(
+                p_order_id, legacy_order_items(NULL, (p_changes ->> 'parts_cost')::DECIMAL), 'part'
+            );
+        END IF;
+    END IF;
+
+    UPDATE orders SET
+        client_id = CASE WHEN p_changes ? 'client_id'
+            THEN (p_changes ->> 'client_id')::UUID ELSE client_id END,
+        vehicle_id = CASE WHEN p_changes ? 'vehicle_id'
+            THEN (p_changes ->> 'vehicle_id')::UUID ELSE vehicle_id END,
+        mileage = CASE WHEN p_changes ? 'mileage'
+            THEN (p_changes ->> 'mileage')::INTEGER ELSE mileage END,
+        services = order_items_services_json(p_order_id),
+        services_cost = order_items_cost(p_order_id, 'service'),
+        parts_cost = order_items_cost(p_order_id, 'part'),
+        notes = CASE WHEN p_changes ? 'notes'
+            THEN p_changes ->> 'notes' ELSE notes END,
+        status = new_status,
+        updated_at = NOW()
+    WHERE id = p_order_id;
+
+    IF p_masters IS NOT NULL THEN
+        PERFORM replace_order_masters(p_order_id, p_masters);
+    END IF;
+
+    IF new_status IS DISTINCT FROM current_order.status THEN
+        INSERT INTO order_status_history (order_id, from_status, to_status, changed_by)
+        VALUES (p_order_id, current_order.status, new_status, p_changed_by);
+    END IF;
+
+    RETURN p_order_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- RLS для напоминаний
+ALTER TABLE service_reminders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Админ и директор управляют напоминаниями" ON service_reminders
+    FOR ALL USING (
+        auth.jwt() ->> 'role' IN ('admin', 'director')
+    );
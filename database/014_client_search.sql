@@ -0,0 +1,140 @@
+-- Клиенты: нечеткий поиск по имени, телефону, госномеру и VIN,
+-- создание клиента вместе с автомобилями
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Триграммные индексы для поиска
+CREATE INDEX IF NOT EXISTS idx_clients_name_trgm ON clients USING gin (name gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_clients_phone_trgm ON clients USING gin (phone gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_vehicles_plate_trgm ON vehicles USING gin (plate gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_vehicles_vin_trgm ON vehicles USING gin (vin gin_trgm_ops);
+
+-- Поиск клиентов с суммой долга и автомобилями.
+-- Телефон сравнивается по цифрам, госномер и VIN - без пробелов, имя - по
+-- сходству слов (опечатки, неполное имя). p_master_id ограничивает выдачу
+-- клиентами из заказов мастера. total_count - число найденных без учета страницы
+CREATE OR REPLACE FUNCTION search_clients(
+    p_search TEXT DEFAULT NULL,
+    p_has_debts BOOLEAN DEFAULT false,
+    p_master_id UUID DEFAULT NULL,
+    p_limit INTEGER DEFAULT 20,
+    p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+    id UUID,
+    name VARCHAR,
+    phone VARCHAR,
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE,
+    updated_at TIMESTAMP WITH TIME ZONE,
+    debt_total DECIMAL,
+    vehicles JSONB,
+    score REAL,
+    total_count BIGINT
+) AS $$
+    WITH params AS (
+        SELECT
+            nullif(trim(p_search), '') AS term,
+            nullif(regexp_replace(coalesce(p_search, ''), '\D', '', 'g'), '') AS digits,
+            nullif(upper(regexp_replace(coalesce(p_search, ''), '\s', '', 'g')), '') AS compact
+    ),
+    debts_by_client AS (
+        SELECT d.client_id, sum(d.remaining) AS debt_total
+        FROM debts d
+        WHERE d.remaining > 0
+        GROUP BY d.client_id
+    ),
+    vehicles_by_client AS (
+        SELECT
+            v.client_id,
+            jsonb_agg(jsonb_build_object(
+                'id', v.id,
+                'make', v.make,
+                'model', v.model,
+                'year', v.year,
+                'plate', v.plate,
+                'vin', v.vin
+            ) ORDER BY v.created_at) AS vehicles,
+            string_agg(coalesce(v.plate, '') || ' ' || coalesce(v.vin, ''), ' ') AS identifiers
+        FROM vehicles v
+        WHERE v.client_id IS NOT NULL
+        GROUP BY v.client_id
+    ),
+    scored AS (
+        SELECT
+            c.id,
+            c.name,
+            c.phone,
+            c.notes,
+            c.created_at,
+            c.updated_at,
+            coalesce(d.debt_total, 0) AS debt_total,
+            coalesce(vc.vehicles, '[]'::JSONB) AS vehicles,
+            CASE
+                WHEN p.term IS NULL THEN 0
+                ELSE GREATEST(
+                    word_similarity(p.term, c.name),
+                    CASE WHEN length(p.digits) >= 3
+                        AND regexp_replace(coalesce(c.phone, ''), '\D', '', 'g') LIKE '%' || p.digits || '%'
+                        THEN 1 ELSE 0 END,
+                    CASE WHEN length(p.compact) >= 3
+                        AND upper(coalesce(vc.identifiers, '')) LIKE '%' || p.compact || '%'
+                        THEN 1 ELSE 0 END,
+                    CASE WHEN length(p.compact) >= 3
+                        THEN word_similarity(p.compact, upper(coalesce(vc.identifiers, '')))
+                        ELSE 0 END
+                )
+            END::REAL AS score
+        FROM clients c
+        CROSS JOIN params p
+        LEFT JOIN debts_by_client d ON d.client_id = c.id
+        LEFT JOIN vehicles_by_client vc ON vc.client_id = c.id
+        WHERE (NOT p_has_debts OR d.debt_total > 0)
+          AND (p_master_id IS NULL OR c.id IN (
+              SELECT o.client_id
+              FROM orders o
+              JOIN order_masters om ON om.order_id = o.id
+              WHERE om.master_id = p_master_id
+          ))
+    )
+    SELECT scored.*, count(*) OVER () AS total_count
+    FROM scored, params p
+    WHERE p.term IS NULL OR scored.score >= 0.4
+    ORDER BY scored.score DESC, scored.name
+    LIMIT p_limit
+    OFFSET p_offset;
+$$ LANGUAGE sql STABLE;
+
+-- Создание клиента вместе с автомобилями одной транзакцией.
+-- История владельцев автомобилей ведется триггером track_vehicle_owner
+CREATE OR REPLACE FUNCTION create_client_with_vehicles(
+    p_client JSONB,
+    p_vehicles JSONB DEFAULT '[]'
+)
+RETURNS UUID AS $$
+DECLARE
+    new_client_id UUID;
+BEGIN
+    INSERT INTO clients (name, phone, notes)
+    VALUES (
+        p_client ->> 'name',
+        p_client ->> 'phone',
+        p_client ->> 'notes'
+    )
+    RETURNING id INTO new_client_id;
+
+    INSERT INTO vehicles (client_id, make, model, year, plate, vin, engine, mileage, notes)
+    SELECT
+        new_client_id,
+        v ->> 'make',
+        v ->> 'model',
+        (v ->> 'year')::SMALLINT,
+        v ->> 'plate',
+        v ->> 'vin',
+        v ->> 'engine',
+        (v ->> 'mileage')::INTEGER,
+        v ->> 'notes'
+    FROM jsonb_array_elements(COALESCE(p_vehicles, '[]'::JSONB)) AS v;
+
+    RETURN new_client_id;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,314 @@
+-- Нормализация телефонов клиентов в E.164, поиск дублей и объединение клиентов
+
+-- Телефон в формате E.164. Российские номера 8XXXXXXXXXX, 7XXXXXXXXXX и
+-- 9XXXXXXXXX (без кода страны) приводятся к +7XXXXXXXXXX.
+-- Логика совпадает с normalizePhone в backend/src/utils/phone.ts
+CREATE OR REPLACE FUNCTION normalize_phone(p_phone TEXT)
+RETURNS TEXT AS $$
+DECLARE
+    digits TEXT := regexp_replace(coalesce(p_phone, ''), '\D', '', 'g');
+BEGIN
+    IF digits = '' THEN
+        RETURN NULL;
+    END IF;
+
+    IF left(trim(p_phone), 1) <> '+' THEN
+        IF length(digits) = 11 AND left(digits, 1) IN ('7', '8') THEN
+            digits := '7' || substr(digits, 2);
+        ELSIF length(digits) = 10 AND left(digits, 1) = '9' THEN
+            digits := '7' || digits;
+        END IF;
+    END IF;
+
+    RETURN '+' || digits;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Приведение существующих телефонов. Если после нормализации номера совпадают,
+-- формат меняется только у одного клиента (уже нормализованного или самого
+-- старого): остальные остаются дублями до объединения
+UPDATE clients c
+SET phone = n.normalized
+FROM (
+    SELECT
+        id,
+        normalize_phone(phone) AS normalized,
+        row_number() OVER (
+            PARTITION BY normalize_phone(phone)
+            ORDER BY (phone = normalize_phone(phone)) DESC, created_at, id
+        ) AS rn
+    FROM clients
+    WHERE phone IS NOT NULL
+) n
+WHERE c.id = n.id
+  AND n.rn = 1
+  AND c.phone IS DISTINCT FROM n.normalized;
+
+CREATE INDEX IF NOT EXISTS idx_clients_phone_normalized ON clients (normalize_phone(phone));
+
+-- Телефон нормализуется при любой записи, в том числе в обход API
+CREATE OR REPLACE FUNCTION normalize_client_phone()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.phone := normalize_phone(NEW.phone);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER normalize_client_phone_trigger
+    BEFORE INSERT OR UPDATE OF phone ON clients
+    FOR EACH ROW
+    EXECUTE FUNCTION normalize_client_phone();
+
+-- Журнал объединений клиентов. Удаленный клиент сохраняется снимком
+CREATE TABLE IF NOT EXISTS client_merges (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    target_client_id UUID REFERENCES clients(id) ON DELETE SET NULL,
+    source_client_id UUID NOT NULL,
+    source_data JSONB NOT NULL,
+    moved JSONB NOT NULL DEFAULT '{}',
+    merged_by UUID REFERENCES masters(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_client_merges_target ON client_merges(target_client_id);
+CREATE INDEX IF NOT EXISTS idx_client_merges_source ON client_merges(source_client_id);
+
+-- Кандидаты в дубли: совпадение нормализованного телефона, общий VIN
+-- (автомобили и устаревшее поле clients.vin) или похожее имя.
+-- Оценка: телефон 0.6, VIN 0.6, сходство имени до 0.4, не больше 1.
+-- С p_client_id ищутся дубли одного клиента, иначе все пары
+CREATE OR REPLACE FUNCTION find_client_duplicates(
+    p_client_id UUID DEFAULT NULL,
+    p_min_score REAL DEFAULT 0.5,
+    p_limit INTEGER DEFAULT 50
+)
+RETURNS TABLE (
+    client_id UUID,
+    duplicate_id UUID,
+    score REAL,
+    phone_match BOOLEAN,
+    vin_match BOOLEAN,
+    name_similarity REAL
+) AS $$
+    WITH client_vins AS (
+        SELECT v.client_id, v.vin
+        FROM vehicles v
+        WHERE v.client_id IS NOT NULL AND v.vin IS NOT NULL
+        UNION
+        SELECT c.id, upper(trim(c.vin))
+        FROM clients c
+        WHERE nullif(trim(c.vin), '') IS NOT NULL
+    ),
+    pairs AS (
+        SELECT a.id AS client_id, b.id AS duplicate_id
+        FROM clients a
+        JOIN clients b ON normalize_phone(b.phone) = normalize_phone(a.phone) AND b.id <> a.id
+        WHERE a.phone IS NOT NULL
+        UNION
+        SELECT va.client_id, vb.client_id
+        FROM client_vins va
+        JOIN client_vins vb ON vb.vin = va.vin AND vb.client_id <> va.client_id
+        UNION
+        SELECT a.id, b.id
+        FROM clients a
+        JOIN clients b ON b.name % a.name AND b.id <> a.id
+    ),
+    scored AS (
+        SELECT
+            p.client_id,
+            p.duplicate_id,
+            coalesce(normalize_phone(a.phone) = normalize_phone(b.phone), false) AS phone_match,
+            EXISTS (
+                SELECT 1
+                FROM client_vins va
+                JOIN client_vins vb ON vb.vin = va.vin
+                WHERE va.client_id = p.client_id AND vb.client_id = p.duplicate_id
+            ) AS vin_match,
+            similarity(a.name, b.name) AS name_similarity
+        FROM pairs p
+        JOIN clients a ON a.id = p.client_id
+        JOIN clients b ON b.id = p.duplicate_id
+        WHERE (p_client_id IS NULL AND p.client_id < p.duplicate_id)
+           OR p.client_id = p_client_id
+    )
+    SELECT
+        s.client_id,
+        s.duplicate_id,
+        LEAST(1,
+            CASE WHEN s.phone_match THEN 0.6 ELSE 0 END
+            + CASE WHEN s.vin_match THEN 0.6 ELSE 0 END
+            + 0.4 * s.name_similarity
+        )::REAL AS score,
+        s.phone_match,
+        s.vin_match,
+        s.name_similarity
+    FROM scored s
+    WHERE LEAST(1,
+            CASE WHEN s.phone_match THEN 0.6 ELSE 0 END
+            + CASE WHEN s.vin_match THEN 0.6 ELSE 0 END
+            + 0.4 * s.name_similarity
+        ) >= p_min_score
+    ORDER BY score DESC, s.client_id, s.duplicate_id
+    LIMIT p_limit;
+$$ LANGUAGE sql STABLE;
+
+-- При объединении клиентов автомобили и заказы переходят к основному клиенту
+-- без записи в историю владельцев и без проверки владельца автомобиля заказа:
+-- это тот же человек, история прежней карточки переносится целиком
+CREATE OR REPLACE FUNCTION track_vehicle_owner()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'UPDATE' AND NEW.client_id IS NOT DISTINCT FROM OLD.client_id THEN
+        RETURN NEW;
+    END IF;
+
+    IF current_setting('app.client_merge', true) = 'on' THEN
+        RETURN NEW;
+    END IF;
+
+    UPDATE vehicle_owners SET owned_to = NOW()
+    WHERE vehicle_id = NEW.id AND owned_to IS NULL;
+
+    IF NEW.client_id IS NOT NULL THEN
+        INSERT INTO vehicle_owners (vehicle_id, client_id)
+        VALUES (NEW.id, NEW.client_id);
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION check_order_vehicle()
+RETURNS TRIGGER AS $$
+DECLARE
+    owner_id UUID;
+BEGIN
+    IF NEW.vehicle_id IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'UPDATE'
+       AND (current_setting('app.client_merge', true) = 'on'
+            OR (NEW.vehicle_id IS NOT DISTINCT FROM OLD.vehicle_id
+                AND NEW.client_id IS NOT DISTINCT FROM OLD.client_id)) THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT client_id INTO owner_id FROM vehicles WHERE id = NEW.vehicle_id;
+
+    IF NEW.client_id IS NULL THEN
+        NEW.client_id := owner_id;
+    ELSIF owner_id IS NOT NULL AND owner_id <> NEW.client_id THEN
+        RAISE EXCEPTION 'Автомобиль не принадлежит клиенту заказа' USING ERRCODE = '22023';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Объединение клиентов одной транзакцией: заказы, долги, продажи запчастей,
+-- автомобили, записи и напоминания переходят к основному клиенту, оплаты -
+-- вместе со своими заказами, долгами и продажами. Пустые телефон и примечания
+-- основного клиента дополняются из дубля, дубль удаляется.
+-- Возвращает ID записи журнала client_merges
+CREATE OR REPLACE FUNCTION merge_clients(
+    p_target_id UUID,
+    p_source_id UUID,
+    p_merged_by UUID
+)
+RETURNS UUID AS $$
+DECLARE
+    target_client clients%ROWTYPE;
+    source_client clients%ROWTYPE;
+    moved JSONB;
+    merge_id UUID;
+BEGIN
+    IF p_target_id = p_source_id THEN
+        RAISE EXCEPTION 'Нельзя объединить клиента с самим собой' USING ERRCODE = '22023';
+    END IF;
+
+    SELECT * INTO target_client FROM clients WHERE id = p_target_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Клиент % не найден', p_target_id USING ERRCODE = 'P0002';
+    END IF;
+
+    SELECT * INTO source_client FROM clients WHERE id = p_source_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Клиент % не найден', p_source_id USING ERRCODE = 'P0002';
+    END IF;
+
+    -- Оплаты считаются до переноса: они привязаны к заказам, долгам и продажам
+    SELECT jsonb_build_object(
+        'payments', (
+            SELECT count(*) FROM payments p
+            WHERE p.order_id IN (SELECT id FROM orders WHERE client_id = p_source_id)
+               OR p.debt_id IN (SELECT id FROM debts WHERE client_id = p_source_id)
+               OR p.parts_sale_id IN (SELECT id FROM parts_sales WHERE client_id = p_source_id)
+        )
+    ) INTO moved;
+
+    PERFORM set_config('app.client_merge', 'on', true);
+
+    UPDATE vehicle_owners SET client_id = p_target_id WHERE client_id = p_source_id;
+
+    WITH updated AS (
+        UPDATE vehicles SET client_id = p_target_id WHERE client_id = p_source_id RETURNING 1
+    )
+    SELECT moved || jsonb_build_object('vehicles', count(*)) INTO moved FROM updated;
+
+    WITH updated AS (
+        UPDATE orders SET client_id = p_target_id WHERE client_id = p_source_id RETURNING 1
+    )
+    SELECT moved || jsonb_build_object('orders', count(*)) INTO moved FROM updated;
+
+    WITH updated AS (
+        UPDATE debts SET client_id = p_target_id WHERE client_id = p_source_id RETURNING 1
+    )
+    SELECT moved || jsonb_build_object('debts', count(*)) INTO moved FROM updated;
+
+    WITH updated AS (
+        UPDATE parts_sales SET client_id = p_target_id WHERE client_id = p_source_id RETURNING 1
+    )
+    SELECT moved || jsonb_build_object('parts_sales', count(*)) INTO moved FROM updated;
+
+    WITH updated AS (
+        UPDATE appointments SET client_id = p_target_id WHERE client_id = p_source_id RETURNING 1
+    )
+    SELECT moved || jsonb_build_object('appointments', count(*)) INTO moved FROM updated;
+
+    UPDATE service_reminders SET client_id = p_target_id WHERE client_id = p_source_id;
+
+    PERFORM set_config('app.client_merge', 'off', true);
+
+    INSERT INTO client_merges (target_client_id, source_client_id, source_data, moved, merged_by)
+    VALUES (p_target_id, p_source_id, to_jsonb(source_client), moved, p_merged_by)
+    RETURNING id INTO merge_id;
+
+    DELETE FROM clients WHERE id = p_source_id;
+
+    UPDATE clients SET
+        phone = coalesce(phone, source_client.phone),
+        notes = CASE
+            WHEN nullif(trim(source_client.notes), '') IS NULL THEN notes
+            WHEN nullif(trim(notes), '') IS NULL THEN source_client.notes
+            ELSE notes || E'\n' || source_client.notes
+        END
+    WHERE id = p_target_id;
+
+    RETURN merge_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- RLS для журнала объединений
+ALTER TABLE client_merges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Админ и директор видят журнал объединений" ON client_merges
+    FOR SELECT USING (
+        auth.jwt() ->> 'role' IN ('admin', 'director')
+    );
+
+CREATE POLICY "Админ и директор объединяют клиентов" ON client_merges
+    FOR INSERT WITH CHECK (
+        auth.jwt() ->> 'role' IN ('admin', 'director')
+    );
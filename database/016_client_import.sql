@@ -0,0 +1,72 @@
+-- Импорт клиентов и автомобилей из CSV/XLSX: загрузка, проверка, пакетная запись
+
+-- Сеанс импорта. Исходные строки файла хранятся до записи, чтобы
+-- проверку можно было повторить с другим сопоставлением колонок
+CREATE TABLE IF NOT EXISTS client_imports (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    file_name VARCHAR(255) NOT NULL,
+    headers JSONB NOT NULL DEFAULT '[]',
+    rows JSONB NOT NULL DEFAULT '[]',
+    mapping JSONB NOT NULL DEFAULT '{}',
+    status VARCHAR(20) DEFAULT 'validated' CHECK (
+        status IN ('validated', 'importing', 'completed', 'failed')
+    ),
+    total_rows INTEGER NOT NULL DEFAULT 0,
+    valid_rows INTEGER NOT NULL DEFAULT 0,
+    duplicate_rows INTEGER NOT NULL DEFAULT 0,
+    imported_rows INTEGER NOT NULL DEFAULT 0,
+    errors JSONB NOT NULL DEFAULT '[]',
+    duplicates JSONB NOT NULL DEFAULT '[]',
+    created_by UUID REFERENCES masters(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_client_imports_created_at ON client_imports(created_at);
+
+CREATE TRIGGER update_client_imports_updated_at
+    BEFORE UPDATE ON client_imports
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Запись пакета клиентов. Каждая строка - отдельная подтранзакция:
+-- ошибка одной строки (например, телефон уже занят) не отменяет остальные.
+-- p_rows: [{ "row": 2, "client": {...}, "vehicles": [...] }]
+CREATE OR REPLACE FUNCTION import_clients_batch(p_rows JSONB)
+RETURNS TABLE (
+    file_row INTEGER,
+    client_id UUID,
+    error TEXT
+) AS $$
+DECLARE
+    item JSONB;
+BEGIN
+    FOR item IN SELECT * FROM jsonb_array_elements(p_rows)
+    LOOP
+        file_row := (item ->> 'row')::INTEGER;
+        BEGIN
+            client_id := create_client_with_vehicles(
+                item -> 'client',
+                COALESCE(item -> 'vehicles', '[]'::JSONB)
+            );
+            error := NULL;
+        EXCEPTION WHEN OTHERS THEN
+            client_id := NULL;
+            error := CASE SQLSTATE
+                WHEN '23505' THEN 'Клиент с таким телефоном или автомобиль с таким VIN уже существует'
+                ELSE SQLERRM
+            END;
+        END;
+        RETURN NEXT;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- RLS для сеансов импорта
+ALTER TABLE client_imports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Админ и директор управляют импортом" ON client_imports
+    FOR ALL USING (
+        auth.jwt() ->> 'role' IN ('admin', 'director')
+    );
@@ -0,0 +1,267 @@
+-- История клиента: заметки о звонках, хронология и итоговые показатели
+
+-- Заметки о звонках и произвольные заметки по клиенту
+CREATE TABLE IF NOT EXISTS client_notes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    client_id UUID REFERENCES clients(id) ON DELETE CASCADE,
+    type VARCHAR(10) NOT NULL DEFAULT 'note' CHECK (type IN ('call', 'note')),
+    text TEXT NOT NULL CHECK (length(trim(text)) > 0),
+    created_by UUID REFERENCES masters(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_client_notes_client ON client_notes(client_id, created_at);
+
+-- Хронология клиента: заказы, оплаты (по заказам, долгам и продажам клиента),
+-- долги, покупки запчастей и заметки. p_types ограничивает типы событий
+CREATE OR REPLACE FUNCTION get_client_timeline(
+    p_client_id UUID,
+    p_types TEXT[] DEFAULT NULL,
+    p_date_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_date_to TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS TABLE (
+    type TEXT,
+    id TEXT,
+    occurred_at TIMESTAMP WITH TIME ZONE,
+    title TEXT,
+    amount DECIMAL,
+    status TEXT,
+    order_id VARCHAR,
+    details JSONB
+) AS $$
+    SELECT * FROM (
+        SELECT
+            'order'::TEXT,
+            o.id::TEXT,
+            o.created_at,
+            'Заказ ' || o.id,
+            o.total,
+            o.status::TEXT,
+            o.id,
+            jsonb_build_object(
+                'vehicle', CASE WHEN v.id IS NOT NULL THEN jsonb_build_object(
+                    'id', v.id, 'make', v.make, 'model', v.model, 'plate', v.plate
+                ) END,
+                'mileage', o.mileage,
+                'services', o.services
+            )
+        FROM orders o
+        LEFT JOIN vehicles v ON v.id = o.vehicle_id
+        WHERE o.client_id = p_client_id
+
+        UNION ALL
+
+        SELECT
+            'payment',
+            p.id::TEXT,
+            p.created_at,
+            CASE
+                WHEN p.order_id IS NOT NULL THEN 'Оплата заказа ' || p.order_id
+                WHEN p.debt_id IS NOT NULL THEN 'Погашение долга'
+                ELSE 'Оплата запчастей'
+            END,
+            p.amount,
+            p.type::TEXT,
+            p.order_id,
+            jsonb_build_object('debt_id', p.debt_id, 'parts_sale_id', p.parts_sale_id, 'notes', p.notes)
+        FROM payments p
+        WHERE p.order_id IN (SELECT id FROM orders WHERE client_id = p_client_id)
+           OR p.debt_id IN (SELECT id FROM debts WHERE client_id = p_client_id)
+           OR p.parts_sale_id IN (SELECT id FROM parts_sales WHERE client_id = p_client_id)
+
+        UNION ALL
+
+        SELECT
+            'debt',
+            d.id::TEXT,
+            d.created_at,
+            CASE WHEN d.order_id IS NOT NULL THEN 'Долг по заказу ' || d.order_id ELSE 'Долг' END,
+            d.amount,
+            CASE WHEN d.remaining > 0 THEN 'active' ELSE 'paid' END,
+            d.order_id,
+            jsonb_build_object('remaining', d.remaining, 'notes', d.notes)
+        FROM debts d
+        WHERE d.client_id = p_client_id
+
+        UNION ALL
+
+        SELECT
+            'parts_sale',
+            s.id::TEXT,
+            s.created_at,
+            s.part_name,
+            s.total,
+            NULL,
+            NULL,
+            jsonb_build_object('part_number', s.part_number, 'quantity', s.quantity, 'price', s.price)
+        FROM parts_sales s
+        WHERE s.client_id = p_client_id
+
+        UNION ALL
+
+        SELECT
+            'note',
+            n.id::TEXT,
+            n.created_at,
+            n.text,
+            NULL,
+            n.type::TEXT,
+            NULL,
+            jsonb_build_object('author', m.full_name, 'created_by', n.created_by)
+        FROM client_notes n
+        LEFT JOIN masters m ON m.id = n.created_by
+        WHERE n.client_id = p_client_id
+    ) AS events (type, id, occurred_at, title, amount, status, order_id, details)
+    WHERE (p_types IS NULL OR events.type = ANY (p_types))
+      AND (p_date_from IS NULL OR events.occurred_at >= p_date_from)
+      AND (p_date_to IS NULL OR events.occurred_at < p_date_to)
+    ORDER BY events.occurred_at DESC;
+$$ LANGUAGE sql STABLE;
+
+-- Итоги по клиенту за все время. Выручка (LTV) и средний чек считаются по
+-- выданным и закрытым заказам плюс покупки запчастей; последний визит - дата
+-- последнего заказа
+CREATE OR REPLACE FUNCTION get_client_totals(p_client_id UUID)
+RETURNS TABLE (
+    lifetime_value DECIMAL,
+    orders_count BIGINT,
+    average_check DECIMAL,
+    parts_total DECIMAL,
+    paid_total DECIMAL,
+    debt_total DECIMAL,
+    last_visit TIMESTAMP WITH TIME ZONE
+) AS $$
+    WITH completed AS (
+        SELECT total FROM orders
+        WHERE client_id = p_client_id AND status IN ('выдан', 'закрыт')
+    ),
+    parts AS (
+        SELECT coalesce(sum(total), 0) AS total FROM parts_sales WHERE client_id = p_client_id
+    )
+    SELECT
+        (SELECT coalesce(sum(total), 0) FROM completed) + parts.total,
+        (SELECT count(*) FROM orders WHERE client_id = p_client_id),
+        (SELECT coalesce(round(avg(total), 2), 0) FROM completed),
+        parts.total,
+        (
+            SELECT coalesce(sum(p.amount), 0) FROM payments p
+            WHERE p.order_id IN (SELECT id FROM orders WHERE client_id = p_client_id)
+               OR p.debt_id IN (SELECT id FROM debts WHERE client_id = p_client_id)
+               OR p.parts_sale_id IN (SELECT id FROM parts_sales WHERE client_id = p_client_id)
+        ),
+        (SELECT coalesce(sum(remaining), 0) FROM debts WHERE client_id = p_client_id),
+        (SELECT max(created_at) FROM orders WHERE client_id = p_client_id)
+    FROM parts;
+$$ LANGUAGE sql STABLE;
+
+-- Заметки переходят к основному клиенту при объединении
+CREATE OR REPLACE FUNCTION merge_clients(
+    p_target_id UUID,
+    p_source_id UUID,
+    p_merged_by UUID
+)
+RETURNS UUID AS $$
+DECLARE
+    target_client clients%ROWTYPE;
+    source_client clients%ROWTYPE;
+    moved JSONB;
+    merge_id UUID;
+BEGIN
+    IF p_target_id = p_source_id THEN
+        RAISE EXCEPTION 'Нельзя объединить клиента с самим собой' USING ERRCODE = '22023';
+    END IF;
+
+    SELECT * INTO target_client FROM clients WHERE id = p_target_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Клиент % не найден', p_target_id USING ERRCODE = 'P0002';
+    END IF;
+
+    SELECT * INTO source_client FROM clients WHERE id = p_source_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Клиент % не найден', p_source_id USING ERRCODE = 'P0002';
+    END IF;
+
+    -- Оплаты считаются до переноса: они привязаны к заказам, долгам и продажам
+    SELECT jsonb_build_object(
+        'payments', (
+            SELECT count(*) FROM payments p
+            WHERE p.order_id IN (SELECT id FROM orders WHERE client_id = p_source_id)
+               OR p.debt_id IN (SELECT id FROM debts WHERE client_id = p_source_id)
+               OR p.parts_sale_id IN (SELECT id FROM parts_sales WHERE client_id = p_source_id)
+        )
+    ) INTO moved;
+
+    PERFORM set_config('app.client_merge', 'on', true);
+
+    UPDATE vehicle_owners SET client_id = p_target_id WHERE client_id = p_source_id;
+
+    WITH updated AS (
+        UPDATE vehicles SET client_id = p_target_id WHERE client_id = p_source_id RETURNING 1
+    )
+    SELECT moved || jsonb_build_object('vehicles', count(*)) INTO moved FROM updated;
+
+    WITH updated AS (
+        UPDATE orders SET client_id = p_target_id WHERE client_id = p_source_id RETURNING 1
+    )
+    SELECT moved || jsonb_build_object('orders', count(*)) INTO moved FROM updated;
+
+    WITH updated AS (
+        UPDATE debts SET client_id = p_target_id WHERE client_id = p_source_id RETURNING 1
+    )
+    SELECT moved || jsonb_build_object('debts', count(*)) INTO moved FROM updated;
+
+    WITH updated AS (
+        UPDATE parts_sales SET client_id = p_target_id WHERE client_id = p_source_id RETURNING 1
+    )
+    SELECT moved || jsonb_build_object('parts_sales', count(*)) INTO moved FROM updated;
+
+    WITH updated AS (
+        UPDATE appointments SET client_id = p_target_id WHERE client_id = p_source_id RETURNING 1
+    )
+    SELECT moved || jsonb_build_object('appointments', count(*)) INTO moved FROM updated;
+
+    UPDATE service_reminders SET client_id = p_target_id WHERE client_id = p_source_id;
+
+    WITH updated AS (
+        UPDATE client_notes SET client_id = p_target_id WHERE client_id = p_source_id RETURNING 1
+    )
+    SELECT moved || jsonb_build_object('notes', count(*)) INTO moved FROM updated;
+
+    PERFORM set_config('app.client_merge', 'off', true);
+
+    INSERT INTO client_merges (target_client_id, source_client_id, source_data, moved, merged_by)
+    VALUES (p_target_id, p_source_id, to_jsonb(source_client), moved, p_merged_by)
+    RETURNING id INTO merge_id;
+
+    DELETE FROM clients WHERE id = p_source_id;
+
+    UPDATE clients SET
+        phone = coalesce(phone, source_client.phone),
+        notes = CASE
+            WHEN nullif(trim(source_client.notes), '') IS NULL THEN notes
+            WHEN nullif(trim(notes), '') IS NULL THEN source_client.notes
+            ELSE notes || E'\n' || source_client.notes
+        END
+    WHERE id = p_target_id;
+
+    RETURN merge_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- RLS для заметок
+ALTER TABLE client_notes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Все пользователи могут читать заметки" ON client_notes
+    FOR SELECT USING (true);
+
+CREATE POLICY "Сотрудники могут добавлять заметки" ON client_notes
+    FOR INSERT WITH CHECK (
+        auth.jwt() ->> 'role' IN ('master', 'admin', 'director')
+    );
+
+CREATE POLICY "Автор, админ и директор могут удалять заметки" ON client_notes
+    FOR DELETE USING (
+        created_by = auth.uid()
+        OR auth.jwt() ->> 'role' IN ('admin', 'director')
+    );
@@ -0,0 +1,565 @@
+-- Программа лояльности: уровни по сумме покупок, скидка в заказах,
+-- начисление бонусов за закрытые заказы и продажи запчастей, оплата бонусами.
+-- 1 бонус = 1 рубль
+
+-- Уровни программы. Клиент получает уровень с наибольшим порогом,
+-- не превышающим его сумму покупок (get_client_totals.lifetime_value)
+CREATE TABLE IF NOT EXISTS loyalty_tiers (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR(100) NOT NULL UNIQUE,
+    min_spend DECIMAL(12,2) NOT NULL DEFAULT 0 UNIQUE CHECK (min_spend >= 0),
+    discount_percent DECIMAL(5,2) NOT NULL DEFAULT 0 CHECK (discount_percent BETWEEN 0 AND 100),
+    points_percent DECIMAL(5,2) NOT NULL DEFAULT 0 CHECK (points_percent BETWEEN 0 AND 100),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TRIGGER update_loyalty_tiers_updated_at
+    BEFORE UPDATE ON loyalty_tiers
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+INSERT INTO loyalty_tiers (name, min_spend, discount_percent, points_percent) VALUES
+    ('Базовый', 0, 0, 3),
+    ('Серебряный', 50000, 3, 5),
+    ('Золотой', 150000, 5, 7)
+ON CONFLICT DO NOTHING;
+
+-- Уровень и бонусный баланс клиента. Баланс меняется только через журнал
+ALTER TABLE clients
+    ADD COLUMN IF NOT EXISTS loyalty_tier_id UUID REFERENCES loyalty_tiers(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS bonus_points INTEGER NOT NULL DEFAULT 0 CHECK (bonus_points >= 0);
+
+CREATE INDEX IF NOT EXISTS idx_clients_loyalty_tier_id ON clients(loyalty_tier_id);
+
+-- Журнал бонусов: начисления (+), списания (-), возвраты списаний (+) и ручные корректировки
+CREATE TABLE IF NOT EXISTS loyalty_transactions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    client_id UUID NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+    type VARCHAR(20) NOT NULL CHECK (type IN ('accrual', 'redemption', 'refund', 'adjustment')),
+    points INTEGER NOT NULL CHECK (points <> 0),
+    order_id VARCHAR(10) REFERENCES orders(id) ON DELETE SET NULL,
+    parts_sale_id UUID REFERENCES parts_sales(id) ON DELETE SET NULL,
+    payment_id UUID REFERENCES payments(id) ON DELETE SET NULL,
+    notes TEXT,
+    created_by UUID REFERENCES masters(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_loyalty_transactions_client_id ON loyalty_transactions(client_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_loyalty_transactions_payment_id ON loyalty_transactions(payment_id);
+
+-- Начисление за заказ или продажу выполняется один раз
+CREATE UNIQUE INDEX IF NOT EXISTS idx_loyalty_transactions_order_accrual
+    ON loyalty_transactions(order_id) WHERE type = 'accrual';
+CREATE UNIQUE INDEX IF NOT EXISTS idx_loyalty_transactions_parts_sale_accrual
+    ON loyalty_transactions(parts_sale_id) WHERE type = 'accrual';
+
+-- Изменение баланса клиента по записи журнала
+CREATE OR REPLACE FUNCTION apply_loyalty_transaction()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE clients SET bonus_points = bonus_points + NEW.points WHERE id = NEW.client_id;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_apply_loyalty_transaction
+    AFTER INSERT ON loyalty_transactions
+    FOR EACH ROW
+    EXECUTE FUNCTION apply_loyalty_transaction();
+
+-- Пересчет уровня клиента по сумме покупок. Возвращает ID уровня
+CREATE OR REPLACE FUNCTION recalculate_client_tier(p_client_id UUID)
+RETURNS UUID AS $$
+DECLARE
+    new_tier_id UUID;
+BEGIN
+    SELECT t.id INTO new_tier_id
+    FROM loyalty_tiers t, get_client_totals(p_client_id) totals
+    WHERE t.min_spend <= totals.lifetime_value
+    ORDER BY t.min_spend DESC
+    LIMIT 1;
+
+    UPDATE clients SET loyalty_tier_id = new_tier_id
+    WHERE id = p_client_id AND loyalty_tier_id IS DISTINCT FROM new_tier_id;
+
+    RETURN new_tier_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Пересчет уровней всех клиентов после изменения настроек программы.
+-- Возвращает число клиентов, у которых сменился уровень
+CREATE OR REPLACE FUNCTION recalculate_loyalty_tiers()
+RETURNS INTEGER AS $$
+DECLARE
+    client_record RECORD;
+    changed INTEGER := 0;
+BEGIN
+    FOR client_record IN SELECT id, loyalty_tier_id FROM clients
+    LOOP
+        IF recalculate_client_tier(client_record.id) IS DISTINCT FROM client_record.loyalty_tier_id THEN
+            changed := changed + 1;
+        END IF;
+    END LOOP;
+
+    RETURN changed;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Новый клиент сразу получает начальный уровень
+CREATE OR REPLACE FUNCTION assign_initial_loyalty_tier()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.loyalty_tier_id IS NULL THEN
+        SELECT id INTO NEW.loyalty_tier_id
+        FROM loyalty_tiers
+        WHERE min_spend = 0;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_assign_initial_loyalty_tier
+    BEFORE INSERT ON clients
+    FOR EACH ROW
+    EXECUTE FUNCTION assign_initial_loyalty_tier();
+
+-- Бонусы за закрытый заказ по проценту уровня клиента на момент закрытия.
+-- Часть заказа, оплаченная бонусами, не начисляется. Уровень пересчитывается,
+-- когда заказ попадает в сумму покупок (выдан или закрыт)
+CREATE OR REPLACE FUNCTION accrue_order_loyalty()
+RETURNS TRIGGER AS $$
+DECLARE
+    tier_percent DECIMAL(5,2);
+    base DECIMAL(10,2);
+    points INTEGER;
+BEGIN
+    IF NEW.client_id IS NULL OR NEW.status IS NOT DISTINCT FROM OLD.status THEN
+        RETURN NEW;
+    END IF;
+
+    IF NEW.status = 'закрыт' THEN
+        SELECT t.points_percent INTO tier_percent
+        FROM clients c
+        JOIN loyalty_tiers t ON t.id = c.loyalty_tier_id
+        WHERE c.id = NEW.client_id;
+
+        SELECT NEW.total - coalesce(sum(amount), 0) INTO base
+        FROM payments
+        WHERE order_id = NEW.id AND type = 'бонусы';
+
+        points := floor(greatest(base, 0) * coalesce(tier_percent, 0) / 100);
+
+        IF points > 0 THEN
+            INSERT INTO loyalty_transactions (client_id, type, points, order_id, notes)
+            VALUES (NEW.client_id, 'accrual', points, NEW.id, 'Начисление за заказ ' || NEW.id)
+            ON CONFLICT DO NOTHING;
+        END IF;
+    END IF;
+
+    IF NEW.status IN ('выдан', 'закрыт') AND OLD.status NOT IN ('выдан', 'закрыт') THEN
+        PERFORM recalculate_client_tier(NEW.client_id);
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_accrue_order_loyalty
+    AFTER UPDATE OF status ON orders
+    FOR EACH ROW
+    EXECUTE FUNCTION accrue_order_loyalty();
+
+-- Бонусы за продажу запчастей клиенту
+CREATE OR REPLACE FUNCTION accrue_parts_sale_loyalty()
+RETURNS TRIGGER AS $$
+DECLARE
+    points INTEGER;
+BEGIN
+    SELECT floor(NEW.total * t.points_percent / 100) INTO points
+    FROM clients c
+    JOIN loyalty_tiers t ON t.id = c.loyalty_tier_id
+    WHERE c.id = NEW.client_id;
+
+    IF points > 0 THEN
+        INSERT INTO loyalty_transactions (client_id, type, points, parts_sale_id, created_by, notes)
+        VALUES (NEW.client_id, 'accrual', points, NEW.id, NEW.seller_id, 'Начисление за покупку запчастей')
+        ON CONFLICT DO NOTHING;
+    END IF;
+
+    PERFORM recalculate_client_tier(NEW.client_id);
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_accrue_parts_sale_loyalty
+    AFTER INSERT ON parts_sales
+    FOR EACH ROW
+    WHEN (NEW.client_id IS NOT NULL)
+    EXECUTE FUNCTION accrue_parts_sale_loyalty();
+
+-- Оплата бонусами - отдельный способ оплаты
+ALTER TABLE payments DROP CONSTRAINT IF EXISTS payments_type_check;
+ALTER TABLE payments ADD CONSTRAINT payments_type_check
+    CHECK (type IN ('наличные', 'карта', 'перевод', 'терминал', 'бонусы'));
+
+-- Списание бонусов при оплате бонусами. Клиент определяется по заказу,
+-- продаже или долгу; при нехватке баланса оплата отклоняется
+CREATE OR REPLACE FUNCTION redeem_loyalty_points()
+RETURNS TRIGGER AS $$
+DECLARE
+    owner_id UUID;
+    balance INTEGER;
+BEGIN
+    IF NEW.amount <> trunc(NEW.amount) THEN
+        RAISE EXCEPTION 'Бонусами можно оплатить только целую сумму' USING ERRCODE = '22023';
+    END IF;
+
+    owner_id := coalesce(
+        (SELECT client_id FROM orders WHERE id = NEW.order_id),
+        (SELECT client_id FROM parts_sales WHERE id = NEW.parts_sale_id),
+        (SELECT client_id FROM debts WHERE id = NEW.debt_id)
+    );
+
+    IF owner_id IS NULL THEN
+        RAISE EXCEPTION 'Оплата бонусами доступна только для клиентов из базы' USING ERRCODE = '22023';
+    END IF;
+
+    SELECT bonus_points INTO balance FROM clients WHERE id = owner_id FOR UPDATE;
+
+    IF balance < NEW.amount THEN
+        RAISE EXCEPTION 'Недостаточно бонусов: доступно %, требуется %', balance, NEW.amount
+            USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO loyalty_transactions (
+        client_id, type, points, order_id, parts_sale_id, payment_id, created_by, notes
+    )
+    VALUES (
+        owner_id, 'redemption', -NEW.amount::INTEGER, NEW.order_id, NEW.parts_sale_id,
+        NEW.id, NEW.created_by, 'Оплата бонусами'
+    );
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_redeem_loyalty_points
+    AFTER INSERT ON payments
+    FOR EACH ROW
+    WHEN (NEW.type = 'бонусы')
+    EXECUTE FUNCTION redeem_loyalty_points();
+
+-- Удаление оплаты бонусами возвращает списанные бонусы клиенту
+CREATE OR REPLACE FUNCTION refund_loyalty_points()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO loyalty_transactions (client_id, type, points, order_id, parts_sale_id, notes)
+    SELECT client_id, 'refund', -points, order_id, parts_sale_id, 'Отмена оплаты бонусами'
+    FROM loyalty_transactions
+    WHERE payment_id = OLD.id AND type = 'redemption';
+
+    RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_refund_loyalty_points
+    BEFORE DELETE ON payments
+    FOR EACH ROW
+    WHEN (OLD.type = 'бонусы')
+    EXECUTE FUNCTION refund_loyalty_points();
+
+-- Скидка заказа - отдельная позиция типа discount с положительной суммой,
+-- которая вычитается из итога заказа
+ALTER TABLE order_items DROP CONSTRAINT IF EXISTS order_items_type_check;
+ALTER TABLE order_items ADD CONSTRAINT order_items_type_check
+    CHECK (type IN ('service', 'part', 'discount'));
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS discount DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (discount >= 0);
+ALTER TABLE orders DROP COLUMN total;
+ALTER TABLE orders ADD COLUMN total DECIMAL(10,2)
+    GENERATED ALWAYS AS (parts_cost + services_cost - discount) STORED;
+
+-- Позиция скидки по уровню клиента для суммы услуг и запчастей.
+-- Пустой массив, если у клиента нет уровня со скидкой
+CREATE OR REPLACE FUNCTION loyalty_discount_items(p_client_id UUID, p_subtotal DECIMAL)
+RETURNS JSONB AS $$
+    SELECT coalesce(jsonb_agg(jsonb_build_object(
+        'type', 'discount',
+        'name', format('Скидка %s%% (%s)', trim_scale(t.discount_percent), t.name),
+        'quantity', 1,
+        'price', round(p_subtotal * t.discount_percent / 100, 2)
+    )), '[]'::JSONB)
+    FROM clients c
+    JOIN loyalty_tiers t ON t.id = c.loyalty_tier_id
+    WHERE c.id = p_client_id
+      AND t.discount_percent > 0
+      AND round(p_subtotal * t.discount_percent / 100, 2) > 0;
+$$ LANGUAGE sql STABLE;
+
+-- Создание заказа со скидкой клиента. Позиции скидки из запроса игнорируются
+CREATE OR REPLACE FUNCTION create_order_with_masters(
+    p_order JSONB,
+    p_masters JSONB,
+    p_created_by UUID DEFAULT NULL,
+    p_items JSONB DEFAULT NULL
+)
+RETURNS VARCHAR(10) AS $$
+DECLARE
+    new_order orders%ROWTYPE;
+    items JSONB;
+BEGIN
+    SELECT coalesce(jsonb_agg(item), '[]'::JSONB) INTO items
+    FROM jsonb_array_elements(coalesce(
+        p_items,
+        legacy_order_items(p_order -> 'services', (p_order ->> 'parts_cost')::DECIMAL)
+    )) AS item
+    WHERE item ->> 'type' <> 'discount';
+
+    items := items || loyalty_discount_items(
+        (p_order ->> 'client_id')::UUID,
+        calculate_items_cost(items, 'service') + calculate_items_cost(items, 'part')
+    );
+
+    INSERT INTO orders (client_id, vehicle_id, mileage, services, parts_cost, services_cost, discount, status, notes, created_by)
+    VALUES (
+        (p_order ->> 'client_id')::UUID,
+        (p_order ->> 'vehicle_id')::UUID,
+        (p_order ->> 'mileage')::INTEGER,
+        items_services_json(items),
+        calculate_items_cost(items, 'part'),
+        calculate_items_cost(items, 'service'),
+        calculate_items_cost(items, 'discount'),
+        coalesce(p_order ->> 'status', 'новый'),
+        p_order ->> 'notes',
+        p_created_by
+    )
+    RETURNING * INTO new_order;
+
+    PERFORM replace_order_items(new_order.id, items);
+
+    PERFORM replace_order_masters(new_order.id, p_masters);
+
+    INSERT INTO order_status_history (order_id, from_status, to_status, changed_by)
+    VALUES (new_order.id, NULL, new_order.status, p_created_by);
+
+    RETURN new_order.id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Скидка пересчитывается при изменении позиций или клиента заказа
+CREATE OR REPLACE FUNCTION update_order_with_masters(
+    p_order_id VARCHAR(10),
+    p_changes JSONB,
+    p_masters JSONB DEFAULT NULL,
+    p_changed_by UUID DEFAULT NULL,
+    p_expected_version INTEGER DEFAULT NULL,
+    p_items JSONB DEFAULT NULL
+)
+RETURNS VARCHAR(10) AS $$
+DECLARE
+    current_order orders%ROWTYPE;
+    new_status VARCHAR(20);
+    new_client_id UUID;
+BEGIN
+    SELECT * INTO current_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Заказ % не найден', p_order_id USING ERRCODE = 'P0002';
+    END IF;
+
+    IF p_expected_version IS NOT NULL AND p_expected_version <> current_order.version THEN
+        RAISE EXCEPTION 'Заказ % был изменен (версия %, ожидалась %)',
+            p_order_id, current_order.version, p_expected_version
+            USING ERRCODE = '40001';
+    END IF;
+
+    p_changes := coalesce(p_changes, '{}'::JSONB);
+    new_status := coalesce(p_changes ->> 'status', current_order.status);
+    new_client_id := CASE WHEN p_changes ? 'client_id'
+        THEN (p_changes ->> 'client_id')::UUID ELSE current_order.client_id END;
+
+    IF p_items IS NOT NULL THEN
+        PERFORM replace_order_items(p_order_id, p_items);
+    ELSE
+        IF p_changes ? 'services' THEN
+            PERFORM replace_order_items(
+                p_order_id, legacy_order_items(p_changes -> 'services', NULL), 'service'
+            );
+        END IF;
+
+        IF p_changes ? 'parts_cost' THEN
+            PERFORM replace_order_items(
+                p_order_id, legacy_order_items(NULL, (p_changes ->> 'parts_cost')::DECIMAL), 'part'
+            );
+        END IF;
+    END IF;
+
+    IF p_items IS NOT NULL OR p_changes ?| ARRAY['services', 'parts_cost', 'client_id'] THEN
+        PERFORM replace_order_items(
+            p_order_id,
+            loyalty_discount_items(
+                new_client_id,
+                order_items_cost(p_order_id, 'service') + order_items_cost(p_order_id, 'part')
+            ),
+            'discount'
+        );
+    END IF;
+
+    UPDATE orders SET
+        client_id = new_client_id,
+        vehicle_id = CASE WHEN p_changes ? 'vehicle_id'
+            THEN (p_changes ->> 'vehicle_id')::UUID ELSE vehicle_id END,
+        mileage = CASE WHEN p_changes ? 'mileage'
+            THEN (p_changes ->> 'mileage')::INTEGER ELSE mileage END,
+        services = order_items_services_json(p_order_id),
+        services_cost = order_items_cost(p_order_id, 'service'),
+        parts_cost = order_items_cost(p_order_id, 'part'),
+        discount = order_items_cost(p_order_id, 'discount'),
+        notes = CASE WHEN p_changes ? 'notes'
+            THEN p_changes ->> 'notes' ELSE notes END,
+        status = new_status,
+        updated_at = NOW()
+    WHERE id = p_order_id;
+
+    IF p_masters IS NOT NULL THEN
+        PERFORM replace_order_masters(p_order_id, p_masters);
+    END IF;
+
+    IF new_status IS DISTINCT FROM current_order.status THEN
+        INSERT INTO order_status_history (order_id, from_status, to_status, changed_by)
+        VALUES (p_order_id, current_order.status, new_status, p_changed_by);
+    END IF;
+
+    RETURN p_order_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Журнал бонусов и баланс переходят к основному клиенту при объединении
+CREATE OR REPLACE FUNCTION merge_clients(
+    p_target_id UUID,
+    p_source_id UUID,
+    p_merged_by UUID
+)
+RETURNS UUID AS $$
+DECLARE
+    target_client clients%ROWTYPE;
+    source_client clients%ROWTYPE;
+    moved JSONB;
+    merge_id UUID;
+BEGIN
+    IF p_target_id = p_source_id THEN
+        RAISE EXCEPTION 'Нельзя объединить клиента с самим собой' USING ERRCODE = '22023';
+    END IF;
+
+    SELECT * INTO target_client FROM clients WHERE id = p_target_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Клиент % не найден', p_target_id USING ERRCODE = 'P0002';
+    END IF;
+
+    SELECT * INTO source_client FROM clients WHERE id = p_source_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Клиент % не найден', p_source_id USING ERRCODE = 'P0002';
+    END IF;
+
+    -- Оплаты считаются до переноса: они привязаны к заказам, долгам и продажам
+    SELECT jsonb_build_object(
+        'payments', (
+            SELECT count(*) FROM payments p
+            WHERE p.order_id IN (SELECT id FROM orders WHERE client_id = p_source_id)
+               OR p.debt_id IN (SELECT id FROM debts WHERE client_id = p_source_id)
+               OR p.parts_sale_id IN (SELECT id FROM parts_sales WHERE client_id = p_source_id)
+        )
+    ) INTO moved;
+
+    PERFORM set_config('app.client_merge', 'on', true);
+
+    UPDATE vehicle_owners SET client_id = p_target_id WHERE client_id = p_source_id;
+
+    WITH updated AS (
+        UPDATE vehicles SET client_id = p_target_id WHERE client_id = p_source_id RETURNING 1
+    )
+    SELECT moved || jsonb_build_object('vehicles', count(*)) INTO moved FROM updated;
+
+    WITH updated AS (
+        UPDATE orders SET client_id = p_target_id WHERE client_id = p_source_id RETURNING 1
+    )
+    SELECT moved || jsonb_build_object('orders', count(*)) INTO moved FROM updated;
+
+    WITH updated AS (
+        UPDATE debts SET client_id = p_target_id WHERE client_id = p_source_id RETURNING 1
+    )
+    SELECT moved || jsonb_build_object('debts', count(*)) INTO moved FROM updated;
+
+    WITH updated AS (
+        UPDATE parts_sales SET client_id = p_target_id WHERE client_id = p_source_id RETURNING 1
+    )
+    SELECT moved || jsonb_build_object('parts_sales', count(*)) INTO moved FROM updated;
+
+    WITH updated AS (
+        UPDATE appointments SET client_id = p_target_id WHERE client_id = p_source_id RETURNING 1
+    )
+    SELECT moved || jsonb_build_object('appointments', count(*)) INTO moved FROM updated;
+
+    UPDATE service_reminders SET client_id = p_target_id WHERE client_id = p_source_id;
+
+    WITH updated AS (
+        UPDATE client_notes SET client_id = p_target_id WHERE client_id = p_source_id RETURNING 1
+    )
+    SELECT moved || jsonb_build_object('notes', count(*)) INTO moved FROM updated;
+
+    -- Баланс переносится одной суммой: триггер журнала срабатывает только на вставку
+    WITH updated AS (
+        UPDATE loyalty_transactions SET client_id = p_target_id WHERE client_id = p_source_id RETURNING 1
+    )
+    SELECT moved || jsonb_build_object('loyalty_transactions', count(*)) INTO moved FROM updated;
+
+    PERFORM set_config('app.client_merge', 'off', true);
+
+    INSERT INTO client_merges (target_client_id, source_client_id, source_data, moved, merged_by)
+    VALUES (p_target_id, p_source_id, to_jsonb(source_client), moved, p_merged_by)
+    RETURNING id INTO merge_id;
+
+    DELETE FROM clients WHERE id = p_source_id;
+
+    UPDATE clients SET
+        phone = coalesce(phone, source_client.phone),
+        notes = CASE
+            WHEN nullif(trim(source_client.notes), '') IS NULL THEN notes
+            WHEN nullif(trim(notes), '') IS NULL THEN source_client.notes
+            ELSE notes || E'\n' || source_client.notes
+        END,
+        bonus_points = bonus_points + source_client.bonus_points
+    WHERE id = p_target_id;
+
+    PERFORM recalculate_client_tier(p_target_id);
+
+    RETURN merge_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Начальные уровни существующих клиентов
+SELECT recalculate_loyalty_tiers();
+
+-- RLS для программы лояльности
+ALTER TABLE loyalty_tiers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE loyalty_transactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Все пользователи могут читать уровни лояльности" ON loyalty_tiers
+    FOR SELECT USING (true);
+
+CREATE POLICY "Директор управляет уровнями лояльности" ON loyalty_tiers
+    FOR ALL USING (
+        auth.jwt() ->> 'role' = 'director'
+    );
+
+CREATE POLICY "Все пользователи могут читать журнал бонусов" ON loyalty_transactions
+    FOR SELECT USING (true);
+
+CREATE POLICY "Админ и директор могут добавлять записи журнала бонусов" ON loyalty_transactions
+    FOR INSERT WITH CHECK (
+        auth.jwt() ->> 'role' IN ('admin', 'director')
+    );
@@ -0,0 +1,255 @@
+-- Персональные данные клиентов (152-ФЗ): согласия, журнал выгрузок и обезличивание
+
+-- Согласия клиента. Журнал только дополняется: действующее значение -
+-- последняя запись по типу, отзыв согласия - запись с granted = false
+CREATE TABLE IF NOT EXISTS client_consents (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    client_id UUID NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+    type VARCHAR(30) NOT NULL CHECK (type IN ('data_processing', 'marketing_sms')),
+    granted BOOLEAN NOT NULL,
+    source VARCHAR(20) NOT NULL DEFAULT 'office' CHECK (
+        source IN ('office', 'phone', 'online_booking')
+    ),
+    notes TEXT,
+    recorded_by UUID REFERENCES masters(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_client_consents_client ON client_consents(client_id, type, created_at);
+
+-- Действующие согласия клиента: последняя запись по каждому типу
+CREATE OR REPLACE FUNCTION get_client_consents(p_client_id UUID)
+RETURNS SETOF client_consents AS $$
+    SELECT DISTINCT ON (type) *
+    FROM client_consents
+    WHERE client_id = p_client_id
+    ORDER BY type, created_at DESC;
+$$ LANGUAGE sql STABLE;
+
+-- Есть ли у клиента действующее согласие заданного типа
+CREATE OR REPLACE FUNCTION client_has_consent(p_client_id UUID, p_type VARCHAR)
+RETURNS BOOLEAN AS $$
+    SELECT coalesce((
+        SELECT granted FROM get_client_consents(p_client_id) WHERE type = p_type
+    ), false);
+$$ LANGUAGE sql STABLE;
+
+-- Журнал запросов по персональным данным: выгрузки и обезличивания
+CREATE TABLE IF NOT EXISTS client_data_requests (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    client_id UUID REFERENCES clients(id) ON DELETE SET NULL,
+    type VARCHAR(20) NOT NULL CHECK (type IN ('export', 'anonymize')),
+    format VARCHAR(10) CHECK (format IN ('json', 'zip')),
+    performed_by UUID REFERENCES masters(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_client_data_requests_client ON client_data_requests(client_id, created_at);
+
+-- Отметка об обезличивании клиента
+ALTER TABLE clients
+    ADD COLUMN IF NOT EXISTS anonymized_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS anonymized_by UUID REFERENCES masters(id) ON DELETE SET NULL;
+
+-- Обезличивание клиента: имя, телефон, VIN и госномера, заметки и снимки
+-- объединенных дублей удаляются. Заказы, оплаты, долги, продажи и бонусы
+-- остаются для учета. Клиент с незавершенными заказами или записями не обезличивается
+CREATE OR REPLACE FUNCTION anonymize_client(p_client_id UUID, p_performed_by UUID)
+RETURNS VOID AS $$
+DECLARE
+    target_client clients%ROWTYPE;
+BEGIN
+    SELECT * INTO target_client FROM clients WHERE id = p_client_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Клиент % не найден', p_client_id USING ERRCODE = 'P0002';
+    END IF;
+
+    IF target_client.anonymized_at IS NOT NULL THEN
+        RAISE EXCEPTION 'Клиент уже обезличен' USING ERRCODE = '22023';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM orders
+        WHERE client_id = p_client_id AND status NOT IN ('выдан', 'закрыт')
+    ) THEN
+        RAISE EXCEPTION 'У клиента есть незавершенные заказы' USING ERRCODE = '22023';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM appointments
+        WHERE client_id = p_client_id
+          AND status IN ('pending', 'scheduled', 'confirmed', 'arrived')
+          AND ends_at > NOW()
+    ) THEN
+        RAISE EXCEPTION 'У клиента есть предстоящие записи' USING ERRCODE = '22023';
+    END IF;
+
+    UPDATE clients SET
+        name = 'Клиент удален',
+        phone = NULL,
+        car1 = NULL,
+        car2 = NULL,
+        vin = NULL,
+        notes = NULL,
+        anonymized_at = NOW(),
+        anonymized_by = p_performed_by
+    WHERE id = p_client_id;
+
+    UPDATE vehicles SET plate = NULL, vin = NULL, notes = NULL WHERE client_id = p_client_id;
+
+    UPDATE parts_sales SET client_name = NULL, client_phone = NULL WHERE client_id = p_client_id;
+
+    UPDATE appointments SET notes = NULL WHERE client_id = p_client_id;
+
+    -- Уведомления об онлайн-записи содержат имя и телефон
+    DELETE FROM notifications
+    WHERE entity_type = 'appointment'
+      AND entity_id IN (SELECT id::TEXT FROM appointments WHERE client_id = p_client_id);
+
+    DELETE FROM client_notes WHERE client_id = p_client_id;
+
+    DELETE FROM service_reminders WHERE client_id = p_client_id;
+
+    DELETE FROM booking_otps WHERE phone = target_client.phone;
+
+    UPDATE client_merges SET source_data = jsonb_build_object('anonymized', true)
+    WHERE target_client_id = p_client_id;
+
+    -- Действующие согласия отзываются, история согласий сохраняется
+    INSERT INTO client_consents (client_id, type, granted, notes, recorded_by)
+    SELECT p_client_id, type, false, 'Отзыв при обезличивании', p_performed_by
+    FROM get_client_consents(p_client_id)
+    WHERE granted;
+
+    INSERT INTO client_data_requests (client_id, type, performed_by)
+    VALUES (p_client_id, 'anonymize', p_performed_by);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Согласия и журнал запросов переходят к основному клиенту при объединении
+CREATE OR REPLACE FUNCTION merge_clients(
+    p_target_id UUID,
+    p_source_id UUID,
+    p_merged_by UUID
+)
+RETURNS UUID AS $$
+DECLARE
+    target_client clients%ROWTYPE;
+    source_client clients%ROWTYPE;
+    moved JSONB;
+    merge_id UUID;
+BEGIN
+    IF p_target_id = p_source_id THEN
+        RAISE EXCEPTION 'Нельзя объединить клиента с самим собой' USING ERRCODE = '22023';
+    END IF;
+
+    SELECT * INTO target_client FROM clients WHERE id = p_target_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Клиент % не найден', p_target_id USING ERRCODE = 'P0002';
+    END IF;
+
+    SELECT * INTO source_client FROM clients WHERE id = p_source_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Клиент % не найден', p_source_id USING ERRCODE = 'P0002';
+    END IF;
+
+    -- Оплаты считаются до переноса: они привязаны к заказам, долгам и продажам
+    SELECT jsonb_build_object(
+        'payments', (
+            SELECT count(*) FROM payments p
+            WHERE p.order_id IN (SELECT id FROM orders WHERE client_id = p_source_id)
+               OR p.debt_id IN (SELECT id FROM debts WHERE client_id = p_source_id)
+               OR p.parts_sale_id IN (SELECT id FROM parts_sales WHERE client_id = p_source_id)
+        )
+    ) INTO moved;
+
+    PERFORM set_config('app.client_merge', 'on', true);
+
+    UPDATE vehicle_owners SET client_id = p_target_id WHERE client_id = p_source_id;
+
+    WITH updated AS (
+        UPDATE vehicles SET client_id = p_target_id WHERE client_id = p_source_id RETURNING 1
+    )
+    SELECT moved || jsonb_build_object('vehicles', count(*)) INTO moved FROM updated;
+
+    WITH updated AS (
+        UPDATE orders SET client_id = p_target_id WHERE client_id = p_source_id RETURNING 1
+    )
+    SELECT moved || jsonb_build_object('orders', count(*)) INTO moved FROM updated;
+
+    WITH updated AS (
+        UPDATE debts SET client_id = p_target_id WHERE client_id = p_source_id RETURNING 1
+    )
+    SELECT moved || jsonb_build_object('debts', count(*)) INTO moved FROM updated;
+
+    WITH updated AS (
+        UPDATE parts_sales SET client_id = p_target_id WHERE client_id = p_source_id RETURNING 1
+    )
+    SELECT moved || jsonb_build_object('parts_sales', count(*)) INTO moved FROM updated;
+
+    WITH updated AS (
+        UPDATE appointments SET client_id = p_target_id WHERE client_id = p_source_id RETURNING 1
+    )
+    SELECT moved || jsonb_build_object('appointments', count(*)) INTO moved FROM updated;
+
+    UPDATE service_reminders SET client_id = p_target_id WHERE client_id = p_source_id;
+
+    WITH updated AS (
+        UPDATE client_notes SET client_id = p_target_id WHERE client_id = p_source_id RETURNING 1
+    )
+    SELECT moved || jsonb_build_object('notes', count(*)) INTO moved FROM updated;
+
+    -- Баланс переносится одной суммой: триггер журнала срабатывает только на вставку
+    WITH updated AS (
+        UPDATE loyalty_transactions SET client_id = p_target_id WHERE client_id = p_source_id RETURNING 1
+    )
+    SELECT moved || jsonb_build_object('loyalty_transactions', count(*)) INTO moved FROM updated;
+
+    WITH updated AS (
+        UPDATE client_consents SET client_id = p_target_id WHERE client_id = p_source_id RETURNING 1
+    )
+    SELECT moved || jsonb_build_object('consents', count(*)) INTO moved FROM updated;
+
+    UPDATE client_data_requests SET client_id = p_target_id WHERE client_id = p_source_id;
+
+    PERFORM set_config('app.client_merge', 'off', true);
+
+    INSERT INTO client_merges (target_client_id, source_client_id, source_data, moved, merged_by)
+    VALUES (p_target_id, p_source_id, to_jsonb(source_client), moved, p_merged_by)
+    RETURNING id INTO merge_id;
+
+    DELETE FROM clients WHERE id = p_source_id;
+
+    UPDATE clients SET
+        phone = coalesce(phone, source_client.phone),
+        notes = CASE
+            WHEN nullif(trim(source_client.notes), '') IS NULL THEN notes
+            WHEN nullif(trim(notes), '') IS NULL THEN source_client.notes
+            ELSE notes || E'\n' || source_client.notes
+        END,
+        bonus_points = bonus_points + source_client.bonus_points
+    WHERE id = p_target_id;
+
+    PERFORM recalculate_client_tier(p_target_id);
+
+    RETURN merge_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- RLS для согласий и журнала запросов
+ALTER TABLE client_consents ENABLE ROW LEVEL SECURITY;
+ALTER TABLE client_data_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Все пользователи могут читать согласия" ON client_consents
+    FOR SELECT USING (true);
+
+CREATE POLICY "Сотрудники могут записывать согласия" ON client_consents
+    FOR INSERT WITH CHECK (
+        auth.jwt() ->> 'role' IN ('master', 'admin', 'director')
+    );
+
+CREATE POLICY "Админ и директор видят журнал запросов" ON client_data_requests
+    FOR SELECT USING (
+        auth.jwt() ->> 'role' IN ('admin', 'director')
+    );
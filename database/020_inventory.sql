@@ -0,0 +1,306 @@
+-- Складской учет запчастей: каталог, склады, журнал движений.
+-- Остаток не хранится, а считается суммой движений
+
+-- Артикул для сравнения: только латинские буквы и цифры в верхнем регистре
+CREATE OR REPLACE FUNCTION normalize_part_number(p_part_number TEXT)
+RETURNS TEXT AS $$
+    SELECT nullif(upper(regexp_replace(coalesce(p_part_number, ''), '[^A-Za-z0-9]', '', 'g')), '');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Каталог запчастей
+CREATE TABLE IF NOT EXISTS parts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    part_number VARCHAR(100) NOT NULL,
+    brand VARCHAR(100),
+    name VARCHAR(255) NOT NULL,
+    unit VARCHAR(10) NOT NULL DEFAULT 'шт' CHECK (unit IN ('шт', 'л', 'кг', 'м', 'компл')),
+    purchase_price DECIMAL(10,2) CHECK (purchase_price >= 0),
+    retail_price DECIMAL(10,2) CHECK (retail_price >= 0),
+    notes TEXT,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Артикул уникален в пределах бренда
+CREATE UNIQUE INDEX IF NOT EXISTS idx_parts_number_brand
+    ON parts(normalize_part_number(part_number), upper(coalesce(brand, '')));
+CREATE INDEX IF NOT EXISTS idx_parts_name_trgm ON parts USING gin (name gin_trgm_ops);
+
+CREATE TRIGGER update_parts_updated_at
+    BEFORE UPDATE ON parts
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Склады. Склад по умолчанию используется для продаж и заказов без указания склада
+CREATE TABLE IF NOT EXISTS warehouses (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR(100) NOT NULL UNIQUE,
+    address TEXT,
+    is_default BOOLEAN NOT NULL DEFAULT false,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_warehouses_default ON warehouses(is_default) WHERE is_default;
+
+CREATE TRIGGER update_warehouses_updated_at
+    BEFORE UPDATE ON warehouses
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+INSERT INTO warehouses (name, is_default) VALUES ('Основной склад', true)
+ON CONFLICT DO NOTHING;
+
+CREATE OR REPLACE FUNCTION default_warehouse_id()
+RETURNS UUID AS $$
+    SELECT id FROM warehouses WHERE is_default;
+$$ LANGUAGE sql STABLE;
+
+-- Связь продаж и позиций заказов с каталогом и складом
+ALTER TABLE parts_sales
+    ADD COLUMN IF NOT EXISTS part_id UUID REFERENCES parts(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS warehouse_id UUID REFERENCES warehouses(id) ON DELETE SET NULL;
+
+ALTER TABLE order_items
+    ADD COLUMN IF NOT EXISTS part_id UUID REFERENCES parts(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_parts_sales_part_id ON parts_sales(part_id);
+CREATE INDEX IF NOT EXISTS idx_order_items_part_id ON order_items(part_id);
+
+-- Журнал движений. Приход и возврат увеличивают остаток, продажа, списание
+-- и расход в заказ - уменьшают. Движения продаж и заказов создаются
+-- триггерами и удаляются вместе со своим документом
+CREATE TABLE IF NOT EXISTS stock_movements (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    part_id UUID NOT NULL REFERENCES parts(id) ON DELETE RESTRICT,
+    warehouse_id UUID NOT NULL REFERENCES warehouses(id) ON DELETE RESTRICT,
+    type VARCHAR(20) NOT NULL CHECK (
+        type IN ('receipt', 'sale', 'write_off', 'order_consumption', 'return')
+    ),
+    quantity DECIMAL(10,2) NOT NULL,
+    unit_cost DECIMAL(10,2) CHECK (unit_cost >= 0),
+    parts_sale_id UUID REFERENCES parts_sales(id) ON DELETE CASCADE,
+    order_item_id UUID REFERENCES order_items(id) ON DELETE CASCADE,
+    order_id VARCHAR(10) REFERENCES orders(id) ON DELETE SET NULL,
+    notes TEXT,
+    created_by UUID REFERENCES masters(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CHECK (
+        (type IN ('receipt', 'return') AND quantity > 0)
+        OR (type IN ('sale', 'write_off', 'order_consumption') AND quantity < 0)
+    ),
+    CHECK (type <> 'sale' OR parts_sale_id IS NOT NULL),
+    CHECK (type <> 'order_consumption' OR order_item_id IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_movements_part ON stock_movements(part_id, warehouse_id);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_created_at ON stock_movements(created_at);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_parts_sale_id ON stock_movements(parts_sale_id);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_order_item_id ON stock_movements(order_item_id);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_order_id ON stock_movements(order_id);
+
+-- Текущий остаток по запчасти и складу. Отрицательный остаток означает,
+-- что продано или израсходовано больше, чем оприходовано
+CREATE OR REPLACE VIEW part_stock AS
+    SELECT part_id, warehouse_id, sum(quantity)::DECIMAL(10,2) AS quantity
+    FROM stock_movements
+    GROUP BY part_id, warehouse_id;
+
+-- Запчасть каталога по артикулу, если артикул однозначен
+CREATE OR REPLACE FUNCTION find_part_id(p_part_number TEXT)
+RETURNS UUID AS $$
+    SELECT CASE WHEN count(*) = 1 THEN (array_agg(id))[1] END
+    FROM parts
+    WHERE normalize_part_number(part_number) = normalize_part_number(p_part_number)
+      AND is_active;
+$$ LANGUAGE sql STABLE;
+
+-- Продажа и позиция заказа без part_id связываются с каталогом по артикулу
+CREATE OR REPLACE FUNCTION link_part_by_number()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.part_id IS NULL AND NEW.part_number IS NOT NULL THEN
+        NEW.part_id := find_part_id(NEW.part_number);
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_link_parts_sale_part
+    BEFORE INSERT OR UPDATE OF part_id, part_number ON parts_sales
+    FOR EACH ROW
+    EXECUTE FUNCTION link_part_by_number();
+
+CREATE TRIGGER trigger_link_order_item_part
+    BEFORE INSERT ON order_items
+    FOR EACH ROW
+    WHEN (NEW.type = 'part')
+    EXECUTE FUNCTION link_part_by_number();
+
+-- Движение по продаже запчастей: пересоздается при изменении продажи
+CREATE OR REPLACE FUNCTION sync_parts_sale_movement()
+RETURNS TRIGGER AS $$
+BEGIN
+    DELETE FROM stock_movements WHERE parts_sale_id = NEW.id;
+
+    IF NEW.part_id IS NOT NULL THEN
+        INSERT INTO stock_movements (part_id, warehouse_id, type, quantity, unit_cost, parts_sale_id, created_by)
+        SELECT NEW.part_id, coalesce(NEW.warehouse_id, default_warehouse_id()), 'sale', -NEW.quantity,
+               p.purchase_price, NEW.id, NEW.seller_id
+        FROM parts p
+        WHERE p.id = NEW.part_id;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_sync_parts_sale_movement
+    AFTER INSERT OR UPDATE OF part_id, quantity, warehouse_id ON parts_sales
+    FOR EACH ROW
+    EXECUTE FUNCTION sync_parts_sale_movement();
+
+-- Расход запчасти в заказ. Позиции заказа заменяются целиком
+-- (replace_order_items), поэтому движения удаляются и создаются вместе с ними.
+-- Ограничение: у заказа и позиции нет склада, запчасти всегда списываются
+-- со склада по умолчанию. При нескольких складах остаток другого склада
+-- переносится на склад по умолчанию приходом или корректируется инвентаризацией
+CREATE OR REPLACE FUNCTION create_order_item_movement()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO stock_movements (part_id, warehouse_id, type, quantity, unit_cost, order_item_id, order_id)
+    VALUES (
+        NEW.part_id, default_warehouse_id(), 'order_consumption', -NEW.quantity,
+        NEW.purchase_price, NEW.id, NEW.order_id
+    );
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_create_order_item_movement
+    AFTER INSERT ON order_items
+    FOR EACH ROW
+    WHEN (NEW.type = 'part' AND NEW.part_id IS NOT NULL)
+    EXECUTE FUNCTION create_order_item_movement();
+
+-- Замена позиций заказа с привязкой к каталогу (part_id)
+CREATE OR REPLACE FUNCTION replace_order_items(
+    p_order_id VARCHAR(10),
+    p_items JSONB,
+    p_type VARCHAR DEFAULT NULL
+)
+RETURNS VOID AS $$
+BEGIN
+    DELETE FROM order_items
+    WHERE order_id = p_order_id AND (p_type IS NULL OR type = p_type);
+
+    INSERT INTO order_items (order_id, type, service_id, part_id, name, part_number, quantity, purchase_price, price)
+    SELECT
+        p_order_id,
+        item ->> 'type',
+        (item ->> 'service_id')::UUID,
+        (item ->> 'part_id')::UUID,
+        item ->> 'name',
+        item ->> 'part_number',
+        coalesce((item ->> 'quantity')::DECIMAL, 1),
+        (item ->> 'purchase_price')::DECIMAL,
+        (item ->> 'price')::DECIMAL
+    FROM jsonb_array_elements(coalesce(p_items, '[]'::JSONB)) AS item
+    WHERE p_type IS NULL OR item ->> 'type' = p_type;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Остатки с данными каталога для списка склада.
+-- Без склада остаток суммируется по всем складам
+CREATE OR REPLACE FUNCTION get_inventory_stock(
+    p_warehouse_id UUID DEFAULT NULL,
+    p_search TEXT DEFAULT NULL,
+    p_in_stock BOOLEAN DEFAULT NULL,
+    p_limit INTEGER DEFAULT 20,
+    p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+    part_id UUID,
+    part_number VARCHAR,
+    brand VARCHAR,
+    name VARCHAR,
+    unit VARCHAR,
+    purchase_price DECIMAL,
+    retail_price DECIMAL,
+    quantity DECIMAL,
+    stock_value DECIMAL,
+    total_count BIGINT
+) AS $$
+    WITH stock AS (
+        SELECT s.part_id, sum(s.quantity) AS quantity
+        FROM part_stock s
+        WHERE p_warehouse_id IS NULL OR s.warehouse_id = p_warehouse_id
+        GROUP BY s.part_id
+    ),
+    found AS (
+        SELECT
+            p.id AS part_id,
+            p.part_number,
+            p.brand,
+            p.name,
+            p.unit,
+            p.purchase_price,
+            p.retail_price,
+            coalesce(stock.quantity, 0)::DECIMAL AS quantity
+        FROM parts p
+        LEFT JOIN stock ON stock.part_id = p.id
+        WHERE p.is_active
+          AND (
+              p_search IS NULL
+              OR normalize_part_number(p.part_number) LIKE '%' || normalize_part_number(p_search) || '%'
+              OR p.name ILIKE '%' || p_search || '%'
+              OR p.brand ILIKE '%' || p_search || '%'
+          )
+          AND (
+              p_in_stock IS NULL
+              OR (p_in_stock AND coalesce(stock.quantity, 0) > 0)
+              OR (NOT p_in_stock AND coalesce(stock.quantity, 0) <= 0)
+          )
+    )
+    SELECT
+        found.*,
+        round(found.quantity * coalesce(found.purchase_price, 0), 2) AS stock_value,
+        count(*) OVER () AS total_count
+    FROM found
+    ORDER BY found.name, found.part_number
+    LIMIT p_limit OFFSET p_offset;
+$$ LANGUAGE sql STABLE;
+
+-- RLS для склада
+ALTER TABLE parts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE warehouses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stock_movements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Все пользователи могут читать каталог запчастей" ON parts
+    FOR SELECT USING (true);
+
+CREATE POLICY "Админ и директор управляют каталогом запчастей" ON parts
+    FOR ALL USING (
+        auth.jwt() ->> 'role' IN ('admin', 'director')
+    );
+
+CREATE POLICY "Все пользователи могут читать склады" ON warehouses
+    FOR SELECT USING (true);
+
+CREATE POLICY "Директор управляет складами" ON warehouses
+    FOR ALL USING (
+        auth.jwt() ->> 'role' = 'director'
+    );
+
+CREATE POLICY "Все пользователи могут читать движения" ON stock_movements
+    FOR SELECT USING (true);
+
+CREATE POLICY "Админ и директор могут добавлять движения" ON stock_movements
+    FOR INSERT WITH CHECK (
+        auth.jwt() ->> 'role' IN ('admin', 'director')
+    );
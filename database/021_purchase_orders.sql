@@ -0,0 +1,285 @@
+-- Поставщики и заказы поставщикам. Приемка приходует запчасти на склад,
+-- а заказ в ожидании деталей возвращается в работу после поступления всех деталей
+
+CREATE TABLE IF NOT EXISTS suppliers (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR(255) NOT NULL UNIQUE,
+    contact_person VARCHAR(255),
+    phone VARCHAR(20),
+    email VARCHAR(255),
+    address TEXT,
+    delivery_days INTEGER CHECK (delivery_days >= 0), -- обычный срок поставки
+    notes TEXT,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TRIGGER update_suppliers_updated_at
+    BEFORE UPDATE ON suppliers
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Заказ поставщику. Черновик можно править, после отправки ожидается приемка
+CREATE TABLE IF NOT EXISTS purchase_orders (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    supplier_id UUID NOT NULL REFERENCES suppliers(id) ON DELETE RESTRICT,
+    warehouse_id UUID NOT NULL REFERENCES warehouses(id) ON DELETE RESTRICT,
+    status VARCHAR(20) NOT NULL DEFAULT 'draft' CHECK (
+        status IN ('draft', 'ordered', 'partially_received', 'received', 'cancelled')
+    ),
+    expected_at DATE,
+    ordered_at TIMESTAMP WITH TIME ZONE,
+    received_at TIMESTAMP WITH TIME ZONE,
+    notes TEXT,
+    created_by UUID REFERENCES masters(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_supplier_id ON purchase_orders(supplier_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_status ON purchase_orders(status, expected_at);
+
+CREATE TRIGGER update_purchase_orders_updated_at
+    BEFORE UPDATE ON purchase_orders
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Позиции заказа поставщику. order_id - заказ клиента, для которого заказана деталь
+CREATE TABLE IF NOT EXISTS purchase_order_items (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    purchase_order_id UUID NOT NULL REFERENCES purchase_orders(id) ON DELETE CASCADE,
+    part_id UUID NOT NULL REFERENCES parts(id) ON DELETE RESTRICT,
+    order_id VARCHAR(10) REFERENCES orders(id) ON DELETE SET NULL,
+    quantity DECIMAL(10,2) NOT NULL CHECK (quantity > 0),
+    received_quantity DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (received_quantity >= 0),
+    unit_cost DECIMAL(10,2) CHECK (unit_cost >= 0),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CHECK (received_quantity <= quantity)
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_order_items_purchase_order_id ON purchase_order_items(purchase_order_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_order_items_order_id ON purchase_order_items(order_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_order_items_part_id ON purchase_order_items(part_id);
+
+-- Приход по приемке ссылается на позицию заказа поставщику
+ALTER TABLE stock_movements
+    ADD COLUMN IF NOT EXISTS purchase_order_item_id UUID REFERENCES purchase_order_items(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_stock_movements_purchase_order_item_id ON stock_movements(purchase_order_item_id);
+
+-- Создание заказа поставщику с позициями одной транзакцией
+CREATE OR REPLACE FUNCTION create_purchase_order(
+    p_data JSONB,
+    p_items JSONB,
+    p_created_by UUID
+)
+RETURNS UUID AS $$
+DECLARE
+    new_id UUID;
+BEGIN
+    IF jsonb_array_length(coalesce(p_items, '[]'::JSONB)) = 0 THEN
+        RAISE EXCEPTION 'Заказ поставщику должен содержать позиции' USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO purchase_orders (supplier_id, warehouse_id, expected_at, notes, created_by)
+    VALUES (
+        (p_data ->> 'supplier_id')::UUID,
+        coalesce((p_data ->> 'warehouse_id')::UUID, default_warehouse_id()),
+        (p_data ->> 'expected_at')::DATE,
+        p_data ->> 'notes',
+        p_created_by
+    )
+    RETURNING id INTO new_id;
+
+    -- Себестоимость по умолчанию - закупочная цена из каталога
+    INSERT INTO purchase_order_items (purchase_order_id, part_id, order_id, quantity, unit_cost)
+    SELECT
+        new_id,
+        (item ->> 'part_id')::UUID,
+        item ->> 'order_id',
+        (item ->> 'quantity')::DECIMAL,
+        coalesce((item ->> 'unit_cost')::DECIMAL, p.purchase_price)
+    FROM jsonb_array_elements(p_items) AS item
+    LEFT JOIN parts p ON p.id = (item ->> 'part_id')::UUID;
+
+    RETURN new_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Проверка заказа клиента после приемки: если все заказанные для него детали
+-- получены, заказ в ожидании деталей переходит в работу, а мастера заказа,
+-- администраторы и директор получают уведомление
+CREATE OR REPLACE FUNCTION complete_order_parts(p_order_id VARCHAR(10), p_changed_by UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+    order_status VARCHAR(20);
+    has_masters BOOLEAN;
+    recipient RECORD;
+BEGIN
+    IF EXISTS (
+        SELECT 1
+        FROM purchase_order_items i
+        JOIN purchase_orders po ON po.id = i.purchase_order_id
+        WHERE i.order_id = p_order_id
+          AND po.status <> 'cancelled'
+          AND i.received_quantity < i.quantity
+    ) THEN
+        RETURN false;
+    END IF;
+
+    SELECT status INTO order_status FROM orders WHERE id = p_order_id FOR UPDATE;
+
+    IF order_status IS DISTINCT FROM 'ожидание_деталей' THEN
+        RETURN false;
+    END IF;
+
+    has_masters := EXISTS (SELECT 1 FROM order_masters WHERE order_id = p_order_id);
+
+    -- Переход в работу требует назначенных мастеров, без них только уведомление
+    IF has_masters THEN
+        PERFORM update_order_with_masters(
+            p_order_id, jsonb_build_object('status', 'в_работе'), NULL, p_changed_by
+        );
+    END IF;
+
+    FOR recipient IN
+        SELECT master_id AS user_id FROM order_masters WHERE order_id = p_order_id
+        UNION
+        SELECT id FROM masters WHERE role IN ('admin', 'director')
+    LOOP
+        INSERT INTO notifications (user_id, title, message, type, entity_id, entity_type)
+        VALUES (
+            recipient.user_id,
+            'Детали поступили',
+            'Все детали по заказу ' || p_order_id || ' получены' ||
+                CASE WHEN has_masters THEN ', заказ переведен в работу' ELSE '' END,
+            'order_parts_received',
+            p_order_id,
+            'order'
+        );
+    END LOOP;
+
+    RETURN has_masters;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Приемка заказа поставщику. p_items - [{item_id, quantity}], без них
+-- принимаются все оставшиеся позиции. Каждая принятая позиция приходуется
+-- на склад заказа. Возвращает затронутые заказы клиентов и признак перевода в работу
+CREATE OR REPLACE FUNCTION receive_purchase_order(
+    p_purchase_order_id UUID,
+    p_items JSONB,
+    p_received_by UUID
+)
+RETURNS TABLE (customer_order_id VARCHAR(10), resumed BOOLEAN) AS $$
+DECLARE
+    purchase purchase_orders%ROWTYPE;
+    line RECORD;
+    affected_orders VARCHAR(10)[] := '{}';
+BEGIN
+    SELECT * INTO purchase FROM purchase_orders WHERE id = p_purchase_order_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Заказ поставщику % не найден', p_purchase_order_id USING ERRCODE = 'P0002';
+    END IF;
+
+    IF purchase.status NOT IN ('ordered', 'partially_received') THEN
+        RAISE EXCEPTION 'Принять можно только отправленный заказ поставщику' USING ERRCODE = '22023';
+    END IF;
+
+    IF p_items IS NOT NULL AND EXISTS (
+        SELECT 1 FROM jsonb_array_elements(p_items) AS item
+        WHERE NOT EXISTS (
+            SELECT 1 FROM purchase_order_items i
+            WHERE i.id = (item ->> 'item_id')::UUID AND i.purchase_order_id = p_purchase_order_id
+        )
+    ) THEN
+        RAISE EXCEPTION 'Позиция не относится к заказу поставщику' USING ERRCODE = '22023';
+    END IF;
+
+    FOR line IN
+        SELECT
+            i.*,
+            CASE
+                WHEN p_items IS NULL THEN i.quantity - i.received_quantity
+                ELSE (
+                    SELECT sum((item ->> 'quantity')::DECIMAL)
+                    FROM jsonb_array_elements(p_items) AS item
+                    WHERE (item ->> 'item_id')::UUID = i.id
+                )
+            END AS requested
+        FROM purchase_order_items i
+        WHERE i.purchase_order_id = p_purchase_order_id
+        FOR UPDATE OF i
+    LOOP
+        CONTINUE WHEN line.requested IS NULL OR line.requested <= 0;
+
+        IF line.received_quantity + line.requested > line.quantity THEN
+            RAISE EXCEPTION 'Принято больше, чем заказано: позиция %', line.id USING ERRCODE = '22023';
+        END IF;
+
+        UPDATE purchase_order_items
+        SET received_quantity = received_quantity + line.requested
+        WHERE id = line.id;
+
+        INSERT INTO stock_movements (
+            part_id, warehouse_id, type, quantity, unit_cost,
+            order_id, purchase_order_item_id, created_by
+        )
+        VALUES (
+            line.part_id, purchase.warehouse_id, 'receipt', line.requested, line.unit_cost,
+            line.order_id, line.id, p_received_by
+        );
+
+        IF line.order_id IS NOT NULL AND NOT line.order_id = ANY(affected_orders) THEN
+            affected_orders := affected_orders || line.order_id;
+        END IF;
+    END LOOP;
+
+    UPDATE purchase_orders SET
+        status = CASE
+            WHEN NOT EXISTS (
+                SELECT 1 FROM purchase_order_items
+                WHERE purchase_order_id = p_purchase_order_id AND received_quantity < quantity
+            ) THEN 'received'
+            ELSE 'partially_received'
+        END,
+        received_at = NOW()
+    WHERE id = p_purchase_order_id;
+
+    RETURN QUERY
+        SELECT affected.id, complete_order_parts(affected.id, p_received_by)
+        FROM unnest(affected_orders) AS affected(id);
+END;
+$$ LANGUAGE plpgsql;
+
+-- RLS для закупок
+ALTER TABLE suppliers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE purchase_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE purchase_order_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Все пользователи могут читать поставщиков" ON suppliers
+    FOR SELECT USING (true);
+
+CREATE POLICY "Админ и директор управляют поставщиками" ON suppliers
+    FOR ALL USING (
+        auth.jwt() ->> 'role' IN ('admin', 'director')
+    );
+
+CREATE POLICY "Все пользователи могут читать заказы поставщикам" ON purchase_orders
+    FOR SELECT USING (true);
+
+CREATE POLICY "Админ и директор управляют заказами поставщикам" ON purchase_orders
+    FOR ALL USING (
+        auth.jwt() ->> 'role' IN ('admin', 'director')
+    );
+
+CREATE POLICY "Все пользователи могут читать позиции заказов поставщикам" ON purchase_order_items
+    FOR SELECT USING (true);
+
+CREATE POLICY "Админ и директор управляют позициями заказов поставщикам" ON purchase_order_items
+    FOR ALL USING (
+        auth.jwt() ->> 'role' IN ('admin', 'director')
+    );
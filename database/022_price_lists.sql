@@ -0,0 +1,304 @@
+-- Прайс-листы поставщиков: предложения, нормализация брендов и кроссы артикулов
+
+-- Бренд для сравнения: буквы и цифры в верхнем регистре
+CREATE OR REPLACE FUNCTION brand_key(p_brand TEXT)
+RETURNS TEXT AS $$
+    SELECT nullif(upper(regexp_replace(coalesce(p_brand, ''), '[^[:alnum:]]', '', 'g')), '');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Варианты написания бренда: "MANN-FILTER", "Mann" -> "MANN"
+CREATE TABLE IF NOT EXISTS brand_aliases (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    alias VARCHAR(100) NOT NULL,
+    brand VARCHAR(100) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_brand_aliases_alias ON brand_aliases(brand_key(alias));
+
+INSERT INTO brand_aliases (alias, brand) VALUES
+    ('MANN-FILTER', 'MANN'),
+    ('MANN FILTER', 'MANN'),
+    ('LEMFÖRDER', 'LEMFORDER'),
+    ('LEMFOERDER', 'LEMFORDER'),
+    ('VW', 'VAG'),
+    ('VOLKSWAGEN', 'VAG'),
+    ('AUDI', 'VAG'),
+    ('SKODA', 'VAG'),
+    ('MERCEDES-BENZ', 'MERCEDES'),
+    ('MB', 'MERCEDES'),
+    ('HYUNDAI/KIA', 'HYUNDAI-KIA'),
+    ('MOBIS', 'HYUNDAI-KIA'),
+    ('TRW AUTOMOTIVE', 'TRW'),
+    ('FEBI BILSTEIN', 'FEBI')
+ON CONFLICT DO NOTHING;
+
+-- Каноническое написание бренда: по справочнику вариантов или как есть
+CREATE OR REPLACE FUNCTION normalize_brand(p_brand TEXT)
+RETURNS TEXT AS $$
+    SELECT coalesce(
+        (SELECT brand FROM brand_aliases WHERE brand_key(alias) = brand_key(p_brand)),
+        nullif(upper(trim(p_brand)), '')
+    );
+$$ LANGUAGE sql STABLE;
+
+-- Каталог склада и прайс-листы хранят бренды в каноническом написании
+CREATE OR REPLACE FUNCTION normalize_brand_column()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.brand := normalize_brand(NEW.brand);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_normalize_part_brand
+    BEFORE INSERT OR UPDATE OF brand ON parts
+    FOR EACH ROW
+    EXECUTE FUNCTION normalize_brand_column();
+
+UPDATE parts SET brand = normalize_brand(brand) WHERE brand IS NOT NULL;
+
+-- Сопоставление колонок прайс-листа сохраняется для следующей загрузки
+ALTER TABLE suppliers
+    ADD COLUMN IF NOT EXISTS price_list_mapping JSONB;
+
+-- Загрузки прайс-листов
+CREATE TABLE IF NOT EXISTS price_list_imports (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    supplier_id UUID NOT NULL REFERENCES suppliers(id) ON DELETE CASCADE,
+    file_name VARCHAR(255) NOT NULL,
+    mapping JSONB NOT NULL DEFAULT '{}',
+    status VARCHAR(20) NOT NULL DEFAULT 'importing' CHECK (
+        status IN ('importing', 'completed', 'failed')
+    ),
+    total_rows INTEGER NOT NULL DEFAULT 0,
+    imported_rows INTEGER NOT NULL DEFAULT 0,
+    cross_rows INTEGER NOT NULL DEFAULT 0,
+    errors JSONB NOT NULL DEFAULT '[]',
+    created_by UUID REFERENCES masters(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_price_list_imports_supplier ON price_list_imports(supplier_id, created_at);
+
+-- Предложения поставщиков из последнего загруженного прайс-листа.
+-- quantity NULL - наличие в прайсе не указано
+CREATE TABLE IF NOT EXISTS supplier_offers (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    supplier_id UUID NOT NULL REFERENCES suppliers(id) ON DELETE CASCADE,
+    price_list_import_id UUID NOT NULL REFERENCES price_list_imports(id) ON DELETE CASCADE,
+    part_number VARCHAR(100) NOT NULL,
+    part_number_key VARCHAR(100) GENERATED ALWAYS AS (normalize_part_number(part_number)) STORED,
+    brand VARCHAR(100),
+    name VARCHAR(255),
+    price DECIMAL(10,2) NOT NULL CHECK (price >= 0),
+    quantity INTEGER CHECK (quantity >= 0),
+    delivery_days INTEGER CHECK (delivery_days >= 0),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_supplier_offers_part_number_key ON supplier_offers(part_number_key);
+CREATE INDEX IF NOT EXISTS idx_supplier_offers_supplier ON supplier_offers(supplier_id, price_list_import_id);
+
+CREATE TRIGGER trigger_normalize_offer_brand
+    BEFORE INSERT ON supplier_offers
+    FOR EACH ROW
+    EXECUTE FUNCTION normalize_brand_column();
+
+-- Завершение загрузки: предложения прежних прайс-листов поставщика
+-- заменяются новыми одной транзакцией
+CREATE OR REPLACE FUNCTION complete_price_list_import(
+    p_import_id UUID,
+    p_imported_rows INTEGER,
+    p_cross_rows INTEGER,
+    p_errors JSONB
+)
+RETURNS VOID AS $$
+DECLARE
+    import_supplier_id UUID;
+BEGIN
+    SELECT supplier_id INTO import_supplier_id FROM price_list_imports WHERE id = p_import_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Загрузка прайс-листа % не найдена', p_import_id USING ERRCODE = 'P0002';
+    END IF;
+
+    DELETE FROM supplier_offers
+    WHERE supplier_id = import_supplier_id AND price_list_import_id <> p_import_id;
+
+    UPDATE price_list_imports SET
+        status = 'completed',
+        imported_rows = p_imported_rows,
+        cross_rows = p_cross_rows,
+        errors = p_errors,
+        completed_at = NOW()
+    WHERE id = p_import_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Кроссы: взаимозаменяемые артикулы (оригинал и аналоги). Связь
+-- симметричная и хранится один раз. Бренд NULL - любой бренд
+CREATE TABLE IF NOT EXISTS part_crosses (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    part_number VARCHAR(100) NOT NULL,
+    part_number_key VARCHAR(100) GENERATED ALWAYS AS (normalize_part_number(part_number)) STORED,
+    brand VARCHAR(100),
+    cross_number VARCHAR(100) NOT NULL,
+    cross_number_key VARCHAR(100) GENERATED ALWAYS AS (normalize_part_number(cross_number)) STORED,
+    cross_brand VARCHAR(100),
+    source VARCHAR(20) NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'price_list')),
+    created_by UUID REFERENCES masters(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CHECK (normalize_part_number(part_number) IS NOT NULL AND normalize_part_number(cross_number) IS NOT NULL)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_part_crosses_pair ON part_crosses(
+    part_number_key, coalesce(brand_key(brand), ''), cross_number_key, coalesce(brand_key(cross_brand), '')
+);
+CREATE INDEX IF NOT EXISTS idx_part_crosses_cross_number_key ON part_crosses(cross_number_key);
+
+CREATE OR REPLACE FUNCTION normalize_cross_brands()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.brand := normalize_brand(NEW.brand);
+    NEW.cross_brand := normalize_brand(NEW.cross_brand);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_normalize_cross_brands
+    BEFORE INSERT ON part_crosses
+    FOR EACH ROW
+    EXECUTE FUNCTION normalize_cross_brands();
+
+-- Добавление кроссов без повторов, в том числе обратных.
+-- p_crosses: [{part_number, brand, cross_number, cross_brand}]. Возвращает число новых
+CREATE OR REPLACE FUNCTION add_part_crosses(
+    p_crosses JSONB,
+    p_source VARCHAR,
+    p_created_by UUID
+)
+RETURNS INTEGER AS $$
+DECLARE
+    inserted INTEGER;
+BEGIN
+    WITH candidates AS (
+        SELECT DISTINCT
+            item ->> 'part_number' AS part_number,
+            normalize_brand(item ->> 'brand') AS brand,
+            item ->> 'cross_number' AS cross_number,
+            normalize_brand(item ->> 'cross_brand') AS cross_brand
+        FROM jsonb_array_elements(p_crosses) AS item
+        WHERE normalize_part_number(item ->> 'part_number') IS NOT NULL
+          AND normalize_part_number(item ->> 'cross_number') IS NOT NULL
+          AND normalize_part_number(item ->> 'part_number') <> normalize_part_number(item ->> 'cross_number')
+    ),
+    added AS (
+        INSERT INTO part_crosses (part_number, brand, cross_number, cross_brand, source, created_by)
+        SELECT c.part_number, c.brand, c.cross_number, c.cross_brand, p_source, p_created_by
+        FROM candidates c
+        WHERE NOT EXISTS (
+            SELECT 1 FROM part_crosses x
+            WHERE x.part_number_key = normalize_part_number(c.cross_number)
+              AND coalesce(brand_key(x.brand), '') = coalesce(brand_key(c.cross_brand), '')
+              AND x.cross_number_key = normalize_part_number(c.part_number)
+              AND coalesce(brand_key(x.cross_brand), '') = coalesce(brand_key(c.brand), '')
+        )
+        ON CONFLICT DO NOTHING
+        RETURNING 1
+    )
+    SELECT count(*) INTO inserted FROM added;
+
+    RETURN inserted;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Предложения по артикулу и его кроссам у активных поставщиков, в наличии
+-- или без указания наличия. Первой строкой - самое дешевое предложение
+CREATE OR REPLACE FUNCTION search_part_offers(
+    p_part_number TEXT,
+    p_brand TEXT DEFAULT NULL,
+    p_limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+    id UUID,
+    supplier_id UUID,
+    supplier_name VARCHAR,
+    part_number VARCHAR,
+    brand VARCHAR,
+    name VARCHAR,
+    price DECIMAL,
+    quantity INTEGER,
+    delivery_days INTEGER,
+    is_cross BOOLEAN,
+    price_list_date TIMESTAMP WITH TIME ZONE
+) AS $$
+    WITH requested AS (
+        SELECT normalize_part_number(p_part_number) AS number_key, brand_key(normalize_brand(p_brand)) AS brand
+    ),
+    numbers AS (
+        SELECT number_key, brand, false AS is_cross FROM requested
+        UNION ALL
+        SELECT x.cross_number_key, brand_key(x.cross_brand), true
+        FROM part_crosses x, requested r
+        WHERE x.part_number_key = r.number_key
+          AND (r.brand IS NULL OR x.brand IS NULL OR brand_key(x.brand) = r.brand)
+        UNION ALL
+        SELECT x.part_number_key, brand_key(x.brand), true
+        FROM part_crosses x, requested r
+        WHERE x.cross_number_key = r.number_key
+          AND (r.brand IS NULL OR x.cross_brand IS NULL OR brand_key(x.cross_brand) = r.brand)
+    )
+    SELECT DISTINCT ON (o.price, o.id)
+        o.id,
+        o.supplier_id,
+        s.name,
+        o.part_number,
+        o.brand,
+        o.name,
+        o.price,
+        o.quantity,
+        coalesce(o.delivery_days, s.delivery_days),
+        n.is_cross,
+        i.completed_at
+    FROM supplier_offers o
+    JOIN numbers n ON n.number_key = o.part_number_key
+        AND (n.brand IS NULL OR o.brand IS NULL OR brand_key(o.brand) = n.brand)
+    JOIN suppliers s ON s.id = o.supplier_id AND s.is_active
+    JOIN price_list_imports i ON i.id = o.price_list_import_id AND i.status = 'completed'
+    WHERE o.quantity IS NULL OR o.quantity > 0
+    ORDER BY o.price, o.id, n.is_cross
+    LIMIT p_limit;
+$$ LANGUAGE sql STABLE;
+
+-- RLS для прайс-листов
+ALTER TABLE brand_aliases ENABLE ROW LEVEL SECURITY;
+ALTER TABLE price_list_imports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE supplier_offers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE part_crosses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Все пользователи могут читать варианты брендов" ON brand_aliases
+    FOR SELECT USING (true);
+
+CREATE POLICY "Админ и директор управляют вариантами брендов" ON brand_aliases
+    FOR ALL USING (
+        auth.jwt() ->> 'role' IN ('admin', 'director')
+    );
+
+CREATE POLICY "Админ и директор видят загрузки прайс-листов" ON price_list_imports
+    FOR SELECT USING (
+        auth.jwt() ->> 'role' IN ('admin', 'director')
+    );
+
+CREATE POLICY "Все пользователи могут читать предложения поставщиков" ON supplier_offers
+    FOR SELECT USING (true);
+
+CREATE POLICY "Все пользователи могут читать кроссы" ON part_crosses
+    FOR SELECT USING (true);
+
+CREATE POLICY "Админ и директор управляют кроссами" ON part_crosses
+    FOR ALL USING (
+        auth.jwt() ->> 'role' IN ('admin', 'director')
+    );
@@ -0,0 +1,331 @@
+-- Продажа запчастей с несколькими позициями: чек (parts_sales) и его строки
+-- (parts_sale_items). Скидка задается на строку и на весь чек
+
+CREATE TABLE IF NOT EXISTS parts_sale_items (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    parts_sale_id UUID NOT NULL REFERENCES parts_sales(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL DEFAULT 1,
+    part_id UUID REFERENCES parts(id) ON DELETE SET NULL,
+    part_name VARCHAR(255) NOT NULL,
+    part_number VARCHAR(100),
+    quantity DECIMAL(10,2) NOT NULL DEFAULT 1 CHECK (quantity > 0),
+    price DECIMAL(10,2) NOT NULL CHECK (price >= 0),
+    discount DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (discount >= 0),
+    total DECIMAL(10,2) GENERATED ALWAYS AS (quantity * price - discount) STORED,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CHECK (discount <= quantity * price)
+);
+
+CREATE INDEX IF NOT EXISTS idx_parts_sale_items_parts_sale_id ON parts_sale_items(parts_sale_id, position);
+CREATE INDEX IF NOT EXISTS idx_parts_sale_items_part_id ON parts_sale_items(part_id);
+CREATE INDEX IF NOT EXISTS idx_parts_sale_items_part_number ON parts_sale_items(part_number);
+
+-- Прежние продажи становятся чеками из одной строки; скидка переходит в строку
+INSERT INTO parts_sale_items (parts_sale_id, part_id, part_name, part_number, quantity, price, discount, created_at)
+SELECT id, part_id, part_name, part_number, quantity, price, least(coalesce(discount, 0), quantity * price), created_at
+FROM parts_sales;
+
+-- Движение продажи относится к строке чека
+ALTER TABLE stock_movements
+    ADD COLUMN IF NOT EXISTS parts_sale_item_id UUID REFERENCES parts_sale_items(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_stock_movements_parts_sale_item_id ON stock_movements(parts_sale_item_id);
+
+UPDATE stock_movements m SET parts_sale_item_id = i.id
+FROM parts_sale_items i
+WHERE m.type = 'sale' AND i.parts_sale_id = m.parts_sale_id;
+
+DROP TRIGGER IF EXISTS trigger_link_parts_sale_part ON parts_sales;
+DROP TRIGGER IF EXISTS trigger_sync_parts_sale_movement ON parts_sales;
+DROP FUNCTION IF EXISTS sync_parts_sale_movement();
+
+-- Чек: сумма строк (subtotal), скидка на чек и итог
+ALTER TABLE parts_sales
+    ADD COLUMN IF NOT EXISTS subtotal DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (subtotal >= 0);
+
+UPDATE parts_sales s SET subtotal = i.total, discount = 0
+FROM parts_sale_items i
+WHERE i.parts_sale_id = s.id;
+
+ALTER TABLE parts_sales
+    DROP COLUMN total,
+    DROP COLUMN part_name,
+    DROP COLUMN part_number,
+    DROP COLUMN part_id,
+    DROP COLUMN quantity,
+    DROP COLUMN price;
+
+ALTER TABLE parts_sales ALTER COLUMN discount SET NOT NULL;
+ALTER TABLE parts_sales ADD CONSTRAINT parts_sales_discount_subtotal_check CHECK (discount <= subtotal);
+ALTER TABLE parts_sales ADD COLUMN total DECIMAL(10,2)
+    GENERATED ALWAYS AS (subtotal - discount) STORED;
+
+-- Строка без part_id связывается с каталогом по артикулу
+CREATE TRIGGER trigger_link_parts_sale_item_part
+    BEFORE INSERT ON parts_sale_items
+    FOR EACH ROW
+    EXECUTE FUNCTION link_part_by_number();
+
+-- Строка чека с запчастью из каталога списывает ее со склада продажи
+CREATE OR REPLACE FUNCTION create_parts_sale_item_movement()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO stock_movements (
+        part_id, warehouse_id, type, quantity, unit_cost, parts_sale_id, parts_sale_item_id, created_by
+    )
+    SELECT
+        NEW.part_id, coalesce(s.warehouse_id, default_warehouse_id()), 'sale', -NEW.quantity,
+        p.purchase_price, s.id, NEW.id, s.seller_id
+    FROM parts_sales s
+    JOIN parts p ON p.id = NEW.part_id
+    WHERE s.id = NEW.parts_sale_id;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_create_parts_sale_item_movement
+    AFTER INSERT ON parts_sale_items
+    FOR EACH ROW
+    WHEN (NEW.part_id IS NOT NULL)
+    EXECUTE FUNCTION create_parts_sale_item_movement();
+
+-- Создание чека со строками и оплатой одной транзакцией.
+-- p_items: [{part_id, part_name, part_number, quantity, price, discount}];
+-- для запчасти из каталога название, артикул и розничная цена берутся
+-- из каталога, если не переданы. p_payments: [{type, amount}] - оплата
+-- всего чека, сумма должна совпасть с итогом; пустой массив - без оплаты
+CREATE OR REPLACE FUNCTION create_parts_sale(
+    p_sale JSONB,
+    p_items JSONB,
+    p_payments JSONB,
+    p_seller_id UUID
+)
+RETURNS UUID AS $$
+DECLARE
+    lines JSONB;
+    sale_subtotal DECIMAL(10,2);
+    new_sale parts_sales%ROWTYPE;
+    paid DECIMAL(10,2);
+BEGIN
+    IF jsonb_array_length(coalesce(p_items, '[]'::JSONB)) = 0 THEN
+        RAISE EXCEPTION 'Чек должен содержать позиции' USING ERRCODE = '22023';
+    END IF;
+
+    SELECT jsonb_agg(jsonb_build_object(
+        'position', x.ord,
+        'part_id', x.item ->> 'part_id',
+        'part_name', coalesce(nullif(trim(x.item ->> 'part_name'), ''), p.name),
+        'part_number', coalesce(nullif(trim(x.item ->> 'part_number'), ''), p.part_number),
+        'quantity', (x.item ->> 'quantity')::DECIMAL,
+        'price', coalesce((x.item ->> 'price')::DECIMAL, p.retail_price),
+        'discount', coalesce((x.item ->> 'discount')::DECIMAL, 0)
+    ) ORDER BY x.ord) INTO lines
+    FROM jsonb_array_elements(p_items) WITH ORDINALITY AS x(item, ord)
+    LEFT JOIN parts p ON p.id = (x.item ->> 'part_id')::UUID;
+
+    IF EXISTS (
+        SELECT 1 FROM jsonb_array_elements(lines) AS l
+        WHERE l ->> 'part_name' IS NULL OR l ->> 'price' IS NULL
+    ) THEN
+        RAISE EXCEPTION 'Для позиции не из каталога укажите название и цену' USING ERRCODE = '22023';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM jsonb_array_elements(lines) AS l
+        WHERE (l ->> 'discount')::DECIMAL > round((l ->> 'quantity')::DECIMAL * (l ->> 'price')::DECIMAL, 2)
+    ) THEN
+        RAISE EXCEPTION 'Скидка на позицию больше ее суммы' USING ERRCODE = '22023';
+    END IF;
+
+    SELECT sum(round((l ->> 'quantity')::DECIMAL * (l ->> 'price')::DECIMAL, 2) - (l ->> 'discount')::DECIMAL)
+    INTO sale_subtotal
+    FROM jsonb_array_elements(lines) AS l;
+
+    IF coalesce((p_sale ->> 'discount')::DECIMAL, 0) > sale_subtotal THEN
+        RAISE EXCEPTION 'Скидка на чек больше суммы позиций (%)', sale_subtotal USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO parts_sales (client_name, client_phone, client_id, warehouse_id, subtotal, discount, seller_id, notes)
+    VALUES (
+        p_sale ->> 'client_name',
+        p_sale ->> 'client_phone',
+        (p_sale ->> 'client_id')::UUID,
+        (p_sale ->> 'warehouse_id')::UUID,
+        sale_subtotal,
+        coalesce((p_sale ->> 'discount')::DECIMAL, 0),
+        p_seller_id,
+        p_sale ->> 'notes'
+    )
+    RETURNING * INTO new_sale;
+
+    INSERT INTO parts_sale_items (parts_sale_id, position, part_id, part_name, part_number, quantity, price, discount)
+    SELECT
+        new_sale.id,
+        (l ->> 'position')::INTEGER,
+        (l ->> 'part_id')::UUID,
+        l ->> 'part_name',
+        l ->> 'part_number',
+        (l ->> 'quantity')::DECIMAL,
+        (l ->> 'price')::DECIMAL,
+        (l ->> 'discount')::DECIMAL
+    FROM jsonb_array_elements(lines) AS l;
+
+    IF jsonb_array_length(coalesce(p_payments, '[]'::JSONB)) > 0 THEN
+        SELECT sum((payment ->> 'amount')::DECIMAL) INTO paid
+        FROM jsonb_array_elements(p_payments) AS payment;
+
+        IF paid <> new_sale.total THEN
+            RAISE EXCEPTION 'Сумма оплаты (%) не совпадает с итогом чека (%)', paid, new_sale.total
+                USING ERRCODE = '22023';
+        END IF;
+
+        -- Оплата бонусами списывает бонусы клиента (trigger_redeem_loyalty_points)
+        INSERT INTO payments (parts_sale_id, amount, type, notes, created_by)
+        SELECT new_sale.id, (payment ->> 'amount')::DECIMAL, payment ->> 'type', 'Оплата чека', p_seller_id
+        FROM jsonb_array_elements(p_payments) AS payment;
+    END IF;
+
+    RETURN new_sale.id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Покупка запчастей в хронологии клиента - чек со строками
+CREATE OR REPLACE FUNCTION get_client_timeline(
+    p_client_id UUID,
+    p_types TEXT[] DEFAULT NULL,
+    p_date_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_date_to TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS TABLE (
+    type TEXT,
+    id TEXT,
+    occurred_at TIMESTAMP WITH TIME ZONE,
+    title TEXT,
+    amount DECIMAL,
+    status TEXT,
+    order_id VARCHAR,
+    details JSONB
+) AS $$
+    SELECT * FROM (
+        SELECT
+            'order'::TEXT,
+            o.id::TEXT,
+            o.created_at,
+            'Заказ ' || o.id,
+            o.total,
+            o.status::TEXT,
+            o.id,
+            jsonb_build_object(
+                'vehicle', CASE WHEN v.id IS NOT NULL THEN jsonb_build_object(
+                    'id', v.id, 'make', v.make, 'model', v.model, 'plate', v.plate
+                ) END,
+                'mileage', o.mileage,
+                'services', o.services
+            )
+        FROM orders o
+        LEFT JOIN vehicles v ON v.id = o.vehicle_id
+        WHERE o.client_id = p_client_id
+
+        UNION ALL
+
+        SELECT
+            'payment',
+            p.id::TEXT,
+            p.created_at,
+            CASE
+                WHEN p.order_id IS NOT NULL THEN 'Оплата заказа ' || p.order_id
+                WHEN p.debt_id IS NOT NULL THEN 'Погашение долга'
+                ELSE 'Оплата запчастей'
+            END,
+            p.amount,
+            p.type::TEXT,
+            p.order_id,
+            jsonb_build_object('debt_id', p.debt_id, 'parts_sale_id', p.parts_sale_id, 'notes', p.notes)
+        FROM payments p
+        WHERE p.order_id IN (SELECT id FROM orders WHERE client_id = p_client_id)
+           OR p.debt_id IN (SELECT id FROM debts WHERE client_id = p_client_id)
+           OR p.parts_sale_id IN (SELECT id FROM parts_sales WHERE client_id = p_client_id)
+
+        UNION ALL
+
+        SELECT
+            'debt',
+            d.id::TEXT,
+            d.created_at,
+            CASE WHEN d.order_id IS NOT NULL THEN 'Долг по заказу ' || d.order_id ELSE 'Долг' END,
+            d.amount,
+            CASE WHEN d.remaining > 0 THEN 'active' ELSE 'paid' END,
+            d.order_id,
+            jsonb_build_object('remaining', d.remaining, 'notes', d.notes)
+        FROM debts d
+        WHERE d.client_id = p_client_id
+
+        UNION ALL
+
+        SELECT
+            'parts_sale',
+            s.id::TEXT,
+            s.created_at,
+            i.names,
+            s.total,
+            NULL,
+            NULL,
+            jsonb_build_object('discount', s.discount, 'items', i.items)
+        FROM parts_sales s
+        CROSS JOIN LATERAL (
+            SELECT
+                string_agg(si.part_name, ', ' ORDER BY si.position) AS names,
+                jsonb_agg(jsonb_build_object(
+                    'part_name', si.part_name,
+                    'part_number', si.part_number,
+                    'quantity', si.quantity,
+                    'price', si.price,
+                    'discount', si.discount,
+                    'total', si.total
+                ) ORDER BY si.position) AS items
+            FROM parts_sale_items si
+            WHERE si.parts_sale_id = s.id
+        ) AS i
+        WHERE s.client_id = p_client_id
+
+        UNION ALL
+
+        SELECT
+            'note',
+            n.id::TEXT,
+            n.created_at,
+            n.text,
+            NULL,
+            n.type::TEXT,
+            NULL,
+            jsonb_build_object('author', m.full_name, 'created_by', n.created_by)
+        FROM client_notes n
+        LEFT JOIN masters m ON m.id = n.created_by
+        WHERE n.client_id = p_client_id
+    ) AS events (type, id, occurred_at, title, amount, status, order_id, details)
+    WHERE (p_types IS NULL OR events.type = ANY (p_types))
+      AND (p_date_from IS NULL OR events.occurred_at >= p_date_from)
+      AND (p_date_to IS NULL OR events.occurred_at < p_date_to)
+    ORDER BY events.occurred_at DESC;
+$$ LANGUAGE sql STABLE;
+
+-- RLS для строк чека: доступ как к самому чеку
+ALTER TABLE parts_sale_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Строки чека видны вместе с продажей" ON parts_sale_items
+    FOR SELECT USING (
+        auth.jwt() ->> 'role' IN ('admin', 'director') OR
+        parts_sale_id IN (SELECT id FROM parts_sales WHERE seller_id = auth.uid())
+    );
+
+CREATE POLICY "Продавец добавляет строки в свой чек" ON parts_sale_items
+    FOR INSERT WITH CHECK (
+        parts_sale_id IN (SELECT id FROM parts_sales WHERE seller_id = auth.uid())
+    );
+
+CREATE POLICY "Админ и директор управляют строками чеков" ON parts_sale_items
+    FOR ALL USING (
+        auth.jwt() ->> 'role' IN ('admin', 'director')
+    );
@@ -0,0 +1,370 @@
+-- Возвраты по продажам запчастей и заказам: документ возврата, возврат денег
+-- отрицательной оплатой, возврат запчастей на склад, сторно зарплаты мастеров
+-- и денежный поток с учетом возвратов
+
+-- Документ возврата относится к продаже или к заказу
+CREATE TABLE IF NOT EXISTS returns (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    parts_sale_id UUID REFERENCES parts_sales(id) ON DELETE CASCADE,
+    order_id VARCHAR(10) REFERENCES orders(id) ON DELETE CASCADE,
+    warehouse_id UUID REFERENCES warehouses(id) ON DELETE SET NULL,
+    total DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (total >= 0),
+    reason TEXT,
+    created_by UUID REFERENCES masters(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CHECK ((parts_sale_id IS NULL) <> (order_id IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_returns_parts_sale_id ON returns(parts_sale_id);
+CREATE INDEX IF NOT EXISTS idx_returns_order_id ON returns(order_id);
+CREATE INDEX IF NOT EXISTS idx_returns_created_at ON returns(created_at);
+
+-- Строки возврата. Позиции заказа пересоздаются при его изменении, поэтому
+-- название и запчасть копируются из исходной строки
+CREATE TABLE IF NOT EXISTS return_items (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    return_id UUID NOT NULL REFERENCES returns(id) ON DELETE CASCADE,
+    parts_sale_item_id UUID REFERENCES parts_sale_items(id) ON DELETE SET NULL,
+    order_item_id UUID REFERENCES order_items(id) ON DELETE SET NULL,
+    part_id UUID REFERENCES parts(id) ON DELETE SET NULL,
+    name VARCHAR(255) NOT NULL,
+    quantity DECIMAL(10,2) NOT NULL CHECK (quantity > 0),
+    amount DECIMAL(10,2) NOT NULL CHECK (amount >= 0),
+    restock BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_return_items_return_id ON return_items(return_id);
+CREATE INDEX IF NOT EXISTS idx_return_items_parts_sale_item_id ON return_items(parts_sale_item_id);
+CREATE INDEX IF NOT EXISTS idx_return_items_order_item_id ON return_items(order_item_id);
+
+-- Возврат денег - оплата с отрицательной суммой тем же способом
+ALTER TABLE payments
+    ADD COLUMN IF NOT EXISTS return_id UUID REFERENCES returns(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_payments_return_id ON payments(return_id);
+
+ALTER TABLE payments DROP CONSTRAINT IF EXISTS payments_amount_check;
+ALTER TABLE payments ADD CONSTRAINT payments_amount_check
+    CHECK (amount > 0 OR (amount < 0 AND return_id IS NOT NULL));
+
+-- Списание бонусов - только при оплате; возврат бонусов проводит create_return
+DROP TRIGGER IF EXISTS trigger_redeem_loyalty_points ON payments;
+CREATE TRIGGER trigger_redeem_loyalty_points
+    AFTER INSERT ON payments
+    FOR EACH ROW
+    WHEN (NEW.type = 'бонусы' AND NEW.amount > 0)
+    EXECUTE FUNCTION redeem_loyalty_points();
+
+-- Сторно зарплаты - отрицательное начисление, связанное с возвратом
+ALTER TABLE salaries
+    ADD COLUMN IF NOT EXISTS return_id UUID REFERENCES returns(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_salaries_return_id ON salaries(return_id);
+
+ALTER TABLE salaries DROP CONSTRAINT IF EXISTS salaries_amount_check;
+ALTER TABLE salaries ADD CONSTRAINT salaries_amount_check
+    CHECK (amount >= 0 OR return_id IS NOT NULL);
+
+-- Возврат запчасти на склад
+ALTER TABLE stock_movements
+    ADD COLUMN IF NOT EXISTS return_item_id UUID REFERENCES return_items(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_stock_movements_return_item_id ON stock_movements(return_item_id);
+
+-- Оформление возврата одной транзакцией.
+-- p_data: {parts_sale_id | order_id, warehouse_id, reason};
+-- p_items: [{item_id, quantity, amount, restock}] - строки продажи или позиции заказа.
+-- Сумма строки по умолчанию - ее доля в итоге документа с учетом скидок.
+-- p_refunds: [{type, amount}] - возврат денег, сумма должна совпасть с итогом
+-- возврата; пустой массив - без возврата денег
+CREATE OR REPLACE FUNCTION create_return(
+    p_data JSONB,
+    p_items JSONB,
+    p_refunds JSONB,
+    p_created_by UUID
+)
+RETURNS UUID AS $$
+DECLARE
+    sale_id UUID := (p_data ->> 'parts_sale_id')::UUID;
+    doc_order_id VARCHAR(10) := p_data ->> 'order_id';
+    doc_total DECIMAL(10,2);
+    doc_base DECIMAL(10,2);
+    doc_client_id UUID;
+    doc_warehouse_id UUID;
+    lines JSONB;
+    return_total DECIMAL(10,2);
+    returned DECIMAL(10,2);
+    paid DECIMAL(10,2);
+    refund_sum DECIMAL(10,2);
+    new_id UUID;
+BEGIN
+    IF jsonb_array_length(coalesce(p_items, '[]'::JSONB)) = 0 THEN
+        RAISE EXCEPTION 'Возврат должен содержать позиции' USING ERRCODE = '22023';
+    END IF;
+
+    IF (SELECT count(DISTINCT item ->> 'item_id') FROM jsonb_array_elements(p_items) AS item)
+        <> jsonb_array_length(p_items) THEN
+        RAISE EXCEPTION 'Позиция указана в возврате дважды' USING ERRCODE = '22023';
+    END IF;
+
+    IF sale_id IS NOT NULL THEN
+        SELECT total, subtotal, client_id, warehouse_id
+        INTO doc_total, doc_base, doc_client_id, doc_warehouse_id
+        FROM parts_sales WHERE id = sale_id FOR UPDATE;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Продажа % не найдена', sale_id USING ERRCODE = 'P0002';
+        END IF;
+
+        SELECT jsonb_agg(jsonb_build_object(
+            'source_id', si.id,
+            'part_id', si.part_id,
+            'name', si.part_name,
+            'quantity', (x.item ->> 'quantity')::DECIMAL,
+            'available', si.quantity - coalesce(r.quantity, 0),
+            'share', si.total * (x.item ->> 'quantity')::DECIMAL / si.quantity,
+            'amount', (x.item ->> 'amount')::DECIMAL,
+            'restock', coalesce((x.item ->> 'restock')::BOOLEAN, true)
+        )) INTO lines
+        FROM jsonb_array_elements(p_items) AS x(item)
+        LEFT JOIN parts_sale_items si
+            ON si.id = (x.item ->> 'item_id')::UUID AND si.parts_sale_id = sale_id
+        LEFT JOIN LATERAL (
+            SELECT sum(ri.quantity) AS quantity FROM return_items ri WHERE ri.parts_sale_item_id = si.id
+        ) AS r ON true;
+    ELSIF doc_order_id IS NOT NULL THEN
+        SELECT total, parts_cost + services_cost, client_id
+        INTO doc_total, doc_base, doc_client_id
+        FROM orders WHERE id = doc_order_id FOR UPDATE;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Заказ % не найден', doc_order_id USING ERRCODE = 'P0002';
+        END IF;
+
+        -- Позиция скидки не возвращается: скидка учтена в доле каждой позиции
+        SELECT jsonb_agg(jsonb_build_object(
+            'source_id', oi.id,
+            'part_id', oi.part_id,
+            'name', oi.name,
+            'quantity', (x.item ->> 'quantity')::DECIMAL,
+            'available', oi.quantity - coalesce(r.quantity, 0),
+            'share', oi.total * (x.item ->> 'quantity')::DECIMAL / oi.quantity,
+            'amount', (x.item ->> 'amount')::DECIMAL,
+            'restock', coalesce((x.item ->> 'restock')::BOOLEAN, true)
+        )) INTO lines
+        FROM jsonb_array_elements(p_items) AS x(item)
+        LEFT JOIN order_items oi
+            ON oi.id = (x.item ->> 'item_id')::UUID AND oi.order_id = doc_order_id AND oi.type <> 'discount'
+        LEFT JOIN LATERAL (
+            SELECT sum(ri.quantity) AS quantity FROM return_items ri WHERE ri.order_item_id = oi.id
+        ) AS r ON true;
+    ELSE
+        RAISE EXCEPTION 'Укажите продажу или заказ для возврата' USING ERRCODE = '22023';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM jsonb_array_elements(lines) AS l WHERE l ->> 'source_id' IS NULL) THEN
+        RAISE EXCEPTION 'Позиция возврата не найдена в документе' USING ERRCODE = '22023';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM jsonb_array_elements(lines) AS l
+        WHERE (l ->> 'quantity')::DECIMAL > (l ->> 'available')::DECIMAL
+    ) THEN
+        RAISE EXCEPTION 'Количество возврата больше проданного' USING ERRCODE = '22023';
+    END IF;
+
+    -- Доля строки в итоге документа: скидка на чек или заказ распределяется пропорционально
+    SELECT jsonb_agg(l || jsonb_build_object('max_amount', round(
+        (l ->> 'share')::DECIMAL * CASE WHEN doc_base > 0 THEN doc_total / doc_base ELSE 0 END, 2
+    ))) INTO lines
+    FROM jsonb_array_elements(lines) AS l;
+
+    IF EXISTS (
+        SELECT 1 FROM jsonb_array_elements(lines) AS l
+        WHERE (l ->> 'amount')::DECIMAL > (l ->> 'max_amount')::DECIMAL
+    ) THEN
+        RAISE EXCEPTION 'Сумма возврата позиции больше ее стоимости' USING ERRCODE = '22023';
+    END IF;
+
+    SELECT sum(coalesce((l ->> 'amount')::DECIMAL, (l ->> 'max_amount')::DECIMAL))
+    INTO return_total
+    FROM jsonb_array_elements(lines) AS l;
+
+    SELECT coalesce(sum(total), 0) INTO returned
+    FROM returns
+    WHERE parts_sale_id = sale_id OR order_id = doc_order_id;
+
+    IF returned + return_total > doc_total THEN
+        RAISE EXCEPTION 'Сумма возвратов (%) больше итога документа (%)', returned + return_total, doc_total
+            USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO returns (parts_sale_id, order_id, warehouse_id, total, reason, created_by)
+    VALUES (
+        sale_id,
+        doc_order_id,
+        coalesce((p_data ->> 'warehouse_id')::UUID, doc_warehouse_id, default_warehouse_id()),
+        return_total,
+        p_data ->> 'reason',
+        p_created_by
+    )
+    RETURNING id INTO new_id;
+
+    INSERT INTO return_items (return_id, parts_sale_item_id, order_item_id, part_id, name, quantity, amount, restock)
+    SELECT
+        new_id,
+        CASE WHEN sale_id IS NOT NULL THEN (l ->> 'source_id')::UUID END,
+        CASE WHEN doc_order_id IS NOT NULL THEN (l ->> 'source_id')::UUID END,
+        (l ->> 'part_id')::UUID,
+        l ->> 'name',
+        (l ->> 'quantity')::DECIMAL,
+        coalesce((l ->> 'amount')::DECIMAL, (l ->> 'max_amount')::DECIMAL),
+        (l ->> 'restock')::BOOLEAN AND (l ->> 'part_id') IS NOT NULL
+    FROM jsonb_array_elements(lines) AS l;
+
+    -- Запчасти из каталога возвращаются на склад возврата
+    INSERT INTO stock_movements (
+        part_id, warehouse_id, type, quantity, unit_cost, parts_sale_id, order_id, return_item_id, created_by
+    )
+    SELECT ri.part_id, r.warehouse_id, 'return', ri.quantity, p.purchase_price,
+           r.parts_sale_id, r.order_id, ri.id, p_created_by
+    FROM return_items ri
+    JOIN returns r ON r.id = ri.return_id
+    JOIN parts p ON p.id = ri.part_id
+    WHERE ri.return_id = new_id AND ri.restock;
+
+    IF jsonb_array_length(coalesce(p_refunds, '[]'::JSONB)) > 0 THEN
+        SELECT sum((refund ->> 'amount')::DECIMAL) INTO refund_sum
+        FROM jsonb_array_elements(p_refunds) AS refund;
+
+        IF refund_sum <> return_total THEN
+            RAISE EXCEPTION 'Сумма возврата денег (%) не совпадает с итогом возврата (%)', refund_sum, return_total
+                USING ERRCODE = '22023';
+        END IF;
+
+        SELECT coalesce(sum(amount), 0) INTO paid
+        FROM payments
+        WHERE parts_sale_id = sale_id OR order_id = doc_order_id;
+
+        IF refund_sum > paid THEN
+            RAISE EXCEPTION 'Нельзя вернуть больше оплаченного (%)', paid USING ERRCODE = '22023';
+        END IF;
+
+        IF EXISTS (
+            SELECT 1 FROM jsonb_array_elements(p_refunds) AS refund
+            WHERE refund ->> 'type' = 'бонусы'
+              AND (doc_client_id IS NULL OR (refund ->> 'amount')::DECIMAL <> trunc((refund ->> 'amount')::DECIMAL))
+        ) THEN
+            RAISE EXCEPTION 'Бонусами возвращается только целая сумма клиенту из базы' USING ERRCODE = '22023';
+        END IF;
+
+        INSERT INTO payments (order_id, parts_sale_id, return_id, amount, type, notes, created_by)
+        SELECT doc_order_id, sale_id, new_id, -(refund ->> 'amount')::DECIMAL, refund ->> 'type',
+               'Возврат', p_created_by
+        FROM jsonb_array_elements(p_refunds) AS refund;
+
+        -- Возврат бонусами зачисляет бонусы обратно на счет клиента
+        INSERT INTO loyalty_transactions (client_id, type, points, order_id, parts_sale_id, payment_id, created_by, notes)
+        SELECT doc_client_id, 'refund', (-p.amount)::INTEGER, p.order_id, p.parts_sale_id, p.id, p_created_by,
+               'Возврат бонусами'
+        FROM payments p
+        WHERE p.return_id = new_id AND p.type = 'бонусы';
+    END IF;
+
+    -- Сторно зарплаты мастеров, которым уже начислено за заказ
+    IF doc_order_id IS NOT NULL THEN
+        INSERT INTO salaries (master_id, order_id, return_id, amount, week_period, notes)
+        SELECT om.master_id, doc_order_id, new_id, -round(return_total * om.percent / 100, 2),
+               date_trunc('week', CURRENT_DATE), 'Сторно за возврат'
+        FROM order_masters om
+        WHERE om.order_id = doc_order_id
+          AND round(return_total * om.percent / 100, 2) > 0
+          AND EXISTS (
+              SELECT 1 FROM salaries s
+              WHERE s.master_id = om.master_id AND s.order_id = doc_order_id AND s.return_id IS NULL
+          );
+    END IF;
+
+    IF doc_client_id IS NOT NULL THEN
+        PERFORM recalculate_client_tier(doc_client_id);
+    END IF;
+
+    RETURN new_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Денежный поток по периодам (day, week, month, year): поступления, возвраты
+-- денег, расходы (начисленная зарплата со сторно и принятые закупки) и итог.
+-- Оплаты бонусами в денежный поток не входят
+CREATE OR REPLACE FUNCTION get_cashflow(
+    p_date_from DATE,
+    p_date_to DATE,
+    p_period TEXT DEFAULT 'day'
+)
+RETURNS TABLE (
+    period_start DATE,
+    revenue DECIMAL,
+    refunds DECIMAL,
+    expenses DECIMAL,
+    profit DECIMAL
+) AS $$
+    WITH periods AS (
+        SELECT generate_series(
+            date_trunc(p_period, p_date_from::TIMESTAMP),
+            p_date_to::TIMESTAMP,
+            ('1 ' || p_period)::INTERVAL
+        )::DATE AS period_start
+    ),
+    money AS (
+        SELECT
+            date_trunc(p_period, created_at)::DATE AS period_start,
+            coalesce(sum(amount) FILTER (WHERE amount > 0), 0) AS revenue,
+            coalesce(-sum(amount) FILTER (WHERE amount < 0), 0) AS refunds
+        FROM payments
+        WHERE type <> 'бонусы'
+          AND created_at >= p_date_from AND created_at < p_date_to + 1
+        GROUP BY 1
+    ),
+    costs AS (
+        SELECT period_start, sum(amount) AS expenses
+        FROM (
+            SELECT date_trunc(p_period, created_at)::DATE AS period_start, amount
+            FROM salaries
+            WHERE created_at >= p_date_from AND created_at < p_date_to + 1
+
+            UNION ALL
+
+            SELECT date_trunc(p_period, created_at)::DATE, round(quantity * coalesce(unit_cost, 0), 2)
+            FROM stock_movements
+            WHERE purchase_order_item_id IS NOT NULL
+              AND created_at >= p_date_from AND created_at < p_date_to + 1
+        ) AS c
+        GROUP BY period_start
+    )
+    SELECT
+        p.period_start,
+        coalesce(m.revenue, 0),
+        coalesce(m.refunds, 0),
+        coalesce(c.expenses, 0),
+        coalesce(m.revenue, 0) - coalesce(m.refunds, 0) - coalesce(c.expenses, 0)
+    FROM periods p
+    LEFT JOIN money m ON m.period_start = p.period_start
+    LEFT JOIN costs c ON c.period_start = p.period_start
+    ORDER BY p.period_start;
+$$ LANGUAGE sql STABLE;
+
+-- RLS для возвратов
+ALTER TABLE returns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE return_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Админ и директор оформляют возвраты" ON returns
+    FOR ALL USING (
+        auth.jwt() ->> 'role' IN ('admin', 'director')
+    );
+
+CREATE POLICY "Админ и директор управляют строками возвратов" ON return_items
+    FOR ALL USING (
+        auth.jwt() ->> 'role' IN ('admin', 'director')
+    );
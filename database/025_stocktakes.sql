@@ -0,0 +1,241 @@
+-- Инвентаризация: пересчет запчастей на складе, расхождения с учетным
+-- остатком и корректировка остатка после утверждения директором
+
+-- Сессия инвентаризации по складу. Полная инвентаризация считает
+-- непересчитанные запчасти отсутствующими, частичная - только пересчитанные
+CREATE TABLE IF NOT EXISTS stocktakes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    warehouse_id UUID NOT NULL REFERENCES warehouses(id) ON DELETE RESTRICT,
+    status VARCHAR(20) NOT NULL DEFAULT 'counting' CHECK (
+        status IN ('counting', 'approved', 'cancelled')
+    ),
+    is_full BOOLEAN NOT NULL DEFAULT false,
+    notes TEXT,
+    created_by UUID REFERENCES masters(id) ON DELETE SET NULL,
+    approved_by UUID REFERENCES masters(id) ON DELETE SET NULL,
+    approved_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- По складу идет не больше одной инвентаризации
+CREATE UNIQUE INDEX IF NOT EXISTS idx_stocktakes_counting
+    ON stocktakes(warehouse_id) WHERE status = 'counting';
+CREATE INDEX IF NOT EXISTS idx_stocktakes_created_at ON stocktakes(created_at);
+
+CREATE TRIGGER update_stocktakes_updated_at
+    BEFORE UPDATE ON stocktakes
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Пересчитанное количество по запчасти и месту хранения (стеллаж, полка).
+-- Учетный остаток ведется по складу, поэтому места суммируются
+CREATE TABLE IF NOT EXISTS stocktake_items (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    stocktake_id UUID NOT NULL REFERENCES stocktakes(id) ON DELETE CASCADE,
+    part_id UUID NOT NULL REFERENCES parts(id) ON DELETE RESTRICT,
+    location VARCHAR(50),
+    counted_quantity DECIMAL(10,2) NOT NULL CHECK (counted_quantity >= 0),
+    counted_by UUID REFERENCES masters(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_stocktake_items_part_location
+    ON stocktake_items(stocktake_id, part_id, coalesce(location, ''));
+CREATE INDEX IF NOT EXISTS idx_stocktake_items_part_id ON stocktake_items(part_id);
+
+CREATE TRIGGER update_stocktake_items_updated_at
+    BEFORE UPDATE ON stocktake_items
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Корректировка по инвентаризации: излишек положительный, недостача отрицательная
+ALTER TABLE stock_movements
+    ADD COLUMN IF NOT EXISTS stocktake_id UUID REFERENCES stocktakes(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_stock_movements_stocktake_id ON stock_movements(stocktake_id);
+
+ALTER TABLE stock_movements DROP CONSTRAINT IF EXISTS stock_movements_type_check;
+ALTER TABLE stock_movements ADD CONSTRAINT stock_movements_type_check CHECK (
+    type IN ('receipt', 'sale', 'write_off', 'order_consumption', 'return', 'adjustment')
+);
+
+ALTER TABLE stock_movements DROP CONSTRAINT IF EXISTS stock_movements_check;
+ALTER TABLE stock_movements ADD CONSTRAINT stock_movements_check CHECK (
+    (type IN ('receipt', 'return') AND quantity > 0)
+    OR (type IN ('sale', 'write_off', 'order_consumption') AND quantity < 0)
+    OR (type = 'adjustment' AND quantity <> 0 AND stocktake_id IS NOT NULL)
+);
+
+-- Пересчет запчастей: повторный ввод по той же запчасти и месту заменяет количество.
+-- p_items: [{part_id, location, counted_quantity}]
+CREATE OR REPLACE FUNCTION save_stocktake_counts(
+    p_stocktake_id UUID,
+    p_items JSONB,
+    p_counted_by UUID
+)
+RETURNS VOID AS $$
+DECLARE
+    current_status VARCHAR(20);
+BEGIN
+    SELECT status INTO current_status FROM stocktakes WHERE id = p_stocktake_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Инвентаризация % не найдена', p_stocktake_id USING ERRCODE = 'P0002';
+    END IF;
+
+    IF current_status <> 'counting' THEN
+        RAISE EXCEPTION 'Инвентаризация уже завершена' USING ERRCODE = '22023';
+    END IF;
+
+    IF (
+        SELECT count(DISTINCT (item ->> 'part_id', coalesce(nullif(trim(item ->> 'location'), ''), '')))
+        FROM jsonb_array_elements(p_items) AS item
+    ) <> jsonb_array_length(p_items) THEN
+        RAISE EXCEPTION 'Запчасть указана дважды для одного места' USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO stocktake_items (stocktake_id, part_id, location, counted_quantity, counted_by)
+    SELECT
+        p_stocktake_id,
+        (item ->> 'part_id')::UUID,
+        nullif(trim(item ->> 'location'), ''),
+        (item ->> 'counted_quantity')::DECIMAL,
+        p_counted_by
+    FROM jsonb_array_elements(p_items) AS item
+    ON CONFLICT (stocktake_id, part_id, coalesce(location, '')) DO UPDATE SET
+        counted_quantity = EXCLUDED.counted_quantity,
+        counted_by = EXCLUDED.counted_by;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Ведомость расхождений. До утверждения учетный остаток - текущий остаток
+-- склада, после - остаток на момент утверждения (пересчитано минус корректировка)
+CREATE OR REPLACE FUNCTION get_stocktake_variance(p_stocktake_id UUID)
+RETURNS TABLE (
+    part_id UUID,
+    part_number VARCHAR,
+    brand VARCHAR,
+    name VARCHAR,
+    unit VARCHAR,
+    locations JSONB,
+    book_quantity DECIMAL,
+    counted_quantity DECIMAL,
+    difference DECIMAL,
+    unit_cost DECIMAL,
+    difference_value DECIMAL
+) AS $$
+    WITH st AS (
+        SELECT * FROM stocktakes WHERE id = p_stocktake_id
+    ),
+    counted AS (
+        SELECT
+            i.part_id,
+            sum(i.counted_quantity) AS quantity,
+            jsonb_agg(
+                jsonb_build_object('location', i.location, 'quantity', i.counted_quantity)
+                ORDER BY i.location NULLS FIRST
+            ) AS locations
+        FROM stocktake_items i
+        WHERE i.stocktake_id = p_stocktake_id
+        GROUP BY i.part_id
+    ),
+    adjusted AS (
+        SELECT m.part_id, sum(m.quantity) AS quantity
+        FROM stock_movements m
+        WHERE m.stocktake_id = p_stocktake_id
+        GROUP BY m.part_id
+    ),
+    book AS (
+        SELECT s.part_id, s.quantity
+        FROM part_stock s
+        JOIN st ON st.warehouse_id = s.warehouse_id
+    ),
+    lines AS (
+        SELECT
+            coalesce(c.part_id, a.part_id, b.part_id) AS part_id,
+            c.locations,
+            CASE
+                WHEN st.status = 'approved' THEN coalesce(c.quantity, 0) - coalesce(a.quantity, 0)
+                ELSE coalesce(b.quantity, 0)
+            END AS book_quantity,
+            coalesce(c.quantity, 0) AS counted_quantity
+        FROM counted c
+        FULL JOIN adjusted a ON a.part_id = c.part_id
+        FULL JOIN book b ON b.part_id = coalesce(c.part_id, a.part_id)
+        CROSS JOIN st
+        WHERE c.part_id IS NOT NULL
+           OR (st.status = 'approved' AND a.part_id IS NOT NULL)
+           OR (st.status <> 'approved' AND st.is_full AND b.quantity <> 0)
+    )
+    SELECT
+        l.part_id,
+        p.part_number,
+        p.brand,
+        p.name,
+        p.unit,
+        coalesce(l.locations, '[]'::JSONB),
+        l.book_quantity,
+        l.counted_quantity,
+        l.counted_quantity - l.book_quantity,
+        p.purchase_price,
+        round((l.counted_quantity - l.book_quantity) * coalesce(p.purchase_price, 0), 2)
+    FROM lines l
+    JOIN parts p ON p.id = l.part_id
+    ORDER BY p.name, p.part_number;
+$$ LANGUAGE sql STABLE;
+
+-- Утверждение инвентаризации: корректировки по каждому расхождению одной транзакцией
+CREATE OR REPLACE FUNCTION approve_stocktake(p_stocktake_id UUID, p_approved_by UUID)
+RETURNS VOID AS $$
+DECLARE
+    target stocktakes%ROWTYPE;
+BEGIN
+    SELECT * INTO target FROM stocktakes WHERE id = p_stocktake_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Инвентаризация % не найдена', p_stocktake_id USING ERRCODE = 'P0002';
+    END IF;
+
+    IF target.status <> 'counting' THEN
+        RAISE EXCEPTION 'Инвентаризация уже завершена' USING ERRCODE = '22023';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM stocktake_items WHERE stocktake_id = p_stocktake_id) THEN
+        RAISE EXCEPTION 'В инвентаризации нет пересчитанных запчастей' USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO stock_movements (part_id, warehouse_id, type, quantity, unit_cost, stocktake_id, notes, created_by)
+    SELECT v.part_id, target.warehouse_id, 'adjustment', v.difference, v.unit_cost, p_stocktake_id,
+           'Инвентаризация', p_approved_by
+    FROM get_stocktake_variance(p_stocktake_id) AS v
+    WHERE v.difference <> 0;
+
+    UPDATE stocktakes SET
+        status = 'approved',
+        approved_by = p_approved_by,
+        approved_at = NOW()
+    WHERE id = p_stocktake_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- RLS для инвентаризации
+ALTER TABLE stocktakes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stocktake_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Все пользователи могут читать инвентаризации" ON stocktakes
+    FOR SELECT USING (true);
+
+CREATE POLICY "Админ и директор управляют инвентаризациями" ON stocktakes
+    FOR ALL USING (
+        auth.jwt() ->> 'role' IN ('admin', 'director')
+    );
+
+CREATE POLICY "Все пользователи могут читать пересчет" ON stocktake_items
+    FOR SELECT USING (true);
+
+CREATE POLICY "Сотрудники могут вносить пересчет" ON stocktake_items
+    FOR ALL USING (
+        auth.jwt() ->> 'role' IN ('master', 'admin', 'director')
+    );
@@ -0,0 +1,190 @@
+-- Минимальный и максимальный остаток запчастей и автозаказ:
+-- запчасти ниже минимума попадают в черновики заказов поставщикам
+
+-- Остатки задаются по запчасти в целом, по всем складам.
+-- supplier_id - основной поставщик для автозаказа
+ALTER TABLE parts
+    ADD COLUMN IF NOT EXISTS min_quantity DECIMAL(10,2) CHECK (min_quantity >= 0),
+    ADD COLUMN IF NOT EXISTS max_quantity DECIMAL(10,2) CHECK (max_quantity >= 0),
+    ADD COLUMN IF NOT EXISTS supplier_id UUID REFERENCES suppliers(id) ON DELETE SET NULL;
+
+ALTER TABLE parts DROP CONSTRAINT IF EXISTS parts_min_max_check;
+ALTER TABLE parts ADD CONSTRAINT parts_min_max_check
+    CHECK (max_quantity IS NULL OR min_quantity IS NULL OR max_quantity >= min_quantity);
+
+CREATE INDEX IF NOT EXISTS idx_parts_min_quantity ON parts(min_quantity) WHERE min_quantity IS NOT NULL;
+
+-- Запчасти, которым нужен заказ. Запчасти открытых заказов списываются
+-- движением order_consumption при добавлении в заказ, поэтому резерв уже
+-- вычтен из остатка (reserved - для справки). Ожидаемый остаток:
+-- остаток + незакрытые заказы поставщикам (включая черновики) - расход
+-- за срок поставки по среднему расходу за p_days дней. Если он ниже
+-- минимума, заказывается количество до максимума (без него - до минимума).
+-- Поставщик: основной, иначе последний, у которого заказывали, иначе
+-- самое дешевое предложение из прайс-листов
+CREATE OR REPLACE FUNCTION get_reorder_suggestions(
+    p_days INTEGER DEFAULT 90,
+    p_default_lead_days INTEGER DEFAULT 7
+)
+RETURNS TABLE (
+    part_id UUID,
+    part_number VARCHAR,
+    brand VARCHAR,
+    name VARCHAR,
+    unit VARCHAR,
+    min_quantity DECIMAL,
+    max_quantity DECIMAL,
+    stock DECIMAL,
+    reserved DECIMAL,
+    on_order DECIMAL,
+    avg_daily_consumption DECIMAL,
+    lead_days INTEGER,
+    projected DECIMAL,
+    order_quantity DECIMAL,
+    supplier_id UUID,
+    supplier_name VARCHAR,
+    unit_cost DECIMAL
+) AS $$
+    WITH stock AS (
+        SELECT s.part_id, sum(s.quantity) AS quantity
+        FROM part_stock s
+        GROUP BY s.part_id
+    ),
+    reserved AS (
+        SELECT oi.part_id, sum(oi.quantity) AS quantity
+        FROM order_items oi
+        JOIN orders o ON o.id = oi.order_id
+        WHERE oi.type = 'part' AND oi.part_id IS NOT NULL
+          AND o.status NOT IN ('выдан', 'закрыт')
+        GROUP BY oi.part_id
+    ),
+    incoming AS (
+        SELECT i.part_id, sum(i.quantity - i.received_quantity) AS quantity
+        FROM purchase_order_items i
+        JOIN purchase_orders po ON po.id = i.purchase_order_id
+        WHERE po.status IN ('draft', 'ordered', 'partially_received')
+        GROUP BY i.part_id
+    ),
+    -- Расход: продажи и расход в заказы за вычетом возвратов по ним
+    consumption AS (
+        SELECT m.part_id, greatest(-sum(m.quantity), 0) / greatest(p_days, 1) AS daily
+        FROM stock_movements m
+        WHERE (m.type IN ('sale', 'order_consumption') OR m.return_item_id IS NOT NULL)
+          AND m.created_at >= NOW() - make_interval(days => greatest(p_days, 1))
+        GROUP BY m.part_id
+    ),
+    candidates AS (
+        SELECT
+            p.*,
+            coalesce(preferred.id, last_po.supplier_id, offer.supplier_id) AS chosen_supplier_id,
+            offer.supplier_id AS offer_supplier_id,
+            offer.price AS offer_price
+        FROM parts p
+        LEFT JOIN suppliers preferred ON preferred.id = p.supplier_id AND preferred.is_active
+        LEFT JOIN LATERAL (
+            SELECT po.supplier_id
+            FROM purchase_order_items i
+            JOIN purchase_orders po ON po.id = i.purchase_order_id
+            JOIN suppliers s ON s.id = po.supplier_id AND s.is_active
+            WHERE i.part_id = p.id AND po.status <> 'cancelled'
+            ORDER BY po.created_at DESC
+            LIMIT 1
+        ) AS last_po ON true
+        LEFT JOIN LATERAL (
+            SELECT o.supplier_id, o.price
+            FROM supplier_offers o
+            JOIN suppliers s ON s.id = o.supplier_id AND s.is_active
+            WHERE o.part_number_key = normalize_part_number(p.part_number)
+              AND (o.brand IS NULL OR p.brand IS NULL OR o.brand = p.brand)
+              AND (o.quantity IS NULL OR o.quantity > 0)
+            ORDER BY o.price
+            LIMIT 1
+        ) AS offer ON true
+        WHERE p.is_active AND p.min_quantity IS NOT NULL
+    ),
+    levels AS (
+        SELECT
+            c.*,
+            coalesce(st.quantity, 0) AS stock_quantity,
+            coalesce(r.quantity, 0) AS reserved_quantity,
+            coalesce(inc.quantity, 0) AS incoming_quantity,
+            round(coalesce(cons.daily, 0), 2) AS daily,
+            coalesce(sup.delivery_days, p_default_lead_days) AS lead,
+            sup.name AS chosen_supplier_name
+        FROM candidates c
+        LEFT JOIN stock st ON st.part_id = c.id
+        LEFT JOIN reserved r ON r.part_id = c.id
+        LEFT JOIN incoming inc ON inc.part_id = c.id
+        LEFT JOIN consumption cons ON cons.part_id = c.id
+        LEFT JOIN suppliers sup ON sup.id = c.chosen_supplier_id
+    ),
+    projected AS (
+        SELECT
+            l.*,
+            l.stock_quantity + l.incoming_quantity - round(l.daily * l.lead, 2) AS expected
+        FROM levels l
+    )
+    SELECT
+        pr.id,
+        pr.part_number,
+        pr.brand,
+        pr.name,
+        pr.unit,
+        pr.min_quantity,
+        pr.max_quantity,
+        pr.stock_quantity,
+        pr.reserved_quantity,
+        pr.incoming_quantity,
+        pr.daily,
+        pr.lead,
+        pr.expected,
+        ceil(greatest(coalesce(pr.max_quantity, pr.min_quantity), pr.min_quantity) - pr.expected),
+        pr.chosen_supplier_id,
+        pr.chosen_supplier_name,
+        CASE
+            WHEN pr.chosen_supplier_id = pr.offer_supplier_id THEN pr.offer_price
+            ELSE pr.purchase_price
+        END
+    FROM projected pr
+    WHERE pr.expected < pr.min_quantity
+    ORDER BY pr.chosen_supplier_name NULLS LAST, pr.name, pr.part_number;
+$$ LANGUAGE sql STABLE;
+
+-- Черновик заказа по каждому поставщику из предложений автозаказа одной транзакцией.
+-- Повторный запуск не дублирует заказы: черновики входят в ожидаемый остаток
+CREATE OR REPLACE FUNCTION create_reorder_purchase_orders(p_created_by UUID DEFAULT NULL)
+RETURNS TABLE (
+    purchase_order_id UUID,
+    supplier_id UUID,
+    items_count INTEGER
+) AS $$
+DECLARE
+    draft RECORD;
+BEGIN
+    FOR draft IN
+        SELECT
+            s.supplier_id AS draft_supplier_id,
+            jsonb_agg(jsonb_build_object(
+                'part_id', s.part_id,
+                'quantity', s.order_quantity,
+                'unit_cost', s.unit_cost
+            )) AS items,
+            count(*)::INTEGER AS lines
+        FROM get_reorder_suggestions() AS s
+        WHERE s.supplier_id IS NOT NULL
+        GROUP BY s.supplier_id
+    LOOP
+        purchase_order_id := create_purchase_order(
+            jsonb_build_object(
+                'supplier_id', draft.draft_supplier_id,
+                'notes', 'Автозаказ: запчасти ниже минимального остатка'
+            ),
+            draft.items,
+            p_created_by
+        );
+        supplier_id := draft.draft_supplier_id;
+        items_count := draft.lines;
+        RETURN NEXT;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql;
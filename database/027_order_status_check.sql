@@ -0,0 +1,98 @@
+-- Проверка исходного статуса заказа под блокировкой строки: переход статуса
+-- проверяется приложением по прочитанному заказу, и если статус успел
+-- измениться, обновление отклоняется как конфликт версий
+DROP FUNCTION IF EXISTS update_order_with_masters(VARCHAR, JSONB, JSONB, UUID, INTEGER, JSONB);
+
+CREATE OR REPLACE FUNCTION update_order_with_masters(
+    p_order_id VARCHAR(10),
+    p_changes JSONB,
+    p_masters JSONB DEFAULT NULL,
+    p_changed_by UUID DEFAULT NULL,
+    p_expected_version INTEGER DEFAULT NULL,
+    p_items JSONB DEFAULT NULL,
+    p_expected_status VARCHAR(20) DEFAULT NULL
+)
+RETURNS VARCHAR(10) AS $$
+DECLARE
+    current_order orders%ROWTYPE;
+    new_status VARCHAR(20);
+    new_client_id UUID;
+BEGIN
+    SELECT * INTO current_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Заказ % не найден', p_order_id USING ERRCODE = 'P0002';
+    END IF;
+
+    IF p_expected_version IS NOT NULL AND p_expected_version <> current_order.version THEN
+        RAISE EXCEPTION 'Заказ % был изменен (версия %, ожидалась %)',
+            p_order_id, current_order.version, p_expected_version
+            USING ERRCODE = '40001';
+    END IF;
+
+    IF p_expected_status IS NOT NULL AND p_expected_status <> current_order.status THEN
+        RAISE EXCEPTION 'Статус заказа % изменен (%, ожидался %)',
+            p_order_id, current_order.status, p_expected_status
+            USING ERRCODE = '40001';
+    END IF;
+
+    p_changes := coalesce(p_changes, '{}'::JSONB);
+    new_status := coalesce(p_changes ->> 'status', current_order.status);
+    new_client_id := CASE WHEN p_changes ? 'client_id'
+        THEN (p_changes ->> 'client_id')::UUID ELSE current_order.client_id END;
+
+    IF p_items IS NOT NULL THEN
+        PERFORM replace_order_items(p_order_id, p_items);
+    ELSE
+        IF p_changes ? 'services' THEN
+            PERFORM replace_order_items(
+                p_order_id, legacy_order_items(p_changes -> 'services', NULL), 'service'
+            );
+        END IF;
+
+        IF p_changes ? 'parts_cost' THEN
+            PERFORM replace_order_items(
+                p_order_id, legacy_order_items(NULL, (p_changes ->> 'parts_cost')::DECIMAL), 'part'
+            );
+        END IF;
+    END IF;
+
+    IF p_items IS NOT NULL OR p_changes ?| ARRAY['services', 'parts_cost', 'client_id'] THEN
+        PERFORM replace_order_items(
+            p_order_id,
+            loyalty_discount_items(
+                new_client_id,
+                order_items_cost(p_order_id, 'service') + order_items_cost(p_order_id, 'part')
+            ),
+            'discount'
+        );
+    END IF;
+
+    UPDATE orders SET
+        client_id = new_client_id,
+        vehicle_id = CASE WHEN p_changes ? 'vehicle_id'
+            THEN (p_changes ->> 'vehicle_id')::UUID ELSE vehicle_id END,
+        mileage = CASE WHEN p_changes ? 'mileage'
+            THEN (p_changes ->> 'mileage')::INTEGER ELSE mileage END,
+        services = order_items_services_json(p_order_id),
+        services_cost = order_items_cost(p_order_id, 'service'),
+        parts_cost = order_items_cost(p_order_id, 'part'),
+        discount = order_items_cost(p_order_id, 'discount'),
+        notes = CASE WHEN p_changes ? 'notes'
+            THEN p_changes ->> 'notes' ELSE notes END,
+        status = new_status,
+        updated_at = NOW()
+    WHERE id = p_order_id;
+
+    IF p_masters IS NOT NULL THEN
+        PERFORM replace_order_masters(p_order_id, p_masters);
+    END IF;
+
+    IF new_status IS DISTINCT FROM current_order.status THEN
+        INSERT INTO order_status_history (order_id, from_status, to_status, changed_by)
+        VALUES (p_order_id, current_order.status, new_status, p_changed_by);
+    END IF;
+
+    RETURN p_order_id;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,120 @@
+-- Обезличивание клиента удаляет и копии его данных вне карточки:
+-- уведомления о плановом обслуживании и строки файлов импорта.
+-- Завершенный импорт хранит только строки с ошибками и дублями (для отчета)
+
+CREATE OR REPLACE FUNCTION anonymize_client(p_client_id UUID, p_performed_by UUID)
+RETURNS VOID AS $$
+DECLARE
+    target_client clients%ROWTYPE;
+BEGIN
+    SELECT * INTO target_client FROM clients WHERE id = p_client_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Клиент % не найден', p_client_id USING ERRCODE = 'P0002';
+    END IF;
+
+    IF target_client.anonymized_at IS NOT NULL THEN
+        RAISE EXCEPTION 'Клиент уже обезличен' USING ERRCODE = '22023';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM orders
+        WHERE client_id = p_client_id AND status NOT IN ('выдан', 'закрыт')
+    ) THEN
+        RAISE EXCEPTION 'У клиента есть незавершенные заказы' USING ERRCODE = '22023';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM appointments
+        WHERE client_id = p_client_id
+          AND status IN ('pending', 'scheduled', 'confirmed', 'arrived')
+          AND ends_at > NOW()
+    ) THEN
+        RAISE EXCEPTION 'У клиента есть предстоящие записи' USING ERRCODE = '22023';
+    END IF;
+
+    UPDATE clients SET
+        name = 'Клиент удален',
+        phone = NULL,
+        car1 = NULL,
+        car2 = NULL,
+        vin = NULL,
+        notes = NULL,
+        anonymized_at = NOW(),
+        anonymized_by = p_performed_by
+    WHERE id = p_client_id;
+
+    UPDATE vehicles SET plate = NULL, vin = NULL, notes = NULL WHERE client_id = p_client_id;
+
+    UPDATE parts_sales SET client_name = NULL, client_phone = NULL WHERE client_id = p_client_id;
+
+    UPDATE appointments SET notes = NULL WHERE client_id = p_client_id;
+
+    -- Уведомления об онлайн-записи содержат имя и телефон
+    DELETE FROM notifications
+    WHERE entity_type = 'appointment'
+      AND entity_id IN (SELECT id::TEXT FROM appointments WHERE client_id = p_client_id);
+
+    DELETE FROM client_notes WHERE client_id = p_client_id;
+
+    -- Уведомления о плановом обслуживании тоже содержат имя и телефон
+    DELETE FROM notifications
+    WHERE entity_type = 'service_reminder'
+      AND entity_id IN (SELECT id::TEXT FROM service_reminders WHERE client_id = p_client_id);
+
+    DELETE FROM service_reminders WHERE client_id = p_client_id;
+
+    -- Строки файлов импорта с телефоном клиента или найденные как его дубли
+    -- удаляются вместе с ошибками и дублями по ним
+    WITH matched AS (
+        SELECT ci.id, (r ->> 'row')::INTEGER AS file_row
+        FROM client_imports ci
+        CROSS JOIN jsonb_array_elements(ci.rows) AS r
+        WHERE target_client.phone IS NOT NULL
+          AND EXISTS (
+              SELECT 1 FROM jsonb_array_elements_text(r -> 'values') AS v
+              WHERE normalize_phone(v) = target_client.phone
+          )
+        UNION
+        SELECT ci.id, (d ->> 'row')::INTEGER
+        FROM client_imports ci
+        CROSS JOIN jsonb_array_elements(ci.duplicates) AS d
+        WHERE d ->> 'client_id' = p_client_id::TEXT
+    ),
+    affected AS (
+        SELECT id, array_agg(file_row) AS file_rows FROM matched GROUP BY id
+    )
+    UPDATE client_imports ci SET
+        rows = (
+            SELECT coalesce(jsonb_agg(r), '[]'::JSONB)
+            FROM jsonb_array_elements(ci.rows) AS r
+            WHERE (r ->> 'row')::INTEGER <> ALL(a.file_rows)
+        ),
+        errors = (
+            SELECT coalesce(jsonb_agg(e), '[]'::JSONB)
+            FROM jsonb_array_elements(ci.errors) AS e
+            WHERE (e ->> 'row')::INTEGER <> ALL(a.file_rows)
+        ),
+        duplicates = (
+            SELECT coalesce(jsonb_agg(d), '[]'::JSONB)
+            FROM jsonb_array_elements(ci.duplicates) AS d
+            WHERE (d ->> 'row')::INTEGER <> ALL(a.file_rows)
+        )
+    FROM affected a
+    WHERE ci.id = a.id;
+
+    DELETE FROM booking_otps WHERE phone = target_client.phone;
+
+    UPDATE client_merges SET source_data = jsonb_build_object('anonymized', true)
+    WHERE target_client_id = p_client_id;
+
+    -- Действующие согласия отзываются, история согласий сохраняется
+    INSERT INTO client_consents (client_id, type, granted, notes, recorded_by)
+    SELECT p_client_id, type, false, 'Отзыв при обезличивании', p_performed_by
+    FROM get_client_consents(p_client_id)
+    WHERE granted;
+
+    INSERT INTO client_data_requests (client_id, type, performed_by)
+    VALUES (p_client_id, 'anonymize', p_performed_by);
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,40 @@
+-- Позиции заказа заменяются целиком с новыми ID, а возврат считает
+-- возвращенное количество по ID позиции. Чтобы уже возвращенную позицию
+-- нельзя было вернуть повторно, позиции с возвратами не заменяются.
+-- Скидка лояльности пересчитывается: ее позиция не возвращается
+
+CREATE OR REPLACE FUNCTION replace_order_items(
+    p_order_id VARCHAR(10),
+    p_items JSONB,
+    p_type VARCHAR DEFAULT NULL
+)
+RETURNS VOID AS $$
+BEGIN
+    IF EXISTS (
+        SELECT 1
+        FROM return_items ri
+        JOIN order_items oi ON oi.id = ri.order_item_id
+        WHERE oi.order_id = p_order_id AND (p_type IS NULL OR oi.type = p_type)
+    ) THEN
+        RAISE EXCEPTION 'По позициям заказа % оформлен возврат, позиции изменить нельзя', p_order_id
+            USING ERRCODE = '22023';
+    END IF;
+
+    DELETE FROM order_items
+    WHERE order_id = p_order_id AND (p_type IS NULL OR type = p_type);
+
+    INSERT INTO order_items (order_id, type, service_id, part_id, name, part_number, quantity, purchase_price, price)
+    SELECT
+        p_order_id,
+        item ->> 'type',
+        (item ->> 'service_id')::UUID,
+        (item ->> 'part_id')::UUID,
+        item ->> 'name',
+        item ->> 'part_number',
+        coalesce((item ->> 'quantity')::DECIMAL, 1),
+        (item ->> 'purchase_price')::DECIMAL,
+        (item ->> 'price')::DECIMAL
+    FROM jsonb_array_elements(coalesce(p_items, '[]'::JSONB)) AS item
+    WHERE p_type IS NULL OR item ->> 'type' = p_type;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,45 @@
+-- Черновики автозаказа строятся с теми же параметрами расчета
+-- (период расхода и срок поставки по умолчанию), что и список предложений,
+-- по которому формируются уведомления
+DROP FUNCTION IF EXISTS create_reorder_purchase_orders(UUID);
+
+CREATE OR REPLACE FUNCTION create_reorder_purchase_orders(
+    p_created_by UUID DEFAULT NULL,
+    p_days INTEGER DEFAULT 90,
+    p_default_lead_days INTEGER DEFAULT 7
+)
+RETURNS TABLE (
+    purchase_order_id UUID,
+    supplier_id UUID,
+    items_count INTEGER
+) AS $$
+DECLARE
+    draft RECORD;
+BEGIN
+    FOR draft IN
+        SELECT
+            s.supplier_id AS draft_supplier_id,
+            jsonb_agg(jsonb_build_object(
+                'part_id', s.part_id,
+                'quantity', s.order_quantity,
+                'unit_cost', s.unit_cost
+            )) AS items,
+            count(*)::INTEGER AS lines
+        FROM get_reorder_suggestions(p_days, p_default_lead_days) AS s
+        WHERE s.supplier_id IS NOT NULL
+        GROUP BY s.supplier_id
+    LOOP
+        purchase_order_id := create_purchase_order(
+            jsonb_build_object(
+                'supplier_id', draft.draft_supplier_id,
+                'notes', 'Автозаказ: запчасти ниже минимального остатка'
+            ),
+            draft.items,
+            p_created_by
+        );
+        supplier_id := draft.draft_supplier_id;
+        items_count := draft.lines;
+        RETURN NEXT;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql;
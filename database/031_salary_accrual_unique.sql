@@ -0,0 +1,32 @@
+-- Начисление зарплаты при выдаче заказа пропускает повтор через
+-- ON CONFLICT (master_id, order_id), но уникального ключа для него не было,
+-- и выдача заказа с мастерами завершалась ошибкой. Сторно за возвраты
+-- (return_id) в ключ не входят: по одному заказу их может быть несколько
+CREATE UNIQUE INDEX IF NOT EXISTS idx_salaries_order_accrual
+    ON salaries(master_id, order_id) WHERE return_id IS NULL;
+
+CREATE OR REPLACE FUNCTION calculate_order_salary()
+RETURNS TRIGGER AS $$
+DECLARE
+    master_record RECORD;
+    salary_amount DECIMAL(10,2);
+    week_start DATE;
+BEGIN
+    -- Если заказ завершен, рассчитываем зарплаты мастерам
+    IF NEW.status IN ('выдан', 'закрыт') AND OLD.status NOT IN ('выдан', 'закрыт') THEN
+        week_start := date_trunc('week', CURRENT_DATE);
+
+        FOR master_record IN
+            SELECT * FROM order_masters WHERE order_id = NEW.id
+        LOOP
+            salary_amount := NEW.total * (master_record.percent / 100);
+
+            INSERT INTO salaries (master_id, order_id, amount, week_period)
+            VALUES (master_record.master_id, NEW.id, salary_amount, week_start)
+            ON CONFLICT (master_id, order_id) WHERE return_id IS NULL DO NOTHING;
+        END LOOP;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,83 @@
+-- Смета не согласуется по выданному или закрытому заказу: ее позиции
+-- заменили бы позиции уже рассчитанного заказа. При согласовании остальные
+-- открытые сметы заказа отклоняются, чтобы их нельзя было согласовать
+-- следом и затереть позиции заказа
+
+CREATE OR REPLACE FUNCTION approve_estimate(
+    p_estimate_id UUID,
+    p_decided_by UUID DEFAULT NULL,
+    p_comment TEXT DEFAULT NULL
+)
+RETURNS VARCHAR(10) AS $$
+DECLARE
+    estimate estimates%ROWTYPE;
+    order_status VARCHAR(20);
+    status_change JSONB := '{}'::JSONB;
+    master_record RECORD;
+BEGIN
+    SELECT * INTO estimate FROM estimates WHERE id = p_estimate_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Смета не найдена' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF estimate.status NOT IN ('draft', 'sent') THEN
+        RAISE EXCEPTION 'Смета уже %', CASE estimate.status
+            WHEN 'approved' THEN 'согласована' ELSE 'отклонена' END
+            USING ERRCODE = '22023';
+    END IF;
+
+    IF estimate.valid_until IS NOT NULL AND estimate.valid_until < CURRENT_DATE THEN
+        RAISE EXCEPTION 'Срок действия сметы истек' USING ERRCODE = '22023';
+    END IF;
+
+    SELECT status INTO order_status FROM orders WHERE id = estimate.order_id FOR UPDATE;
+
+    IF order_status IN ('выдан', 'закрыт') THEN
+        RAISE EXCEPTION 'Заказ уже %, смету нельзя согласовать', order_status
+            USING ERRCODE = '22023';
+    END IF;
+
+    UPDATE estimates SET
+        status = 'approved',
+        decided_at = NOW(),
+        decided_by = p_decided_by,
+        decision_comment = p_comment
+    WHERE id = p_estimate_id;
+
+    -- Остальные открытые сметы заказа заменены согласованной
+    UPDATE estimates SET
+        status = 'rejected',
+        decided_at = NOW(),
+        decided_by = p_decided_by,
+        decision_comment = 'Согласована другая смета'
+    WHERE order_id = estimate.order_id
+        AND id <> p_estimate_id
+        AND status IN ('draft', 'sent');
+
+    IF order_status = 'диагностика'
+        AND EXISTS (SELECT 1 FROM order_masters WHERE order_id = estimate.order_id) THEN
+        status_change := jsonb_build_object('status', 'в_работе');
+    END IF;
+
+    PERFORM update_order_with_masters(
+        estimate.order_id, status_change, NULL, p_decided_by, NULL, estimate.items
+    );
+
+    FOR master_record IN
+        SELECT master_id FROM order_masters WHERE order_id = estimate.order_id
+    LOOP
+        INSERT INTO notifications (user_id, title, message, type, entity_id, entity_type)
+        VALUES (
+            master_record.master_id,
+            'Смета согласована',
+            'Смета по заказу ' || estimate.order_id || ' согласована клиентом',
+            'estimate_approved',
+            estimate.order_id,
+            'order'
+        );
+    END LOOP;
+
+    RETURN estimate.order_id;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,6 @@
+-- Автомобиль, записанный на обслуживание. При переводе записи в заказ
+-- переносится в заказ
+ALTER TABLE appointments
+    ADD COLUMN IF NOT EXISTS vehicle_id UUID REFERENCES vehicles(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_appointments_vehicle_id ON appointments(vehicle_id);
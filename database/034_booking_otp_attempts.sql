@@ -0,0 +1,16 @@
+-- Попытка ввода SMS кода учитывается одним UPDATE до сравнения кода:
+-- параллельные запросы не проверят больше кодов, чем разрешено.
+-- NULL - код использован, истек или попытки закончились
+CREATE OR REPLACE FUNCTION use_booking_otp_attempt(
+    p_otp_id UUID,
+    p_max_attempts INTEGER
+)
+RETURNS BOOLEAN AS $$
+    UPDATE booking_otps
+    SET attempts = attempts + 1
+    WHERE id = p_otp_id
+      AND used_at IS NULL
+      AND expires_at > NOW()
+      AND attempts < p_max_attempts
+    RETURNING true;
+$$ LANGUAGE sql;
@@ -0,0 +1,71 @@
+-- Бонусы за продажу запчастей начислялись при вставке чека, до оплат,
+-- поэтому часть чека, оплаченная бонусами, тоже давала бонусы. Теперь
+-- начисление идет после оплаты чека по сумме без оплаты бонусами, как у заказов.
+-- Уровень клиента по-прежнему пересчитывается при продаже
+DROP TRIGGER IF EXISTS trigger_accrue_parts_sale_loyalty ON parts_sales;
+
+CREATE OR REPLACE FUNCTION recalculate_parts_sale_client_tier()
+RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM recalculate_client_tier(NEW.client_id);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_recalculate_parts_sale_client_tier
+    AFTER INSERT ON parts_sales
+    FOR EACH ROW
+    WHEN (NEW.client_id IS NOT NULL)
+    EXECUTE FUNCTION recalculate_parts_sale_client_tier();
+
+-- Начисление за полностью оплаченный чек. Триггер на оператор: срабатывает
+-- после списаний бонусов по всем строкам оплаты, поэтому начисленные за чек
+-- бонусы нельзя потратить в той же оплате
+CREATE OR REPLACE FUNCTION accrue_parts_sale_loyalty()
+RETURNS TRIGGER AS $$
+DECLARE
+    sale RECORD;
+    paid DECIMAL(10,2);
+    bonus_paid DECIMAL(10,2);
+    tier_percent DECIMAL(5,2);
+    points INTEGER;
+BEGIN
+    FOR sale IN
+        SELECT s.id, s.client_id, s.total, s.seller_id
+        FROM parts_sales s
+        WHERE s.client_id IS NOT NULL
+          AND s.id IN (
+              SELECT parts_sale_id FROM new_payments
+              WHERE parts_sale_id IS NOT NULL AND amount > 0
+          )
+    LOOP
+        SELECT coalesce(sum(amount), 0), coalesce(sum(amount) FILTER (WHERE type = 'бонусы'), 0)
+        INTO paid, bonus_paid
+        FROM payments
+        WHERE parts_sale_id = sale.id AND return_id IS NULL;
+
+        CONTINUE WHEN paid < sale.total;
+
+        SELECT t.points_percent INTO tier_percent
+        FROM clients c
+        JOIN loyalty_tiers t ON t.id = c.loyalty_tier_id
+        WHERE c.id = sale.client_id;
+
+        points := floor(greatest(sale.total - bonus_paid, 0) * coalesce(tier_percent, 0) / 100);
+
+        IF points > 0 THEN
+            INSERT INTO loyalty_transactions (client_id, type, points, parts_sale_id, created_by, notes)
+            VALUES (sale.client_id, 'accrual', points, sale.id, sale.seller_id, 'Начисление за покупку запчастей')
+            ON CONFLICT DO NOTHING;
+        END IF;
+    END LOOP;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_accrue_parts_sale_loyalty
+    AFTER INSERT ON payments
+    REFERENCING NEW TABLE AS new_payments
+    FOR EACH STATEMENT
+    EXECUTE FUNCTION accrue_parts_sale_loyalty();
@@ -0,0 +1,280 @@
+-- Возврат по документу:
+-- - деньги возвращаются теми способами, которыми документ оплачен: сумма
+--   по каждому способу не больше оплаченного им (раньше проверялась только
+--   общая сумма, и оплату бонусами можно было вернуть наличными);
+-- - бонусы, начисленные за заказ или чек, списываются сторно в доле
+--   возвращенной суммы (тип журнала reversal)
+
+ALTER TABLE loyalty_transactions DROP CONSTRAINT IF EXISTS loyalty_transactions_type_check;
+ALTER TABLE loyalty_transactions ADD CONSTRAINT loyalty_transactions_type_check
+    CHECK (type IN ('accrual', 'redemption', 'refund', 'adjustment', 'reversal'));
+
+-- Оформление возврата одной транзакцией.
+-- p_data: {parts_sale_id | order_id, warehouse_id, reason};
+-- p_items: [{item_id, quantity, amount, restock}] - строки продажи или позиции заказа.
+-- Сумма строки по умолчанию - ее доля в итоге документа с учетом скидок.
+-- p_refunds: [{type, amount}] - возврат денег, сумма должна совпасть с итогом
+-- возврата; пустой массив - без возврата денег
+CREATE OR REPLACE FUNCTION create_return(
+    p_data JSONB,
+    p_items JSONB,
+    p_refunds JSONB,
+    p_created_by UUID
+)
+RETURNS UUID AS $$
+DECLARE
+    sale_id UUID := (p_data ->> 'parts_sale_id')::UUID;
+    doc_order_id VARCHAR(10) := p_data ->> 'order_id';
+    doc_total DECIMAL(10,2);
+    doc_base DECIMAL(10,2);
+    doc_client_id UUID;
+    doc_warehouse_id UUID;
+    lines JSONB;
+    return_total DECIMAL(10,2);
+    returned DECIMAL(10,2);
+    paid DECIMAL(10,2);
+    refund_sum DECIMAL(10,2);
+    refund_type TEXT;
+    accrued INTEGER;
+    reversed INTEGER;
+    reversal INTEGER;
+    new_id UUID;
+BEGIN
+    IF jsonb_array_length(coalesce(p_items, '[]'::JSONB)) = 0 THEN
+        RAISE EXCEPTION 'Возврат должен содержать позиции' USING ERRCODE = '22023';
+    END IF;
+
+    IF (SELECT count(DISTINCT item ->> 'item_id') FROM jsonb_array_elements(p_items) AS item)
+        <> jsonb_array_length(p_items) THEN
+        RAISE EXCEPTION 'Позиция указана в возврате дважды' USING ERRCODE = '22023';
+    END IF;
+
+    IF sale_id IS NOT NULL THEN
+        SELECT total, subtotal, client_id, warehouse_id
+        INTO doc_total, doc_base, doc_client_id, doc_warehouse_id
+        FROM parts_sales WHERE id = sale_id FOR UPDATE;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Продажа % не найдена', sale_id USING ERRCODE = 'P0002';
+        END IF;
+
+        SELECT jsonb_agg(jsonb_build_object(
+            'source_id', si.id,
+            'part_id', si.part_id,
+            'name', si.part_name,
+            'quantity', (x.item ->> 'quantity')::DECIMAL,
+            'available', si.quantity - coalesce(r.quantity, 0),
+            'share', si.total * (x.item ->> 'quantity')::DECIMAL / si.quantity,
+            'amount', (x.item ->> 'amount')::DECIMAL,
+            'restock', coalesce((x.item ->> 'restock')::BOOLEAN, true)
+        )) INTO lines
+        FROM jsonb_array_elements(p_items) AS x(item)
+        LEFT JOIN parts_sale_items si
+            ON si.id = (x.item ->> 'item_id')::UUID AND si.parts_sale_id = sale_id
+        LEFT JOIN LATERAL (
+            SELECT sum(ri.quantity) AS quantity FROM return_items ri WHERE ri.parts_sale_item_id = si.id
+        ) AS r ON true;
+    ELSIF doc_order_id IS NOT NULL THEN
+        SELECT total, parts_cost + services_cost, client_id
+        INTO doc_total, doc_base, doc_client_id
+        FROM orders WHERE id = doc_order_id FOR UPDATE;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Заказ % не найден', doc_order_id USING ERRCODE = 'P0002';
+        END IF;
+
+        -- Позиция скидки не возвращается: скидка учтена в доле каждой позиции
+        SELECT jsonb_agg(jsonb_build_object(
+            'source_id', oi.id,
+            'part_id', oi.part_id,
+            'name', oi.name,
+            'quantity', (x.item ->> 'quantity')::DECIMAL,
+            'available', oi.quantity - coalesce(r.quantity, 0),
+            'share', oi.total * (x.item ->> 'quantity')::DECIMAL / oi.quantity,
+            'amount', (x.item ->> 'amount')::DECIMAL,
+            'restock', coalesce((x.item ->> 'restock')::BOOLEAN, true)
+        )) INTO lines
+        FROM jsonb_array_elements(p_items) AS x(item)
+        LEFT JOIN order_items oi
+            ON oi.id = (x.item ->> 'item_id')::UUID AND oi.order_id = doc_order_id AND oi.type <> 'discount'
+        LEFT JOIN LATERAL (
+            SELECT sum(ri.quantity) AS quantity FROM return_items ri WHERE ri.order_item_id = oi.id
+        ) AS r ON true;
+    ELSE
+        RAISE EXCEPTION 'Укажите продажу или заказ для возврата' USING ERRCODE = '22023';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM jsonb_array_elements(lines) AS l WHERE l ->> 'source_id' IS NULL) THEN
+        RAISE EXCEPTION 'Позиция возврата не найдена в документе' USING ERRCODE = '22023';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM jsonb_array_elements(lines) AS l
+        WHERE (l ->> 'quantity')::DECIMAL > (l ->> 'available')::DECIMAL
+    ) THEN
+        RAISE EXCEPTION 'Количество возврата больше проданного' USING ERRCODE = '22023';
+    END IF;
+
+    -- Доля строки в итоге документа: скидка на чек или заказ распределяется пропорционально
+    SELECT jsonb_agg(l || jsonb_build_object('max_amount', round(
+        (l ->> 'share')::DECIMAL * CASE WHEN doc_base > 0 THEN doc_total / doc_base ELSE 0 END, 2
+    ))) INTO lines
+    FROM jsonb_array_elements(lines) AS l;
+
+    IF EXISTS (
+        SELECT 1 FROM jsonb_array_elements(lines) AS l
+        WHERE (l ->> 'amount')::DECIMAL > (l ->> 'max_amount')::DECIMAL
+    ) THEN
+        RAISE EXCEPTION 'Сумма возврата позиции больше ее стоимости' USING ERRCODE = '22023';
+    END IF;
+
+    SELECT sum(coalesce((l ->> 'amount')::DECIMAL, (l ->> 'max_amount')::DECIMAL))
+    INTO return_total
+    FROM jsonb_array_elements(lines) AS l;
+
+    SELECT coalesce(sum(total), 0) INTO returned
+    FROM returns
+    WHERE parts_sale_id = sale_id OR order_id = doc_order_id;
+
+    IF returned + return_total > doc_total THEN
+        RAISE EXCEPTION 'Сумма возвратов (%) больше итога документа (%)', returned + return_total, doc_total
+            USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO returns (parts_sale_id, order_id, warehouse_id, total, reason, created_by)
+    VALUES (
+        sale_id,
+        doc_order_id,
+        coalesce((p_data ->> 'warehouse_id')::UUID, doc_warehouse_id, default_warehouse_id()),
+        return_total,
+        p_data ->> 'reason',
+        p_created_by
+    )
+    RETURNING id INTO new_id;
+
+    INSERT INTO return_items (return_id, parts_sale_item_id, order_item_id, part_id, name, quantity, amount, restock)
+    SELECT
+        new_id,
+        CASE WHEN sale_id IS NOT NULL THEN (l ->> 'source_id')::UUID END,
+        CASE WHEN doc_order_id IS NOT NULL THEN (l ->> 'source_id')::UUID END,
+        (l ->> 'part_id')::UUID,
+        l ->> 'name',
+        (l ->> 'quantity')::DECIMAL,
+        coalesce((l ->> 'amount')::DECIMAL, (l ->> 'max_amount')::DECIMAL),
+        (l ->> 'restock')::BOOLEAN AND (l ->> 'part_id') IS NOT NULL
+    FROM jsonb_array_elements(lines) AS l;
+
+    -- Запчасти из каталога возвращаются на склад возврата
+    INSERT INTO stock_movements (
+        part_id, warehouse_id, type, quantity, unit_cost, parts_sale_id, order_id, return_item_id, created_by
+    )
+    SELECT ri.part_id, r.warehouse_id, 'return', ri.quantity, p.purchase_price,
+           r.parts_sale_id, r.order_id, ri.id, p_created_by
+    FROM return_items ri
+    JOIN returns r ON r.id = ri.return_id
+    JOIN parts p ON p.id = ri.part_id
+    WHERE ri.return_id = new_id AND ri.restock;
+
+    IF jsonb_array_length(coalesce(p_refunds, '[]'::JSONB)) > 0 THEN
+        SELECT sum((refund ->> 'amount')::DECIMAL) INTO refund_sum
+        FROM jsonb_array_elements(p_refunds) AS refund;
+
+        IF refund_sum <> return_total THEN
+            RAISE EXCEPTION 'Сумма возврата денег (%) не совпадает с итогом возврата (%)', refund_sum, return_total
+                USING ERRCODE = '22023';
+        END IF;
+
+        IF EXISTS (
+            SELECT 1 FROM jsonb_array_elements(p_refunds) AS refund
+            WHERE (refund ->> 'amount')::DECIMAL <= 0
+        ) THEN
+            RAISE EXCEPTION 'Сумма возврата денег должна быть больше нуля' USING ERRCODE = '22023';
+        END IF;
+
+        -- Деньги возвращаются тем же способом, которым оплачен документ:
+        -- по каждому способу не больше оплаченного им за вычетом прошлых возвратов
+        SELECT r.type, coalesce(p.amount, 0) INTO refund_type, paid
+        FROM (
+            SELECT refund ->> 'type' AS type, sum((refund ->> 'amount')::DECIMAL) AS amount
+            FROM jsonb_array_elements(p_refunds) AS refund
+            GROUP BY 1
+        ) AS r
+        LEFT JOIN (
+            SELECT type, sum(amount) AS amount
+            FROM payments
+            WHERE parts_sale_id = sale_id OR order_id = doc_order_id
+            GROUP BY type
+        ) AS p ON p.type = r.type
+        WHERE r.amount > coalesce(p.amount, 0)
+        LIMIT 1;
+
+        IF FOUND THEN
+            RAISE EXCEPTION 'Способом "%" оплачено %, вернуть больше нельзя', refund_type, paid
+                USING ERRCODE = '22023';
+        END IF;
+
+        IF EXISTS (
+            SELECT 1 FROM jsonb_array_elements(p_refunds) AS refund
+            WHERE refund ->> 'type' = 'бонусы'
+              AND (doc_client_id IS NULL OR (refund ->> 'amount')::DECIMAL <> trunc((refund ->> 'amount')::DECIMAL))
+        ) THEN
+            RAISE EXCEPTION 'Бонусами возвращается только целая сумма клиенту из базы' USING ERRCODE = '22023';
+        END IF;
+
+        INSERT INTO payments (order_id, parts_sale_id, return_id, amount, type, notes, created_by)
+        SELECT doc_order_id, sale_id, new_id, -(refund ->> 'amount')::DECIMAL, refund ->> 'type',
+               'Возврат', p_created_by
+        FROM jsonb_array_elements(p_refunds) AS refund;
+
+        -- Возврат бонусами зачисляет бонусы обратно на счет клиента
+        INSERT INTO loyalty_transactions (client_id, type, points, order_id, parts_sale_id, payment_id, created_by, notes)
+        SELECT doc_client_id, 'refund', (-p.amount)::INTEGER, p.order_id, p.parts_sale_id, p.id, p_created_by,
+               'Возврат бонусами'
+        FROM payments p
+        WHERE p.return_id = new_id AND p.type = 'бонусы';
+    END IF;
+
+    -- Сторно зарплаты мастеров, которым уже начислено за заказ
+    IF doc_order_id IS NOT NULL THEN
+        INSERT INTO salaries (master_id, order_id, return_id, amount, week_period, notes)
+        SELECT om.master_id, doc_order_id, new_id, -round(return_total * om.percent / 100, 2),
+               date_trunc('week', CURRENT_DATE), 'Сторно за возврат'
+        FROM order_masters om
+        WHERE om.order_id = doc_order_id
+          AND round(return_total * om.percent / 100, 2) > 0
+          AND EXISTS (
+              SELECT 1 FROM salaries s
+              WHERE s.master_id = om.master_id AND s.order_id = doc_order_id AND s.return_id IS NULL
+          );
+    END IF;
+
+    -- Сторно бонусов, начисленных за документ, пропорционально доле возвратов
+    -- в итоге. Считается нарастающим итогом, чтобы округления по нескольким
+    -- возвратам не накапливались; списывается не больше текущего баланса
+    IF doc_client_id IS NOT NULL THEN
+        SELECT
+            coalesce(sum(points) FILTER (WHERE type = 'accrual'), 0),
+            coalesce(-sum(points) FILTER (WHERE type = 'reversal'), 0)
+        INTO accrued, reversed
+        FROM loyalty_transactions
+        WHERE (sale_id IS NOT NULL AND parts_sale_id = sale_id)
+           OR (doc_order_id IS NOT NULL AND order_id = doc_order_id);
+
+        SELECT least(
+            round(accrued * (returned + return_total) / nullif(doc_total, 0))::INTEGER - reversed,
+            bonus_points
+        ) INTO reversal
+        FROM clients WHERE id = doc_client_id FOR UPDATE;
+
+        IF reversal > 0 THEN
+            INSERT INTO loyalty_transactions (client_id, type, points, order_id, parts_sale_id, created_by, notes)
+            VALUES (doc_client_id, 'reversal', -reversal, doc_order_id, sale_id, p_created_by,
+                    'Сторно начисления за возврат');
+        END IF;
+
+        PERFORM recalculate_client_tier(doc_client_id);
+    END IF;
+
+    RETURN new_id;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,134 @@
+-- Расхождение считалось от текущего остатка склада, поэтому продажи и
+-- приемки между пересчетом и утверждением попадали в корректировку и
+-- искажали остаток. Теперь учетный остаток запчасти фиксируется при вводе
+-- пересчета, корректировка - разница пересчета и этого снимка
+ALTER TABLE stocktake_items
+    ADD COLUMN IF NOT EXISTS book_quantity DECIMAL(10,2);
+
+-- Пересчет запчастей: повторный ввод по той же запчасти и месту заменяет количество.
+-- Вместе с количеством сохраняется учетный остаток запчасти на момент ввода.
+-- p_items: [{part_id, location, counted_quantity}]
+CREATE OR REPLACE FUNCTION save_stocktake_counts(
+    p_stocktake_id UUID,
+    p_items JSONB,
+    p_counted_by UUID
+)
+RETURNS VOID AS $$
+DECLARE
+    current_status VARCHAR(20);
+    stocktake_warehouse_id UUID;
+BEGIN
+    SELECT status, warehouse_id INTO current_status, stocktake_warehouse_id
+    FROM stocktakes WHERE id = p_stocktake_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Инвентаризация % не найдена', p_stocktake_id USING ERRCODE = 'P0002';
+    END IF;
+
+    IF current_status <> 'counting' THEN
+        RAISE EXCEPTION 'Инвентаризация уже завершена' USING ERRCODE = '22023';
+    END IF;
+
+    IF (
+        SELECT count(DISTINCT (item ->> 'part_id', coalesce(nullif(trim(item ->> 'location'), ''), '')))
+        FROM jsonb_array_elements(p_items) AS item
+    ) <> jsonb_array_length(p_items) THEN
+        RAISE EXCEPTION 'Запчасть указана дважды для одного места' USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO stocktake_items (stocktake_id, part_id, location, counted_quantity, book_quantity, counted_by)
+    SELECT
+        p_stocktake_id,
+        (item ->> 'part_id')::UUID,
+        nullif(trim(item ->> 'location'), ''),
+        (item ->> 'counted_quantity')::DECIMAL,
+        coalesce(s.quantity, 0),
+        p_counted_by
+    FROM jsonb_array_elements(p_items) AS item
+    LEFT JOIN part_stock s
+        ON s.part_id = (item ->> 'part_id')::UUID AND s.warehouse_id = stocktake_warehouse_id
+    ON CONFLICT (stocktake_id, part_id, coalesce(location, '')) DO UPDATE SET
+        counted_quantity = EXCLUDED.counted_quantity,
+        book_quantity = EXCLUDED.book_quantity,
+        counted_by = EXCLUDED.counted_by;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Ведомость расхождений. До утверждения учетный остаток пересчитанной запчасти -
+-- остаток на момент последнего ввода ее количества, непересчитанной при полной
+-- инвентаризации - текущий остаток склада. После утверждения - остаток на момент
+-- утверждения (пересчитано минус корректировка)
+CREATE OR REPLACE FUNCTION get_stocktake_variance(p_stocktake_id UUID)
+RETURNS TABLE (
+    part_id UUID,
+    part_number VARCHAR,
+    brand VARCHAR,
+    name VARCHAR,
+    unit VARCHAR,
+    locations JSONB,
+    book_quantity DECIMAL,
+    counted_quantity DECIMAL,
+    difference DECIMAL,
+    unit_cost DECIMAL,
+    difference_value DECIMAL
+) AS $$
+    WITH st AS (
+        SELECT * FROM stocktakes WHERE id = p_stocktake_id
+    ),
+    counted AS (
+        SELECT
+            i.part_id,
+            sum(i.counted_quantity) AS quantity,
+            (array_agg(i.book_quantity ORDER BY i.updated_at DESC, i.created_at DESC))[1] AS book_quantity,
+            jsonb_agg(
+                jsonb_build_object('location', i.location, 'quantity', i.counted_quantity)
+                ORDER BY i.location NULLS FIRST
+            ) AS locations
+        FROM stocktake_items i
+        WHERE i.stocktake_id = p_stocktake_id
+        GROUP BY i.part_id
+    ),
+    adjusted AS (
+        SELECT m.part_id, sum(m.quantity) AS quantity
+        FROM stock_movements m
+        WHERE m.stocktake_id = p_stocktake_id
+        GROUP BY m.part_id
+    ),
+    book AS (
+        SELECT s.part_id, s.quantity
+        FROM part_stock s
+        JOIN st ON st.warehouse_id = s.warehouse_id
+    ),
+    lines AS (
+        SELECT
+            coalesce(c.part_id, a.part_id, b.part_id) AS part_id,
+            c.locations,
+            CASE
+                WHEN st.status = 'approved' THEN coalesce(c.quantity, 0) - coalesce(a.quantity, 0)
+                ELSE coalesce(c.book_quantity, b.quantity, 0)
+            END AS book_quantity,
+            coalesce(c.quantity, 0) AS counted_quantity
+        FROM counted c
+        FULL JOIN adjusted a ON a.part_id = c.part_id
+        FULL JOIN book b ON b.part_id = coalesce(c.part_id, a.part_id)
+        CROSS JOIN st
+        WHERE c.part_id IS NOT NULL
+           OR (st.status = 'approved' AND a.part_id IS NOT NULL)
+           OR (st.status <> 'approved' AND st.is_full AND b.quantity <> 0)
+    )
+    SELECT
+        l.part_id,
+        p.part_number,
+        p.brand,
+        p.name,
+        p.unit,
+        coalesce(l.locations, '[]'::JSONB),
+        l.book_quantity,
+        l.counted_quantity,
+        l.counted_quantity - l.book_quantity,
+        p.purchase_price,
+        round((l.counted_quantity - l.book_quantity) * coalesce(p.purchase_price, 0), 2)
+    FROM lines l
+    JOIN parts p ON p.id = l.part_id
+    ORDER BY p.name, p.part_number;
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,54 @@
+-- Автозаказ считал предложения дважды: сервис запрашивал список для
+-- уведомлений, а функция создания черновиков пересчитывала его заново.
+-- Между запросами остатки могли измениться, и уведомления расходились с
+-- созданными заказами. Теперь функция рассчитывает предложения один раз и
+-- возвращает их вместе с созданными черновиками
+DROP FUNCTION IF EXISTS create_reorder_purchase_orders(UUID, INTEGER, INTEGER);
+
+-- Черновик заказа по каждому поставщику из предложений автозаказа одной транзакцией.
+-- Возвращает {suggestions, purchase_orders: [{purchase_order_id, supplier_id, items_count}]}.
+-- Повторный запуск не дублирует заказы: черновики входят в ожидаемый остаток
+CREATE OR REPLACE FUNCTION create_reorder_purchase_orders(
+    p_created_by UUID DEFAULT NULL,
+    p_days INTEGER DEFAULT 90,
+    p_default_lead_days INTEGER DEFAULT 7
+)
+RETURNS JSONB AS $$
+DECLARE
+    suggestions JSONB;
+    purchase_orders JSONB := '[]'::JSONB;
+    draft RECORD;
+BEGIN
+    SELECT coalesce(jsonb_agg(to_jsonb(s)), '[]'::JSONB) INTO suggestions
+    FROM get_reorder_suggestions(p_days, p_default_lead_days) AS s;
+
+    FOR draft IN
+        SELECT
+            s ->> 'supplier_id' AS draft_supplier_id,
+            jsonb_agg(jsonb_build_object(
+                'part_id', s -> 'part_id',
+                'quantity', s -> 'order_quantity',
+                'unit_cost', s -> 'unit_cost'
+            )) AS items,
+            count(*)::INTEGER AS lines
+        FROM jsonb_array_elements(suggestions) AS s
+        WHERE s ->> 'supplier_id' IS NOT NULL
+        GROUP BY s ->> 'supplier_id'
+    LOOP
+        purchase_orders := purchase_orders || jsonb_build_object(
+            'purchase_order_id', create_purchase_order(
+                jsonb_build_object(
+                    'supplier_id', draft.draft_supplier_id,
+                    'notes', 'Автозаказ: запчасти ниже минимального остатка'
+                ),
+                draft.items,
+                p_created_by
+            ),
+            'supplier_id', draft.draft_supplier_id,
+            'items_count', draft.lines
+        );
+    END LOOP;
+
+    RETURN jsonb_build_object('suggestions', suggestions, 'purchase_orders', purchase_orders);
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,45 @@
+-- Сумма покупок клиента не учитывала возвраты, поэтому пересчет уровня в
+-- create_return ничего не менял: после возврата клиент сохранял уровень,
+-- заработанный возвращенными покупками. Теперь сумма выданных и закрытых
+-- заказов и покупок запчастей считается за вычетом возвратов по ним
+CREATE OR REPLACE FUNCTION get_client_totals(p_client_id UUID)
+RETURNS TABLE (
+    lifetime_value DECIMAL,
+    orders_count BIGINT,
+    average_check DECIMAL,
+    parts_total DECIMAL,
+    paid_total DECIMAL,
+    debt_total DECIMAL,
+    last_visit TIMESTAMP WITH TIME ZONE
+) AS $$
+    WITH completed AS (
+        SELECT id, total FROM orders
+        WHERE client_id = p_client_id AND status IN ('выдан', 'закрыт')
+    ),
+    parts AS (
+        SELECT coalesce(sum(total), 0) AS total FROM parts_sales WHERE client_id = p_client_id
+    ),
+    returned AS (
+        SELECT
+            coalesce(sum(r.total) FILTER (WHERE r.order_id IS NOT NULL), 0) AS orders_total,
+            coalesce(sum(r.total) FILTER (WHERE r.parts_sale_id IS NOT NULL), 0) AS parts_total
+        FROM returns r
+        WHERE r.order_id IN (SELECT id FROM completed)
+           OR r.parts_sale_id IN (SELECT id FROM parts_sales WHERE client_id = p_client_id)
+    )
+    SELECT
+        (SELECT coalesce(sum(total), 0) FROM completed) - returned.orders_total
+            + parts.total - returned.parts_total,
+        (SELECT count(*) FROM orders WHERE client_id = p_client_id),
+        (SELECT coalesce(round(avg(total), 2), 0) FROM completed),
+        parts.total - returned.parts_total,
+        (
+            SELECT coalesce(sum(p.amount), 0) FROM payments p
+            WHERE p.order_id IN (SELECT id FROM orders WHERE client_id = p_client_id)
+               OR p.debt_id IN (SELECT id FROM debts WHERE client_id = p_client_id)
+               OR p.parts_sale_id IN (SELECT id FROM parts_sales WHERE client_id = p_client_id)
+        ),
+        (SELECT coalesce(sum(remaining), 0) FROM debts WHERE client_id = p_client_id),
+        (SELECT max(created_at) FROM orders WHERE client_id = p_client_id)
+    FROM parts, returned;
+$$ LANGUAGE sql STABLE;
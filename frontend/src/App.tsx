@@ -10,11 +10,14 @@ const OrdersList = React.lazy(() => import('@/pages/Orders/OrdersList'));
 const OrderForm = React.lazy(() => import('@/pages/Orders/OrderForm'));
 const ClientsList = React.lazy(() => import('@/pages/Clients/ClientsList'));
 const ClientForm = React.lazy(() => import('@/pages/Clients/ClientForm'));
+const ClientTimeline = React.lazy(() => import('@/pages/Clients/ClientTimeline'));
 const PartsSales = React.lazy(() => import('@/pages/PartsSales/PartsSales'));
 const PartsSaleForm = React.lazy(() => import('@/pages/PartsSales/PartsSaleForm'));
 const Salaries = React.lazy(() => import('@/pages/Salaries/Salaries'));
+const AppointmentsCalendar = React.lazy(() => import('@/pages/Appointments/Calendar'));
 const Profile = React.lazy(() => import('@/pages/Profile/Profile'));
 const Login = React.lazy(() => import('@/pages/Auth/Login'));
+const PublicEstimate = React.lazy(() => import('@/pages/PublicEstimate'));
 
 // Создаем React Query клиент
 const queryClient = new QueryClient({
@@ -53,6 +56,12 @@ function App() {
                   >
                     Заказы
                   </a>
+                  <a
+                    href="/appointments"
+                    className="text-gray-700 hover:text-blue-600 px-3 py-2 rounded-md text-sm font-medium"
+                  >
+                    Запись
+                  </a>
                   <a
                     href="/clients"
                     className="text-gray-700 hover:text-blue-600 px-3 py-2 rounded-md text-sm font-medium"
@@ -98,14 +107,17 @@ function App() {
               <Route path="/orders" element={<OrdersList />} />
               <Route path="/orders/new" element={<OrderForm />} />
               <Route path="/orders/:id" element={<OrderForm />} />
+              <Route path="/appointments" element={<AppointmentsCalendar />} />
               <Route path="/clients" element={<ClientsList />} />
               <Route path="/clients/new" element={<ClientForm />} />
               <Route path="/clients/:id" element={<ClientForm />} />
+              <Route path="/clients/:id/timeline" element={<ClientTimeline />} />
               <Route path="/parts-sales" element={<PartsSales />} />
               <Route path="/parts-sales/new" element={<PartsSaleForm />} />
               <Route path="/salaries" element={<Salaries />} />
               <Route path="/profile" element={<Profile />} />
               <Route path="/login" element={<Login />} />
+              <Route path="/estimate/:token" element={<PublicEstimate />} />
             </Routes>
           </main>
         </div>
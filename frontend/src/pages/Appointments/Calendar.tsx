@@ -0,0 +1,280 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { ChevronLeftIcon, ChevronRightIcon } from '@heroicons/react/24/outline';
+
+interface Bay {
+  id: string;
+  name: string;
+}
+
+interface Appointment {
+  id: string;
+  bay_id: string;
+  starts_at: string;
+  ends_at: string;
+  status: 'pending' | 'scheduled' | 'confirmed' | 'arrived' | 'converted' | 'cancelled' | 'no_show';
+  source: 'crm' | 'online';
+  order_id?: string;
+  client?: { name: string; phone?: string; car1?: string };
+  master?: { full_name: string };
+}
+
+// Сетка календаря: с 8:00 до 21:00, 1 час = 64px
+const DAY_START_HOUR = 8;
+const DAY_END_HOUR = 21;
+const HOUR_HEIGHT = 64;
+
+const STATUS_STYLES: Record<Appointment['status'], string> = {
+  pending: 'bg-purple-100 border-purple-500 text-purple-900',
+  scheduled: 'bg-blue-100 border-blue-400 text-blue-900',
+  confirmed: 'bg-green-100 border-green-500 text-green-900',
+  arrived: 'bg-yellow-100 border-yellow-500 text-yellow-900',
+  converted: 'bg-gray-100 border-gray-400 text-gray-700',
+  cancelled: 'bg-red-50 border-red-300 text-red-400 line-through',
+  no_show: 'bg-red-50 border-red-300 text-red-400',
+};
+
+const STATUS_LABELS: Record<Appointment['status'], string> = {
+  pending: 'Заявка с сайта',
+  scheduled: 'Записан',
+  confirmed: 'Подтвержден',
+  arrived: 'Приехал',
+  converted: 'Заказ создан',
+  cancelled: 'Отменен',
+  no_show: 'Не приехал',
+};
+
+const toDateInput = (date: Date) => {
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().split('T')[0]!;
+};
+
+const Calendar: React.FC = () => {
+  const queryClient = useQueryClient();
+  const [date, setDate] = useState(() => toDateInput(new Date()));
+
+  // Посты
+  const { data: bays = [] } = useQuery<Bay[]>({
+    queryKey: ['bays'],
+    queryFn: async () => {
+      const response = await fetch('/api/schedule/bays');
+      if (!response.ok) {
+        throw new Error('Ошибка загрузки постов');
+      }
+      const result = await response.json();
+      return result.data;
+    },
+  });
+
+  // Записи на выбранный день
+  const { data: appointments = [], isLoading, error } = useQuery<Appointment[]>({
+    queryKey: ['appointments', date],
+    queryFn: async () => {
+      const from = new Date(`${date}T00:00:00`);
+      const to = new Date(from.getTime() + 24 * 60 * 60000);
+      const params = new URLSearchParams({
+        date_from: from.toISOString(),
+        date_to: to.toISOString(),
+      });
+      const response = await fetch(`/api/appointments?${params}`);
+      if (!response.ok) {
+        throw new Error('Ошибка загрузки записей');
+      }
+      const result = await response.json();
+      return result.data;
+    },
+    refetchInterval: 60000, // Обновляем раз в минуту
+  });
+
+  // Перевод записи в заказ
+  const convert = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/appointments/${id}/convert`, { method: 'POST' });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error?.message || 'Ошибка создания заказа');
+      }
+      return result.data;
+    },
+    onSuccess: (data) => {
+      toast.success(`Создан заказ ${data.order_id}`);
+      queryClient.invalidateQueries({ queryKey: ['appointments', date] });
+    },
+    onError: (err: Error) => {
+      toast.error(err.message);
+    },
+  });
+
+  // Подтверждение заявки с сайта
+  const confirm = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/appointments/${id}/status`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: 'confirmed' }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error?.message || 'Ошибка подтверждения записи');
+      }
+      return result.data;
+    },
+    onSuccess: () => {
+      toast.success('Запись подтверждена');
+      queryClient.invalidateQueries({ queryKey: ['appointments', date] });
+    },
+    onError: (err: Error) => {
+      toast.error(err.message);
+    },
+  });
+
+  const shiftDate = (days: number) => {
+    const next = new Date(`${date}T00:00:00`);
+    next.setDate(next.getDate() + days);
+    setDate(toDateInput(next));
+  };
+
+  const formatTime = (value: string) => {
+    return new Date(value).toLocaleTimeString('ru-RU', { hour: '2-digit', minute: '2-digit' });
+  };
+
+  // Положение карточки записи в колонке поста
+  const getPosition = (appointment: Appointment) => {
+    const start = new Date(appointment.starts_at);
+    const end = new Date(appointment.ends_at);
+    const startMinutes = (start.getHours() - DAY_START_HOUR) * 60 + start.getMinutes();
+    const duration = (end.getTime() - start.getTime()) / 60000;
+    return {
+      top: Math.max(0, (startMinutes / 60) * HOUR_HEIGHT),
+      height: Math.max(24, (duration / 60) * HOUR_HEIGHT),
+    };
+  };
+
+  const hours = Array.from({ length: DAY_END_HOUR - DAY_START_HOUR }, (_, i) => DAY_START_HOUR + i);
+
+  if (error) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-red-600 text-center">
+          <p>Ошибка загрузки записей</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow p-6">
+        {/* Заголовок и выбор дня */}
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-2xl font-bold text-gray-900">
+            Запись
+          </h1>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => shiftDate(-1)}
+              className="p-2 rounded-md text-gray-700 hover:bg-gray-100"
+            >
+              <ChevronLeftIcon className="h-5 w-5" />
+            </button>
+            <input
+              type="date"
+              value={date}
+              onChange={(e) => e.target.value && setDate(e.target.value)}
+              className="border border-gray-300 rounded-md px-3 py-1 text-sm"
+            />
+            <button
+              onClick={() => shiftDate(1)}
+              className="p-2 rounded-md text-gray-700 hover:bg-gray-100"
+            >
+              <ChevronRightIcon className="h-5 w-5" />
+            </button>
+            <button
+              onClick={() => setDate(toDateInput(new Date()))}
+              className="px-3 py-1 rounded-md text-sm text-blue-600 hover:bg-blue-50"
+            >
+              Сегодня
+            </button>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+          </div>
+        ) : (
+          <div className="flex overflow-x-auto">
+            {/* Шкала времени */}
+            <div className="w-14 flex-shrink-0 pt-8">
+              {hours.map((hour) => (
+                <div key={hour} style={{ height: HOUR_HEIGHT }} className="text-xs text-gray-500 text-right pr-2">
+                  {`${hour}:00`}
+                </div>
+              ))}
+            </div>
+
+            {/* Колонки постов */}
+            {bays.map((bay) => (
+              <div key={bay.id} className="flex-1 min-w-[180px] border-l border-gray-200">
+                <div className="h-8 text-sm font-semibold text-gray-900 text-center">
+                  {bay.name}
+                </div>
+                <div className="relative" style={{ height: hours.length * HOUR_HEIGHT }}>
+                  {hours.map((hour) => (
+                    <div
+                      key={hour}
+                      style={{ top: (hour - DAY_START_HOUR) * HOUR_HEIGHT, height: HOUR_HEIGHT }}
+                      className="absolute inset-x-0 border-t border-gray-100"
+                    />
+                  ))}
+
+                  {appointments
+                    .filter((appointment) => appointment.bay_id === bay.id)
+                    .map((appointment) => (
+                      <div
+                        key={appointment.id}
+                        style={getPosition(appointment)}
+                        className={`absolute inset-x-1 rounded-md border-l-4 p-2 text-xs overflow-hidden ${STATUS_STYLES[appointment.status]}`}
+                      >
+                        <p className="font-semibold">
+                          {formatTime(appointment.starts_at)}–{formatTime(appointment.ends_at)} {appointment.client?.name}
+                        </p>
+                        <p>
+                          {appointment.client?.car1}
+                          {appointment.master ? ` · ${appointment.master.full_name}` : ''}
+                        </p>
+                        <p>
+                          {appointment.order_id ? `Заказ ${appointment.order_id}` : STATUS_LABELS[appointment.status]}
+                        </p>
+                        {appointment.status === 'pending' && (
+                          <button
+                            onClick={() => confirm.mutate(appointment.id)}
+                            disabled={confirm.isPending}
+                            className="mt-1 mr-2 text-purple-700 hover:underline disabled:opacity-50"
+                          >
+                            Подтвердить
+                          </button>
+                        )}
+                        {['scheduled', 'confirmed', 'arrived'].includes(appointment.status) && (
+                          <button
+                            onClick={() => convert.mutate(appointment.id)}
+                            disabled={convert.isPending}
+                            className="mt-1 text-blue-600 hover:underline disabled:opacity-50"
+                          >
+                            В заказ
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Calendar;
@@ -0,0 +1,398 @@
+import React, { useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import {
+  ClipboardDocumentListIcon,
+  BanknotesIcon,
+  ExclamationTriangleIcon,
+  WrenchScrewdriverIcon,
+  PhoneIcon,
+  ChatBubbleLeftIcon,
+  TrashIcon,
+} from '@heroicons/react/24/outline';
+
+type EventType = 'order' | 'payment' | 'debt' | 'parts_sale' | 'note';
+
+interface TimelineEvent {
+  type: EventType;
+  id: string;
+  occurred_at: string;
+  title: string;
+  amount?: number;
+  status?: string;
+  order_id?: string;
+  details: {
+    vehicle?: { make: string; model?: string; plate?: string };
+    mileage?: number;
+    remaining?: number;
+    quantity?: number;
+    author?: string;
+    notes?: string;
+  };
+}
+
+interface ClientTimeline {
+  client: { id: string; name: string; phone?: string };
+  totals: {
+    lifetime_value: number;
+    orders_count: number;
+    average_check: number;
+    parts_total: number;
+    paid_total: number;
+    debt_total: number;
+    last_visit?: string;
+  };
+  events: TimelineEvent[];
+}
+
+const EVENT_TYPES: Array<{ type: EventType; label: string }> = [
+  { type: 'order', label: 'Заказы' },
+  { type: 'payment', label: 'Оплаты' },
+  { type: 'debt', label: 'Долги' },
+  { type: 'parts_sale', label: 'Запчасти' },
+  { type: 'note', label: 'Заметки' },
+];
+
+const EVENT_STYLES: Record<EventType, string> = {
+  order: 'bg-blue-100 text-blue-600',
+  payment: 'bg-green-100 text-green-600',
+  debt: 'bg-red-100 text-red-600',
+  parts_sale: 'bg-yellow-100 text-yellow-700',
+  note: 'bg-gray-100 text-gray-600',
+};
+
+const EventIcon: React.FC<{ event: TimelineEvent }> = ({ event }) => {
+  const className = 'h-5 w-5';
+  switch (event.type) {
+    case 'order':
+      return <ClipboardDocumentListIcon className={className} />;
+    case 'payment':
+      return <BanknotesIcon className={className} />;
+    case 'debt':
+      return <ExclamationTriangleIcon className={className} />;
+    case 'parts_sale':
+      return <WrenchScrewdriverIcon className={className} />;
+    default:
+      return event.status === 'call'
+        ? <PhoneIcon className={className} />
+        : <ChatBubbleLeftIcon className={className} />;
+  }
+};
+
+const ClientTimelinePage: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const queryClient = useQueryClient();
+  const [types, setTypes] = useState<EventType[]>([]);
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
+  const [noteType, setNoteType] = useState<'call' | 'note'>('call');
+  const [noteText, setNoteText] = useState('');
+
+  // История клиента с итогами
+  const { data: timeline, isLoading, error } = useQuery<ClientTimeline>({
+    queryKey: ['client-timeline', id, types, dateFrom, dateTo],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (types.length > 0) {
+        params.set('types', types.join(','));
+      }
+      if (dateFrom) {
+        params.set('date_from', new Date(`${dateFrom}T00:00:00`).toISOString());
+      }
+      if (dateTo) {
+        // Конец периода включительно
+        const end = new Date(`${dateTo}T00:00:00`);
+        end.setDate(end.getDate() + 1);
+        params.set('date_to', end.toISOString());
+      }
+      const response = await fetch(`/api/clients/${id}/timeline?${params}`);
+      if (!response.ok) {
+        throw new Error('Ошибка загрузки истории клиента');
+      }
+      const result = await response.json();
+      return result.data;
+    },
+    // При смене фильтров показываем прежний список до загрузки нового
+    placeholderData: keepPreviousData,
+  });
+
+  // Добавление заметки о звонке
+  const addNote = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/clients/${id}/notes`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ type: noteType, text: noteText }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error?.message || 'Ошибка добавления заметки');
+      }
+      return result.data;
+    },
+    onSuccess: () => {
+      setNoteText('');
+      queryClient.invalidateQueries({ queryKey: ['client-timeline', id] });
+    },
+    onError: (err: Error) => {
+      toast.error(err.message);
+    },
+  });
+
+  const deleteNote = useMutation({
+    mutationFn: async (noteId: string) => {
+      const response = await fetch(`/api/clients/${id}/notes/${noteId}`, { method: 'DELETE' });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error?.message || 'Ошибка удаления заметки');
+      }
+      return result.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['client-timeline', id] });
+    },
+    onError: (err: Error) => {
+      toast.error(err.message);
+    },
+  });
+
+  const toggleType = (type: EventType) => {
+    setTypes((current) =>
+      current.includes(type) ? current.filter((item) => item !== type) : [...current, type]
+    );
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('ru-RU', {
+      style: 'currency',
+      currency: 'RUB',
+      minimumFractionDigits: 0,
+    }).format(amount);
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('ru-RU', {
+      day: 'numeric',
+      month: 'long',
+      year: 'numeric',
+    });
+  };
+
+  const formatTime = (dateString: string) => {
+    return new Date(dateString).toLocaleTimeString('ru-RU', { hour: '2-digit', minute: '2-digit' });
+  };
+
+  // Подпись под заголовком события
+  const describe = (event: TimelineEvent) => {
+    const { details } = event;
+    switch (event.type) {
+      case 'order':
+        return [
+          details.vehicle && [details.vehicle.make, details.vehicle.model, details.vehicle.plate].filter(Boolean).join(' '),
+          details.mileage && `${details.mileage.toLocaleString('ru-RU')} км`,
+          event.status,
+        ].filter(Boolean).join(' · ');
+      case 'payment':
+        return [event.status, details.notes].filter(Boolean).join(' · ');
+      case 'debt':
+        return details.remaining ? `Остаток ${formatCurrency(details.remaining)}` : 'Погашен';
+      case 'parts_sale':
+        return details.quantity ? `${details.quantity} шт.` : '';
+      default:
+        return [event.status === 'call' ? 'Звонок' : 'Заметка', details.author].filter(Boolean).join(' · ');
+    }
+  };
+
+  // События по дням, от новых к старым
+  const days = (timeline?.events || []).reduce<Array<{ day: string; events: TimelineEvent[] }>>(
+    (groups, event) => {
+      const day = formatDate(event.occurred_at);
+      const last = groups[groups.length - 1];
+      if (last && last.day === day) {
+        last.events.push(event);
+      } else {
+        groups.push({ day, events: [event] });
+      }
+      return groups;
+    },
+    []
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (error || !timeline) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-red-600 text-center">
+          <p>Ошибка загрузки истории клиента</p>
+        </div>
+      </div>
+    );
+  }
+
+  const { client, totals } = timeline;
+
+  return (
+    <div className="space-y-6">
+      {/* Клиент и итоги */}
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">{client.name}</h1>
+            {client.phone && <p className="text-gray-600">{client.phone}</p>}
+          </div>
+          <Link to={`/clients/${client.id}`} className="text-sm text-blue-600 hover:underline">
+            Карточка клиента
+          </Link>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div>
+            <p className="text-sm text-gray-500">Выручка за все время</p>
+            <p className="text-xl font-semibold text-gray-900">{formatCurrency(totals.lifetime_value)}</p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-500">Средний чек</p>
+            <p className="text-xl font-semibold text-gray-900">{formatCurrency(totals.average_check)}</p>
+            <p className="text-xs text-gray-500">{`Заказов: ${totals.orders_count}`}</p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-500">Последний визит</p>
+            <p className="text-xl font-semibold text-gray-900">
+              {totals.last_visit ? formatDate(totals.last_visit) : '—'}
+            </p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-500">Долг</p>
+            <p className={`text-xl font-semibold ${totals.debt_total > 0 ? 'text-red-600' : 'text-gray-900'}`}>
+              {formatCurrency(totals.debt_total)}
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {/* Новая заметка */}
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="flex items-start space-x-2">
+          <select
+            value={noteType}
+            onChange={(e) => setNoteType(e.target.value as 'call' | 'note')}
+            className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+          >
+            <option value="call">Звонок</option>
+            <option value="note">Заметка</option>
+          </select>
+          <textarea
+            value={noteText}
+            onChange={(e) => setNoteText(e.target.value)}
+            rows={2}
+            placeholder="Например: напомнили о замене масла, перезвонит в пятницу"
+            className="flex-1 border border-gray-300 rounded-md px-3 py-2 text-sm"
+          />
+          <button
+            onClick={() => addNote.mutate()}
+            disabled={!noteText.trim() || addNote.isPending}
+            className="px-4 py-2 rounded-md bg-blue-600 text-white text-sm hover:bg-blue-700 disabled:opacity-50"
+          >
+            Добавить
+          </button>
+        </div>
+      </div>
+
+      {/* Фильтры и хронология */}
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="flex flex-wrap items-center gap-2 mb-6">
+          {EVENT_TYPES.map(({ type, label }) => (
+            <button
+              key={type}
+              onClick={() => toggleType(type)}
+              className={`px-3 py-1 rounded-full text-sm border ${
+                types.includes(type)
+                  ? 'bg-blue-600 border-blue-600 text-white'
+                  : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+          <div className="flex items-center space-x-2 ml-auto">
+            <input
+              type="date"
+              value={dateFrom}
+              onChange={(e) => setDateFrom(e.target.value)}
+              className="border border-gray-300 rounded-md px-3 py-1 text-sm"
+            />
+            <span className="text-gray-500">—</span>
+            <input
+              type="date"
+              value={dateTo}
+              onChange={(e) => setDateTo(e.target.value)}
+              className="border border-gray-300 rounded-md px-3 py-1 text-sm"
+            />
+          </div>
+        </div>
+
+        {days.length === 0 ? (
+          <p className="text-center text-gray-500 py-8">Событий нет</p>
+        ) : (
+          <div className="space-y-6">
+            {days.map(({ day, events }) => (
+              <div key={day}>
+                <h2 className="text-sm font-semibold text-gray-500 mb-3">{day}</h2>
+                <ul className="space-y-3">
+                  {events.map((event) => (
+                    <li key={`${event.type}-${event.id}`} className="flex items-start space-x-3">
+                      <div className={`p-2 rounded-full ${EVENT_STYLES[event.type]}`}>
+                        <EventIcon event={event} />
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center justify-between">
+                          <p className="text-sm font-medium text-gray-900">
+                            {event.type === 'order' ? (
+                              <Link to={`/orders/${event.id}`} className="hover:underline">
+                                {event.title}
+                              </Link>
+                            ) : (
+                              event.title
+                            )}
+                          </p>
+                          <div className="flex items-center space-x-3">
+                            {event.amount !== undefined && event.amount !== null && (
+                              <span className="text-sm font-semibold text-gray-900">
+                                {formatCurrency(event.amount)}
+                              </span>
+                            )}
+                            <span className="text-xs text-gray-500">{formatTime(event.occurred_at)}</span>
+                            {event.type === 'note' && (
+                              <button
+                                onClick={() => deleteNote.mutate(event.id)}
+                                disabled={deleteNote.isPending}
+                                className="text-gray-400 hover:text-red-600 disabled:opacity-50"
+                              >
+                                <TrashIcon className="h-4 w-4" />
+                              </button>
+                            )}
+                          </div>
+                        </div>
+                        <p className="text-xs text-gray-500">{describe(event)}</p>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ClientTimelinePage;
@@ -0,0 +1,188 @@
+import React, { useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+
+interface PublicEstimate {
+  id: string;
+  order_id: string;
+  status: 'sent' | 'approved' | 'rejected';
+  items: Array<{
+    type: 'service' | 'part';
+    name: string;
+    part_number?: string;
+    quantity: number;
+    price: number;
+  }>;
+  total: number;
+  valid_until?: string;
+  expired: boolean;
+  order?: {
+    client?: {
+      name: string;
+      car1?: string;
+    };
+  };
+}
+
+const PublicEstimatePage: React.FC = () => {
+  const { token } = useParams<{ token: string }>();
+  const queryClient = useQueryClient();
+  const [comment, setComment] = useState('');
+
+  // Смета по публичной ссылке, без авторизации
+  const { data: estimate, isLoading, error } = useQuery<PublicEstimate>({
+    queryKey: ['public-estimate', token],
+    queryFn: async () => {
+      const response = await fetch(`/api/public/estimates/${token}`);
+      if (!response.ok) {
+        throw new Error('Смета не найдена');
+      }
+      const result = await response.json();
+      return result.data;
+    },
+  });
+
+  // Решение клиента по смете
+  const decision = useMutation({
+    mutationFn: async (action: 'approve' | 'reject') => {
+      const response = await fetch(`/api/public/estimates/${token}/${action}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(comment ? { comment } : {}),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Ошибка отправки решения');
+      }
+      return result.data;
+    },
+    onSuccess: (data) => {
+      toast.success(data.message);
+      queryClient.invalidateQueries({ queryKey: ['public-estimate', token] });
+    },
+    onError: (err: Error) => {
+      toast.error(err.message);
+    },
+  });
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('ru-RU', {
+      style: 'currency',
+      currency: 'RUB',
+      minimumFractionDigits: 0,
+    }).format(amount);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (error || !estimate) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-red-600 text-center">
+          <p>Смета не найдена или ссылка устарела</p>
+        </div>
+      </div>
+    );
+  }
+
+  const canDecide = estimate.status === 'sent' && !estimate.expired;
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      <div className="bg-white rounded-lg shadow p-6">
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">
+          Смета по заказу {estimate.order_id}
+        </h1>
+        {estimate.order?.client && (
+          <p className="text-sm text-gray-600 mb-6">
+            {estimate.order.client.name}
+            {estimate.order.client.car1 ? `, ${estimate.order.client.car1}` : ''}
+          </p>
+        )}
+
+        {/* Позиции сметы */}
+        <div className="space-y-3 mb-6">
+          {estimate.items.map((item, index) => (
+            <div key={index} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+              <div>
+                <p className="font-semibold text-gray-900">
+                  {item.name}
+                </p>
+                <p className="text-sm text-gray-600">
+                  {item.type === 'service' ? 'Работа' : 'Запчасть'}
+                  {item.part_number ? ` · ${item.part_number}` : ''}
+                  {` · ${item.quantity} × ${formatCurrency(item.price)}`}
+                </p>
+              </div>
+              <p className="text-lg font-bold text-gray-900">
+                {formatCurrency(item.quantity * item.price)}
+              </p>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between border-t border-gray-200 pt-4">
+          <p className="text-lg font-semibold text-gray-900">Итого</p>
+          <p className="text-2xl font-bold text-blue-600">
+            {formatCurrency(estimate.total)}
+          </p>
+        </div>
+
+        {estimate.valid_until && (
+          <p className="text-xs text-gray-500 mt-2">
+            Смета действует до {new Date(estimate.valid_until).toLocaleDateString('ru-RU')}
+          </p>
+        )}
+      </div>
+
+      {/* Решение клиента */}
+      <div className="bg-white rounded-lg shadow p-6">
+        {estimate.status === 'approved' && (
+          <p className="text-green-600 font-semibold">Смета согласована</p>
+        )}
+        {estimate.status === 'rejected' && (
+          <p className="text-red-600 font-semibold">Смета отклонена</p>
+        )}
+        {estimate.status === 'sent' && estimate.expired && (
+          <p className="text-gray-600">Срок действия сметы истек, свяжитесь с сервисом</p>
+        )}
+        {canDecide && (
+          <div className="space-y-4">
+            <textarea
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              placeholder="Комментарий (необязательно)"
+              className="w-full border border-gray-300 rounded-md p-3 text-sm"
+              rows={3}
+            />
+            <div className="flex gap-4">
+              <button
+                onClick={() => decision.mutate('approve')}
+                disabled={decision.isPending}
+                className="flex-1 bg-green-600 hover:bg-green-700 text-white font-medium py-2 px-4 rounded-md disabled:opacity-50"
+              >
+                Согласовать
+              </button>
+              <button
+                onClick={() => decision.mutate('reject')}
+                disabled={decision.isPending}
+                className="flex-1 bg-gray-100 hover:bg-gray-200 text-gray-700 font-medium py-2 px-4 rounded-md disabled:opacity-50"
+              >
+                Отклонить
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PublicEstimatePage;